@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnswerCache, AnswerCacheKeyParts } from '../services/ai/AnswerCache';
+
+const HOUR = 60 * 60 * 1000;
+const config = { enabled: true, ttlMs: 24 * HOUR, maxEntries: 3, refresh: false };
+
+const parts = (question: string, overrides: Partial<AnswerCacheKeyParts> = {}): AnswerCacheKeyParts => ({
+  question,
+  modeKey: 'interview',
+  collectionId: 'col-1',
+  language: 'ja',
+  context: '[["qna-1","弊社を志望した理由は…"]]',
+  ...overrides,
+});
+
+describe('AnswerCache', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'answer-cache-'));
+    filePath = path.join(dir, 'answer-cache.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches a stock question across width, spacing and trailing punctuation', () => {
+    const cache = new AnswerCache(config, filePath);
+    cache.set(parts('志望動機を教えてください？'), { answer: '御社の〇〇に惹かれました' });
+
+    expect(cache.get(parts('志望動機を教えてください'))?.answer).toBe('御社の〇〇に惹かれました');
+    expect(AnswerCache.key(parts('ＡＷＳの経験は？'))).toBe(AnswerCache.key(parts('AWSの経験は')));
+  });
+
+  it('misses when the mode, collection or retrieved context differ', () => {
+    const cache = new AnswerCache(config, filePath);
+    cache.set(parts('自己紹介をお願いします'), { answer: '回答' });
+
+    expect(cache.get(parts('自己紹介をお願いします', { modeKey: 'meeting' }))).toBeNull();
+    expect(cache.get(parts('自己紹介をお願いします', { collectionId: 'col-2' }))).toBeNull();
+    expect(cache.get(parts('自己紹介をお願いします', { context: '[]' }))).toBeNull();
+  });
+
+  it('expires entries after the TTL and evicts the oldest beyond maxEntries', () => {
+    const cache = new AnswerCache(config, filePath);
+    const start = Date.now();
+    cache.set(parts('質問1'), { answer: '1' }, start);
+    expect(cache.get(parts('質問1'), start + 25 * HOUR)).toBeNull();
+
+    for (let i = 2; i <= 5; i++) {
+      cache.set(parts(`質問${i}`), { answer: String(i) }, start + i);
+    }
+    expect(cache.get(parts('質問2'), start + 10)).toBeNull();
+    expect(cache.getStats(start + 10)).toMatchObject({ entries: 3, oldestAt: start + 3 });
+  });
+
+  it('persists to disk and purges by collection', () => {
+    const cache = new AnswerCache(config, filePath);
+    cache.set(parts('強みは何ですか'), { answer: '粘り強さ' });
+    cache.set(parts('弱みは何ですか', { collectionId: 'col-2' }), { answer: '心配性' });
+
+    const reloaded = new AnswerCache(config, filePath);
+    expect(reloaded.get(parts('強みは何ですか'))?.answer).toBe('粘り強さ');
+
+    expect(reloaded.purge('col-1')).toBe(1);
+    expect(new AnswerCache(config, filePath).getStats().entries).toBe(1);
+  });
+
+  it('neither serves nor stores when disabled', () => {
+    const cache = new AnswerCache({ ...config, enabled: false }, filePath);
+    cache.set(parts('質問'), { answer: '回答' });
+
+    expect(cache.get(parts('質問'))).toBeNull();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
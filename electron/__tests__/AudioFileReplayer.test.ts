@@ -0,0 +1,90 @@
+import { AudioFileReplayer } from '../audio/AudioFileReplayer';
+import { createWavBuffer, parseWavBuffer, toMonoPcm } from '../audio/PcmUtils';
+
+const pcm = (samples: number[]): Buffer => {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+};
+
+const samples = (buffer: Buffer): number[] =>
+  Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+
+describe('WAV decoding', () => {
+  it('round-trips a buffer written by createWavBuffer', () => {
+    const decoded = parseWavBuffer(createWavBuffer(pcm([1, -2, 3, -4]), 16000));
+
+    expect(decoded.sampleRate).toBe(16000);
+    expect(decoded.channels).toBe(1);
+    expect(samples(decoded.pcm)).toEqual([1, -2, 3, -4]);
+  });
+
+  it('skips chunks between fmt and data', () => {
+    const wav = createWavBuffer(pcm([7, 8]), 16000);
+    const list = Buffer.concat([Buffer.from('LIST', 'ascii'), Buffer.from([3, 0, 0, 0]), Buffer.from([1, 2, 3, 0])]);
+    const withList = Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)]);
+
+    expect(samples(parseWavBuffer(withList).pcm)).toEqual([7, 8]);
+  });
+
+  it('rejects files that are not 16-bit PCM WAV', () => {
+    expect(() => parseWavBuffer(Buffer.from('not a wav file at all'))).toThrow('Not a RIFF/WAVE file');
+
+    const float = createWavBuffer(pcm([0, 0]), 16000);
+    float.writeUInt16LE(3, 20);
+    expect(() => parseWavBuffer(float)).toThrow('Unsupported WAV encoding');
+  });
+
+  it('downmixes stereo and resamples to the pipeline rate', () => {
+    // 32kHz stereo: left/right pairs averaged, then every other frame kept
+    const stereo = pcm([100, 300, 1000, 1000, 200, 400, 2000, 2000]);
+
+    expect(samples(toMonoPcm(stereo, 32000, 2, 16000))).toEqual([200, 300]);
+  });
+});
+
+describe('AudioFileReplayer', () => {
+  // Pacing is driven by setTimeout/setImmediate; the shared setup fakes them
+  beforeEach(() => jest.useRealTimers());
+  afterEach(() => jest.useFakeTimers());
+
+  it('interleaves both sources chunk by chunk until the longer one ends', async () => {
+    // 100ms chunks at 16kHz = 1600 samples; user has 2.5 chunks, opponent 1
+    const user = Buffer.alloc(1600 * 2 * 2.5);
+    const opponent = Buffer.alloc(1600 * 2);
+    const received: Array<{ source: string; bytes: number }> = [];
+
+    const result = await new AudioFileReplayer({ speed: 0 }).replay(
+      { user, opponent },
+      (chunk, source) => { received.push({ source, bytes: chunk.length }); }
+    );
+
+    expect(received).toEqual([
+      { source: 'user', bytes: 3200 },
+      { source: 'opponent', bytes: 3200 },
+      { source: 'user', bytes: 3200 },
+      { source: 'user', bytes: 1600 },
+    ]);
+    expect(result).toMatchObject({ audioMs: 250, chunksSent: 4, stopped: false });
+  });
+
+  it('paces chunks by the requested speed', async () => {
+    const start = Date.now();
+    await new AudioFileReplayer({ chunkMs: 50, speed: 2 }).replay({ user: Buffer.alloc(800 * 2 * 4) }, () => {});
+
+    // 4 chunks of 50ms at double speed
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it('stops early when asked', async () => {
+    const replayer = new AudioFileReplayer({ speed: 0 });
+    let chunks = 0;
+
+    const result = await replayer.replay({ opponent: Buffer.alloc(3200 * 10) }, () => {
+      if (++chunks === 3) replayer.stop();
+    });
+
+    expect(result.stopped).toBe(true);
+    expect(result.chunksSent).toBe(3);
+  });
+});
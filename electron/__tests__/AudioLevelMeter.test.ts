@@ -0,0 +1,61 @@
+import { AudioLevelMeter } from '../audio/AudioLevelMeter';
+
+// Constant-amplitude square wave, so RMS and peak are both `amplitude`
+const square = (sampleCount: number, amplitude: number): Buffer => {
+  const buffer = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    buffer.writeInt16LE(i % 2 === 0 ? amplitude : -amplitude, i * 2);
+  }
+  return buffer;
+};
+
+describe('AudioLevelMeter', () => {
+  it('reports RMS and peak per channel since the previous snapshot', () => {
+    const meter = new AudioLevelMeter({}, 0);
+
+    meter.process(square(1600, 8192), 'user', 100);
+    meter.process(square(1600, 16384), 'user', 200);
+    const first = meter.snapshot(250);
+
+    expect(first.user.rms).toBeCloseTo(Math.sqrt((0.25 ** 2 + 0.5 ** 2) / 2), 3);
+    expect(first.user.peak).toBeCloseTo(0.5, 3);
+    expect(first.opponent.rms).toBe(0);
+
+    const second = meter.snapshot(500);
+    expect(second.user.rms).toBe(0);
+    expect(second.user.peak).toBe(0);
+  });
+
+  it('counts samples at full scale as clipping', () => {
+    const meter = new AudioLevelMeter({}, 0);
+
+    meter.process(square(100, 32767), 'opponent', 100);
+    meter.process(square(100, 20000), 'opponent', 200);
+
+    expect(meter.snapshot(250).opponent.clippedSamples).toBe(100);
+  });
+
+  it('warns when a channel has been silent past the threshold and clears on sound', () => {
+    const meter = new AudioLevelMeter({ silenceWarningMs: 30000 }, 0);
+
+    meter.process(square(1600, 8192), 'user', 1000);
+    // The opponent only ever sends digital silence
+    meter.process(Buffer.alloc(3200), 'opponent', 1000);
+
+    const early = meter.snapshot(29000);
+    expect(early.opponent.silenceWarning).toBe(false);
+    expect(early.user.silentForMs).toBe(28000);
+
+    const late = meter.snapshot(30000);
+    expect(late.opponent).toMatchObject({ silenceWarning: true, silentForMs: 30000 });
+    expect(late.user.silenceWarning).toBe(false);
+
+    meter.process(square(1600, 8192), 'opponent', 31000);
+    expect(meter.snapshot(31000).opponent.silenceWarning).toBe(false);
+  });
+
+  it('never warns with the warning disabled', () => {
+    const meter = new AudioLevelMeter({ silenceWarningMs: 0 }, 0);
+    expect(meter.snapshot(10 * 60 * 1000).opponent.silenceWarning).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { AudioRingBuffer } from '../audio/AudioRingBuffer';
+
+const bytes = (length: number, fill: number): Buffer => Buffer.alloc(length, fill);
+
+describe('AudioRingBuffer', () => {
+  it('drains buffered chunks oldest first and empties itself', () => {
+    const buffer = new AudioRingBuffer(100);
+    buffer.push(bytes(10, 1));
+    buffer.push(bytes(20, 2));
+
+    expect(buffer.byteLength).toBe(30);
+    expect(buffer.drain()).toEqual([bytes(10, 1), bytes(20, 2)]);
+    expect(buffer.byteLength).toBe(0);
+    expect(buffer.drain()).toEqual([]);
+  });
+
+  it('drops the oldest chunks once full and counts what was lost', () => {
+    const buffer = new AudioRingBuffer(50);
+    buffer.push(bytes(20, 1));
+    buffer.push(bytes(20, 2));
+    buffer.push(bytes(20, 3));
+
+    expect(buffer.byteLength).toBe(40);
+    expect(buffer.droppedBytes).toBe(20);
+    expect(buffer.drain()).toEqual([bytes(20, 2), bytes(20, 3)]);
+  });
+
+  it('keeps only the tail of a chunk larger than the buffer', () => {
+    const buffer = new AudioRingBuffer(8);
+    buffer.push(bytes(4, 1));
+    buffer.push(Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]));
+
+    expect(buffer.droppedBytes).toBe(6);
+    expect(buffer.drain()).toEqual([Buffer.from([2, 3, 4, 5, 6, 7, 8, 9])]);
+  });
+
+  it('resets the dropped counter on clear', () => {
+    const buffer = new AudioRingBuffer(10);
+    buffer.push(bytes(8, 1));
+    buffer.push(bytes(8, 2));
+    expect(buffer.droppedBytes).toBe(8);
+
+    buffer.clear();
+    expect(buffer.byteLength).toBe(0);
+    expect(buffer.droppedBytes).toBe(0);
+  });
+});
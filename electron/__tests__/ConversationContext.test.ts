@@ -0,0 +1,28 @@
+import { ConversationContext } from '../audio/ConversationContext';
+
+describe('ConversationContext', () => {
+  it('keeps utterances from both speakers in order', () => {
+    const context = new ConversationContext();
+    context.add('前回のプロジェクトについてですが、', 'opponent', 1000);
+    context.add('はい', 'user', 2000);
+    context.add('  ', 'user', 2500);
+
+    expect(context.getRecent(3000)).toEqual([
+      { text: '前回のプロジェクトについてですが、', source: 'opponent', timestamp: 1000 },
+      { text: 'はい', source: 'user', timestamp: 2000 },
+    ]);
+  });
+
+  it('drops utterances beyond the size and age limits', () => {
+    const context = new ConversationContext({ maxUtterances: 2, maxAgeMs: 10000 });
+    context.add('one', 'opponent', 1000);
+    context.add('two', 'user', 5000);
+    context.add('three', 'opponent', 8000);
+
+    expect(context.getRecent(8000).map(u => u.text)).toEqual(['two', 'three']);
+    expect(context.getRecent(16000).map(u => u.text)).toEqual(['three']);
+
+    context.clear();
+    expect(context.getRecent(16000)).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { DeepgramTranscriptionService } from '../audio/DeepgramTranscriptionService';
+import type { ConnectionDegradedEvent, ConnectionRestoredEvent } from '../audio/TranscriptionProvider';
+
+// ts-jest compiles without esModuleInterop, so give the service's default `ws` import something to bind to
+jest.mock('ws', () => {
+  const actual = jest.requireActual('ws');
+  return { __esModule: true, ...actual, default: actual };
+});
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+// 100ms of 16kHz linear16 PCM
+const chunk = (): Buffer => Buffer.alloc(3200, 1);
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const collect = (service: DeepgramTranscriptionService) => {
+  const degraded: ConnectionDegradedEvent[] = [];
+  const restored: ConnectionRestoredEvent[] = [];
+  const errors: unknown[] = [];
+  service.on('connection-degraded', (event) => degraded.push(event));
+  service.on('connection-restored', (event) => restored.push(event));
+  service.on('error', (error) => errors.push(error));
+  return { degraded, restored, errors };
+};
+
+// Stand-in for the Deepgram streaming API; the opponent socket is the one asking for diarization
+describe('DeepgramTranscriptionService against a mock streaming server', () => {
+  let server: WebSocketServer;
+  let endpoint: string;
+  let clients: Array<{ source: 'user' | 'opponent'; socket: WebSocket; received: Buffer[] }>;
+  let accept: (source: 'user' | 'opponent') => boolean;
+  let services: DeepgramTranscriptionService[];
+
+  const sourceOf = (url: string | undefined) => (url?.includes('diarize=true') ? 'opponent' : 'user');
+  const openClients = (source: 'user' | 'opponent') =>
+    clients.filter((client) => client.source === source && client.socket.readyState === WebSocket.OPEN);
+  const createService = () => {
+    const service = new DeepgramTranscriptionService({
+      apiKey: 'test-key',
+      language: 'en',
+      diarize: true,
+      endpoint,
+      reconnectBaseDelayMs: 50,
+      reconnectMaxDelayMs: 1000,
+    });
+    services.push(service);
+    return service;
+  };
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    clients = [];
+    accept = () => true;
+    services = [];
+    server = new WebSocketServer({
+      host: '127.0.0.1',
+      port: 0,
+      verifyClient: (info: { req: { url?: string } }, done: (result: boolean, code?: number) => void) =>
+        done(accept(sourceOf(info.req.url)), 401),
+    });
+    server.on('connection', (socket, req) => {
+      const client = { source: sourceOf(req.url), socket, received: [] as Buffer[] };
+      socket.on('message', (data, isBinary) => {
+        if (isBinary) client.received.push(data as Buffer);
+      });
+      clients.push(client);
+    });
+    await new Promise<void>((resolve) => server.on('listening', resolve));
+    endpoint = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/listen`;
+  });
+
+  afterEach(async () => {
+    for (const service of services) service.disconnect();
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('reconnects a dropped socket with backoff and replays the audio buffered meanwhile', async () => {
+    const service = createService();
+    const events = collect(service);
+    await service.connect();
+    await waitFor(() => clients.length === 2);
+
+    // The first retry is refused, so the second one waits twice as long
+    let refusals = 1;
+    accept = (source) => source !== 'opponent' || refusals-- <= 0;
+    openClients('opponent')[0].socket.close(1011, 'server restart');
+    await waitFor(() => events.degraded.length === 1);
+
+    expect(events.degraded[0]).toMatchObject({ source: 'opponent', attempt: 1 });
+    expect(service.isSourceConnected('opponent')).toBe(false);
+    for (let i = 0; i < 3; i++) service.sendAudio(chunk(), 'opponent');
+
+    await waitFor(() => events.restored.length === 1);
+
+    expect(events.degraded.map((event) => event.attempt)).toEqual([1, 2]);
+    expect(events.degraded[0].retryInMs).toBeGreaterThanOrEqual(40);
+    expect(events.degraded[0].retryInMs).toBeLessThanOrEqual(60);
+    expect(events.degraded[1].retryInMs).toBeGreaterThanOrEqual(80);
+    expect(events.degraded[1].retryInMs).toBeLessThanOrEqual(120);
+    expect(events.restored[0]).toMatchObject({ source: 'opponent', replayedMs: 300, droppedMs: 0 });
+    expect(service.isSourceConnected('opponent')).toBe(true);
+
+    const [replacement] = openClients('opponent');
+    await waitFor(() => replacement.received.length === 3);
+    expect(openClients('user')).toHaveLength(1);
+    expect(events.errors).toHaveLength(0);
+  });
+
+  it('does not treat the old sockets closing after disconnect() and connect() as a drop', async () => {
+    const service = createService();
+    const events = collect(service);
+    await service.connect();
+    await waitFor(() => clients.length === 2);
+
+    service.disconnect();
+    await service.connect();
+    await waitFor(() => clients.length === 4);
+    // Longer than any first retry would wait
+    await sleep(200);
+
+    expect(events.degraded).toHaveLength(0);
+    expect(clients).toHaveLength(4);
+    expect(openClients('user')).toHaveLength(1);
+    expect(openClients('opponent')).toHaveLength(1);
+    expect(service.isActive()).toBe(true);
+
+    service.sendAudio(chunk(), 'user');
+    await waitFor(() => openClients('user')[0].received.length === 1);
+  });
+
+  it('closes the socket that did open when the other one fails to connect', async () => {
+    accept = (source) => source === 'user';
+    const service = createService();
+    const events = collect(service);
+
+    await expect(service.connect()).rejects.toThrow();
+    await waitFor(() => clients.length === 1 && clients[0].socket.readyState === WebSocket.CLOSED);
+    await sleep(200);
+
+    expect(clients).toHaveLength(1);
+    expect(server.clients.size).toBe(0);
+    expect(service.isActive()).toBe(false);
+    expect(events.degraded).toHaveLength(0);
+    expect(events.errors).toHaveLength(1);
+  });
+});
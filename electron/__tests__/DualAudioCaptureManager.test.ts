@@ -0,0 +1,94 @@
+import { DualAudioCaptureManager } from '../audio/DualAudioCaptureManager';
+import { MockTranscriptionProvider } from '../audio/MockTranscriptionProvider';
+import { registerTranscriptionProvider } from '../audio/TranscriptionProvider';
+import type { DetectedQuestion } from '../../src/types/audio-stream';
+import { getModelCallCount, setQuestionModel } from './benchmark/ModelStubs';
+
+jest.mock('electron', () => ({ app: { isPackaged: false, getPath: () => require('os').tmpdir() } }));
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    constructor() {
+      return new Proxy({}, { get: () => () => undefined });
+    }
+  },
+}));
+jest.mock('@google/generative-ai', () => require('./benchmark/ModelStubs').generativeAiMock);
+jest.mock('@google/genai', () => require('./benchmark/ModelStubs').genAiMock);
+
+let provider: MockTranscriptionProvider;
+registerTranscriptionProvider('manager-test', (options) => {
+  provider = new MockTranscriptionProvider(options);
+  return provider;
+});
+
+const ENV: Record<string, string | undefined> = {
+  TRANSCRIPTION_PROVIDER: 'manager-test',
+  AUDIO_PIPELINE_MODE: 'deepgram-streaming',
+  QUESTION_DETECTOR_MODE: 'hybrid',
+  CONVERSATION_LANGUAGE: 'en',
+  QUESTION_DEDUP_STRATEGY: undefined,
+  LOCAL_WHISPER_URL: undefined,
+};
+
+describe('DualAudioCaptureManager streaming pipeline', () => {
+  const saved: Record<string, string | undefined> = {};
+  let manager: DualAudioCaptureManager;
+  let detected: DetectedQuestion[];
+  let updated: DetectedQuestion[];
+
+  beforeEach(async () => {
+    for (const [key, value] of Object.entries(ENV)) {
+      saved[key] = process.env[key];
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+
+    setQuestionModel(({ text }) => JSON.stringify({ question: text }), 100);
+    manager = new DualAudioCaptureManager('test-key');
+    detected = [];
+    updated = [];
+    manager.on('question-detected', (question) => detected.push(question));
+    manager.on('question-updated', (question) => updated.push(question));
+    await manager.startCapture({ systemAudio: false });
+  });
+
+  afterEach(async () => {
+    await manager.stopCapture();
+    manager.destroy();
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('detects a punctuated question once when the utterance end repeats it', async () => {
+    provider.simulateTranscript('Could you walk me through your background?', 'opponent');
+    provider.simulateUtteranceEnd('opponent');
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(detected).toHaveLength(1);
+    expect(detected[0].text).toBe('Could you walk me through your background?');
+    expect(detected[0].repeatCount ?? 1).toBe(1);
+    expect(updated).toHaveLength(0);
+    expect(getModelCallCount()).toBe(1);
+  });
+
+  it('detects an unpunctuated question once when the utterance end closes it', async () => {
+    provider.simulateTranscript('Do you offer remote work', 'user');
+    provider.simulateUtteranceEnd('user');
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(detected.map((question) => question.text)).toEqual(['Do you offer remote work']);
+    expect(updated).toHaveLength(0);
+  });
+
+  it('joins buffered text and the rest of the utterance with a space in English', async () => {
+    provider.simulateTranscript('So tell me,', 'opponent');
+    // Too short to be buffered by the transcription handler, so it only arrives with the utterance end
+    provider.simulateTranscript('why', 'opponent');
+    provider.simulateUtteranceEnd('opponent');
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(detected.map((question) => question.text)).toEqual(['So tell me, why']);
+  });
+});
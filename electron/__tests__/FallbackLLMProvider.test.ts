@@ -0,0 +1,136 @@
+import { FallbackLLMProvider } from '../services/ai/FallbackLLMProvider';
+import { llmError } from '../services/ai/LLMHttp';
+import type { LLMProvider, LLMRequestOptions } from '../services/ai/LLMProvider';
+import type { AnswerModelInfo } from '../../src/types/audio-stream';
+
+type Behaviour = (options: LLMRequestOptions) => Promise<string>;
+
+// Provider whose answers are scripted per call; a stream yields the answer split into words
+const scripted = (name: string, model: string, behaviours: Behaviour[]) => {
+  let call = 0;
+  const next = (options: LLMRequestOptions) => {
+    const behaviour = behaviours[Math.min(call, behaviours.length - 1)];
+    call++;
+    return behaviour(options);
+  };
+
+  const provider: LLMProvider & { calls: () => number } = {
+    name,
+    model,
+    calls: () => call,
+    generateText: (_prompt, options = {}) => next(options),
+    generateFromImages: (_prompt, _images, options = {}) => next(options),
+    generateFromAudio: (_prompt, _audio, options = {}) => next(options),
+    async *streamText(_prompt, options = {}) {
+      const text = await next(options);
+      for (const word of text.split(' ')) {
+        yield word;
+      }
+    },
+  };
+  return provider;
+};
+
+const answer = (text: string): Behaviour => async () => text;
+const fail = (fields: { status?: number; code?: string }): Behaviour => async () => {
+  throw llmError('failed', fields);
+};
+// Never settles by itself; rejects once the attempt's signal aborts, like the real providers
+const hang: Behaviour = (options) => new Promise((_resolve, reject) => {
+  options.signal?.addEventListener('abort', () => reject(llmError('aborted', { code: 'ABORTED' })));
+});
+
+const settings = { attemptTimeoutMs: 5000, failureThreshold: 2, cooldownMs: 60000 };
+
+describe('FallbackLLMProvider', () => {
+  it('moves down the chain on rate limits and reports the model that answered', async () => {
+    const flash = scripted('gemini', 'gemini-2.0-flash', [fail({ status: 429 })]);
+    const lite = scripted('gemini', 'gemini-2.0-flash-lite', [fail({ status: 503 })]);
+    const local = scripted('ollama', 'qwen2.5:7b', [answer('ローカルの回答')]);
+    const chain = new FallbackLLMProvider([flash, lite, local], settings);
+
+    let servedBy: AnswerModelInfo | null = null;
+    const text = await chain.generateText('質問', { onServedBy: (info) => { servedBy = info; } });
+
+    expect(text).toBe('ローカルの回答');
+    expect(servedBy).toEqual({ provider: 'ollama', model: 'qwen2.5:7b', attempts: 3, fallback: true });
+  });
+
+  it('throws client errors and caller aborts without trying the next model', async () => {
+    const primary = scripted('gemini', 'gemini-2.0-flash', [fail({ status: 400 }), hang]);
+    const backup = scripted('ollama', 'llama3.1', [answer('unused')]);
+    const chain = new FallbackLLMProvider([primary, backup], settings);
+
+    await expect(chain.generateText('質問')).rejects.toMatchObject({ status: 400 });
+
+    const controller = new AbortController();
+    const pending = chain.generateText('質問', { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+
+    expect(backup.calls()).toBe(0);
+  });
+
+  it('times out a slow attempt and lets the last model run past the attempt timeout', async () => {
+    const slow = scripted('gemini', 'gemini-2.0-flash', [hang]);
+    const local = scripted('ollama', 'llama3.1', [
+      () => new Promise((resolve) => setTimeout(() => resolve('遅いが答える'), 8000)),
+    ]);
+    const chain = new FallbackLLMProvider([slow, local], settings);
+
+    const pending = chain.generateText('質問');
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(local.calls()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(8000);
+    await expect(pending).resolves.toBe('遅いが答える');
+  });
+
+  it('skips a model with an open circuit until the cooldown has passed', async () => {
+    const flash = scripted('gemini', 'gemini-2.0-flash', [fail({ status: 503 }), fail({ status: 503 }), answer('復旧')]);
+    const lite = scripted('gemini', 'gemini-2.0-flash-lite', [answer('代替')]);
+    const chain = new FallbackLLMProvider([flash, lite], settings);
+
+    await chain.generateText('1');
+    await chain.generateText('2');
+    // Two consecutive failures opened the circuit: the third request goes straight to the backup
+    await expect(chain.generateText('3')).resolves.toBe('代替');
+    expect(flash.calls()).toBe(2);
+
+    jest.setSystemTime(Date.now() + settings.cooldownMs);
+    await expect(chain.generateText('4')).resolves.toBe('復旧');
+    expect(flash.calls()).toBe(3);
+  });
+
+  it('falls back for streams only until the first token', async () => {
+    const flash = scripted('gemini', 'gemini-2.0-flash', [fail({ status: 429 })]);
+    const lite = scripted('gemini', 'gemini-2.0-flash-lite', [answer('軽量 モデル')]);
+    const chain = new FallbackLLMProvider([flash, lite], settings);
+
+    let servedBy: AnswerModelInfo | null = null;
+    const tokens: string[] = [];
+    for await (const token of chain.streamText('質問', { onServedBy: (info) => { servedBy = info; } })) {
+      tokens.push(token);
+    }
+    expect(tokens).toEqual(['軽量', 'モデル']);
+    expect(servedBy).toMatchObject({ model: 'gemini-2.0-flash-lite', fallback: true });
+
+    const broken: LLMProvider = {
+      ...scripted('gemini', 'gemini-2.0-flash', []),
+      async *streamText() {
+        yield '途中まで';
+        throw llmError('connection reset');
+      },
+    };
+    const backup = scripted('ollama', 'llama3.1', [answer('unused')]);
+    const midStream = new FallbackLLMProvider([broken, backup], settings);
+
+    const received: string[] = [];
+    const consume = async () => {
+      for await (const token of midStream.streamText('質問')) received.push(token);
+    };
+    await expect(consume()).rejects.toThrow('connection reset');
+    expect(received).toEqual(['途中まで']);
+    expect(backup.calls()).toBe(0);
+  });
+});
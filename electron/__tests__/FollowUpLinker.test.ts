@@ -0,0 +1,48 @@
+import { FollowUpLinker } from '../audio/FollowUpLinker';
+import { DetectedQuestion } from '../../src/types/audio-stream';
+
+const question = (id: string, text: string, timestamp: number, source: 'user' | 'opponent' = 'opponent'): DetectedQuestion => ({
+  id,
+  text,
+  timestamp,
+  confidence: 0.9,
+  source,
+  isRefined: true,
+  refinedText: text,
+});
+
+describe('FollowUpLinker', () => {
+  const linker = new FollowUpLinker();
+
+  it.each([
+    'Could you elaborate on that?',
+    'Why was that the case?',
+    'Can you give me an example?',
+    'それはなぜですか',
+    'もう少し詳しく教えてください',
+    '具体的にはどのような役割でしたか',
+  ])('treats "%s" as a follow-up', (text) => {
+    expect(linker.isFollowUp(text)).toBe(true);
+  });
+
+  it.each([
+    'What is your biggest strength?',
+    'それでは自己紹介をお願いします',
+    '志望動機を教えてください',
+  ])('treats "%s" as a new question', (text) => {
+    expect(linker.isFollowUp(text)).toBe(false);
+  });
+
+  it('links to the latest question of the same speaker within the time window', () => {
+    const previous = [
+      question('q1', 'Tell me about your last project.', 1000),
+      question('q2', 'Do you have any questions?', 5000, 'user'),
+      question('q3', 'What was the hardest part?', 200000),
+    ];
+
+    expect(linker.findParentId(question('q4', 'Could you elaborate on that?', 210000), previous)).toBe('q3');
+    expect(linker.findParentId(question('q4', 'Could you elaborate on that?', 6000), previous.slice(0, 2))).toBe('q1');
+    expect(linker.findParentId(question('q4', 'Could you elaborate on that?', 400000), previous)).toBeNull();
+    expect(linker.findParentId(question('q4', 'Where do you live?', 210000), previous)).toBeNull();
+  });
+});
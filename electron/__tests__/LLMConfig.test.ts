@@ -0,0 +1,99 @@
+import { loadLLMConfig } from '../config/LLMConfig';
+import { createLLMProvider, getRegisteredLLMProviders } from '../services/ai/LLMProvider';
+
+const LLM_ENV = [
+  'LLM_PROVIDER', 'LLM_MODEL',
+  'LLM_CHAT_PROVIDER', 'LLM_CHAT_MODEL',
+  'LLM_VISION_PROVIDER', 'LLM_VISION_MODEL',
+  'LLM_AUDIO_PROVIDER', 'LLM_AUDIO_MODEL',
+  'LLM_REQUEST_TIMEOUT_MS', 'OPENAI_COMPATIBLE_BASE_URL', 'OPENAI_COMPATIBLE_API_KEY', 'OLLAMA_BASE_URL',
+  'LLM_FALLBACK', 'LLM_CHAT_FALLBACK', 'LLM_VISION_FALLBACK', 'LLM_AUDIO_FALLBACK',
+  'LLM_ATTEMPT_TIMEOUT_MS', 'LLM_CIRCUIT_FAILURES', 'LLM_CIRCUIT_COOLDOWN_MS',
+];
+
+describe('loadLLMConfig', () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const name of LLM_ENV) {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of LLM_ENV) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('uses Gemini with the given key and model for every task by default', () => {
+    const config = loadLLMConfig({ geminiApiKey: 'key', geminiModel: 'gemini-2.0-flash' });
+
+    for (const task of ['vision', 'audio'] as const) {
+      expect(config[task]).toEqual({ provider: 'gemini', options: { apiKey: 'key', model: 'gemini-2.0-flash' } });
+    }
+    // Answering falls back to the lighter Gemini model out of the box
+    expect(config.chat).toMatchObject({ provider: 'gemini', options: { apiKey: 'key', model: 'gemini-2.0-flash' } });
+    expect(config.chat.fallback?.chain).toEqual([{ provider: 'gemini', options: { apiKey: 'key', model: 'gemini-2.0-flash-lite' } }]);
+  });
+
+  it('parses fallback chains with Ollama tags and drops the primary model from them', () => {
+    process.env.LLM_FALLBACK = 'gemini:gemini-2.0-flash, gemini:gemini-2.0-flash-lite, ollama:qwen2.5:7b';
+    process.env.LLM_AUDIO_FALLBACK = 'none';
+    process.env.LLM_ATTEMPT_TIMEOUT_MS = '8000';
+    process.env.LLM_CIRCUIT_FAILURES = '5';
+
+    const config = loadLLMConfig({ geminiApiKey: 'key', geminiModel: 'gemini-2.0-flash' });
+
+    expect(config.chat.fallback).toMatchObject({ attemptTimeoutMs: 8000, failureThreshold: 5, cooldownMs: 60000 });
+    expect(config.chat.fallback?.chain.map((entry) => `${entry.provider}:${entry.options.model}`))
+      .toEqual(['gemini:gemini-2.0-flash-lite', 'ollama:qwen2.5:7b']);
+    expect(config.vision.fallback?.chain).toHaveLength(2);
+    expect(config.audio.fallback).toBeUndefined();
+  });
+
+  it('routes single tasks to another provider without carrying LLM_MODEL over', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+    process.env.LLM_MODEL = 'qwen2.5:7b';
+    process.env.LLM_VISION_MODEL = 'llava';
+    process.env.LLM_AUDIO_PROVIDER = 'gemini';
+    process.env.OLLAMA_BASE_URL = 'http://10.0.0.2:11434';
+
+    const config = loadLLMConfig({ geminiApiKey: 'key', geminiModel: 'gemini-2.0-flash' });
+
+    expect(config.chat).toEqual({ provider: 'ollama', options: { model: 'qwen2.5:7b', baseUrl: 'http://10.0.0.2:11434' } });
+    expect(config.vision.options.model).toBe('llava');
+    expect(config.audio).toEqual({ provider: 'gemini', options: { apiKey: 'key', model: 'gemini-2.0-flash' } });
+  });
+
+  it('passes the OpenAI-compatible endpoint, key and timeout through', () => {
+    process.env.LLM_CHAT_PROVIDER = 'openai-compatible';
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://127.0.0.1:8080/v1';
+    process.env.OPENAI_COMPATIBLE_API_KEY = 'local';
+    process.env.LLM_REQUEST_TIMEOUT_MS = '15000';
+
+    const { chat } = loadLLMConfig({ geminiApiKey: 'key' });
+
+    expect(chat.provider).toBe('openai-compatible');
+    expect(chat.options).toMatchObject({ baseUrl: 'http://127.0.0.1:8080/v1', apiKey: 'local', requestTimeoutMs: 15000 });
+  });
+});
+
+describe('LLM provider registry', () => {
+  it('creates the built-in providers by config name', () => {
+    expect(getRegisteredLLMProviders()).toEqual(expect.arrayContaining(['gemini', 'openai-compatible', 'ollama']));
+
+    const ollama = createLLMProvider('ollama', { model: 'llama3.2' });
+    expect(ollama).toMatchObject({ name: 'ollama', model: 'llama3.2' });
+  });
+
+  it('rejects unknown providers and audio on Ollama', async () => {
+    expect(() => createLLMProvider('nope', {})).toThrow(/Unknown LLM provider: nope/);
+
+    const ollama = createLLMProvider('ollama', {});
+    await expect(ollama.generateFromAudio('transcribe', { data: '', mimeType: 'audio/wav' }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED' });
+  });
+});
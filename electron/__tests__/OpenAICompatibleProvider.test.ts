@@ -0,0 +1,190 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../services/ai/OpenAICompatibleProvider';
+import { LLMHelper } from '../services/ai/LLMHelper';
+
+type Handler = (body: any, req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+// Stand-in for llama.cpp server / vLLM: one route, behaviour swapped per test
+describe('OpenAICompatibleProvider against a mock /v1/chat/completions server', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let requests: Array<{ body: any; headers: http.IncomingHttpHeaders; url?: string }>;
+
+  const sse = (res: http.ServerResponse, events: unknown[]) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const event of events) {
+      res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+    }
+    res.end();
+  };
+  const delta = (content: string) => ({ choices: [{ delta: { content } }] });
+  const message = (content: string) => ({ choices: [{ message: { role: 'assistant', content } }] });
+
+  beforeAll(async () => {
+    jest.useRealTimers();
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ body, headers: req.headers, url: req.url });
+        handler(body, req, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.useRealTimers();
+    requests = [];
+  });
+
+  const createProvider = (options: Record<string, any> = {}) =>
+    new OpenAICompatibleProvider({ baseUrl, model: 'qwen2.5-7b-instruct', ...options });
+
+  it('posts a chat completion and returns the message content', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(message('ローカルモデルの回答です')));
+    };
+
+    const text = await createProvider({ apiKey: 'local-key', maxOutputTokens: 256 }).generateText('自己紹介をしてください');
+
+    expect(text).toBe('ローカルモデルの回答です');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer local-key');
+    expect(requests[0].body).toMatchObject({
+      model: 'qwen2.5-7b-instruct',
+      stream: false,
+      max_tokens: 256,
+      messages: [{ role: 'user', content: '自己紹介をしてください' }],
+    });
+  });
+
+  it('streams tokens from server-sent events, including events split across writes', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify(delta('こん'))}\n\ndata: {"choices":[{"del`);
+      setTimeout(() => {
+        res.write(`ta":{"content":"にちは"}}]}\n\n: keep-alive\n\n`);
+        res.end(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\ndata: [DONE]\n\n`);
+      }, 20);
+    };
+
+    const tokens: string[] = [];
+    for await (const token of createProvider().streamText('挨拶して')) {
+      tokens.push(token);
+    }
+
+    expect(tokens).toEqual(['こん', 'にちは']);
+    expect(requests[0].body.stream).toBe(true);
+  });
+
+  it('still answers when the server ignores the stream flag', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(message('まとめて返します')));
+    };
+
+    const tokens: string[] = [];
+    for await (const token of createProvider().streamText('質問')) {
+      tokens.push(token);
+    }
+
+    expect(tokens).toEqual(['まとめて返します']);
+  });
+
+  it('surfaces HTTP status codes and in-stream errors', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'model is loading' } }));
+    };
+    await expect(createProvider().generateText('質問')).rejects.toMatchObject({ status: 503 });
+
+    handler = (_body, _req, res) => sse(res, [delta('途中'), { error: { message: 'context length exceeded' } }]);
+    const consume = async () => {
+      for await (const _token of createProvider().streamText('質問')) { /* drain */ }
+    };
+    await expect(consume()).rejects.toThrow(/context length exceeded/);
+  });
+
+  it('applies the request timeout to the first chunk only, not the whole stream', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const words = ['ゆっくり', '長い', '回答', 'です'];
+      const writeNext = () => {
+        const word = words.shift();
+        if (!word) {
+          res.end('data: [DONE]\n\n');
+          return;
+        }
+        res.write(`data: ${JSON.stringify(delta(word))}\n\n`);
+        setTimeout(writeNext, 60);
+      };
+      setTimeout(writeNext, 20);
+    };
+
+    const tokens: string[] = [];
+    for await (const token of createProvider({ requestTimeoutMs: 100 }).streamText('質問')) {
+      tokens.push(token);
+    }
+    expect(tokens).toEqual(['ゆっくり', '長い', '回答', 'です']);
+
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      // Headers only; the first token never comes
+    };
+    const consume = async () => {
+      for await (const _token of createProvider({ requestTimeoutMs: 100 }).streamText('質問')) { /* drain */ }
+    };
+    await expect(consume()).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('stops a stream when the signal aborts', async () => {
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify(delta('最初'))}\n\n`);
+      // Never finishes on its own
+    };
+
+    const controller = new AbortController();
+    const tokens: string[] = [];
+    const consume = async () => {
+      for await (const token of createProvider().streamText('質問', { signal: controller.signal })) {
+        tokens.push(token);
+        controller.abort();
+      }
+    };
+
+    await expect(consume()).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(tokens).toEqual(['最初']);
+  });
+
+  it('answers gemini-chat-mode and streaming questions through LLMHelper', async () => {
+    const helper = new LLMHelper('unused-gemini-key');
+    helper.setProvider('chat', createProvider());
+
+    handler = (_body, _req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(message('前職ではバックエンドを担当していました')));
+    };
+    const modeResult = await helper.chatWithMode('これまでの経験を教えてください', 'interview');
+    expect(modeResult.text).toBe('前職ではバックエンドを担当していました');
+
+    handler = (_body, _req, res) => sse(res, [delta('前職では'), delta('Goを使っていました'), '[DONE]']);
+    const chunks: string[] = [];
+    const streamed = await helper.chatWithRAGStreaming('使っていた言語は？', undefined, (chunk) => chunks.push(chunk));
+
+    expect(chunks).toEqual(['前職では', 'Goを使っていました']);
+    expect(streamed.response).toBe('前職ではGoを使っていました');
+    expect(streamed.performance?.firstChunkLatency).not.toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildMonitorRecorderCommand,
+  DEFAULT_MONITOR,
+  findExecutable,
+  parsePactlSources,
+} from '../audio/PulseMonitorSources';
+
+describe('PulseMonitorSources', () => {
+  it('keeps only monitor sources from pactl output', () => {
+    const output = [
+      '47\talsa_output.pci-0000_00_1f.3.analog-stereo.monitor\tPipeWire\ts32le 2ch 48000Hz\tRUNNING',
+      '48\talsa_input.pci-0000_00_1f.3.analog-stereo\tPipeWire\ts32le 2ch 48000Hz\tSUSPENDED',
+      '52\tbluez_output.00_1B_66_A1_B2_C3.1.monitor\tPipeWire\ts16le 2ch 48000Hz\tIDLE',
+      '',
+    ].join('\n');
+
+    expect(parsePactlSources(output)).toEqual([
+      { name: 'alsa_output.pci-0000_00_1f.3.analog-stereo.monitor', state: 'RUNNING' },
+      { name: 'bluez_output.00_1B_66_A1_B2_C3.1.monitor', state: 'IDLE' },
+    ]);
+  });
+
+  it('asks parec for raw 16kHz mono linear16 from the monitor', () => {
+    const { args } = buildMonitorRecorderCommand('parec', DEFAULT_MONITOR, 16000);
+
+    expect(args).toEqual(expect.arrayContaining([
+      '--device=@DEFAULT_MONITOR@',
+      '--format=s16le',
+      '--rate=16000',
+      '--channels=1',
+    ]));
+  });
+
+  it('targets the sink behind a monitor with pw-record', () => {
+    const named = buildMonitorRecorderCommand('pw-record', 'alsa_output.usb.monitor', 16000).args;
+    const fallback = buildMonitorRecorderCommand('pw-record', DEFAULT_MONITOR, 16000).args;
+
+    expect(named.slice(0, 2)).toEqual(['--target', 'alsa_output.usb']);
+    expect(fallback).not.toContain('--target');
+    expect(fallback).toContain('{ stream.capture.sink=true }');
+    expect(fallback[fallback.length - 1]).toBe('-');
+  });
+
+  it('finds executables on the given search path only', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bin-'));
+    const tool = path.join(dir, 'parec');
+    fs.writeFileSync(tool, '#!/bin/sh\n', { mode: 0o755 });
+
+    try {
+      expect(findExecutable('parec', dir)).toBe(tool);
+      expect(findExecutable('pw-record', dir)).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
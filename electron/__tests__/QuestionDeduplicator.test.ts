@@ -0,0 +1,113 @@
+import {
+  BigramSimilarityStrategy,
+  EmbeddingSimilarityStrategy,
+  QuestionDeduplicator,
+  QuestionSimilarityStrategy,
+} from '../audio/QuestionDeduplicator';
+import type { DetectedQuestion } from '../../src/types/audio-stream';
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+let nextId = 0;
+const question = (text: string, timestamp: number, source: 'user' | 'opponent' = 'opponent'): DetectedQuestion => ({
+  id: `q${++nextId}`,
+  text,
+  timestamp,
+  confidence: 0.9,
+  source,
+});
+
+describe('BigramSimilarityStrategy', () => {
+  const strategy = new BigramSimilarityStrategy();
+
+  it('treats restatements with different punctuation as the same', async () => {
+    expect(await strategy.similarity('弊社を志望された理由を教えてください。', '弊社を志望された理由を教えてください')).toBe(1);
+    expect(await strategy.similarity('What is your biggest strength?', 'what is your biggest strength')).toBe(1);
+  });
+
+  it('does not let the shared question ending make short questions alike', async () => {
+    expect(await strategy.similarity('趣味は何ですか', '特技は何ですか')).toBeLessThan(strategy.threshold);
+    expect(await strategy.similarity('What is your biggest strength?', 'What is your biggest weakness?')).toBeLessThan(strategy.threshold);
+  });
+});
+
+describe('EmbeddingSimilarityStrategy', () => {
+  it('scores by cosine similarity and embeds each text once', async () => {
+    const vectors: Record<string, number[]> = {
+      'Why did you leave?': [1, 0],
+      'What made you quit your last job?': [0.95, 0.05],
+      'What are your hobbies?': [0, 1],
+    };
+    const embed = jest.fn(async (text: string) => vectors[text]);
+    const strategy = new EmbeddingSimilarityStrategy(embed, 0.9);
+
+    expect(await strategy.similarity('Why did you leave?', 'What made you quit your last job?')).toBeGreaterThan(0.9);
+    expect(await strategy.similarity('Why did you leave?', 'What are your hobbies?')).toBe(0);
+    expect(embed).toHaveBeenCalledTimes(3);
+
+    strategy.clear();
+    await strategy.similarity('Why did you leave?', 'What are your hobbies?');
+    expect(embed).toHaveBeenCalledTimes(5);
+  });
+
+  it('retries an embedding that failed', async () => {
+    const embed = jest.fn()
+      .mockRejectedValueOnce(new Error('quota'))
+      .mockResolvedValue([1, 0]);
+    const strategy = new EmbeddingSimilarityStrategy(embed);
+
+    await expect(strategy.similarity('a', 'a')).rejects.toThrow('quota');
+    await expect(strategy.similarity('a', 'a')).resolves.toBeCloseTo(1);
+  });
+});
+
+describe('QuestionDeduplicator', () => {
+  it('finds a repeat from anywhere in the session by default', async () => {
+    const deduplicator = new QuestionDeduplicator(new BigramSimilarityStrategy());
+    const original = question('自己紹介をお願いできますか', 0);
+    deduplicator.add(original);
+
+    expect(await deduplicator.findOriginal(question('自己紹介をお願いできますか？', 20 * 60 * 1000))).toBe(original);
+  });
+
+  it('respects the window and only compares the same source', async () => {
+    const deduplicator = new QuestionDeduplicator(new BigramSimilarityStrategy(), { windowMs: 5000 });
+    deduplicator.add(question('自己紹介をお願いできますか', 0));
+
+    expect(await deduplicator.findOriginal(question('自己紹介をお願いできますか', 6000))).toBeNull();
+    expect(await deduplicator.findOriginal(question('自己紹介をお願いできますか', 1000, 'user'))).toBeNull();
+  });
+
+  it('falls back when the strategy fails', async () => {
+    const failing: QuestionSimilarityStrategy = {
+      name: 'failing',
+      threshold: 0.9,
+      similarity: () => Promise.reject(new Error('offline')),
+    };
+    const deduplicator = new QuestionDeduplicator(failing);
+    const original = question('What is your biggest strength?', 0);
+    deduplicator.add(original);
+
+    expect(await deduplicator.findOriginal(question('what is your biggest strength', 1000))).toBe(original);
+  });
+
+  it('merges a repeat into the original and keeps new wordings', () => {
+    const deduplicator = new QuestionDeduplicator(new BigramSimilarityStrategy());
+    const original = question('Why did you leave?', 0);
+
+    deduplicator.merge(original, question('Why did you leave?', 1000));
+    deduplicator.merge(original, { ...question('x', 2000), refinedText: 'What made you quit your last job?' });
+
+    expect(original).toMatchObject({
+      repeatCount: 3,
+      lastAskedAt: 2000,
+      alternateTexts: ['What made you quit your last job?'],
+    });
+  });
+});
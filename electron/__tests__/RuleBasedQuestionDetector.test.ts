@@ -0,0 +1,127 @@
+import { RuleBasedQuestionDetector } from '../audio/RuleBasedQuestionDetector';
+
+describe('RuleBasedQuestionDetector', () => {
+  const detector = new RuleBasedQuestionDetector();
+
+  describe('Japanese', () => {
+    it.each([
+      'お名前は何ですか',
+      'これまでのご経験について教えてください',
+      '今どこにいますか？',
+      'なぜ弊社を志望されたのでしょうか',
+      'チームでの役割はどうでしたか',
+      '前職を辞めた理由を聞かせてもらえますか',
+    ])('detects "%s"', (text) => {
+      const analysis = detector.analyze(text);
+      expect(analysis.language).toBe('ja');
+      expect(analysis.isQuestion).toBe(true);
+      expect(analysis.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it.each([
+      '今日はいい天気ですね',
+      '私はエンジニアとして五年働いています',
+      '雨が降るかもしれません',
+      'いつもお世話になっております',
+      '何か飲み物を用意しました',
+    ])('rejects "%s"', (text) => {
+      expect(detector.analyze(text).isQuestion).toBe(false);
+    });
+
+    it('ranks an interrogative with a polite ending above either signal alone', () => {
+      const both = detector.analyze('趣味は何ですか').confidence;
+      const endingOnly = detector.analyze('お元気ですか').confidence;
+      const interrogativeOnly = detector.analyze('好きな食べ物は何').confidence;
+
+      expect(both).toBeGreaterThan(endingOnly);
+      expect(both).toBeGreaterThan(interrogativeOnly);
+      expect(both).toBeLessThanOrEqual(1);
+    });
+
+    it('extracts the question sentence and strips leading fillers', () => {
+      const analysis = detector.analyze('ありがとうございます。えーと、あのー、次に強みを教えてください。');
+
+      expect(analysis.question).toBe('次に強みを教えてください。');
+      expect(analysis.signals).toContain('ja:request-oshiete');
+    });
+  });
+
+  describe('English', () => {
+    it.each([
+      'What is your biggest strength',
+      'Can you walk me through your last project?',
+      'Tell me about a time you failed.',
+      'Do you have any questions for us',
+    ])('detects "%s"', (text) => {
+      const analysis = detector.analyze(text);
+      expect(analysis.language).toBe('en');
+      expect(analysis.isQuestion).toBe(true);
+    });
+
+    it.each([
+      'I think that went well.',
+      "I'm not sure whether it will rain.",
+      'The weather is nice today.',
+    ])('rejects "%s"', (text) => {
+      expect(detector.analyze(text).isQuestion).toBe(false);
+    });
+  });
+
+  it('returns a DetectedQuestion with the rule confidence', () => {
+    const question = detector.detectQuestion('うーん、志望動機は何ですか', 'opponent');
+
+    expect(question).toMatchObject({ text: '志望動機は何ですか', source: 'opponent', isRefined: true });
+    expect(question!.confidence).toBeGreaterThanOrEqual(0.9);
+    expect(detector.detectQuestion('よろしくお願いいたします', 'opponent')).toBeNull();
+  });
+
+  it('lets borderline text through the pre-filter without reporting it as a question', () => {
+    const text = 'それは大変だったよね';
+
+    expect(detector.mightContainQuestion(text)).toBe(true);
+    expect(detector.analyze(text).isQuestion).toBe(false);
+    expect(detector.mightContainQuestion('了解しました')).toBe(false);
+  });
+
+  describe('with conversation context', () => {
+    const at = (offsetMs: number) => Date.now() - offsetMs;
+
+    it('merges a lead-in from the same speaker into the question', () => {
+      const context = [
+        { text: 'ありがとうございます', source: 'user' as const, timestamp: at(8000) },
+        { text: '前回のプロジェクトについてですが、', source: 'opponent' as const, timestamp: at(3000) },
+      ];
+
+      const question = detector.detectQuestion('一番大変だったことは何ですか', 'opponent', 'ja', context);
+
+      expect(question!.text).toBe('前回のプロジェクトについてですが、一番大変だったことは何ですか');
+      expect(question!.refinedText).toBe(question!.text);
+    });
+
+    it('merges a lead-in sentence within the same text', () => {
+      const question = detector.detectQuestion('About your last project... what was the hardest part?', 'opponent', 'en');
+
+      expect(question!.text).toBe('About your last project... what was the hardest part?');
+    });
+
+    it('ignores lead-ins from another speaker, stale ones and complete statements', () => {
+      const otherSpeaker = [{ text: 'About your last project...', source: 'user' as const, timestamp: at(2000) }];
+      const stale = [{ text: 'About your last project...', source: 'opponent' as const, timestamp: at(30000) }];
+      const statement = [{ text: 'That sounds great.', source: 'opponent' as const, timestamp: at(2000) }];
+
+      const otherParticipant = [{ text: 'About your last project...', source: 'opponent' as const, timestamp: at(2000), speakerIndex: 1 }];
+
+      for (const context of [otherSpeaker, stale, statement, otherParticipant]) {
+        expect(detector.detectQuestion('What was the hardest part?', 'opponent', 'en', context, 0)!.text)
+          .toBe('What was the hardest part?');
+      }
+    });
+  });
+
+  it('respects a custom threshold', () => {
+    const strict = new RuleBasedQuestionDetector({ threshold: 0.95 });
+
+    expect(strict.analyze('お元気ですか').isQuestion).toBe(false);
+    expect(strict.analyze('お元気ですか？').isQuestion).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionAudioRecorder } from '../audio/SessionAudioRecorder';
+import { decodeImaAdpcm, ImaAdpcmEncoder, IMA_ADPCM_BLOCK_ALIGN, IMA_ADPCM_SAMPLES_PER_BLOCK } from '../audio/ImaAdpcm';
+import { parseWavBuffer } from '../audio/PcmUtils';
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+const SAMPLE_RATE = 16000;
+
+// 440Hz tone at half scale
+const tone = (sampleCount: number, offset = 0): Buffer => {
+  const buffer = Buffer.alloc(sampleCount * 2);
+  for (let i = 0; i < sampleCount; i++) {
+    buffer.writeInt16LE(Math.round(16000 * Math.sin((2 * Math.PI * 440 * (i + offset)) / SAMPLE_RATE)), i * 2);
+  }
+  return buffer;
+};
+
+const samples = (buffer: Buffer): number[] =>
+  Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+
+const maxError = (a: Buffer, b: Buffer): number => {
+  const left = samples(a);
+  const right = samples(b);
+  return Math.max(...left.map((value, i) => Math.abs(value - right[i])));
+};
+
+describe('IMA ADPCM', () => {
+  it('compresses 4:1 in whole blocks and decodes close to the input', () => {
+    const input = tone(IMA_ADPCM_SAMPLES_PER_BLOCK * 3);
+    const encoder = new ImaAdpcmEncoder();
+
+    const encoded = encoder.encode(input);
+    expect(encoded.length).toBe(IMA_ADPCM_BLOCK_ALIGN * 3);
+    expect(encoder.flush().length).toBe(0);
+
+    const decoded = decodeImaAdpcm(encoded);
+    expect(decoded.length).toBe(input.length);
+    // The step size starts small and needs the first blocks to adapt to a loud signal
+    const adapted = IMA_ADPCM_SAMPLES_PER_BLOCK * 2;
+    expect(maxError(decoded.subarray(adapted), input.subarray(adapted))).toBeLessThan(1200);
+  });
+
+  it('holds partial blocks until flushed', () => {
+    const encoder = new ImaAdpcmEncoder();
+
+    expect(encoder.encode(tone(300)).length).toBe(0);
+    expect(encoder.encode(tone(300, 300)).length).toBe(IMA_ADPCM_BLOCK_ALIGN);
+    expect(encoder.flush().length).toBe(IMA_ADPCM_BLOCK_ALIGN);
+  });
+});
+
+describe('SessionAudioRecorder', () => {
+  let dir: string;
+
+  const createRecorder = (limits: { maxTotalBytes?: number; maxAgeMs?: number } = {}) =>
+    new SessionAudioRecorder({
+      directory: dir,
+      sampleRate: SAMPLE_RATE,
+      maxTotalBytes: limits.maxTotalBytes ?? 0,
+      maxAgeMs: limits.maxAgeMs ?? 0,
+    });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes each source to a playable IMA ADPCM WAV', () => {
+    const recorder = createRecorder();
+    const start = 1_000_000;
+    const id = recorder.start(start);
+
+    // One second per source, delivered in 100ms chunks on time
+    for (let i = 1; i <= 10; i++) {
+      recorder.write(tone(1600, (i - 1) * 1600), 'user', start + i * 100);
+      recorder.write(tone(1600, (i - 1) * 1600), 'opponent', start + i * 100);
+    }
+    const info = recorder.stop(start + 1000)!;
+
+    expect(info).toMatchObject({ id, startedAt: start, endedAt: start + 1000, sampleRate: SAMPLE_RATE, sources: ['user', 'opponent'] });
+    // About a quarter of the 32000 bytes of linear16 per source
+    expect(info.bytes).toBeLessThan(2 * 9000);
+
+    const header = fs.readFileSync(path.join(dir, id, 'user.wav')).subarray(0, 60);
+    expect(header.readUInt16LE(20)).toBe(0x11);
+    expect(header.readUInt32LE(48)).toBe(16000); // fact: samples before padding
+  });
+
+  it('reads a question clip back as linear16 WAV', () => {
+    const recorder = createRecorder();
+    const start = 1_000_000;
+    const id = recorder.start(start);
+    const audio = tone(SAMPLE_RATE * 2);
+    recorder.write(audio, 'opponent', start + 2000);
+    recorder.stop(start + 2000);
+
+    const clip = parseWavBuffer(recorder.readSegment(id, 'opponent', 500, 250)!);
+
+    expect(clip.sampleRate).toBe(SAMPLE_RATE);
+    expect(clip.pcm.length).toBe(4000 * 2);
+    expect(maxError(clip.pcm, audio.subarray(8000 * 2, 12000 * 2))).toBeLessThan(1200);
+    expect(recorder.readSegment(id, 'user', 0, 1000)).toBeNull();
+  });
+
+  it('clamps clip ranges to the recording and rejects non-finite ones', () => {
+    const recorder = createRecorder();
+    const start = 1_000_000;
+    const id = recorder.start(start);
+    recorder.write(tone(SAMPLE_RATE), 'opponent', start + 1000);
+    recorder.stop(start + 1000);
+
+    const tail = parseWavBuffer(recorder.readSegment(id, 'opponent', 750, Number.MAX_SAFE_INTEGER)!);
+    const blocks = Math.ceil(SAMPLE_RATE / IMA_ADPCM_SAMPLES_PER_BLOCK);
+    expect(tail.pcm.length).toBe((blocks * IMA_ADPCM_SAMPLES_PER_BLOCK - 12000) * 2);
+    expect(parseWavBuffer(recorder.readSegment(id, 'opponent', 1e12, 1000)!).pcm.length).toBe(0);
+    expect(parseWavBuffer(recorder.readSegment(id, 'opponent', -500, -10)!).pcm.length).toBe(0);
+
+    expect(() => recorder.readSegment(id, 'opponent', 0, NaN)).toThrow(/Invalid clip range/);
+    expect(() => recorder.readSegment(id, 'opponent', Infinity, 1000)).toThrow(/Invalid clip range/);
+  });
+
+  it('pads a source that starts late so offsets line up across sources', () => {
+    const recorder = createRecorder();
+    const start = 1_000_000;
+    const id = recorder.start(start);
+
+    recorder.write(tone(1600), 'user', start + 100);
+    // The opponent's first chunk arrives two seconds into the session
+    recorder.write(tone(1600), 'opponent', start + 2000);
+    recorder.stop(start + 2000);
+
+    const header = fs.readFileSync(path.join(dir, id, 'opponent.wav')).subarray(0, 60);
+    expect(header.readUInt32LE(48)).toBe(SAMPLE_RATE * 2);
+    expect(recorder.positionOf(start + 1500)).toBeNull();
+
+    const silence = parseWavBuffer(recorder.readSegment(id, 'opponent', 0, 1000)!);
+    expect(samples(silence.pcm).every(sample => Math.abs(sample) < 50)).toBe(true);
+  });
+
+  it('reports offsets only while recording', () => {
+    const recorder = createRecorder();
+    expect(recorder.positionOf(5000)).toBeNull();
+
+    const id = recorder.start(1000);
+    expect(recorder.positionOf(4000)).toEqual({ recordingId: id, offsetMs: 3000 });
+    expect(recorder.positionOf(500)).toEqual({ recordingId: id, offsetMs: 0 });
+  });
+
+  it('deletes recordings past the age limit and the oldest beyond the size limit', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 100 * day;
+    const record = (recorder: SessionAudioRecorder, at: number) => {
+      const id = recorder.start(at);
+      recorder.write(tone(SAMPLE_RATE), 'user', at + 1000);
+      recorder.stop(at + 1000);
+      return id;
+    };
+
+    const unlimited = createRecorder();
+    const ancient = record(unlimited, now - 40 * day);
+    const older = record(unlimited, now - 3 * day);
+    const newer = record(unlimited, now - 2 * day);
+    const size = unlimited.getInfo(newer)!.bytes;
+
+    const limited = createRecorder({ maxAgeMs: 30 * day, maxTotalBytes: size * 2 });
+    const running = limited.start(now - day);
+    limited.write(tone(SAMPLE_RATE), 'user', now - day + 1000);
+
+    const deleted = limited.applyRetention(now);
+
+    expect(deleted.sort()).toEqual([ancient, older].sort());
+    expect(limited.list().map(info => info.id)).toEqual([running, newer]);
+  });
+
+  it('refuses ids outside the recordings directory and the running recording', () => {
+    const recorder = createRecorder();
+    const id = recorder.start(1000);
+
+    expect(recorder.delete('../outside')).toBe(false);
+    expect(recorder.readSegment('../outside', 'user', 0, 1000)).toBeNull();
+    expect(recorder.delete(id)).toBe(false);
+  });
+});
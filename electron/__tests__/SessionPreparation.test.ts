@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionPreparation, SessionPrepAnswerer } from '../services/ai/SessionPreparation';
+import { BigramSimilarityStrategy, QuestionSimilarityStrategy } from '../audio/QuestionDeduplicator';
+import type { DetectedQuestion, SessionPrepProgress } from '../../src/types/audio-stream';
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+const ANTICIPATED = [
+  'これまでのご経験について教えてください',
+  '当社を志望した理由を教えてください',
+  'チームで困難を乗り越えた経験はありますか',
+];
+
+// LLMHelper stand-in: fixed questions, and a draft per question that can be made to fail or come from the cache
+const scriptedAnswerer = (failing: string[] = [], cached: string[] = []) => {
+  const calls: Array<{ question: string; modeKey?: string; collectionId?: string }> = [];
+  const answerer: SessionPrepAnswerer & { calls: typeof calls } = {
+    calls,
+    generateAnticipatedQuestions: jest.fn(async () => ANTICIPATED),
+    chatWithMode: jest.fn(async (question: string, modeKey?: string, collectionId?: string) => {
+      calls.push({ question, modeKey, collectionId });
+      if (failing.includes(question)) throw new Error('503 Service Unavailable');
+      return {
+        text: `下書き: ${question}`,
+        timestamp: Date.now(),
+        answeredBy: { provider: 'gemini', model: 'gemini-2.0-flash', attempts: 1, fallback: false },
+        ...(cached.includes(question) ? { cachedAt: 1_700_000_000_000 } : {}),
+      };
+    }),
+  };
+  return answerer;
+};
+
+const detected = (text: string, source: 'user' | 'opponent' = 'opponent'): DetectedQuestion => ({
+  id: `q-${text.length}`,
+  text,
+  timestamp: Date.now(),
+  confidence: 0.9,
+  source,
+});
+
+describe('SessionPreparation', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-prep-'));
+    filePath = path.join(dir, 'prepared-session.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drafts every anticipated question with the mode and collection, skipping failed drafts', async () => {
+    const answerer = scriptedAnswerer([ANTICIPATED[1]]);
+    const preparation = new SessionPreparation(answerer, new BigramSimilarityStrategy(0.5), filePath);
+    const progress: SessionPrepProgress[] = [];
+
+    const session = await preparation.prepare(
+      { jobDescription: ' バックエンドエンジニア募集 ', modeKey: 'interview', collectionId: 'col-1', questionCount: 3 },
+      (update) => progress.push(update)
+    );
+
+    expect(answerer.generateAnticipatedQuestions).toHaveBeenCalledWith('バックエンドエンジニア募集', 'col-1', 3);
+    expect(answerer.calls.every((call) => call.modeKey === 'interview' && call.collectionId === 'col-1')).toBe(true);
+    expect(session.questions.map((q) => q.question)).toEqual([ANTICIPATED[0], ANTICIPATED[2]]);
+    expect(session.questions[0].answer).toBe(`下書き: ${ANTICIPATED[0]}`);
+    expect(progress[0]).toEqual({ stage: 'questions', completed: 0, total: 3 });
+    expect(progress[progress.length - 1]).toEqual({ stage: 'answers', completed: 3, total: 3 });
+
+    // Kept for the session even after a restart
+    expect(new SessionPreparation(answerer, new BigramSimilarityStrategy(0.5), filePath).getSession()).toEqual(session);
+  });
+
+  it('marks drafts served from the answer cache', async () => {
+    const preparation = new SessionPreparation(scriptedAnswerer([], [ANTICIPATED[2]]), new BigramSimilarityStrategy(0.5));
+
+    const session = await preparation.prepare({ jobDescription: '募集要項', modeKey: 'interview', questionCount: 3 });
+
+    expect(session.questions.map((q) => q.cachedAt)).toEqual([undefined, undefined, 1_700_000_000_000]);
+  });
+
+  it('refuses an empty job description and a second preparation while one runs', async () => {
+    const preparation = new SessionPreparation(scriptedAnswerer(), new BigramSimilarityStrategy(0.5));
+    const request = { jobDescription: '募集要項', modeKey: 'interview', questionCount: 3 };
+
+    await expect(preparation.prepare({ ...request, jobDescription: '  ' })).rejects.toThrow('Job description is empty');
+
+    const first = preparation.prepare(request);
+    await expect(preparation.prepare(request)).rejects.toThrow('already being prepared');
+    await first;
+    expect(preparation.isPreparing()).toBe(false);
+  });
+
+  it('matches a reworded question from the other side to its prepared draft', async () => {
+    const preparation = new SessionPreparation(scriptedAnswerer(), new BigramSimilarityStrategy(0.5));
+    await preparation.prepare({ jobDescription: '募集要項', modeKey: 'interview', questionCount: 3 });
+
+    const question = detected('当社を志望された理由を教えていただけますか？');
+    const match = await preparation.match(question);
+
+    expect(match).toMatchObject({ questionId: question.id, prepared: { question: ANTICIPATED[1] } });
+    expect(await preparation.match(detected('当社を志望された理由を教えていただけますか？', 'user'))).toBeNull();
+    expect(await preparation.match(detected('趣味は何ですか'))).toBeNull();
+
+    preparation.clear();
+    expect(await preparation.match(question)).toBeNull();
+  });
+
+  it('falls back to bigram similarity when the embedding strategy fails', async () => {
+    const failing: QuestionSimilarityStrategy = {
+      name: 'embedding',
+      threshold: 0.82,
+      similarity: async () => { throw new Error('embedding quota exceeded'); },
+    };
+    const preparation = new SessionPreparation(scriptedAnswerer(), failing);
+    await preparation.prepare({ jobDescription: '募集要項', modeKey: 'interview', questionCount: 3 });
+
+    const match = await preparation.match(detected('これまでのご経験について教えてください'));
+    expect(match?.prepared.question).toBe(ANTICIPATED[0]);
+  });
+});
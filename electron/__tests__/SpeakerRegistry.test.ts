@@ -0,0 +1,41 @@
+import { SpeakerRegistry } from '../audio/SpeakerRegistry';
+
+describe('SpeakerRegistry', () => {
+  it('assigns default labels to speakers as they are first heard', () => {
+    const registry = new SpeakerRegistry();
+
+    expect(registry.observe(1)).toBe(true);
+    expect(registry.observe(0)).toBe(true);
+    expect(registry.observe(1)).toBe(false);
+    expect(registry.list()).toEqual([
+      { index: 0, label: '相手 A', isCustom: false },
+      { index: 1, label: '相手 B', isCustom: false },
+    ]);
+  });
+
+  it('renames speakers and restores the default for an empty name', () => {
+    const registry = new SpeakerRegistry();
+
+    expect(registry.rename(0, '  面接官 A ')).toBe('面接官 A');
+    expect(registry.list()).toEqual([{ index: 0, label: '面接官 A', isCustom: true }]);
+    expect(registry.rename(0, '')).toBe('相手 A');
+
+    registry.clear();
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('labels speakers in English for English sessions and follows language switches', () => {
+    const registry = new SpeakerRegistry('en');
+
+    registry.observe(0);
+    registry.rename(2, 'Interviewer');
+    expect(registry.list()).toEqual([
+      { index: 0, label: 'Speaker A', isCustom: false },
+      { index: 2, label: 'Interviewer', isCustom: true },
+    ]);
+
+    registry.setLanguage('ja');
+    expect(registry.getLabel(0)).toBe('相手 A');
+    expect(registry.getLabel(2)).toBe('Interviewer');
+  });
+});
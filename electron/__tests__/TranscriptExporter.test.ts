@@ -0,0 +1,75 @@
+import { exportTranscript, toJson, toMarkdown, toSrt, toVtt } from '../services/transcript/TranscriptExporter';
+import type { TranscriptSession } from '../../src/types/audio-stream';
+
+const startedAt = new Date(2025, 0, 15, 10, 0, 0).getTime();
+
+const session: TranscriptSession = {
+  id: 'session-1',
+  startedAt,
+  endedAt: startedAt + 90000,
+  pipelineMode: 'deepgram-streaming',
+  entries: [
+    { id: 'e1', text: '自己紹介をお願いします', source: 'opponent', speaker: '相手', timestamp: startedAt + 4000, offsetMs: 4000 },
+    { id: 'e2', text: 'はい、エンジニアの田中です', source: 'user', speaker: 'あなた', timestamp: startedAt + 65500, offsetMs: 65500 },
+  ],
+  questions: [
+    { id: 'q1', text: '自己紹介をお願いします', refinedText: '自己紹介をしてください', timestamp: startedAt + 4200, confidence: 0.9, source: 'opponent' },
+    { id: 'q2', text: '<強み>は何ですか', timestamp: startedAt + 70000, confidence: 0.8, source: 'opponent' },
+  ],
+  answers: [
+    { questionId: 'q1', questionText: '自己紹介をお願いします', answer: '田中です。\nバックエンドを担当しています。', timestamp: startedAt + 6000 },
+  ],
+};
+
+describe('TranscriptExporter', () => {
+  it('renders SRT cues with comma millisecond separators and speaker labels', () => {
+    const srt = toSrt(session);
+
+    expect(srt).toContain('1\n00:00:02,625 --> 00:00:04,000\n相手: 自己紹介をお願いします');
+    expect(srt).toContain('2\n00:01:03,875 --> 00:01:05,500\nあなた: はい、エンジニアの田中です');
+  });
+
+  it('renders WebVTT with a header, voice tags and escaped text', () => {
+    const vtt = toVtt({
+      ...session,
+      entries: [{ id: 'e3', text: 'a < b', source: 'user', speaker: 'あなた', timestamp: startedAt + 2000, offsetMs: 2000 }],
+    });
+
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+    expect(vtt).toContain('00:00:01.000 --> 00:00:02.000\n<v あなた>a &lt; b');
+  });
+
+  it('renders Markdown minutes with questions, answers and the transcript', () => {
+    const markdown = toMarkdown(session);
+
+    expect(markdown).toContain('# セッション記録 2025-01-15 10:00');
+    expect(markdown).toContain('- 所要時間: 01:30');
+    expect(markdown).toContain('### Q1. 自己紹介をしてください');
+    expect(markdown).toContain('> 田中です。\n> バックエンドを担当しています。');
+    expect(markdown).toContain('### Q2. <強み>は何ですか');
+    expect(markdown).toContain('_回答なし_');
+    expect(markdown).toContain('**[01:05] あなた:** はい、エンジニアの田中です');
+  });
+
+  it('renders JSON with answers folded into their questions', () => {
+    const data = JSON.parse(toJson(session));
+
+    expect(data.version).toBe(1);
+    expect(data.utterances).toHaveLength(2);
+    expect(data.questions[0]).toMatchObject({ id: 'q1', text: '自己紹介をしてください', offsetMs: 4200, answers: ['田中です。\nバックエンドを担当しています。'] });
+    expect(data.questions[1].answers).toEqual([]);
+  });
+
+  it('matches answers recorded without a question id by text', () => {
+    const data = JSON.parse(toJson({
+      ...session,
+      answers: [{ questionId: null, questionText: '<強み>は何ですか', answer: '粘り強さです', timestamp: startedAt + 72000 }],
+    }));
+
+    expect(data.questions[1].answers).toEqual(['粘り強さです']);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => exportTranscript(session, 'docx' as any)).toThrow('Unsupported export format: docx');
+  });
+});
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TranscriptStore } from '../services/transcript/TranscriptStore';
+import type { DetectedQuestion } from '../../src/types/audio-stream';
+
+jest.mock('electron', () => ({ app: { getPath: () => require('os').tmpdir() } }));
+
+const startedAt = new Date(2025, 0, 15, 10, 0, 0).getTime();
+
+const question = (id: string, text: string, speakerIndex?: number): DetectedQuestion => ({
+  id,
+  text,
+  timestamp: startedAt,
+  confidence: 0.9,
+  source: 'opponent',
+  ...(speakerIndex !== undefined ? { speakerIndex } : {}),
+});
+
+describe('TranscriptStore', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    jest.setSystemTime(startedAt);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-store-'));
+    store = new TranscriptStore(dir);
+  });
+
+  afterEach(() => {
+    store.endSession();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records final utterances from both sources with offsets and default labels', () => {
+    const session = store.startSession({ pipelineMode: 'deepgram-streaming' });
+
+    jest.setSystemTime(startedAt + 4000);
+    store.appendEntry({ text: ' 自己紹介をお願いします ', source: 'opponent', confidence: 0.95 });
+    store.appendEntry({ text: 'はい、田中です', source: 'user', timestamp: startedAt + 6500 });
+    store.appendEntry({ text: 'どうぞ', source: 'opponent', speaker: '相手 B', speakerIndex: 1 });
+    expect(store.appendEntry({ text: '   ', source: 'user' })).toBeNull();
+
+    expect(session.entries.map((entry) => [entry.source, entry.speaker, entry.text, entry.offsetMs])).toEqual([
+      ['opponent', '相手', '自己紹介をお願いします', 4000],
+      ['user', 'あなた', 'はい、田中です', 6500],
+      ['opponent', '相手 B', 'どうぞ', 4000],
+    ]);
+    expect(session.entries[0].confidence).toBe(0.95);
+    expect(session.entries[2].speakerIndex).toBe(1);
+  });
+
+  it('labels speakers in the conversation language', () => {
+    store.setLanguage('en');
+    const session = store.startSession();
+    store.appendEntry({ text: 'Tell me about yourself', source: 'opponent' });
+    store.appendEntry({ text: 'Sure', source: 'user' });
+
+    store.setLanguage('auto');
+    store.appendEntry({ text: '続けてください', source: 'opponent' });
+    store.appendEntry({ text: 'Thanks', source: 'user' });
+
+    expect(session.entries.map((entry) => entry.speaker)).toEqual(['Other', 'You', '相手', 'You']);
+  });
+
+  it('ignores entries, questions and renames outside a session', () => {
+    expect(store.appendEntry({ text: 'hello', source: 'user' })).toBeNull();
+    store.appendQuestion(question('q1', 'Why?'));
+    store.renameSpeaker(0, 'Interviewer');
+
+    expect(store.getCurrentSessionId()).toBeNull();
+    expect(store.listSessions()).toEqual([]);
+  });
+
+  it('writes the session on start, debounces updates and finalizes it on end', () => {
+    const { id } = store.startSession({ pipelineMode: 'deepgram-streaming' });
+    const file = path.join(dir, `${id}.json`);
+    const onDisk = () => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    expect(store.getCurrentSessionId()).toBe(id);
+    expect(onDisk()).toMatchObject({ id, endedAt: null, pipelineMode: 'deepgram-streaming', entries: [] });
+
+    store.appendEntry({ text: 'What do you do?', source: 'opponent', speakerIndex: 0 });
+    store.appendQuestion(question('q1', 'What do you do?', 0));
+    expect(onDisk().entries).toHaveLength(0);
+    jest.advanceTimersByTime(2000);
+    expect(onDisk().entries).toHaveLength(1);
+
+    store.renameSpeaker(0, 'Interviewer');
+    store.updateQuestion({ ...question('q1', 'What do you do?', 0), speakerLabel: 'Interviewer', repeatCount: 2 });
+    jest.setSystemTime(startedAt + 60000);
+    store.endSession();
+
+    const saved = onDisk();
+    expect(saved.endedAt).toBe(startedAt + 60000);
+    expect(saved.entries[0].speaker).toBe('Interviewer');
+    expect(saved.questions).toEqual([expect.objectContaining({ id: 'q1', speakerLabel: 'Interviewer', repeatCount: 2 })]);
+    expect(store.getCurrentSessionId()).toBeNull();
+  });
+
+  it('attaches answers to the matching question, also after the session ended', () => {
+    const { id } = store.startSession();
+    store.appendQuestion({ ...question('q1', '強みは？'), refinedText: 'あなたの強みは何ですか' });
+    store.appendAnswer('あなたの強みは何ですか', '粘り強さです');
+    store.endSession();
+
+    store.appendAnswer('強みは？', '継続力です');
+    store.appendAnswer('Unrelated', 'n/a');
+
+    expect(store.loadSession(id)?.answers.map((answer) => [answer.questionId, answer.answer])).toEqual([
+      ['q1', '粘り強さです'],
+      ['q1', '継続力です'],
+      [null, 'n/a'],
+    ]);
+  });
+
+  it('starting a session ends the one still running', () => {
+    const first = store.startSession();
+    jest.setSystemTime(startedAt + 1000);
+    const second = store.startSession();
+
+    expect(store.loadSession(first.id)?.endedAt).toBe(startedAt + 1000);
+    expect(store.getCurrentSessionId()).toBe(second.id);
+  });
+
+  it('lists sessions newest first with a preview of the first utterances', () => {
+    const older = store.startSession();
+    store.appendEntry({ text: 'First question', source: 'opponent' });
+    store.appendEntry({ text: 'First answer', source: 'user' });
+    store.endSession();
+
+    jest.setSystemTime(startedAt + 3600000);
+    const newer = store.startSession();
+    store.appendQuestion(question('q1', 'Why?'));
+    store.endSession();
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{nope');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+    expect(store.listSessions()).toEqual([
+      { id: newer.id, startedAt: startedAt + 3600000, endedAt: startedAt + 3600000, entryCount: 0, questionCount: 1, preview: '' },
+      { id: older.id, startedAt, endedAt: startedAt, entryCount: 2, questionCount: 0, preview: 'First question First answer' },
+    ]);
+  });
+
+  it('returns null and false for unknown or unsafe session ids', () => {
+    expect(store.loadSession('missing-session')).toBeNull();
+    expect(store.loadSession('../escape')).toBeNull();
+    expect(store.deleteSession('missing-session')).toBe(false);
+    expect(store.deleteSession('../escape')).toBe(false);
+  });
+
+  it('deletes ended sessions but not the one recording', () => {
+    const ended = store.startSession();
+    store.endSession();
+    const running = store.startSession();
+
+    expect(() => store.deleteSession(running.id)).toThrow('Cannot delete the session that is currently recording');
+    expect(store.deleteSession(ended.id)).toBe(true);
+    expect(store.loadSession(ended.id)).toBeNull();
+    expect(store.listSessions().map((session) => session.id)).toEqual([running.id]);
+  });
+
+  it('reports the running session, then the last ended one, then the newest on disk as latest', () => {
+    expect(store.getLatestSessionId()).toBeNull();
+
+    const first = store.startSession();
+    expect(store.getLatestSessionId()).toBe(first.id);
+    store.endSession();
+    expect(store.getLatestSessionId()).toBe(first.id);
+
+    jest.setSystemTime(startedAt + 1000);
+    const second = store.startSession();
+    store.endSession();
+
+    expect(store.getLatestSessionId()).toBe(second.id);
+    expect(new TranscriptStore(dir).getLatestSessionId()).toBe(second.id);
+    expect(new TranscriptStore(path.join(dir, 'empty')).getLatestSessionId()).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { loadTranscriptionConfig } from '../config/TranscriptionConfig';
+import {
+  createTranscriptionProvider,
+  getRegisteredTranscriptionProviders,
+  registerTranscriptionProvider,
+} from '../audio/TranscriptionProvider';
+import { MockTranscriptionProvider } from '../audio/MockTranscriptionProvider';
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+    debug() {}
+  },
+}));
+
+const TRANSCRIPTION_ENV = [
+  'TRANSCRIPTION_PROVIDER', 'TRANSCRIPTION_LANGUAGE', 'TRANSCRIPTION_MODEL',
+  'TRANSCRIPTION_PROVIDER_OPTIONS', 'TRANSCRIPTION_DIARIZE', 'CONVERSATION_LANGUAGE', 'DEEPGRAM_API_KEY',
+];
+
+describe('loadTranscriptionConfig', () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const name of TRANSCRIPTION_ENV) {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const name of TRANSCRIPTION_ENV) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('uses Deepgram with diarization and the conversation language by default', () => {
+    const config = loadTranscriptionConfig({ deepgramApiKey: 'key' });
+
+    expect(config).toEqual({
+      provider: 'deepgram',
+      options: { apiKey: 'key', model: 'nova-2', language: 'ja', sampleRate: 16000, diarize: true },
+    });
+  });
+
+  it('reads the provider, model, language and diarization from the environment', () => {
+    process.env.TRANSCRIPTION_PROVIDER = ' mock ';
+    process.env.TRANSCRIPTION_LANGUAGE = 'en';
+    process.env.TRANSCRIPTION_MODEL = 'tiny';
+    process.env.TRANSCRIPTION_DIARIZE = 'false';
+    process.env.TRANSCRIPTION_PROVIDER_OPTIONS = '{"sampleRate": 8000, "custom": 1}';
+
+    const config = loadTranscriptionConfig({ deepgramApiKey: 'key' });
+
+    expect(config.provider).toBe('mock');
+    expect(config.options).toEqual({ language: 'en', model: 'tiny', diarize: false, sampleRate: 8000, custom: 1 });
+  });
+
+  it('ignores provider options that are not valid JSON', () => {
+    process.env.TRANSCRIPTION_PROVIDER_OPTIONS = '{nope';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = loadTranscriptionConfig({ deepgramApiKey: 'key' });
+
+    expect(config.options).toMatchObject({ apiKey: 'key', language: 'ja', sampleRate: 16000 });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('transcription provider registry', () => {
+  it('creates the built-in providers by config name', () => {
+    expect(getRegisteredTranscriptionProviders()).toEqual(expect.arrayContaining(['deepgram', 'whisper-local', 'mock']));
+
+    const provider = createTranscriptionProvider('mock', { language: 'en' });
+    expect(provider).toBeInstanceOf(MockTranscriptionProvider);
+    expect(provider.name).toBe('mock');
+  });
+
+  it('creates providers registered at runtime', () => {
+    const factory = jest.fn((options) => new MockTranscriptionProvider(options));
+    registerTranscriptionProvider('custom-test', factory);
+
+    createTranscriptionProvider('custom-test', { model: 'm' });
+
+    expect(factory).toHaveBeenCalledWith({ model: 'm' });
+  });
+
+  it('rejects unknown providers and lists the registered ones', () => {
+    expect(() => createTranscriptionProvider('nope', {})).toThrow(/Unknown transcription provider: nope \(registered: .*deepgram/);
+  });
+});
@@ -0,0 +1,61 @@
+import { VoiceActivityGate } from '../audio/VoiceActivityGate';
+
+// 100ms of 16kHz linear16 mono at a constant amplitude
+const chunk = (amplitude: number): Buffer => {
+  const buffer = Buffer.alloc(3200);
+  for (let i = 0; i < 1600; i++) {
+    buffer.writeInt16LE(i % 2 === 0 ? amplitude : -amplitude, i * 2);
+  }
+  return buffer;
+};
+
+const SILENCE = 0;
+const SPEECH = 3000;
+
+describe('VoiceActivityGate', () => {
+  it('drops silence beyond the pre-roll and sends the pre-roll ahead of speech', () => {
+    const gate = new VoiceActivityGate({ hangoverMs: 200, preRollMs: 200 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(gate.process(chunk(SILENCE)).forward).toHaveLength(0);
+    }
+
+    const onset = gate.process(chunk(SPEECH));
+    expect(onset.forward).toHaveLength(3);
+    expect(onset.forward[2]).toEqual(chunk(SPEECH));
+
+    expect(gate.getStats()).toMatchObject({
+      isOpen: true,
+      chunksIn: 6,
+      chunksForwarded: 3,
+      chunksDropped: 3,
+      audioMsDropped: 300,
+      speechSegments: 1,
+    });
+  });
+
+  it('keeps forwarding through the hangover and reports when speech ends', () => {
+    const gate = new VoiceActivityGate({ hangoverMs: 200, preRollMs: 0 });
+
+    gate.process(chunk(SPEECH));
+    expect(gate.process(chunk(SILENCE))).toEqual({ forward: [chunk(SILENCE)], speechEnded: false });
+    expect(gate.process(chunk(SILENCE))).toEqual({ forward: [chunk(SILENCE)], speechEnded: true });
+    expect(gate.process(chunk(SILENCE)).forward).toHaveLength(0);
+
+    // A pause shorter than the hangover does not split the segment
+    gate.process(chunk(SPEECH));
+    gate.process(chunk(SILENCE));
+    gate.process(chunk(SPEECH));
+    expect(gate.getStats().speechSegments).toBe(2);
+  });
+
+  it('forwards everything when disabled and resets its statistics', () => {
+    const gate = new VoiceActivityGate({ enabled: false });
+
+    expect(gate.process(chunk(SILENCE)).forward).toHaveLength(1);
+    expect(gate.getStats()).toMatchObject({ enabled: false, chunksForwarded: 1, chunksDropped: 0 });
+
+    gate.reset();
+    expect(gate.getStats().chunksIn).toBe(0);
+  });
+});
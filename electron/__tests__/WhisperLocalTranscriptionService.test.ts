@@ -0,0 +1,260 @@
+import * as http from 'http';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { WhisperLocalTranscriptionService } from '../audio/WhisperLocalTranscriptionService';
+import type { TranscriptionResult, UtteranceCompleteEvent } from '../audio/TranscriptionProvider';
+
+// ts-jest compiles without esModuleInterop, so give the service's default `ws` import something to bind to
+jest.mock('ws', () => {
+  const actual = jest.requireActual('ws');
+  return { __esModule: true, ...actual, default: actual };
+});
+
+jest.mock('../utils/DiagnosticLogger', () => ({
+  DiagnosticLogger: class {
+    info() {}
+    warn() {}
+    error() {}
+  },
+}));
+
+// 100ms of 16kHz linear16 PCM: a loud tone or digital silence
+const chunk = (loud: boolean): Buffer => {
+  const pcm = Buffer.alloc(3200);
+  if (loud) {
+    for (let i = 0; i < 1600; i++) pcm.writeInt16LE(Math.round(8000 * Math.sin(i / 4)), i * 2);
+  }
+  return pcm;
+};
+
+const collect = (service: WhisperLocalTranscriptionService) => {
+  const transcripts: TranscriptionResult[] = [];
+  const utterances: UtteranceCompleteEvent[] = [];
+  const errors: unknown[] = [];
+  service.on('transcription', (result) => transcripts.push(result));
+  service.on('utterance-complete', (event) => utterances.push(event));
+  service.on('error', (error) => errors.push(error));
+  return { transcripts, utterances, errors };
+};
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+// Stand-in for whisper.cpp `server`: GET / answers, POST /inference transcribes
+describe('WhisperLocalTranscriptionService against a mock HTTP inference server', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let reply: (res: http.ServerResponse) => void;
+  let uploads: Array<{ body: string; bytes: number }>;
+
+  beforeAll(async () => {
+    jest.useRealTimers();
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (data) => chunks.push(data));
+      req.on('end', () => {
+        if (req.method !== 'POST') {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        const body = Buffer.concat(chunks);
+        uploads.push({ body: body.toString('latin1'), bytes: body.length });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/inference`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.useRealTimers();
+    uploads = [];
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ text: ' 自己紹介をお願いします ' }));
+    };
+  });
+
+  it('uploads a WAV segment once speech is followed by silence', async () => {
+    const service = new WhisperLocalTranscriptionService({ endpoint, language: 'ja', silenceMs: 200 });
+    const events = collect(service);
+    await service.connect();
+
+    for (let i = 0; i < 3; i++) service.sendAudio(chunk(true), 'opponent');
+    for (let i = 0; i < 2; i++) service.sendAudio(chunk(false), 'opponent');
+    await waitFor(() => events.utterances.length === 1);
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].body).toContain('filename="audio.wav"');
+    expect(uploads[0].body).toContain('RIFF');
+    expect(uploads[0].body).toMatch(/name="language"\r\n\r\nja/);
+    expect(events.transcripts).toEqual([expect.objectContaining({ text: '自己紹介をお願いします', isFinal: true, source: 'opponent' })]);
+    expect(events.utterances[0]).toMatchObject({ text: '自己紹介をお願いします', source: 'opponent' });
+    service.disconnect();
+  });
+
+  it('skips leading silence and uploads on flush()', async () => {
+    const service = new WhisperLocalTranscriptionService({ endpoint, language: 'ja' });
+    const events = collect(service);
+    await service.connect();
+
+    service.sendAudio(chunk(false), 'user');
+    service.flush('user');
+    service.sendAudio(chunk(true), 'user');
+    service.flush('user');
+    await waitFor(() => events.utterances.length === 1);
+
+    expect(uploads).toHaveLength(1);
+    expect(events.utterances[0].source).toBe('user');
+    service.disconnect();
+  });
+
+  it('reports server errors without emitting a transcript', async () => {
+    reply = (res) => {
+      res.writeHead(500);
+      res.end();
+    };
+    const service = new WhisperLocalTranscriptionService({ endpoint, language: 'ja' });
+    const events = collect(service);
+    await service.connect();
+
+    service.sendAudio(chunk(true), 'opponent');
+    service.flush('opponent');
+    await waitFor(() => events.errors.length === 1);
+
+    expect(events.transcripts).toHaveLength(0);
+    expect(events.utterances).toHaveLength(0);
+    service.disconnect();
+  });
+
+  it('fails to connect when nothing listens at the endpoint', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const service = new WhisperLocalTranscriptionService({ endpoint: `http://127.0.0.1:${port}/inference` });
+
+    await expect(service.connect()).rejects.toThrow(/not reachable/);
+    expect(service.isActive()).toBe(false);
+  });
+});
+
+describe('WhisperLocalTranscriptionService against a mock streaming server', () => {
+  let server: WebSocketServer;
+  let endpoint: string;
+  let clients: WebSocket[];
+  let urls: string[];
+  let rejectAfter: number;
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    clients = [];
+    urls = [];
+    rejectAfter = Infinity;
+    server = new WebSocketServer({
+      host: '127.0.0.1',
+      port: 0,
+      verifyClient: (_info: unknown, done: (result: boolean, code?: number) => void) => done(urls.length < rejectAfter, 401),
+    });
+    server.on('connection', (socket, req) => {
+      urls.push(req.url || '');
+      clients.push(socket);
+    });
+    await new Promise<void>((resolve) => server.on('listening', resolve));
+    endpoint = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+  });
+
+  afterEach(async () => {
+    for (const client of server.clients) client.terminate();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('streams PCM per source and turns server messages into transcripts and utterances', async () => {
+    const service = new WhisperLocalTranscriptionService({ endpoint, language: 'en' });
+    const events = collect(service);
+    await service.connect();
+    await waitFor(() => clients.length === 2);
+
+    expect(urls[0]).toContain('language=en');
+    expect(urls[0]).toContain('sample_rate=16000');
+
+    const received: Buffer[] = [];
+    clients.forEach((client) => client.on('message', (data) => received.push(data as Buffer)));
+    service.sendAudio(chunk(true), 'user');
+    service.sendAudio(chunk(true), 'opponent');
+    await waitFor(() => received.length === 2);
+    expect(received.every((data) => data.length === 3200)).toBe(true);
+
+    // Which server-side socket belongs to which source is not observable; use the first one
+    clients[0].send(JSON.stringify({ text: 'Tell me', is_final: false }));
+    clients[0].send(JSON.stringify({ text: 'Tell me about yourself?', is_final: true, speaker: 1 }));
+    clients[0].send(JSON.stringify({ type: 'utterance_end' }));
+    await waitFor(() => events.utterances.length === 1);
+
+    expect(events.transcripts.map((result) => [result.text, result.isFinal])).toEqual([
+      ['Tell me', false],
+      ['Tell me about yourself?', true],
+    ]);
+    expect(events.utterances[0].text).toBe('Tell me about yourself?');
+    service.disconnect();
+  });
+
+  it('closes the other source socket when one of them fails to connect', async () => {
+    rejectAfter = 1;
+    const service = new WhisperLocalTranscriptionService({ endpoint, language: 'ja' });
+    const events = collect(service);
+
+    await expect(service.connect()).rejects.toThrow();
+    await waitFor(() => clients.length === 1 && clients[0].readyState === WebSocket.CLOSED);
+
+    expect(service.isActive()).toBe(false);
+    expect(events.errors).toHaveLength(1);
+  });
+
+  it('closes sockets that never finish the handshake when the connect timeout fires', async () => {
+    // Accepts TCP but never answers the upgrade request
+    const pending: Array<Promise<unknown>> = [];
+    let accepted: () => void;
+    const bothAccepted = new Promise<void>((resolve) => { accepted = resolve; });
+    const silent = net.createServer((socket) => {
+      socket.resume();
+      pending.push(new Promise((resolve) => socket.on('close', resolve)));
+      if (pending.length === 2) accepted();
+    });
+    await new Promise<void>((resolve) => silent.listen(0, '127.0.0.1', resolve));
+    const port = (silent.address() as AddressInfo).port;
+
+    // Only the connect timer is faked; socket teardown still needs real ticks
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      const service = new WhisperLocalTranscriptionService({ endpoint: `ws://127.0.0.1:${port}/stream` });
+      const events = collect(service);
+      const connecting = service.connect();
+      connecting.catch(() => undefined);
+
+      await bothAccepted;
+      jest.advanceTimersByTime(10000);
+
+      await expect(connecting).rejects.toThrow(/Connection timeout/);
+      await Promise.all(pending);
+      expect(events.errors).toHaveLength(0);
+      expect(service.isActive()).toBe(false);
+    } finally {
+      jest.useRealTimers();
+      await new Promise((resolve) => silent.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { DualAudioCaptureManager } from '../../audio/DualAudioCaptureManager';
+import { MockTranscriptionProvider } from '../../audio/MockTranscriptionProvider';
+import { registerTranscriptionProvider } from '../../audio/TranscriptionProvider';
+import { RuleBasedQuestionDetector } from '../../audio/RuleBasedQuestionDetector';
+import { StreamingQuestionDetector } from '../../audio/StreamingQuestionDetector';
+import { ConversationContext } from '../../audio/ConversationContext';
+import { detectLanguage } from '../../config/LanguageConfig';
+import type { DetectedQuestion } from '../../../src/types/audio-stream';
+import type { BenchmarkDetection, BenchmarkFixture } from './QuestionBenchmark';
+import { deliverLiveTurn, QuestionModel, resetLiveSessions, setQuestionModel } from './ModelStubs';
+
+/**
+ * - 'rules' / 'hybrid' / 'llm': the streaming pipeline of DualAudioCaptureManager with that
+ *   QUESTION_DETECTOR_MODE, i.e. sentence buffer, conversation context and dedup included
+ * - 'gemini-live': the Gemini Live path of the manager, one model turn per utterance
+ * - 'streaming-direct': StreamingQuestionDetector on each utterance as delivered, without the
+ *   sentence buffer or dedup, to show what the buffering contributes
+ */
+export type BenchmarkVariant = 'rules' | 'hybrid' | 'llm' | 'gemini-live' | 'streaming-direct';
+
+export const BENCHMARK_VARIANTS: BenchmarkVariant[] = ['rules', 'hybrid', 'llm', 'gemini-live', 'streaming-direct'];
+
+export interface BenchmarkRunOptions {
+  modelLatencyMs?: number; // Simulated model response time (default 400)
+  settleMs?: number;       // Time allowed after the last utterance for timeouts and model calls (default 5000)
+}
+
+let benchmarkProvider: MockTranscriptionProvider | null = null;
+registerTranscriptionProvider('benchmark', (options) => {
+  benchmarkProvider = new MockTranscriptionProvider(options);
+  return benchmarkProvider;
+});
+
+/**
+ * Model that replays the fixture's recorded outputs; inputs nobody recorded are answered
+ * like the rule-based detector would (so fixtures stay usable without an API key)
+ */
+export function fixtureModel(fixture: BenchmarkFixture): QuestionModel {
+  const rules = new RuleBasedQuestionDetector();
+
+  return ({ text }) => {
+    const recorded = fixture.modelResponses?.[text];
+    if (recorded !== undefined) return recorded;
+
+    const question = rules.detectQuestion(text, 'opponent', detectLanguage(text));
+    return JSON.stringify({ question: question ? question.text : null });
+  };
+}
+
+/**
+ * Play a fixture through one variant and collect the questions it emits
+ * Runs on Jest's fake clock (see setup.ts), so utterance timing and latencies are simulated.
+ */
+export async function runFixture(
+  fixture: BenchmarkFixture,
+  variant: BenchmarkVariant,
+  options: BenchmarkRunOptions = {}
+): Promise<BenchmarkDetection[]> {
+  setQuestionModel(fixtureModel(fixture), options.modelLatencyMs ?? 400);
+
+  const startedAt = Date.now();
+  const detections: BenchmarkDetection[] = [];
+  const record = (question: DetectedQuestion) => detections.push({
+    text: question.refinedText || question.text,
+    source: question.source,
+    atMs: Date.now() - startedAt,
+  });
+
+  const pending: Promise<unknown>[] = [];
+  let feed: (utterance: BenchmarkFixture['utterances'][number]) => void;
+  let finish: () => Promise<void> = async () => undefined;
+
+  if (variant === 'streaming-direct') {
+    const detector = new StreamingQuestionDetector({ apiKey: 'benchmark' }, { onQuestionDetected: record });
+    const context = new ConversationContext();
+
+    feed = ({ text, source, speakerIndex }) => {
+      const language = fixture.language;
+      if (!detector.mightContainQuestion(text, language)) {
+        context.add(text, source, Date.now(), speakerIndex);
+        return;
+      }
+      pending.push(detector.detectQuestion(text, source, { language, context: context.getRecent(), speakerIndex }));
+      context.add(text, source, Date.now(), speakerIndex);
+    };
+  } else {
+    const manager = createManager(fixture, variant);
+    manager.on('question-detected', record);
+    resetLiveSessions();
+    await manager.startCapture({ systemAudio: false });
+
+    const provider = benchmarkProvider!;
+    feed = ({ text, source, speakerIndex, utteranceEnd }) => {
+      if (variant === 'gemini-live') {
+        pending.push(deliverLiveTurn(source, text));
+        return;
+      }
+      provider.simulateTranscript(text, source, true, speakerIndex);
+      if (utteranceEnd) provider.simulateUtteranceEnd(source);
+    };
+    finish = async () => {
+      await manager.stopCapture();
+      manager.destroy();
+    };
+  }
+
+  for (const utterance of fixture.utterances) {
+    await jest.advanceTimersByTimeAsync(Math.max(0, startedAt + utterance.atMs - Date.now()));
+    feed(utterance);
+  }
+
+  await jest.advanceTimersByTimeAsync(options.settleMs ?? 5000);
+  await Promise.all(pending);
+  await finish();
+
+  return detections;
+}
+
+/**
+ * The manager reads its configuration from the environment at construction time
+ */
+function createManager(fixture: BenchmarkFixture, variant: BenchmarkVariant): DualAudioCaptureManager {
+  const overrides: Record<string, string | undefined> = {
+    TRANSCRIPTION_PROVIDER: 'benchmark',
+    AUDIO_PIPELINE_MODE: variant === 'gemini-live' ? 'gemini-live' : 'deepgram-streaming',
+    QUESTION_DETECTOR_MODE: variant === 'gemini-live' ? undefined : variant,
+    CONVERSATION_LANGUAGE: fixture.language,
+    // The SDK stub has no embedding endpoint; set QUESTION_DEDUP_STRATEGY to compare others
+    QUESTION_DEDUP_STRATEGY: process.env.QUESTION_DEDUP_STRATEGY || 'bigram',
+    LOCAL_WHISPER_URL: undefined,
+  };
+  const saved = Object.fromEntries(Object.keys(overrides).map(key => [key, process.env[key]]));
+
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+
+  apply(overrides);
+  try {
+    return new DualAudioCaptureManager('benchmark');
+  } finally {
+    apply(saved);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Stand-ins for the Gemini SDKs used by the question detectors
+ * The benchmark installs them with jest.mock('@google/generative-ai') / jest.mock('@google/genai'),
+ * so every model call is answered by the active QuestionModel after a simulated latency.
+ * Keep this module free of imports from the pipeline: it is loaded while the SDKs are being mocked.
+ */
+
+export interface QuestionModelInput {
+  text: string; // The sentence under test (INPUT line of the prompt, or a Gemini Live turn)
+  prompt: string;
+}
+
+// Returns the raw model output, e.g. '{"question": "..."}' or '{"question": null}'
+export type QuestionModel = (input: QuestionModelInput) => string;
+
+interface StubState {
+  model: QuestionModel;
+  latencyMs: number;
+  calls: number;
+}
+
+const state: StubState = {
+  model: () => '{"question": null}',
+  latencyMs: 0,
+  calls: 0,
+};
+
+export function setQuestionModel(model: QuestionModel, latencyMs: number): void {
+  state.model = model;
+  state.latencyMs = latencyMs;
+  state.calls = 0;
+}
+
+export function getModelCallCount(): number {
+  return state.calls;
+}
+
+function answer(input: QuestionModelInput): Promise<string> {
+  state.calls++;
+  const output = state.model(input);
+  return new Promise(resolve => setTimeout(() => resolve(output), state.latencyMs));
+}
+
+/**
+ * Text of the `INPUT: "..."` line in a StreamingQuestionDetector prompt
+ */
+export function extractPromptInput(prompt: string): string {
+  const match = prompt.match(/^INPUT: "(.*)"$/m);
+  return match ? match[1] : prompt;
+}
+
+export const generativeAiMock = {
+  GoogleGenerativeAI: class {
+    getGenerativeModel() {
+      return {
+        generateContentStream: async (prompt: string) => {
+          const output = await answer({ text: extractPromptInput(prompt), prompt });
+          return {
+            stream: (async function* () {
+              yield { text: () => output };
+            })(),
+          };
+        },
+      };
+    }
+  },
+};
+
+interface LiveSessionStub {
+  callbacks: { onmessage?: (message: any) => void };
+  closed: boolean;
+}
+
+// Sessions in connect order; GeminiLiveQuestionDetector opens the user session first
+const liveSessions: LiveSessionStub[] = [];
+
+export const genAiMock = {
+  Modality: { AUDIO: 'AUDIO', TEXT: 'TEXT' },
+  GoogleGenAI: class {
+    live = {
+      connect: async ({ callbacks }: { callbacks: LiveSessionStub['callbacks'] }) => {
+        const session: LiveSessionStub = { callbacks, closed: false };
+        liveSessions.push(session);
+        return {
+          sendRealtimeInput: () => undefined,
+          close: async () => {
+            session.closed = true;
+          },
+        };
+      },
+    };
+  },
+};
+
+export function resetLiveSessions(): void {
+  liveSessions.length = 0;
+}
+
+/**
+ * Answer one spoken turn on a Gemini Live session as the native-audio model would:
+ * the output transcription of its reply, then turnComplete
+ */
+export async function deliverLiveTurn(source: 'user' | 'opponent', text: string): Promise<void> {
+  const session = liveSessions.filter(s => !s.closed)[source === 'user' ? 0 : 1];
+  if (!session) throw new Error(`No open Gemini Live session for ${source}`);
+
+  const output = await answer({ text, prompt: text });
+  session.callbacks.onmessage?.({ serverContent: { outputTranscription: { text: output } } });
+  session.callbacks.onmessage?.({ serverContent: { turnComplete: true } });
+}
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Labelled transcript fixture (electron/__tests__/fixtures/question-benchmark/*.json)
+ * Utterances are final transcription segments as a provider would deliver them.
+ */
+export interface BenchmarkFixture {
+  name: string;
+  language: 'ja' | 'en';
+  utterances: BenchmarkUtterance[];
+  expected: ExpectedQuestion[];
+  // Recorded model output per detector input (sentence), replayed instead of calling Gemini
+  modelResponses?: Record<string, string>;
+}
+
+export interface BenchmarkUtterance {
+  atMs: number; // Offset from the start of the conversation
+  source: 'user' | 'opponent';
+  text: string;
+  speakerIndex?: number;
+  utteranceEnd?: boolean; // Provider reports end of utterance right after this segment
+}
+
+export interface ExpectedQuestion {
+  text: string;
+  source: 'user' | 'opponent';
+  utterance: number; // Index of the utterance that completes the question; latency is measured from it
+}
+
+export interface BenchmarkDetection {
+  text: string;
+  source: 'user' | 'opponent';
+  atMs: number; // Offset from the start of the conversation when the question was emitted
+}
+
+export interface FixtureScore {
+  fixture: string;
+  expected: number;
+  detected: number;
+  truePositives: number;
+  falsePositives: number;
+  duplicates: number;
+  missed: string[];
+  latenciesMs: number[];
+}
+
+export interface BenchmarkMetrics {
+  precision: number;
+  recall: number;
+  duplicateRate: number; // Share of emitted questions that repeat one already reported
+  latencyMeanMs: number | null;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+}
+
+export interface BenchmarkReport {
+  variant: string;
+  metrics: BenchmarkMetrics;
+  fixtures: FixtureScore[];
+}
+
+// A detection counts for an expected question at this normalized similarity or above
+export const MATCH_THRESHOLD = 0.5;
+
+export function loadBenchmarkFixtures(dir: string): BenchmarkFixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as BenchmarkFixture);
+}
+
+/**
+ * Lowercase and strip punctuation, whitespace and common fillers before comparing
+ */
+export function normalizeQuestion(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(えーと|えっと|あのー|あの|じゃあ|um|uh|so|okay)(?=[\s、,]|$)/g, '')
+    .replace(/[\s、。，．,.!?！？「」"'…-]/g, '');
+}
+
+/**
+ * Jaccard similarity over character bigrams of the normalized texts
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const bigrams = (s: string): Set<string> => {
+    const result = new Set<string>();
+    for (let i = 0; i < s.length - 1; i++) result.add(s.substring(i, i + 2));
+    return result;
+  };
+
+  const setA = bigrams(normalizeQuestion(a));
+  const setB = bigrams(normalizeQuestion(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  let intersection = 0;
+  for (const bigram of setA) {
+    if (setB.has(bigram)) intersection++;
+  }
+  return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * Match detections (in emission order) to expected questions
+ * The best-matching unclaimed expectation makes a true positive; a detection whose best match
+ * was already claimed is a duplicate; anything else is a false positive.
+ */
+export function scoreFixture(fixture: BenchmarkFixture, detections: BenchmarkDetection[]): FixtureScore {
+  const claimed = new Set<number>();
+  const score: FixtureScore = {
+    fixture: fixture.name,
+    expected: fixture.expected.length,
+    detected: detections.length,
+    truePositives: 0,
+    falsePositives: 0,
+    duplicates: 0,
+    missed: [],
+    latenciesMs: [],
+  };
+
+  for (const detection of [...detections].sort((a, b) => a.atMs - b.atMs)) {
+    let best = -1;
+    let bestSimilarity = MATCH_THRESHOLD;
+    let bestClaimed = -1;
+    let bestClaimedSimilarity = MATCH_THRESHOLD;
+
+    fixture.expected.forEach((expected, index) => {
+      if (expected.source !== detection.source) return;
+      const similarity = questionSimilarity(expected.text, detection.text);
+      if (claimed.has(index)) {
+        if (similarity >= bestClaimedSimilarity) {
+          bestClaimed = index;
+          bestClaimedSimilarity = similarity;
+        }
+      } else if (similarity >= bestSimilarity) {
+        best = index;
+        bestSimilarity = similarity;
+      }
+    });
+
+    if (best >= 0 && bestSimilarity >= bestClaimedSimilarity) {
+      claimed.add(best);
+      score.truePositives++;
+      const askedAt = fixture.utterances[fixture.expected[best].utterance]?.atMs ?? 0;
+      score.latenciesMs.push(Math.max(0, detection.atMs - askedAt));
+    } else if (bestClaimed >= 0) {
+      score.duplicates++;
+    } else {
+      score.falsePositives++;
+    }
+  }
+
+  score.missed = fixture.expected.filter((_, index) => !claimed.has(index)).map(expected => expected.text);
+  return score;
+}
+
+const percentile = (sorted: number[], p: number): number | null =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+export function summarizeScores(scores: FixtureScore[]): BenchmarkMetrics {
+  const sum = (pick: (score: FixtureScore) => number) => scores.reduce((total, score) => total + pick(score), 0);
+  const truePositives = sum(s => s.truePositives);
+  const falsePositives = sum(s => s.falsePositives);
+  const detected = sum(s => s.detected);
+  const expected = sum(s => s.expected);
+  const latencies = scores.flatMap(s => s.latenciesMs).sort((a, b) => a - b);
+
+  return {
+    precision: truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives),
+    recall: expected === 0 ? 1 : truePositives / expected,
+    duplicateRate: detected === 0 ? 0 : sum(s => s.duplicates) / detected,
+    latencyMeanMs: latencies.length === 0 ? null : Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length),
+    latencyP50Ms: percentile(latencies, 50),
+    latencyP95Ms: percentile(latencies, 95),
+  };
+}
+
+/**
+ * Plain-text table, one row per variant, followed by what each variant missed
+ */
+export function formatBenchmarkReport(reports: BenchmarkReport[]): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const ms = (value: number | null) => (value === null ? '-' : `${value}ms`).padStart(8);
+
+  const lines = [
+    `${'variant'.padEnd(18)}${'precision'.padStart(10)}${'recall'.padStart(8)}${'dup'.padStart(8)}${'mean'.padStart(9)}${'p50'.padStart(9)}${'p95'.padStart(9)}`,
+    ...reports.map(({ variant, metrics }) =>
+      `${variant.padEnd(18)}   ${pct(metrics.precision)} ${pct(metrics.recall)} ${pct(metrics.duplicateRate)} ${ms(metrics.latencyMeanMs)} ${ms(metrics.latencyP50Ms)} ${ms(metrics.latencyP95Ms)}`
+    ),
+  ];
+
+  for (const report of reports) {
+    const missed = report.fixtures.flatMap(score => score.missed.map(text => `${score.fixture}: ${text}`));
+    if (missed.length > 0) {
+      lines.push('', `${report.variant} missed:`, ...missed.map(text => `  - ${text}`));
+    }
+  }
+
+  return lines.join('\n');
+}
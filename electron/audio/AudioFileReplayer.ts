@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseWavBuffer, pcmDurationMs, toMonoPcm } from './PcmUtils';
+
+export type ReplaySource = 'user' | 'opponent';
+
+export interface AudioReplayOptions {
+    sampleRate?: number;  // Rate the pipeline expects (default 16000)
+    chunkMs?: number;     // Size of each chunk handed to the sink (default 100, close to live capture)
+    speed?: number;       // 1 = real time, 4 = four times faster, 0 = as fast as possible (default 1)
+}
+
+export interface AudioReplayResult {
+    audioMs: number;      // Length of the longest source
+    elapsedMs: number;
+    chunksSent: number;
+    stopped: boolean;     // stop() was called before the end
+}
+
+export type AudioReplaySink = (chunk: Buffer, source: ReplaySource) => void | Promise<void>;
+
+/**
+ * Load a recording as 16kHz (or `sampleRate`) linear16 mono
+ * .wav files are decoded, downmixed and resampled; anything else is read as raw linear16 mono
+ * already at the target rate (the format the capture pipeline produces).
+ */
+export async function loadAudioFile(filePath: string, sampleRate: number = 16000): Promise<Buffer> {
+    const data = await fs.readFile(filePath);
+
+    if (path.extname(filePath).toLowerCase() !== '.wav') {
+        return data.subarray(0, data.length - (data.length % 2));
+    }
+
+    const decoded = parseWavBuffer(data);
+    if (decoded.channels === 1 && decoded.sampleRate === sampleRate) {
+        return decoded.pcm;
+    }
+    return toMonoPcm(decoded.pcm, decoded.sampleRate, decoded.channels, sampleRate);
+}
+
+/**
+ * Plays recorded audio into a sink on the same clock as live capture
+ * With both sources given, chunks of the user and opponent recordings are interleaved by time,
+ * so the two files should start at the same moment of the conversation.
+ */
+export class AudioFileReplayer {
+    private readonly sampleRate: number;
+    private readonly chunkMs: number;
+    private readonly speed: number;
+    private stopRequested = false;
+
+    constructor(options: AudioReplayOptions = {}) {
+        this.sampleRate = options.sampleRate ?? 16000;
+        this.chunkMs = Math.max(10, options.chunkMs ?? 100);
+        this.speed = Math.max(0, options.speed ?? 1);
+    }
+
+    public async replay(sources: Partial<Record<ReplaySource, Buffer>>, sink: AudioReplaySink): Promise<AudioReplayResult> {
+        this.stopRequested = false;
+
+        const chunkBytes = Math.round(this.sampleRate * this.chunkMs / 1000) * 2;
+        const entries = (Object.keys(sources) as ReplaySource[])
+            .filter(source => sources[source] && sources[source]!.length > 0)
+            .map(source => ({ source, pcm: sources[source]! }));
+        const longest = Math.max(0, ...entries.map(entry => entry.pcm.length));
+        const chunkCount = Math.ceil(longest / chunkBytes);
+
+        const startedAt = Date.now();
+        let chunksSent = 0;
+
+        for (let index = 0; index < chunkCount && !this.stopRequested; index++) {
+            for (const { source, pcm } of entries) {
+                const start = index * chunkBytes;
+                if (start >= pcm.length) continue;
+
+                await sink(pcm.subarray(start, start + chunkBytes), source);
+                chunksSent++;
+            }
+
+            await this.waitForChunk(startedAt, index + 1);
+        }
+
+        return {
+            audioMs: Math.round(pcmDurationMs(longest, this.sampleRate)),
+            elapsedMs: Date.now() - startedAt,
+            chunksSent,
+            stopped: this.stopRequested,
+        };
+    }
+
+    public stop(): void {
+        this.stopRequested = true;
+    }
+
+    /**
+     * Hold until `chunksPlayed` chunks worth of (scaled) time has passed since the start
+     * At speed 0 this only yields, so transcription and detection callbacks still get to run.
+     */
+    private waitForChunk(startedAt: number, chunksPlayed: number): Promise<void> {
+        if (this.speed === 0) {
+            return new Promise(resolve => setImmediate(resolve));
+        }
+
+        const due = startedAt + (chunksPlayed * this.chunkMs) / this.speed;
+        return new Promise(resolve => setTimeout(resolve, Math.max(0, due - Date.now())));
+    }
+}
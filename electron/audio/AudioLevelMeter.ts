@@ -0,0 +1,95 @@
+import type { AudioChannelLevel, AudioLevels } from '../../src/types/audio-stream';
+
+type LevelSource = 'user' | 'opponent';
+
+export interface AudioLevelMeterConfig {
+    silenceThreshold?: number;   // Chunk RMS (0-1) below which a channel counts as silent
+    silenceWarningMs?: number;   // Silence this long raises the warning; 0 = never warn
+    clipLevel?: number;          // Sample magnitude (0-1) counted as clipping
+}
+
+interface ChannelAccumulator {
+    sumSquares: number;
+    samples: number;
+    peak: number;
+    clippedSamples: number;
+    lastSoundAt: number;
+}
+
+/**
+ * RMS, peak and clipping of the user and opponent streams, plus how long each has been silent
+ * Chunks are accumulated between snapshots, so every snapshot describes the audio that
+ * arrived since the previous one however often chunks come in.
+ */
+export class AudioLevelMeter {
+    private readonly config: Required<AudioLevelMeterConfig>;
+    private channels: Record<LevelSource, ChannelAccumulator>;
+
+    constructor(config: AudioLevelMeterConfig = {}, now: number = Date.now()) {
+        this.config = {
+            silenceThreshold: config.silenceThreshold ?? 0.005,
+            silenceWarningMs: config.silenceWarningMs ?? 30000,
+            clipLevel: config.clipLevel ?? 0.99,
+        };
+        this.channels = { user: AudioLevelMeter.emptyChannel(now), opponent: AudioLevelMeter.emptyChannel(now) };
+    }
+
+    /**
+     * Start over, e.g. for a new capture session; silence is counted from `now`
+     */
+    public reset(now: number = Date.now()): void {
+        this.channels = { user: AudioLevelMeter.emptyChannel(now), opponent: AudioLevelMeter.emptyChannel(now) };
+    }
+
+    public process(pcm: Buffer, source: LevelSource, now: number = Date.now()): void {
+        const channel = this.channels[source];
+        const sampleCount = Math.floor(pcm.length / 2);
+        const clipThreshold = this.config.clipLevel * 32768;
+        let sumSquares = 0;
+
+        for (let i = 0; i < sampleCount; i++) {
+            const sample = pcm.readInt16LE(i * 2);
+            const magnitude = Math.abs(sample);
+            sumSquares += sample * sample;
+            if (magnitude > channel.peak) channel.peak = magnitude;
+            if (magnitude >= clipThreshold) channel.clippedSamples++;
+        }
+
+        channel.sumSquares += sumSquares;
+        channel.samples += sampleCount;
+
+        if (sampleCount > 0 && Math.sqrt(sumSquares / sampleCount) / 32768 >= this.config.silenceThreshold) {
+            channel.lastSoundAt = now;
+        }
+    }
+
+    /**
+     * Levels since the previous snapshot; interval values start again from zero
+     */
+    public snapshot(now: number = Date.now()): AudioLevels {
+        return {
+            user: this.takeLevel('user', now),
+            opponent: this.takeLevel('opponent', now),
+            timestamp: now
+        };
+    }
+
+    private takeLevel(source: LevelSource, now: number): AudioChannelLevel {
+        const channel = this.channels[source];
+        const silentForMs = Math.max(0, now - channel.lastSoundAt);
+        const level: AudioChannelLevel = {
+            rms: channel.samples > 0 ? Math.sqrt(channel.sumSquares / channel.samples) / 32768 : 0,
+            peak: channel.peak / 32768,
+            clippedSamples: channel.clippedSamples,
+            silentForMs,
+            silenceWarning: this.config.silenceWarningMs > 0 && silentForMs >= this.config.silenceWarningMs
+        };
+
+        this.channels[source] = AudioLevelMeter.emptyChannel(channel.lastSoundAt);
+        return level;
+    }
+
+    private static emptyChannel(lastSoundAt: number): ChannelAccumulator {
+        return { sumSquares: 0, samples: 0, peak: 0, clippedSamples: 0, lastSoundAt };
+    }
+}
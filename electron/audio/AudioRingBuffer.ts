@@ -0,0 +1,60 @@
+/**
+ * Bounded FIFO of audio chunks
+ * Holds at most `maxBytes`; once full, the oldest chunks are dropped so the most recent
+ * audio is what survives (e.g. while a transcription socket is reconnecting).
+ */
+export class AudioRingBuffer {
+    private chunks: Buffer[] = [];
+    private bytes = 0;
+    private dropped = 0;
+
+    constructor(private readonly maxBytes: number) {}
+
+    public push(chunk: Buffer): void {
+        if (chunk.length === 0) return;
+
+        // A single chunk larger than the buffer keeps only its tail
+        if (chunk.length > this.maxBytes) {
+            this.dropped += this.bytes + (chunk.length - this.maxBytes);
+            this.chunks = [chunk.subarray(chunk.length - this.maxBytes)];
+            this.bytes = this.maxBytes;
+            return;
+        }
+
+        this.chunks.push(chunk);
+        this.bytes += chunk.length;
+
+        while (this.bytes > this.maxBytes) {
+            const oldest = this.chunks.shift()!;
+            this.bytes -= oldest.length;
+            this.dropped += oldest.length;
+        }
+    }
+
+    /**
+     * Remove and return everything buffered, oldest first
+     */
+    public drain(): Buffer[] {
+        const chunks = this.chunks;
+        this.chunks = [];
+        this.bytes = 0;
+        return chunks;
+    }
+
+    public clear(): void {
+        this.chunks = [];
+        this.bytes = 0;
+        this.dropped = 0;
+    }
+
+    public get byteLength(): number {
+        return this.bytes;
+    }
+
+    /**
+     * Bytes discarded because the buffer was full, since the last clear()
+     */
+    public get droppedBytes(): number {
+        return this.dropped;
+    }
+}
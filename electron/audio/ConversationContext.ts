@@ -0,0 +1,95 @@
+import { ResolvedLanguage } from '../config/LanguageConfig';
+
+export interface ContextUtterance {
+    text: string;
+    source: 'user' | 'opponent';
+    timestamp: number;
+    speakerIndex?: number;  // Diarized speaker within the source, when known
+}
+
+export interface ConversationContextConfig {
+    maxUtterances?: number;  // Window size across both speakers
+    maxAgeMs?: number;       // Older utterances no longer count as context
+}
+
+/**
+ * Rolling window of recent completed utterances from both speakers
+ * Lets question detection see what was said just before the current sentence, so a
+ * question split across utterances can be reconstructed as one.
+ */
+export class ConversationContext {
+    private utterances: ContextUtterance[] = [];
+    private readonly maxUtterances: number;
+    private readonly maxAgeMs: number;
+
+    constructor(config: ConversationContextConfig = {}) {
+        this.maxUtterances = config.maxUtterances ?? 8;
+        this.maxAgeMs = config.maxAgeMs ?? 60000;
+    }
+
+    public add(text: string, source: 'user' | 'opponent', timestamp: number = Date.now(), speakerIndex?: number): void {
+        const trimmed = text.trim();
+        if (!trimmed) return;
+
+        this.utterances.push({ text: trimmed, source, timestamp, ...(speakerIndex !== undefined ? { speakerIndex } : {}) });
+        this.prune(timestamp);
+    }
+
+    /**
+     * Utterances still inside the window, oldest first
+     */
+    public getRecent(now: number = Date.now()): ContextUtterance[] {
+        this.prune(now);
+        return [...this.utterances];
+    }
+
+    public clear(): void {
+        this.utterances = [];
+    }
+
+    private prune(now: number): void {
+        this.utterances = this.utterances
+            .filter(u => now - u.timestamp <= this.maxAgeMs)
+            .slice(-this.maxUtterances);
+    }
+}
+
+const LEAD_IN_PATTERNS: Record<ResolvedLanguage, RegExp[]> = {
+    ja: [
+        /(について|に関して|に関しては|の件|のこと|の話)(です|ですが|なんですが|ですけど|は|で|、)?[、。]?$/,
+        /(ですが|ですけど|けど|けれど|けれども|んですが|んですけど|が|で)[、。]?$/,
+        /[、…‥]$/,
+    ],
+    en: [
+        /\b(about|regarding|on|with|and|so|but|for|of|the|your)\s*[,…]*$/i,
+        /(\.\.\.|…|,|-)$/,
+        /^(about|regarding|talking about|going back to|on the topic of)\b[^.?!]*$/i,
+    ],
+};
+
+/**
+ * Recent utterances by the same speaker that read as the unfinished start of the current question
+ * Walks backwards from the most recent utterance and stops at the first complete thought.
+ */
+export function findQuestionLeadIn(
+    context: ContextUtterance[],
+    speaker: Pick<ContextUtterance, 'source' | 'speakerIndex'>,
+    language: ResolvedLanguage,
+    now: number = Date.now(),
+    maxGapMs: number = 15000
+): ContextUtterance[] {
+    const leadIn: ContextUtterance[] = [];
+    let cursor = now;
+
+    for (let i = context.length - 1; i >= 0; i--) {
+        const utterance = context[i];
+        if (utterance.source !== speaker.source || utterance.speakerIndex !== speaker.speakerIndex) break;
+        if (cursor - utterance.timestamp > maxGapMs) break;
+        if (!LEAD_IN_PATTERNS[language].some(pattern => pattern.test(utterance.text))) break;
+
+        leadIn.unshift(utterance);
+        cursor = utterance.timestamp;
+    }
+
+    return leadIn;
+}
@@ -1,16 +1,13 @@
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import type { TranscriptionProvider, TranscriptionResult, ConnectionDegradedEvent, ConnectionRestoredEvent } from './TranscriptionProvider';
+import { AudioRingBuffer } from './AudioRingBuffer';
+import { pcmDurationMs } from './PcmUtils';
 
 const logger = new DiagnosticLogger('DeepgramTranscription');
 
-export interface TranscriptionResult {
-    text: string;
-    isFinal: boolean;
-    confidence: number;
-    source: 'user' | 'opponent';
-    timestamp: number;
-}
+export type { TranscriptionResult };
 
 export interface DeepgramConfig {
     apiKey: string;
@@ -19,13 +16,23 @@ export interface DeepgramConfig {
     sampleRate?: number;
     encoding?: string;
     channels?: number;
+    diarize?: boolean;  // Tag speakers on the opponent (system audio) stream
+    reconnectBaseDelayMs?: number;  // First retry delay after a drop; doubles per attempt
+    reconnectMaxDelayMs?: number;   // Upper bound for the retry delay
+    outageBufferMs?: number;        // Audio kept per source while reconnecting, replayed on restore
+    endpoint?: string;              // Streaming endpoint (default: Deepgram cloud); for self-hosted deployments
 }
 
 /**
  * Real-time audio transcription using Deepgram WebSocket API
- * Emits: 'transcription', 'connected', 'disconnected', 'error'
+ * Emits: 'transcription', 'utterance-complete', 'connected', 'disconnected', 'error',
+ *        'connection-degraded', 'connection-restored'
+ *
+ * A socket that drops mid-session is reconnected with exponential backoff; audio sent in the
+ * meantime goes to a bounded ring buffer and is replayed once the socket is back.
  */
-export class DeepgramTranscriptionService extends EventEmitter {
+export class DeepgramTranscriptionService extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'deepgram';
     private userSocket: WebSocket | null = null;
     private opponentSocket: WebSocket | null = null;
     private config: Required<DeepgramConfig>;
@@ -34,10 +41,30 @@ export class DeepgramTranscriptionService extends EventEmitter {
     // Transcription buffers for accumulating text
     private userBuffer: string = '';
     private opponentBuffer: string = '';
+    // Speaker of the latest final result on the opponent stream, reported with the utterance
+    private opponentSpeaker: number | undefined;
+
+    // Deepgram closes a socket after ~10s without audio; gated silence needs KeepAlive messages
+    private lastAudioSentAt: { user: number; opponent: number } = { user: 0, opponent: 0 };
+    private keepAliveTimer: NodeJS.Timeout | null = null;
+    private readonly KEEP_ALIVE_INTERVAL_MS = 5000;
+
+    // Reconnection state per source; degradedSince is set from the drop until the socket is back
+    private sessionActive = false;
+    private reconnectAttempts: { user: number; opponent: number } = { user: 0, opponent: 0 };
+    private reconnectTimers: { user: NodeJS.Timeout | null; opponent: NodeJS.Timeout | null } = { user: null, opponent: null };
+    private degradedSince: { user: number | null; opponent: number | null } = { user: null, opponent: null };
+    private outageBuffers: { user: AudioRingBuffer; opponent: AudioRingBuffer };
+    // Bumped by connect() and disconnect(); sockets opening for an earlier session are closed
+    private sessionGeneration = 0;
 
     constructor(config: DeepgramConfig) {
         super();
 
+        if (!config.apiKey) {
+            throw new Error('Deepgram API key is required (set DEEPGRAM_API_KEY)');
+        }
+
         this.config = {
             apiKey: config.apiKey,
             language: config.language || 'ja',
@@ -45,12 +72,26 @@ export class DeepgramTranscriptionService extends EventEmitter {
             sampleRate: config.sampleRate || 16000,
             encoding: config.encoding || 'linear16',
             channels: config.channels || 1,
+            diarize: config.diarize ?? false,
+            reconnectBaseDelayMs: config.reconnectBaseDelayMs ?? 500,
+            reconnectMaxDelayMs: config.reconnectMaxDelayMs ?? 15000,
+            outageBufferMs: config.outageBufferMs ?? 30000,
+            endpoint: config.endpoint || 'wss://api.deepgram.com/v1/listen',
         };
 
+        const outageBufferBytes = Math.round(this.config.sampleRate * 2 * this.config.channels * this.config.outageBufferMs / 1000);
+        this.outageBuffers = {
+            user: new AudioRingBuffer(outageBufferBytes),
+            opponent: new AudioRingBuffer(outageBufferBytes),
+        };
+
+        this.setLanguage(this.config.language);
+
         logger.info('✅ Initialized Deepgram transcription service', {
             language: this.config.language,
-            model: this.config.model,
+            model: this.getEffectiveModel(),
             sampleRate: this.config.sampleRate,
+            diarize: this.config.diarize,
         });
     }
 
@@ -59,6 +100,8 @@ export class DeepgramTranscriptionService extends EventEmitter {
      */
     public async connect(): Promise<void> {
         logger.info('🔌 Connecting to Deepgram...');
+        this.sessionActive = true;
+        this.sessionGeneration++;
 
         try {
             // Connect both user and opponent sockets
@@ -66,17 +109,20 @@ export class DeepgramTranscriptionService extends EventEmitter {
                 this.connectSocket('user'),
                 this.connectSocket('opponent'),
             ]);
+            this.startKeepAlive();
 
             logger.info('✅ Both Deepgram connections established');
         } catch (error) {
             logger.error('❌ Failed to connect to Deepgram', error as Error);
+            // Don't leave the socket that did open (or is still opening) behind
+            this.disconnect();
             throw error;
         }
     }
 
     private async connectSocket(source: 'user' | 'opponent'): Promise<void> {
         return new Promise((resolve, reject) => {
-            const url = this.buildWebSocketUrl();
+            const url = this.buildWebSocketUrl(source);
 
             logger.info(`📞 Connecting ${source} socket to Deepgram...`, { url: url.replace(this.config.apiKey, '[REDACTED]') });
 
@@ -85,9 +131,27 @@ export class DeepgramTranscriptionService extends EventEmitter {
                     Authorization: `Token ${this.config.apiKey}`,
                 },
             });
+            const generation = this.sessionGeneration;
+            let opened = false;
+
+            const timeout = setTimeout(() => {
+                if (!opened) {
+                    socket.terminate();
+                    reject(new Error(`Connection timeout for ${source}`));
+                }
+            }, 10000);
 
             socket.on('open', () => {
+                clearTimeout(timeout);
+                if (generation !== this.sessionGeneration) {
+                    // disconnect() ran while this socket was opening
+                    socket.close();
+                    reject(new Error(`Connection cancelled for ${source}`));
+                    return;
+                }
+
                 logger.info(`✅ ${source} Deepgram socket connected`);
+                opened = true;
                 this.isConnected[source] = true;
 
                 if (source === 'user') {
@@ -105,29 +169,131 @@ export class DeepgramTranscriptionService extends EventEmitter {
             });
 
             socket.on('error', (error) => {
+                clearTimeout(timeout);
                 logger.error(`❌ ${source} Deepgram socket error`, error as Error);
-                this.emit('error', { source, error });
+                // Failed reconnect attempts are reported through 'connection-degraded' instead
+                if (this.degradedSince[source] === null) {
+                    this.emit('error', { source, error });
+                }
                 reject(error);
             });
 
             socket.on('close', (code, reason) => {
                 logger.info(`🔌 ${source} Deepgram socket closed`, { code, reason: reason.toString() });
+                // Sockets replaced by disconnect() or a newer connection close late; leave the live one alone
+                if (!opened || socket !== (source === 'user' ? this.userSocket : this.opponentSocket)) return;
+
                 this.isConnected[source] = false;
+                if (source === 'user') {
+                    this.userSocket = null;
+                } else {
+                    this.opponentSocket = null;
+                }
                 this.emit('disconnected', source);
-            });
 
-            // Timeout for connection
-            setTimeout(() => {
-                if (!this.isConnected[source]) {
-                    reject(new Error(`Connection timeout for ${source}`));
+                if (this.sessionActive) {
+                    this.handleUnexpectedClose(source, `closed with code ${code}${reason.length ? `: ${reason.toString()}` : ''}`);
                 }
-            }, 10000);
+            });
         });
     }
 
-    private buildWebSocketUrl(): string {
+    /**
+     * Start buffering audio for a dropped socket and schedule the first reconnect
+     */
+    private handleUnexpectedClose(source: 'user' | 'opponent', reason: string): void {
+        if (this.degradedSince[source] === null) {
+            this.degradedSince[source] = Date.now();
+            this.outageBuffers[source].clear();
+        }
+        this.scheduleReconnect(source, reason);
+    }
+
+    private scheduleReconnect(source: 'user' | 'opponent', reason: string): void {
+        const attempt = ++this.reconnectAttempts[source];
+        const retryInMs = this.getReconnectDelay(attempt);
+
+        logger.warn(`⚠️ ${source} Deepgram connection lost (${reason}), reconnect attempt ${attempt} in ${retryInMs}ms`);
+        const event: ConnectionDegradedEvent = { source, reason, attempt, retryInMs };
+        this.emit('connection-degraded', event);
+
+        this.reconnectTimers[source] = setTimeout(async () => {
+            this.reconnectTimers[source] = null;
+            if (!this.sessionActive) return;
+
+            try {
+                await this.connectSocket(source);
+                this.restoreConnection(source);
+            } catch (error) {
+                if (this.sessionActive) {
+                    this.scheduleReconnect(source, (error as Error).message);
+                }
+            }
+        }, retryInMs);
+    }
+
+    /**
+     * Exponential backoff with ±20% jitter so both sockets don't retry in lockstep
+     */
+    private getReconnectDelay(attempt: number): number {
+        const delay = Math.min(this.config.reconnectMaxDelayMs, this.config.reconnectBaseDelayMs * 2 ** (attempt - 1));
+        return Math.round(delay * (0.8 + Math.random() * 0.4));
+    }
+
+    /**
+     * Replay audio captured during the outage, then report the connection as healthy again
+     */
+    private restoreConnection(source: 'user' | 'opponent'): void {
+        const socket = source === 'user' ? this.userSocket : this.opponentSocket;
+        const buffer = this.outageBuffers[source];
+        const droppedMs = pcmDurationMs(buffer.droppedBytes, this.config.sampleRate, this.config.channels);
+        const chunks = buffer.drain();
+        buffer.clear();
+
+        let replayedBytes = 0;
+        for (const chunk of chunks) {
+            if (!socket || socket.readyState !== WebSocket.OPEN) break;
+            socket.send(chunk);
+            replayedBytes += chunk.length;
+        }
+        this.lastAudioSentAt[source] = Date.now();
+
+        const event: ConnectionRestoredEvent = {
+            source,
+            downtimeMs: Date.now() - (this.degradedSince[source] ?? Date.now()),
+            replayedMs: Math.round(pcmDurationMs(replayedBytes, this.config.sampleRate, this.config.channels)),
+            droppedMs: Math.round(droppedMs),
+        };
+        this.degradedSince[source] = null;
+        this.reconnectAttempts[source] = 0;
+
+        logger.info(`✅ ${source} Deepgram connection restored`, event);
+        this.emit('connection-restored', event);
+    }
+
+    /**
+     * 'auto' maps to Deepgram's multilingual code-switching, which needs a nova-3 model
+     */
+    public setLanguage(language: string): void {
+        this.config.language = language === 'auto' ? 'multi' : language;
+    }
+
+    /**
+     * Model for the current language: the configured one, unless multilingual needs nova-3
+     */
+    private getEffectiveModel(): string {
+        if (this.config.language === 'multi' && !this.config.model.startsWith('nova-3')) {
+            return 'nova-3';
+        }
+        return this.config.model;
+    }
+
+    /**
+     * Only the opponent stream is diarized; the microphone is always the local user
+     */
+    private buildWebSocketUrl(source: 'user' | 'opponent'): string {
         const params = new URLSearchParams({
-            model: this.config.model,
+            model: this.getEffectiveModel(),
             language: this.config.language,
             encoding: this.config.encoding,
             sample_rate: this.config.sampleRate.toString(),
@@ -138,7 +304,11 @@ export class DeepgramTranscriptionService extends EventEmitter {
             vad_events: 'true',
         });
 
-        return `wss://api.deepgram.com/v1/listen?${params.toString()}`;
+        if (this.config.diarize && source === 'opponent') {
+            params.set('diarize', 'true');
+        }
+
+        return `${this.config.endpoint}?${params.toString()}`;
     }
 
     private handleMessage(data: WebSocket.Data, source: 'user' | 'opponent'): void {
@@ -151,6 +321,7 @@ export class DeepgramTranscriptionService extends EventEmitter {
                 const text = alternative.transcript || '';
                 const isFinal = response.is_final === true;
                 const confidence = alternative.confidence || 0;
+                const speakerIndex = source === 'opponent' ? this.dominantSpeaker(alternative.words) : undefined;
 
                 if (text.trim()) {
                     // Accumulate text in buffer
@@ -158,6 +329,9 @@ export class DeepgramTranscriptionService extends EventEmitter {
 
                     if (isFinal) {
                         this[buffer] += text + ' ';
+                        if (speakerIndex !== undefined) {
+                            this.opponentSpeaker = speakerIndex;
+                        }
 
                         logger.info(`📝 Final transcription (${source})`, {
                             text: text.substring(0, 100),
@@ -172,6 +346,7 @@ export class DeepgramTranscriptionService extends EventEmitter {
                         confidence,
                         source,
                         timestamp: Date.now(),
+                        ...(speakerIndex !== undefined ? { speakerIndex } : {}),
                     };
 
                     this.emit('transcription', result);
@@ -193,10 +368,14 @@ export class DeepgramTranscriptionService extends EventEmitter {
                         text: completeText,
                         source,
                         timestamp: Date.now(),
+                        ...(source === 'opponent' && this.opponentSpeaker !== undefined ? { speakerIndex: this.opponentSpeaker } : {}),
                     });
 
                     // Clear buffer
                     this[buffer] = '';
+                    if (source === 'opponent') {
+                        this.opponentSpeaker = undefined;
+                    }
                 }
             }
         } catch (error) {
@@ -204,6 +383,30 @@ export class DeepgramTranscriptionService extends EventEmitter {
         }
     }
 
+    /**
+     * Speaker who said most of the words in a diarized result
+     */
+    private dominantSpeaker(words: Array<{ speaker?: number }> | undefined): number | undefined {
+        if (!words || words.length === 0) return undefined;
+
+        const counts = new Map<number, number>();
+        for (const word of words) {
+            if (typeof word.speaker === 'number') {
+                counts.set(word.speaker, (counts.get(word.speaker) || 0) + 1);
+            }
+        }
+
+        let dominant: number | undefined;
+        let maxCount = 0;
+        counts.forEach((count, speaker) => {
+            if (count > maxCount) {
+                dominant = speaker;
+                maxCount = count;
+            }
+        });
+        return dominant;
+    }
+
     /**
      * Send audio data to Deepgram for transcription
      */
@@ -211,17 +414,60 @@ export class DeepgramTranscriptionService extends EventEmitter {
         const socket = source === 'user' ? this.userSocket : this.opponentSocket;
 
         if (!socket || socket.readyState !== WebSocket.OPEN) {
-            // Silently skip if not connected (will reconnect)
+            // Keep audio for replay while reconnecting; otherwise silently skip
+            if (this.degradedSince[source] !== null) {
+                this.outageBuffers[source].push(audioData);
+            }
             return;
         }
 
         try {
             socket.send(audioData);
+            this.lastAudioSentAt[source] = Date.now();
         } catch (error) {
             logger.error(`Error sending audio to Deepgram (${source})`, error as Error);
         }
     }
 
+    /**
+     * Ask Deepgram to finalize buffered audio now (the silence gate stopped sending)
+     */
+    public flush(source: 'user' | 'opponent'): void {
+        const socket = source === 'user' ? this.userSocket : this.opponentSocket;
+        if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+        try {
+            socket.send(JSON.stringify({ type: 'Finalize' }));
+        } catch (error) {
+            logger.error(`Error finalizing Deepgram stream (${source})`, error as Error);
+        }
+    }
+
+    private startKeepAlive(): void {
+        this.stopKeepAlive();
+        this.keepAliveTimer = setInterval(() => {
+            const now = Date.now();
+            (['user', 'opponent'] as const).forEach(source => {
+                const socket = source === 'user' ? this.userSocket : this.opponentSocket;
+                if (!socket || socket.readyState !== WebSocket.OPEN) return;
+                if (now - this.lastAudioSentAt[source] < this.KEEP_ALIVE_INTERVAL_MS) return;
+
+                try {
+                    socket.send(JSON.stringify({ type: 'KeepAlive' }));
+                } catch (error) {
+                    logger.error(`Error sending Deepgram KeepAlive (${source})`, error as Error);
+                }
+            });
+        }, this.KEEP_ALIVE_INTERVAL_MS);
+    }
+
+    private stopKeepAlive(): void {
+        if (this.keepAliveTimer) {
+            clearInterval(this.keepAliveTimer);
+            this.keepAliveTimer = null;
+        }
+    }
+
     /**
      * Flush the transcription buffer and get complete text
      */
@@ -237,6 +483,19 @@ export class DeepgramTranscriptionService extends EventEmitter {
      */
     public disconnect(): void {
         logger.info('🔌 Disconnecting from Deepgram...');
+        this.sessionActive = false;
+        this.sessionGeneration++;
+        this.stopKeepAlive();
+
+        (['user', 'opponent'] as const).forEach(source => {
+            if (this.reconnectTimers[source]) {
+                clearTimeout(this.reconnectTimers[source]!);
+                this.reconnectTimers[source] = null;
+            }
+            this.reconnectAttempts[source] = 0;
+            this.degradedSince[source] = null;
+            this.outageBuffers[source].clear();
+        });
 
         if (this.userSocket) {
             this.userSocket.close();
@@ -251,6 +510,7 @@ export class DeepgramTranscriptionService extends EventEmitter {
         this.isConnected = { user: false, opponent: false };
         this.userBuffer = '';
         this.opponentBuffer = '';
+        this.opponentSpeaker = undefined;
 
         logger.info('✅ Deepgram disconnected');
     }
@@ -1,28 +1,87 @@
 import { EventEmitter } from 'events';
 import { SystemAudioCapture } from './SystemAudioCapture';
 import { GeminiLiveQuestionDetector } from './GeminiLiveQuestionDetector';
-import { DeepgramTranscriptionService } from './DeepgramTranscriptionService';
+import {
+  TranscriptionProvider,
+  TranscriptionResult,
+  UtteranceCompleteEvent,
+  ConnectionDegradedEvent,
+  ConnectionRestoredEvent,
+  createTranscriptionProvider
+} from './TranscriptionProvider';
 import { StreamingQuestionDetector } from './StreamingQuestionDetector';
-import { DetectedQuestion } from '../../src/types/audio-stream';
+import { RuleBasedQuestionDetector } from './RuleBasedQuestionDetector';
+import { hasCompleteSentence } from './SentenceCompletion';
+import { ConversationContext } from './ConversationContext';
+import { FollowUpLinker } from './FollowUpLinker';
+import { SpeakerRegistry } from './SpeakerRegistry';
+import { VoiceActivityGate } from './VoiceActivityGate';
+import { createSimilarityStrategy, QuestionDeduplicator } from './QuestionDeduplicator';
+import { AudioFileReplayer, AudioReplayOptions, AudioReplayResult, loadAudioFile } from './AudioFileReplayer';
+import { SessionAudioRecorder } from './SessionAudioRecorder';
+import { AudioLevelMeter } from './AudioLevelMeter';
+import { AudioLevels, AudioRecordingState, DetectedQuestion, SpeakerInfo } from '../../src/types/audio-stream';
 import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import { loadTranscriptionConfig, loadLocalTranscriptionConfig, TranscriptionConfig } from '../config/TranscriptionConfig';
+import { ConversationLanguage, loadConversationLanguage, resolveLanguage } from '../config/LanguageConfig';
+import { loadVoiceActivityGateConfig } from '../config/VoiceActivityConfig';
+import { loadQuestionDedupConfig } from '../config/QuestionDedupConfig';
+import { loadAudioLevelConfig } from '../config/AudioLevelConfig';
 
 const logger = new DiagnosticLogger('DualAudioCaptureManager');
 
-export type PipelineMode = 'gemini-live' | 'deepgram-streaming';
+export type PipelineMode = 'gemini-live' | 'deepgram-streaming' | 'local-streaming';
+type StreamingPipelineMode = Exclude<PipelineMode, 'gemini-live'>;
+
+/**
+ * How streaming pipelines turn sentences into questions (QUESTION_DETECTOR_MODE)
+ * - 'llm':    regex pre-filter + Gemini Flash (original behaviour)
+ * - 'hybrid': rule-based pre-filter + Gemini Flash, rule result used if the Gemini call fails
+ * - 'rules':  rule-based detector only, no API calls (offline)
+ */
+export type QuestionDetectorMode = 'llm' | 'hybrid' | 'rules';
+
+export interface AudioFileReplayRequest extends AudioReplayOptions {
+  user?: string;      // Recording of the microphone side
+  opponent?: string;  // Recording of the system-audio side
+  settleMs?: number;  // Time left for trailing transcripts and detections after the last chunk (default 3000)
+}
+
+// Transcripts are finalized after the words were spoken; question clips start this much earlier
+const QUESTION_AUDIO_LEAD_MS = 3000;
+// Gemini Live reports no transcript timing, so its clips cover this much before detection
+const QUESTION_AUDIO_FALLBACK_MS = 10000;
+
+export interface AudioFileReplaySummary extends AudioReplayResult {
+  pipelineMode: PipelineMode;
+  questions: DetectedQuestion[];
+}
 
 /**
  * Manages dual audio capture (microphone + system audio)
- * Supports two pipelines:
+ * Supports three pipelines:
  * 1. 'gemini-live' (legacy): Audio → Gemini Live API (native audio model)
- * 2. 'deepgram-streaming' (new): Audio → Deepgram → Gemini Flash streaming
+ * 2. 'deepgram-streaming' (new): Audio → TranscriptionProvider → Gemini Flash streaming
+ *    The provider comes from TRANSCRIPTION_PROVIDER (default: Deepgram), see TranscriptionConfig
+ * 3. 'local-streaming' (offline): Audio → local Whisper-compatible server (LOCAL_WHISPER_URL) → same
+ *    sentence buffer and StreamingQuestionDetector path as 2.
+ * The initial pipeline can be forced with AUDIO_PIPELINE_MODE.
  */
 export class DualAudioCaptureManager extends EventEmitter {
   // Legacy Gemini Live pipeline (preserved, not deleted)
   private geminiDetector: GeminiLiveQuestionDetector;
 
-  // New Deepgram + Streaming pipeline
-  private deepgramService: DeepgramTranscriptionService | null = null;
+  // New transcription + Streaming pipelines (one provider per streaming mode)
+  private transcriptionProviders: Partial<Record<StreamingPipelineMode, TranscriptionProvider>> = {};
   private streamingDetector: StreamingQuestionDetector | null = null;
+  private ruleDetector: RuleBasedQuestionDetector = new RuleBasedQuestionDetector();
+  // Recent completed sentences from both speakers, so split questions can be merged
+  private conversationContext: ConversationContext = new ConversationContext();
+  private followUpLinker: FollowUpLinker = new FollowUpLinker();
+  // Labels for diarized remote speakers ("相手 A" / "Speaker A", or a name the user gave them)
+  private speakerRegistry: SpeakerRegistry;
+  private questionDetectorMode: QuestionDetectorMode;
+  private conversationLanguage: ConversationLanguage;
 
   private systemAudioCapture: SystemAudioCapture;
   private isCapturing: boolean = false;
@@ -30,19 +89,45 @@ export class DualAudioCaptureManager extends EventEmitter {
 
   // Pipeline configuration
   private pipelineMode: PipelineMode = 'deepgram-streaming'; // Default to new pipeline
-  private deepgramApiKey: string | null = null;
+  private transcriptionConfigs: Partial<Record<StreamingPipelineMode, TranscriptionConfig>> = {};
   private geminiApiKey: string;
 
   // Question buffer for new pipeline
   private questionBuffer: DetectedQuestion[] = [];
 
-  // Deduplication: recent questions for similarity check
-  private recentQuestions: { text: string; timestamp: number }[] = [];
-  private readonly DEDUP_TIME_WINDOW_MS = 5000; // 5 seconds
-  private readonly DEDUP_SIMILARITY_THRESHOLD = 0.7; // 70% similar = duplicate
+  // Deduplication: repeats of a question asked earlier in the session are merged into it
+  private questionDeduplicator: QuestionDeduplicator;
+  // Serializes dedup so two questions detected close together are compared with each other
+  private dedupQueue: Promise<void> = Promise.resolve();
+
+  // Recording played into the pipeline in place of live capture (see replayAudioFiles)
+  private activeReplay: AudioFileReplayer | null = null;
+
+  // Sources whose transcription connection dropped and is being re-established
+  private degradedSources: Set<'user' | 'opponent'> = new Set();
+
+  // Optional local recording; only runs for sessions the user consented to
+  private audioRecorder: SessionAudioRecorder | null = null;
+  private recordingConsent: boolean = false;
+
+  // Silence gates in front of the streaming transcription upload, one per source
+  private audioGates: { user: VoiceActivityGate; opponent: VoiceActivityGate };
+
+  // Level telemetry of both sources, pushed to the renderer every levelIntervalMs while capturing
+  private levelMeter: AudioLevelMeter;
+  private readonly levelIntervalMs: number;
+  private levelTimer: NodeJS.Timeout | null = null;
+  private silenceWarned: { user: boolean; opponent: boolean } = { user: false, opponent: false };
 
   // Sentence buffering: accumulate text until complete sentence
   private sentenceBuffer: { user: string; opponent: string } = { user: '', opponent: '' };
+  // Diarized speaker of the buffered text; a new speaker closes the previous sentence
+  private sentenceSpeaker: { user?: number; opponent?: number } = {};
+  // When the first segment of each buffered sentence arrived, to place its question in the recording
+  private sentenceStartedAt: { user?: number; opponent?: number } = {};
+  // Final segments taken into the sentence buffer since the provider's last utterance end;
+  // the utterance-complete text repeats them, so only the rest of it is new
+  private utteranceSegments: { user: string[]; opponent: string[] } = { user: [], opponent: [] };
 
   // Sentence timeout: if no pattern detected, send after 1000ms
   private sentenceTimeouts: { user: NodeJS.Timeout | null; opponent: NodeJS.Timeout | null } = { user: null, opponent: null };
@@ -52,18 +137,45 @@ export class DualAudioCaptureManager extends EventEmitter {
     super();
 
     this.geminiApiKey = geminiApiKey;
-    this.deepgramApiKey = deepgramApiKey || process.env.DEEPGRAM_API_KEY || null;
+    this.conversationLanguage = loadConversationLanguage();
+    this.speakerRegistry = new SpeakerRegistry(this.conversationLanguage);
+    const detectorMode = process.env.QUESTION_DETECTOR_MODE as QuestionDetectorMode | undefined;
+    this.questionDetectorMode = detectorMode && ['llm', 'hybrid', 'rules'].includes(detectorMode) ? detectorMode : 'hybrid';
+    this.transcriptionConfigs['deepgram-streaming'] = loadTranscriptionConfig({ deepgramApiKey, sampleRate });
+    const localConfig = loadLocalTranscriptionConfig({ sampleRate });
+    if (localConfig) {
+      this.transcriptionConfigs['local-streaming'] = localConfig;
+    }
 
     logger.info('🔍 Constructor called', {
       apiKeyPresent: !!geminiApiKey,
       apiKeyLength: geminiApiKey?.length,
-      deepgramKeyPresent: !!this.deepgramApiKey,
+      transcriptionProvider: this.transcriptionConfigs['deepgram-streaming']?.provider,
+      transcriptionKeyPresent: !!this.transcriptionConfigs['deepgram-streaming']?.options.apiKey,
+      localTranscriptionEndpoint: localConfig?.options.endpoint || null,
       sampleRate,
-      pipelineMode: this.pipelineMode
+      pipelineMode: this.pipelineMode,
+      questionDetectorMode: this.questionDetectorMode,
+      conversationLanguage: this.conversationLanguage
     });
 
     this.sampleRate = sampleRate;
 
+    const dedupConfig = loadQuestionDedupConfig();
+    this.questionDeduplicator = new QuestionDeduplicator(
+      createSimilarityStrategy(dedupConfig.strategy, { threshold: dedupConfig.threshold, geminiApiKey }),
+      { windowMs: dedupConfig.windowMs }
+    );
+    logger.info('🔄 Question dedup configured', dedupConfig);
+
+    const gateConfig = loadVoiceActivityGateConfig({ sampleRate });
+    this.audioGates = { user: new VoiceActivityGate(gateConfig), opponent: new VoiceActivityGate(gateConfig) };
+    logger.info('🔇 Voice activity gate configured', gateConfig);
+
+    const { intervalMs, ...levelConfig } = loadAudioLevelConfig();
+    this.levelMeter = new AudioLevelMeter(levelConfig);
+    this.levelIntervalMs = intervalMs;
+
     // Initialize legacy Gemini Live detector (preserved for fallback)
     try {
       logger.info('📦 Creating GeminiLiveQuestionDetector (legacy, preserved)...');
@@ -71,13 +183,15 @@ export class DualAudioCaptureManager extends EventEmitter {
         {
           apiKey: geminiApiKey,
           model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-          language: 'ja-JP',
+          language: this.conversationLanguage === 'en' ? 'en-US' : 'ja-JP',
           systemPrompt: ''
         },
         {
           onQuestionDetected: (question: DetectedQuestion) => {
             if (this.pipelineMode === 'gemini-live') {
               logger.info(`Question detected via Gemini Live (${question.source}): "${question.text}"`);
+              this.linkFollowUp(question);
+              this.attachRecordingPosition(question, question.timestamp - QUESTION_AUDIO_FALLBACK_MS);
               this.questionBuffer.push(question);
               this.emit('question-detected', question);
             }
@@ -99,13 +213,9 @@ export class DualAudioCaptureManager extends EventEmitter {
       throw error;
     }
 
-    // Initialize new Deepgram + Streaming pipeline if API key available
-    if (this.deepgramApiKey) {
-      this.initializeStreamingPipeline();
-    } else {
-      logger.warn('⚠️ DEEPGRAM_API_KEY not set, falling back to Gemini Live pipeline');
-      this.pipelineMode = 'gemini-live';
-    }
+    // Initialize new transcription + Streaming pipelines (falls back to Gemini Live on failure)
+    this.initializeStreamingPipeline();
+    this.selectInitialPipeline();
 
     // Initialize system audio capture
     try {
@@ -129,24 +239,10 @@ export class DualAudioCaptureManager extends EventEmitter {
   }
 
   /**
-   * Initialize the new Deepgram + Streaming LLM pipeline
+   * Initialize the new transcription + Streaming LLM pipelines
    */
   private initializeStreamingPipeline(): void {
-    if (!this.deepgramApiKey) {
-      logger.warn('Cannot initialize streaming pipeline without Deepgram API key');
-      return;
-    }
-
     try {
-      logger.info('📦 Creating DeepgramTranscriptionService...');
-      this.deepgramService = new DeepgramTranscriptionService({
-        apiKey: this.deepgramApiKey,
-        language: 'ja',
-        model: 'nova-2',
-        sampleRate: this.sampleRate,
-      });
-      logger.info('✅ DeepgramTranscriptionService created');
-
       logger.info('📦 Creating StreamingQuestionDetector...');
       this.streamingDetector = new StreamingQuestionDetector(
         {
@@ -154,13 +250,7 @@ export class DualAudioCaptureManager extends EventEmitter {
           model: 'gemini-2.0-flash', // Use standard text model, not native-audio
         },
         {
-          onQuestionDetected: (question: DetectedQuestion) => {
-            if (this.pipelineMode === 'deepgram-streaming') {
-              logger.info(`Question detected via streaming (${question.source}): "${question.text}"`);
-              this.questionBuffer.push(question);
-              this.emit('question-detected', question);
-            }
-          },
+          // Questions are taken from detectQuestion()'s result so they pass dedup first
           onError: (error) => {
             logger.error('StreamingQuestionDetector error', error);
             this.emit('error', error);
@@ -168,57 +258,129 @@ export class DualAudioCaptureManager extends EventEmitter {
         }
       );
       logger.info('✅ StreamingQuestionDetector created');
-
-      // Wire up transcription → question detection
-      this.setupDeepgramEventHandlers();
-
-      logger.info('✅ Streaming pipeline initialized');
     } catch (error) {
       logger.error('❌ Failed to initialize streaming pipeline', error as Error);
-      logger.warn('Falling back to Gemini Live pipeline');
-      this.pipelineMode = 'gemini-live';
+      return;
+    }
+
+    for (const mode of Object.keys(this.transcriptionConfigs) as StreamingPipelineMode[]) {
+      const { provider, options } = this.transcriptionConfigs[mode]!;
+
+      try {
+        logger.info(`📦 Creating transcription provider for ${mode}: ${provider}...`);
+        const transcriptionProvider = createTranscriptionProvider(provider, options);
+        this.transcriptionProviders[mode] = transcriptionProvider;
+
+        // Wire up transcription → question detection
+        this.setupTranscriptionEventHandlers(transcriptionProvider);
+        logger.info(`✅ ${mode} pipeline initialized (${transcriptionProvider.name})`);
+      } catch (error) {
+        logger.error(`❌ Failed to initialize ${mode} pipeline`, error as Error);
+      }
     }
   }
 
   /**
-   * Set up event handlers for Deepgram transcription service
+   * Pick the starting pipeline: AUDIO_PIPELINE_MODE if usable, else cloud streaming, else local, else Gemini Live
    */
-  private setupDeepgramEventHandlers(): void {
-    if (!this.deepgramService || !this.streamingDetector) return;
+  private selectInitialPipeline(): void {
+    const requested = process.env.AUDIO_PIPELINE_MODE as PipelineMode | undefined;
+    const candidates: PipelineMode[] = [
+      ...(requested ? [requested] : []),
+      'deepgram-streaming',
+      'local-streaming',
+    ];
+
+    const available = candidates.find(mode => mode === 'gemini-live' || !!this.transcriptionProviders[mode as StreamingPipelineMode]);
+    if (!available) {
+      logger.warn('⚠️ No transcription provider available, falling back to Gemini Live pipeline');
+    }
+
+    this.pipelineMode = available || 'gemini-live';
+    logger.info(`Pipeline mode: ${this.pipelineMode}`);
+  }
+
+  private isStreamingPipeline(): boolean {
+    return this.pipelineMode !== 'gemini-live';
+  }
+
+  /**
+   * Provider feeding the active streaming pipeline (null for Gemini Live)
+   */
+  private get transcriptionProvider(): TranscriptionProvider | null {
+    if (this.pipelineMode === 'gemini-live') return null;
+    return this.transcriptionProviders[this.pipelineMode] || null;
+  }
+
+  /**
+   * Set up event handlers for a transcription provider
+   * Only the provider of the active pipeline feeds the question detector
+   */
+  private setupTranscriptionEventHandlers(provider: TranscriptionProvider): void {
+    if (!this.streamingDetector) return;
 
     // Handle complete utterances - send to question detector
-    this.deepgramService.on('utterance-complete', async (data: { text: string; source: 'user' | 'opponent'; timestamp: number }) => {
-      if (this.pipelineMode !== 'deepgram-streaming') return;
+    provider.on('utterance-complete', async (data: UtteranceCompleteEvent) => {
+      if (this.transcriptionProvider !== provider) return;
 
       const { text, source } = data;
+      const speakerIndex = data.speakerIndex ?? this.sentenceSpeaker[source];
 
-      // Flush buffer and process complete utterance
-      const completeText = this.flushSentenceBuffer(source, text);
+      // Flush buffer and process what the transcription handler has not already seen
+      this.clearSentenceTimeout(source);
+      const spokenAt = this.takeSentenceStart(source);
+      const completeText = this.flushSentenceBuffer(source, this.takeUnseenUtteranceText(source, text));
       if (completeText) {
-        await this.processCompleteText(completeText, source);
+        await this.processCompleteText(completeText, source, speakerIndex, spokenAt);
       }
     });
 
     // Handle final transcriptions - accumulate in buffer until sentence complete or timeout
-    this.deepgramService.on('transcription', async (result) => {
-      if (this.pipelineMode !== 'deepgram-streaming') return;
+    provider.on('transcription', async (result: TranscriptionResult) => {
+      if (this.transcriptionProvider !== provider) return;
+
+      if (result.isFinal && result.speakerIndex !== undefined && this.speakerRegistry.observe(result.speakerIndex)) {
+        logger.info(`🗣️ New speaker on ${result.source}: ${this.speakerRegistry.getLabel(result.speakerIndex)}`);
+        this.emit('speakers-changed', this.speakerRegistry.list());
+      }
+
+      if (result.isFinal && result.text.trim()) {
+        // Every final utterance is forwarded for transcript recording
+        this.emit('transcript', result);
+      }
 
       if (result.isFinal && result.text.length > 3) {
-        logger.info(`📝 Deepgram transcription (${result.source}): "${result.text.substring(0, 50)}..."`);
+        logger.info(`📝 Transcription (${result.source}): "${result.text.substring(0, 50)}..."`);
 
         // Clear any existing timeout for this source
         this.clearSentenceTimeout(result.source);
 
-        // Accumulate in sentence buffer
-        this.sentenceBuffer[result.source] += result.text;
+        // A different diarized speaker starts a new sentence; close what the previous one said
+        const previousSpeaker = this.sentenceSpeaker[result.source];
+        if (result.speakerIndex !== previousSpeaker && this.sentenceBuffer[result.source].trim()) {
+          const previousStart = this.takeSentenceStart(result.source);
+          const previousText = this.flushSentenceBuffer(result.source, '');
+          await this.processCompleteText(previousText, result.source, previousSpeaker, previousStart);
+        }
+        this.sentenceSpeaker[result.source] = result.speakerIndex;
+        const speakerIndex = result.speakerIndex;
+
+        // Accumulate in sentence buffer (English segments need a separating space)
+        const language = resolveLanguage(this.conversationLanguage, result.text);
+        const separator = language === 'en' && this.sentenceBuffer[result.source] ? ' ' : '';
+        if (!this.sentenceBuffer[result.source]) {
+          this.sentenceStartedAt[result.source] = Date.now();
+        }
+        this.sentenceBuffer[result.source] += separator + result.text;
+        this.utteranceSegments[result.source].push(result.text.trim());
 
         // Check if buffer contains a complete sentence (ends with sentence-ending pattern)
-        if (this.hasCompleteSentence(this.sentenceBuffer[result.source])) {
+        if (hasCompleteSentence(this.sentenceBuffer[result.source], language)) {
           // Sentence complete! Send immediately
           const completeText = this.sentenceBuffer[result.source].trim();
           this.sentenceBuffer[result.source] = '';
           logger.info(`⚡ Sentence complete (${result.source}), sending immediately`);
-          await this.processCompleteText(completeText, result.source);
+          await this.processCompleteText(completeText, result.source, speakerIndex, this.takeSentenceStart(result.source));
         } else {
           // No sentence-ending pattern yet - set timeout to send after 1000ms
           this.sentenceTimeouts[result.source] = setTimeout(async () => {
@@ -226,182 +388,197 @@ export class DualAudioCaptureManager extends EventEmitter {
             if (bufferedText.length > 5) {
               this.sentenceBuffer[result.source] = '';
               logger.info(`⏱️ Timeout reached (${result.source}), sending buffer: "${bufferedText.substring(0, 30)}..."`);
-              await this.processCompleteText(bufferedText, result.source);
+              await this.processCompleteText(bufferedText, result.source, speakerIndex, this.takeSentenceStart(result.source));
             }
           }, this.SENTENCE_TIMEOUT_MS);
         }
       }
     });
 
-    this.deepgramService.on('error', (error) => {
-      logger.error('Deepgram error', error);
+    provider.on('error', (error) => {
+      logger.error(`Transcription error (${provider.name})`, error);
       this.emit('error', error);
     });
 
-    this.deepgramService.on('disconnected', (source) => {
-      logger.warn(`Deepgram ${source} disconnected`);
+    provider.on('disconnected', (source) => {
+      logger.warn(`Transcription ${source} disconnected (${provider.name})`);
+    });
+
+    provider.on('connection-degraded', (event: ConnectionDegradedEvent) => {
+      if (this.transcriptionProvider !== provider) return;
+
+      this.degradedSources.add(event.source);
+      this.emit('connection-degraded', { ...event, provider: provider.name });
+    });
+
+    provider.on('connection-restored', (event: ConnectionRestoredEvent) => {
+      if (this.transcriptionProvider !== provider) return;
+
+      this.degradedSources.delete(event.source);
+      this.emit('connection-restored', { ...event, provider: provider.name });
     });
   }
 
   /**
    * Process complete text and send to Gemini for question detection
+   * `spokenAt` is when the sentence's first segment arrived (defaults to now).
    */
-  private async processCompleteText(text: string, source: 'user' | 'opponent'): Promise<void> {
+  private async processCompleteText(
+    text: string,
+    source: 'user' | 'opponent',
+    speakerIndex?: number,
+    spokenAt: number = Date.now()
+  ): Promise<void> {
     if (!this.streamingDetector) return;
 
-    // Pre-filter: check if text might contain a question
-    if (this.streamingDetector.mightContainQuestion(text)) {
-      logger.info(`🔍 Processing potential question (${source}): "${text.substring(0, 50)}..."`);
+    let question: DetectedQuestion | null = null;
+    const language = resolveLanguage(this.conversationLanguage, text);
 
-      const question = await this.streamingDetector.detectQuestion(text, source);
+    // Context is what was said before this sentence; every sentence joins it, question or not
+    const context = this.conversationContext.getRecent();
+    this.conversationContext.add(text, source, Date.now(), speakerIndex);
 
-      // Deduplicate: check if this question is too similar to a recent one
-      if (question && !this.isDuplicateQuestion(question.text)) {
-        // Not a duplicate - emit it
-        this.recentQuestions.push({ text: question.text, timestamp: Date.now() });
-        this.cleanupRecentQuestions();
-      } else if (question) {
-        logger.info(`🔄 Skipping duplicate question: "${question.text.substring(0, 30)}..."`);
+    if (this.questionDetectorMode === 'rules') {
+      question = this.ruleDetector.detectQuestion(text, source, language, context, speakerIndex);
+      if (question) {
+        logger.info(`📏 Rule-based question (${source}, confidence ${question.confidence}): "${question.text.substring(0, 50)}..."`);
       }
+    } else {
+      // Pre-filter: check if text might contain a question
+      const mightContainQuestion = this.questionDetectorMode === 'hybrid'
+        ? this.ruleDetector.mightContainQuestion(text, language)
+        : this.streamingDetector.mightContainQuestion(text, language);
+      if (!mightContainQuestion) return;
+
+      logger.info(`🔍 Processing potential question (${source}): "${text.substring(0, 50)}..."`);
+
+      const fallback = this.questionDetectorMode === 'hybrid'
+        ? this.ruleDetector.detectQuestion(text, source, language, context, speakerIndex)
+        : null;
+      question = await this.streamingDetector.detectQuestion(text, source, { fallback, language, context, speakerIndex });
+    }
+
+    if (question) {
+      await this.acceptStreamingQuestion(question, spokenAt);
     }
   }
 
   /**
-   * Clear sentence timeout for a source
+   * Emit a new question, or merge it into the earlier question it repeats ('question-updated')
    */
-  private clearSentenceTimeout(source: 'user' | 'opponent'): void {
-    if (this.sentenceTimeouts[source]) {
-      clearTimeout(this.sentenceTimeouts[source]!);
-      this.sentenceTimeouts[source] = null;
-    }
+  private acceptStreamingQuestion(question: DetectedQuestion, spokenAt: number): Promise<void> {
+    const accept = async () => {
+      let original: DetectedQuestion | null = null;
+      try {
+        original = await this.questionDeduplicator.findOriginal(question);
+      } catch (error) {
+        logger.error('Question dedup failed, treating question as new', error as Error);
+      }
+
+      if (original) {
+        this.questionDeduplicator.merge(original, question);
+        logger.info(`🔄 Merged repeated question into ${original.id} (asked ${original.repeatCount}x): "${question.text.substring(0, 30)}..."`);
+        this.emit('question-updated', original);
+        return;
+      }
+
+      this.questionDeduplicator.add(question);
+      this.attachRecordingPosition(question, spokenAt - QUESTION_AUDIO_LEAD_MS);
+      this.handleStreamingQuestion(question);
+    };
+
+    const result = this.dedupQueue.then(accept);
+    this.dedupQueue = result.catch(() => undefined);
+    return result;
   }
 
   /**
-   * Check if buffer contains a complete Japanese sentence
-   * Expanded patterns for comprehensive coverage
-   */
-  private hasCompleteSentence(text: string): boolean {
-    const trimmed = text.trim();
-
-    // Japanese sentence-ending patterns (comprehensive list)
-    const sentenceEndPatterns = [
-      // Punctuation endings
-      /[。？！?!]$/,                   // Period, question mark, exclamation
-
-      // Basic question patterns
-      /ですか[。？]?$/,                // Polite question (です + か)
-      /ますか[。？]?$/,                // Polite question (ます + か)
-      /でしょうか[。？]?$/,            // Very polite question
-      /ませんか[。？]?$/,              // Negative question (行きませんか)
-      /ないですか[。？]?$/,            // Negative question (ないですか)
-      /ないでしょうか[。？]?$/,        // Very polite negative
-
-      // Explanatory questions
-      /んですか[。？]?$/,              // Explanatory (なんですか, 行くんですか)
-      /のですか[。？]?$/,              // Formal explanatory
-
-      // Softer questions
-      /かね[。？]?$/,                  // Softer question (そうかね)
-      /ですかね[。？]?$/,              // Even softer
-      /でしょうね[。？]?$/,            // Rhetorical/soft
-
-      // Request patterns
-      /ください[。]?$/,               // Please do (ください)
-      /てください[。]?$/,             // Te-form request
-      /お願いします[。]?$/,           // Request (お願い)
-      /いただけますか[。？]?$/,        // Polite request (いただけますか)
-      /くださいませんか[。？]?$/,      // Very polite request
-      /もらえますか[。？]?$/,          // Can I get?
-
-      // Common question endings
-      /いかがでしょうか[。？]?$/,      // Polite inquiry (いかが)
-      /いかがですか[。？]?$/,          // Polite inquiry
-      /どうですか[。？]?$/,            // How is it?
-      /どうでしょうか[。？]?$/,        // How about?
-      /しますか[。？]?$/,              // Will you do?
-      /ありますか[。？]?$/,            // Is there?
-      /と思いますか[。？]?$/,          // What do you think?
-      /でしょう[。？]?$/,              // Probably (rhetorical)
-
-      // Statement endings
-      /ですね[。]?$/,                 // Agreement seeking
-      /ますね[。]?$/,                 // Agreement seeking (verb)
-      /です[。]$/,                    // Polite statement with period
-      /ます[。]$/,                    // Polite verb with period
-
-      // Question particle with period
-      /か[。]$/,                      // Question particle + period
-    ];
+   * Buffer and forward a question found by the streaming (LLM or rule-based) detector
+   */
+  private handleStreamingQuestion(question: DetectedQuestion): void {
+    if (!this.isStreamingPipeline()) return;
 
-    return sentenceEndPatterns.some(pattern => pattern.test(trimmed));
+    logger.info(`Question detected via streaming (${question.source}): "${question.text}"`);
+    if (question.speakerIndex !== undefined) {
+      question.speakerLabel = this.speakerRegistry.getLabel(question.speakerIndex);
+    }
+    this.linkFollowUp(question);
+    this.questionBuffer.push(question);
+    this.emit('question-detected', question);
   }
 
   /**
-   * Flush sentence buffer and combine with new text
+   * Mark a question as a follow-up of an earlier buffered question, if it reads like one
    */
-  private flushSentenceBuffer(source: 'user' | 'opponent', newText: string): string {
-    const buffered = this.sentenceBuffer[source];
-    this.sentenceBuffer[source] = '';
-    return (buffered + newText).trim();
+  private linkFollowUp(question: DetectedQuestion): void {
+    if (question.parentId) return;
+
+    const language = resolveLanguage(this.conversationLanguage, question.refinedText || question.text);
+    const parentId = this.followUpLinker.findParentId(question, this.questionBuffer, language);
+    if (parentId) {
+      question.parentId = parentId;
+      logger.info(`🧵 Follow-up of ${parentId}: "${question.text.substring(0, 50)}"`);
+    }
   }
 
   /**
-   * Check if a question is too similar to a recent one (deduplication)
+   * Point a question at the stretch of the running recording it was asked in
    */
-  private isDuplicateQuestion(questionText: string): boolean {
-    const now = Date.now();
+  private attachRecordingPosition(question: DetectedQuestion, from: number): void {
+    const position = this.audioRecorder?.positionOf(from);
+    if (!position) return;
 
-    for (const recent of this.recentQuestions) {
-      // Only check questions within the time window
-      if (now - recent.timestamp > this.DEDUP_TIME_WINDOW_MS) continue;
+    question.recordingId = position.recordingId;
+    question.audioOffsetMs = position.offsetMs;
+    question.audioDurationMs = Math.max(0, question.timestamp - from) + 1000;
+  }
 
-      // Calculate similarity
-      const similarity = this.calculateSimilarity(questionText, recent.text);
-      if (similarity >= this.DEDUP_SIMILARITY_THRESHOLD) {
-        return true;
-      }
+  /**
+   * Clear sentence timeout for a source
+   */
+  private clearSentenceTimeout(source: 'user' | 'opponent'): void {
+    if (this.sentenceTimeouts[source]) {
+      clearTimeout(this.sentenceTimeouts[source]!);
+      this.sentenceTimeouts[source] = null;
     }
-
-    return false;
   }
 
   /**
-   * Calculate similarity between two strings (Jaccard similarity on character bigrams)
+   * Flush sentence buffer and combine with new text (English segments need a separating space)
    */
-  private calculateSimilarity(a: string, b: string): number {
-    if (a === b) return 1.0;
-    if (!a || !b) return 0.0;
-
-    // Use character bigrams for Japanese text
-    const getBigrams = (s: string): Set<string> => {
-      const bigrams = new Set<string>();
-      for (let i = 0; i < s.length - 1; i++) {
-        bigrams.add(s.substring(i, i + 2));
-      }
-      return bigrams;
-    };
+  private flushSentenceBuffer(source: 'user' | 'opponent', newText: string): string {
+    const buffered = this.sentenceBuffer[source].trim();
+    this.sentenceBuffer[source] = '';
 
-    const bigramsA = getBigrams(a);
-    const bigramsB = getBigrams(b);
+    const text = newText.trim();
+    if (!buffered || !text) return buffered || text;
 
-    // Jaccard similarity: intersection / union
-    let intersection = 0;
-    for (const bigram of bigramsA) {
-      if (bigramsB.has(bigram)) intersection++;
-    }
-
-    const union = bigramsA.size + bigramsB.size - intersection;
-    return union === 0 ? 0 : intersection / union;
+    const separator = resolveLanguage(this.conversationLanguage, buffered + text) === 'en' ? ' ' : '';
+    return buffered + separator + text;
   }
 
   /**
-   * Clean up old questions from recent list
+   * Part of an utterance-complete text that did not arrive as a buffered final segment
+   * Segments are matched in order; anything before the last match was already handled.
    */
-  private cleanupRecentQuestions(): void {
-    const now = Date.now();
-    this.recentQuestions = this.recentQuestions.filter(
-      q => now - q.timestamp < this.DEDUP_TIME_WINDOW_MS
-    );
+  private takeUnseenUtteranceText(source: 'user' | 'opponent', text: string): string {
+    const segments = this.utteranceSegments[source];
+    this.utteranceSegments[source] = [];
+
+    let seenUpTo = 0;
+    for (const segment of segments) {
+      const index = text.indexOf(segment, seenUpTo);
+      if (index >= 0) {
+        seenUpTo = index + segment.length;
+      }
+    }
+    return text.slice(seenUpTo).trim();
+  }
+
+  private takeSentenceStart(source: 'user' | 'opponent'): number {
+    const startedAt = this.sentenceStartedAt[source] ?? Date.now();
+    delete this.sentenceStartedAt[source];
+    return startedAt;
   }
 
   private setupEventForwarding(): void {
@@ -450,17 +627,11 @@ export class DualAudioCaptureManager extends EventEmitter {
         lastLogTime = now;
       }
 
-      if (this.isCapturing) {
-        // Route to active pipeline
-        if (this.pipelineMode === 'deepgram-streaming' && this.deepgramService) {
-          this.deepgramService.sendAudio(audioData, 'opponent');
-        } else {
-          // Legacy Gemini Live pipeline
-          this.geminiDetector.sendAudioData(audioData, 'opponent').catch(error => {
-            logger.error('Error sending system audio to Gemini', error);
-          });
-        }
-      } else {
+      if (this.isCapturing && !this.activeReplay) {
+        this.routeAudio(audioData, 'opponent').catch(error => {
+          logger.error('Error sending system audio to Gemini', error);
+        });
+      } else if (!this.isCapturing) {
         if (audioDataEventCount === 1) {
           logger.warn('⚠️ Received audio-data but isCapturing is false, dropping chunk');
         }
@@ -477,19 +648,59 @@ export class DualAudioCaptureManager extends EventEmitter {
     });
   }
 
+  /**
+   * Upload audio through the source's silence gate; the provider is told when speech stops
+   * Gemini Live keeps receiving everything since it runs its own server-side VAD.
+   */
+  private sendToTranscription(provider: TranscriptionProvider, audioData: Buffer, source: 'user' | 'opponent'): void {
+    const { forward, speechEnded } = this.audioGates[source].process(audioData);
+
+    forward.forEach(chunk => provider.sendAudio(chunk, source));
+    if (speechEnded) {
+      provider.flush?.(source);
+    }
+  }
+
+  /**
+   * Send a chunk of one source to the active pipeline
+   */
+  private async routeAudio(audioData: Buffer, source: 'user' | 'opponent'): Promise<void> {
+    this.levelMeter.process(audioData, source);
+
+    if (this.audioRecorder?.isRecording()) {
+      this.recordAudio(audioData, source);
+    }
+
+    if (this.transcriptionProvider) {
+      this.sendToTranscription(this.transcriptionProvider, audioData, source);
+    } else {
+      // Legacy Gemini Live pipeline
+      await this.geminiDetector.sendAudioData(audioData, source);
+    }
+  }
+
+  /**
+   * Write a chunk to the session recording; a failing disk stops the recording, not the capture
+   */
+  private recordAudio(audioData: Buffer, source: 'user' | 'opponent'): void {
+    try {
+      this.audioRecorder!.write(audioData, source);
+    } catch (error) {
+      logger.error('❌ Recording failed, stopping it', error as Error);
+      this.stopRecording();
+      this.emit('recording-changed', this.getRecordingState());
+    }
+  }
+
   /**
    * Process microphone audio - route to active pipeline
+   * Live microphone audio is ignored while a recording is being replayed.
    */
   public async processMicrophoneAudio(audioData: Buffer): Promise<void> {
-    if (!this.isCapturing) return;
+    if (!this.isCapturing || this.activeReplay) return;
 
     try {
-      if (this.pipelineMode === 'deepgram-streaming' && this.deepgramService) {
-        this.deepgramService.sendAudio(audioData, 'user');
-      } else {
-        // Legacy Gemini Live pipeline
-        await this.geminiDetector.sendAudioData(audioData, 'user');
-      }
+      await this.routeAudio(audioData, 'user');
     } catch (error) {
       logger.error('Error processing microphone audio', error as Error);
     }
@@ -497,8 +708,10 @@ export class DualAudioCaptureManager extends EventEmitter {
 
   /**
    * Start capturing both audio sources
+   * `systemAudio: false` starts only the pipeline, for replaying recordings; `record: false`
+   * keeps the session out of the local recording even when consent was given.
    */
-  public async startCapture(): Promise<void> {
+  public async startCapture(options: { systemAudio?: boolean; record?: boolean } = {}): Promise<void> {
     logger.info('🎙️ startCapture() called', { pipeline: this.pipelineMode });
 
     if (this.isCapturing) {
@@ -509,11 +722,24 @@ export class DualAudioCaptureManager extends EventEmitter {
     try {
       logger.info(`🚀 Starting dual audio capture with ${this.pipelineMode} pipeline...`);
 
+      this.audioGates.user.reset();
+      this.audioGates.opponent.reset();
+
+      // Repeats are only merged within one capture session
+      this.questionDeduplicator.clear();
+
+      // Diarization indices restart with every connection
+      this.speakerRegistry.clear();
+      this.sentenceSpeaker = {};
+      this.sentenceStartedAt = {};
+      this.utteranceSegments = { user: [], opponent: [] };
+      this.emit('speakers-changed', []);
+
       // Start the appropriate pipeline
-      if (this.pipelineMode === 'deepgram-streaming' && this.deepgramService) {
-        logger.info('📞 Connecting to Deepgram...');
-        await this.deepgramService.connect();
-        logger.info('✅ Deepgram connected');
+      if (this.transcriptionProvider) {
+        logger.info(`📞 Connecting to ${this.transcriptionProvider.name}...`);
+        await this.transcriptionProvider.connect();
+        logger.info(`✅ ${this.transcriptionProvider.name} connected`);
       } else {
         logger.info('📞 Starting Gemini Live sessions...');
         await this.geminiDetector.startListening();
@@ -521,15 +747,22 @@ export class DualAudioCaptureManager extends EventEmitter {
       }
 
       // Start system audio capture
-      try {
-        logger.info('🔊 Starting system audio capture...');
-        await this.systemAudioCapture.startCapture('system-audio');
-        logger.info('✅ System audio capture started (opponent source)');
-      } catch (systemAudioError) {
-        logger.warn('⚠️ System audio not available, continuing with microphone only', systemAudioError as Error);
+      if (options.systemAudio !== false) {
+        try {
+          logger.info('🔊 Starting system audio capture...');
+          await this.systemAudioCapture.startCapture('system-audio');
+          logger.info('✅ System audio capture started (opponent source)');
+        } catch (systemAudioError) {
+          logger.warn('⚠️ System audio not available, continuing with microphone only', systemAudioError as Error);
+        }
       }
 
       this.isCapturing = true;
+      if (this.recordingConsent && options.record !== false) {
+        this.startRecording();
+      }
+      this.startLevelTelemetry();
+      this.emit('capture-started', { pipelineMode: this.pipelineMode });
 
       logger.info(`✅ Dual audio capture started with ${this.pipelineMode} pipeline`);
       logger.info('🎤 Microphone → user source');
@@ -550,10 +783,11 @@ export class DualAudioCaptureManager extends EventEmitter {
 
     try {
       logger.info('Stopping dual audio capture...');
+      this.activeReplay?.stop();
 
       // Stop the active pipeline
-      if (this.pipelineMode === 'deepgram-streaming' && this.deepgramService) {
-        this.deepgramService.disconnect();
+      if (this.transcriptionProvider) {
+        this.transcriptionProvider.disconnect();
       }
 
       // Always stop Gemini Live if it was used
@@ -562,7 +796,16 @@ export class DualAudioCaptureManager extends EventEmitter {
       // Stop system audio
       await this.systemAudioCapture.stopCapture();
 
+      // Consent covers one session; the next one has to be agreed to again
+      this.stopRecording();
+      this.recordingConsent = false;
+      this.emit('recording-changed', this.getRecordingState());
+
+      this.stopLevelTelemetry();
+      this.conversationContext.clear();
+      this.degradedSources.clear();
       this.isCapturing = false;
+      this.emit('capture-stopped');
       logger.info('✅ Dual audio capture stopped');
 
     } catch (error) {
@@ -571,17 +814,196 @@ export class DualAudioCaptureManager extends EventEmitter {
     }
   }
 
+  /**
+   * Emit 'audio-levels' for both sources at a fixed rate, however often chunks arrive
+   * A source that stays silent past the warning threshold is logged once per silent stretch.
+   */
+  private startLevelTelemetry(): void {
+    this.stopLevelTelemetry();
+    this.levelMeter.reset();
+    this.silenceWarned = { user: false, opponent: false };
+
+    this.levelTimer = setInterval(() => {
+      const levels: AudioLevels = this.levelMeter.snapshot();
+
+      for (const source of ['user', 'opponent'] as const) {
+        const { silenceWarning, silentForMs } = levels[source];
+        if (silenceWarning && !this.silenceWarned[source]) {
+          logger.warn(`🔇 No ${source === 'user' ? 'microphone' : 'system'} audio for ${Math.round(silentForMs / 1000)}s`);
+        }
+        this.silenceWarned[source] = silenceWarning;
+      }
+
+      this.emit('audio-levels', levels);
+    }, this.levelIntervalMs);
+  }
+
+  private stopLevelTelemetry(): void {
+    if (this.levelTimer) {
+      clearInterval(this.levelTimer);
+      this.levelTimer = null;
+    }
+  }
+
+  /**
+   * Play recorded audio through the active pipeline as if it were being captured live
+   * Starts a capture session without system audio, replays the files (see AudioFileReplayer)
+   * and stops the session afterwards. Questions are emitted through 'question-detected' as usual
+   * and also returned, so detector changes can be compared on the same recording.
+   */
+  public async replayAudioFiles(request: AudioFileReplayRequest): Promise<AudioFileReplaySummary> {
+    if (this.isCapturing) {
+      throw new Error('Stop capture before replaying audio files');
+    }
+    if (!request.user && !request.opponent) {
+      throw new Error('No audio file given for either source');
+    }
+
+    const sources: Partial<Record<'user' | 'opponent', Buffer>> = {};
+    if (request.user) sources.user = await loadAudioFile(request.user, this.sampleRate);
+    if (request.opponent) sources.opponent = await loadAudioFile(request.opponent, this.sampleRate);
+
+    const replayer = new AudioFileReplayer({ ...request, sampleRate: this.sampleRate });
+    const questions: DetectedQuestion[] = [];
+    const collect = (question: DetectedQuestion) => questions.push(question);
+
+    logger.info('▶️ Replaying audio files', { user: request.user, opponent: request.opponent, speed: request.speed ?? 1 });
+    await this.startCapture({ systemAudio: false, record: false });
+    this.activeReplay = replayer;
+    this.on('question-detected', collect);
+
+    try {
+      const result = await replayer.replay(sources, (chunk, source) => this.routeAudio(chunk, source));
+
+      if (!result.stopped) {
+        // Let the provider finalize the tail and the sentence buffers time out into the detector
+        const provider = this.transcriptionProvider;
+        (Object.keys(sources) as Array<'user' | 'opponent'>).forEach(source => provider?.flush?.(source));
+        await new Promise(resolve => setTimeout(resolve, request.settleMs ?? 3000));
+      }
+
+      logger.info(`⏹️ Replay finished: ${questions.length} question(s) from ${result.audioMs}ms of audio in ${result.elapsedMs}ms`);
+      return { ...result, pipelineMode: this.pipelineMode, questions };
+    } finally {
+      this.off('question-detected', collect);
+      this.activeReplay = null;
+      await this.stopCapture();
+    }
+  }
+
+  public isReplaying(): boolean {
+    return this.activeReplay !== null;
+  }
+
+  /**
+   * Where sessions are recorded to once the user consents (none: recording unavailable)
+   */
+  public setAudioRecorder(recorder: SessionAudioRecorder | null): void {
+    this.stopRecording();
+    this.audioRecorder = recorder;
+  }
+
+  /**
+   * Give or withdraw consent to record the current session (or the next one, before capture starts)
+   * Withdrawing stops the recording; what was already written is kept.
+   */
+  public setRecordingConsent(consent: boolean): AudioRecordingState {
+    if (consent && !this.audioRecorder) {
+      throw new Error('Audio recording is not available');
+    }
+
+    this.recordingConsent = consent;
+    if (consent && this.isCapturing && !this.activeReplay) {
+      this.startRecording();
+    } else if (!consent) {
+      this.stopRecording();
+    }
+
+    const state = this.getRecordingState();
+    this.emit('recording-changed', state);
+    return state;
+  }
+
+  public getRecordingState(): AudioRecordingState {
+    return {
+      consent: this.recordingConsent,
+      recording: this.audioRecorder?.isRecording() || false,
+      recordingId: this.audioRecorder?.getCurrentId() || null
+    };
+  }
+
+  private startRecording(): void {
+    if (!this.audioRecorder || this.audioRecorder.isRecording()) return;
+
+    try {
+      this.audioRecorder.start();
+    } catch (error) {
+      logger.error('❌ Failed to start recording', error as Error);
+    }
+  }
+
+  private stopRecording(): void {
+    if (!this.audioRecorder?.isRecording()) return;
+
+    try {
+      this.audioRecorder.stop();
+    } catch (error) {
+      logger.error('❌ Failed to finish recording', error as Error);
+    }
+  }
+
   /**
    * Switch pipeline mode
    */
-  public setPipelineMode(mode: PipelineMode): void {
-    if (mode === 'deepgram-streaming' && !this.deepgramService) {
-      logger.warn('Cannot switch to deepgram-streaming: Deepgram not initialized');
-      return;
+  public setPipelineMode(mode: PipelineMode): boolean {
+    if (mode !== 'gemini-live' && !this.transcriptionProviders[mode]) {
+      logger.warn(`Cannot switch to ${mode}: transcription provider not initialized`);
+      return false;
+    }
+
+    if (this.isCapturing) {
+      logger.warn(`Cannot switch to ${mode} while capturing, stop capture first`);
+      return false;
     }
 
     logger.info(`Switching pipeline mode: ${this.pipelineMode} → ${mode}`);
     this.pipelineMode = mode;
+    return true;
+  }
+
+  /**
+   * Switch conversation language for transcription, sentence heuristics and question detection
+   * An active transcription connection is re-established so the new language applies immediately.
+   */
+  public async setConversationLanguage(language: ConversationLanguage): Promise<void> {
+    if (language === this.conversationLanguage) return;
+
+    logger.info(`Switching conversation language: ${this.conversationLanguage} → ${language}`);
+    this.conversationLanguage = language;
+    Object.values(this.transcriptionProviders).forEach(provider => provider?.setLanguage(language));
+
+    this.speakerRegistry.setLanguage(language);
+    if (this.speakerRegistry.list().length > 0) {
+      this.emit('speakers-changed', this.speakerRegistry.list());
+    }
+
+    const activeProvider = this.transcriptionProvider;
+    if (this.isCapturing && activeProvider) {
+      logger.info(`🔄 Reconnecting ${activeProvider.name} with new language...`);
+      activeProvider.disconnect();
+      await activeProvider.connect();
+    }
+  }
+
+  public getConversationLanguage(): ConversationLanguage {
+    return this.conversationLanguage;
+  }
+
+  /**
+   * Pipelines that can currently be selected
+   */
+  public getAvailablePipelineModes(): PipelineMode[] {
+    return ['gemini-live', ...(Object.keys(this.transcriptionProviders) as StreamingPipelineMode[])];
   }
 
   /**
@@ -598,8 +1020,23 @@ export class DualAudioCaptureManager extends EventEmitter {
     return {
       isCapturing: this.isCapturing,
       pipelineMode: this.pipelineMode,
+      questionDetectorMode: this.questionDetectorMode,
+      conversationLanguage: this.conversationLanguage,
+      availablePipelineModes: this.getAvailablePipelineModes(),
+      speakers: this.speakerRegistry.list(),
+      questionDedup: this.questionDeduplicator.strategyName,
+      audioGate: {
+        user: this.audioGates.user.getStats(),
+        opponent: this.audioGates.opponent.getStats()
+      },
       geminiState: this.geminiDetector.getState(),
-      deepgramConnected: this.deepgramService?.isActive() || false
+      transcriptionProvider: this.transcriptionProvider?.name || null,
+      transcriptionConnected: this.transcriptionProvider?.isActive() || false,
+      degradedSources: [...this.degradedSources],
+      isReplaying: this.activeReplay !== null,
+      recording: this.getRecordingState(),
+      // Kept for existing renderer consumers
+      deepgramConnected: this.transcriptionProvider?.isActive() || false
     };
   }
 
@@ -608,17 +1045,46 @@ export class DualAudioCaptureManager extends EventEmitter {
    */
   public getQuestions(): DetectedQuestion[] {
     // Return from buffer for new pipeline, or from Gemini for legacy
-    if (this.pipelineMode === 'deepgram-streaming') {
+    if (this.isStreamingPipeline()) {
       return [...this.questionBuffer];
     }
     return this.geminiDetector.getQuestions();
   }
 
+  /**
+   * Diarized remote speakers heard in the current session
+   */
+  public getSpeakers(): SpeakerInfo[] {
+    return this.speakerRegistry.list();
+  }
+
+  public getSpeakerLabel(index: number): string {
+    return this.speakerRegistry.getLabel(index);
+  }
+
+  /**
+   * Rename a diarized speaker ("面接官 A"); an empty name restores the default label
+   * Questions already in the buffer are relabelled too.
+   */
+  public renameSpeaker(index: number, name: string): string {
+    const label = this.speakerRegistry.rename(index, name);
+    this.questionBuffer
+      .filter(q => q.speakerIndex === index)
+      .forEach(q => { q.speakerLabel = label; });
+
+    logger.info(`🗣️ Speaker ${index} renamed to "${label}"`);
+    this.emit('speaker-renamed', { index, label });
+    this.emit('speakers-changed', this.speakerRegistry.list());
+    return label;
+  }
+
   /**
    * Clear questions
    */
   public clearQuestions(): void {
     this.questionBuffer = [];
+    this.questionDeduplicator.clear();
+    this.conversationContext.clear();
     this.geminiDetector.clearQuestions();
   }
 
@@ -628,7 +1094,7 @@ export class DualAudioCaptureManager extends EventEmitter {
   public destroy(): void {
     this.stopCapture();
     this.geminiDetector.destroy();
-    this.deepgramService?.disconnect();
+    Object.values(this.transcriptionProviders).forEach(provider => provider?.disconnect());
     this.removeAllListeners();
   }
 }
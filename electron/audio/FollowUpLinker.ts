@@ -0,0 +1,69 @@
+import { DetectedQuestion } from '../../src/types/audio-stream';
+import { detectLanguage, ResolvedLanguage } from '../config/LanguageConfig';
+
+export interface FollowUpLinkerConfig {
+    maxGapMs?: number;  // A follow-up must come within this long after its parent (default 3 min)
+}
+
+// Wording that only makes sense relative to a previous question
+const FOLLOW_UP_PATTERNS: Record<ResolvedLanguage, RegExp[]> = {
+    ja: [
+        /^(それ(?!では|じゃ)|その|そちら|そこ|あれ|先ほど|さっき|今の)/,
+        /(もう少し|もうちょっと|もっと)(詳しく|具体的|掘り下げ)/,
+        /具体的に(は|言うと|どう|教えて|お願い)/,
+        /(例えば|たとえば|具体例)/,
+        /(なぜそう|どうしてそう|それはなぜ|それはどうして)/,
+        /^(他に|ほかに)(は|何か|なにか)/,
+        /^(では|じゃあ|それで)、?(その|それ)/,
+    ],
+    en: [
+        /\b(elaborate|expand on|go deeper|dig into that|more detail|tell me more)\b/i,
+        /\b(more|further) about (that|this|it)\b/i,
+        /^(and |so |but )?(why|how) (is|was|did|does) (that|this|it)\b/i,
+        /^(and |so )?what about\b/i,
+        /\b(for example|for instance|an example of (that|this)|give (me|us) an example)\b/i,
+        /\bwhat do you mean\b/i,
+        /\bwhat happened (next|after that|then)\b/i,
+        /^(and |so )?(anything|what) else\b/i,
+        /^(and|so) (what|how|why|did|do|was|were)\b/i,
+    ],
+};
+
+/**
+ * Links questions that follow up on an earlier question
+ * Heuristic: follow-up wording ("could you elaborate on that?", "それはなぜですか") attaches the
+ * question to the most recent question of the same speaker (diarized speaker when known),
+ * or failing that any speaker.
+ */
+export class FollowUpLinker {
+    private readonly maxGapMs: number;
+
+    constructor(config: FollowUpLinkerConfig = {}) {
+        this.maxGapMs = config.maxGapMs ?? 180000;
+    }
+
+    public isFollowUp(text: string, language?: ResolvedLanguage): boolean {
+        const trimmed = (text || '').trim();
+        if (!trimmed) return false;
+
+        return FOLLOW_UP_PATTERNS[language || detectLanguage(trimmed)].some(pattern => pattern.test(trimmed));
+    }
+
+    /**
+     * Id of the question this one follows up on, or null for a new topic
+     */
+    public findParentId(question: DetectedQuestion, previous: DetectedQuestion[], language?: ResolvedLanguage): string | null {
+        const text = question.refinedText?.trim() || question.text;
+        if (!this.isFollowUp(text, language)) return null;
+
+        const candidates = previous
+            .filter(q => q.id !== question.id)
+            .filter(q => q.timestamp <= question.timestamp && question.timestamp - q.timestamp <= this.maxGapMs)
+            .sort((a, b) => b.timestamp - a.timestamp);
+
+        const parent = candidates.find(q => q.source === question.source && q.speakerIndex === question.speakerIndex)
+            || candidates.find(q => q.source === question.source)
+            || candidates[0];
+        return parent ? parent.id : null;
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * IMA ADPCM (4 bits per sample) for mono linear16 audio, in the block layout of WAV format 0x11
+ * Each block starts with a 4-byte header (first sample, step index) followed by packed nibbles,
+ * low nibble first. Compresses 16-bit PCM roughly 4:1 and stays playable by ffmpeg, VLC, etc.
+ */
+
+export const IMA_ADPCM_BLOCK_ALIGN = 256;
+export const IMA_ADPCM_SAMPLES_PER_BLOCK = (IMA_ADPCM_BLOCK_ALIGN - 4) * 2 + 1; // 505
+
+// Size of the header written by createImaAdpcmWavHeader: RIFF + fmt (20) + fact + data
+export const IMA_ADPCM_WAV_HEADER_BYTES = 60;
+
+const STEP_TABLE = [
+    7, 8, 9, 10, 11, 12, 13, 14, 16, 17, 19, 21, 23, 25, 28, 31, 34, 37, 41, 45,
+    50, 55, 60, 66, 73, 80, 88, 97, 107, 118, 130, 143, 157, 173, 190, 209, 230, 253, 279, 307,
+    337, 371, 408, 449, 494, 544, 598, 658, 724, 796, 876, 963, 1060, 1166, 1282, 1411, 1552, 1707, 1878, 2066,
+    2272, 2499, 2749, 3024, 3327, 3660, 4026, 4428, 4871, 5358, 5894, 6484, 7132, 7845, 8630, 9493, 10442, 11487, 12635, 13899,
+    15289, 16818, 18500, 20350, 22385, 24623, 27086, 29794, 32767,
+];
+
+const INDEX_TABLE = [-1, -1, -1, -1, 2, 4, 6, 8, -1, -1, -1, -1, 2, 4, 6, 8];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface ChannelState {
+    predictor: number;
+    index: number;
+}
+
+function decodeNibble(state: ChannelState, nibble: number): number {
+    const step = STEP_TABLE[state.index];
+    let diff = step >> 3;
+    if (nibble & 4) diff += step;
+    if (nibble & 2) diff += step >> 1;
+    if (nibble & 1) diff += step >> 2;
+
+    state.predictor = clamp(nibble & 8 ? state.predictor - diff : state.predictor + diff, -32768, 32767);
+    state.index = clamp(state.index + INDEX_TABLE[nibble], 0, 88);
+    return state.predictor;
+}
+
+function encodeSample(state: ChannelState, sample: number): number {
+    let diff = sample - state.predictor;
+    let nibble = 0;
+    if (diff < 0) {
+        nibble = 8;
+        diff = -diff;
+    }
+
+    let step = STEP_TABLE[state.index];
+    if (diff >= step) { nibble |= 4; diff -= step; }
+    step >>= 1;
+    if (diff >= step) { nibble |= 2; diff -= step; }
+    step >>= 1;
+    if (diff >= step) { nibble |= 1; }
+
+    // Track the predictor exactly as the decoder will reconstruct it
+    decodeNibble(state, nibble);
+    return nibble;
+}
+
+/**
+ * Streaming encoder: feed linear16 chunks of any size, get back whole blocks
+ * Samples that do not fill a block yet are held until the next call or flush().
+ */
+export class ImaAdpcmEncoder {
+    private state: ChannelState = { predictor: 0, index: 0 };
+    private pending: Int16Array = new Int16Array(IMA_ADPCM_SAMPLES_PER_BLOCK);
+    private pendingCount: number = 0;
+
+    public encode(pcm: Buffer): Buffer {
+        const blocks: Buffer[] = [];
+        const sampleCount = Math.floor(pcm.length / 2);
+
+        for (let i = 0; i < sampleCount; i++) {
+            this.pending[this.pendingCount++] = pcm.readInt16LE(i * 2);
+            if (this.pendingCount === IMA_ADPCM_SAMPLES_PER_BLOCK) {
+                blocks.push(this.encodeBlock(this.pending));
+                this.pendingCount = 0;
+            }
+        }
+
+        return Buffer.concat(blocks);
+    }
+
+    /**
+     * Encode the held samples as a final block, padded with the last sample
+     */
+    public flush(): Buffer {
+        if (this.pendingCount === 0) return Buffer.alloc(0);
+
+        this.pending.fill(this.pending[this.pendingCount - 1], this.pendingCount);
+        this.pendingCount = 0;
+        return this.encodeBlock(this.pending);
+    }
+
+    private encodeBlock(samples: Int16Array): Buffer {
+        const block = Buffer.alloc(IMA_ADPCM_BLOCK_ALIGN);
+
+        // The header sample is stored verbatim and seeds the predictor for this block
+        this.state.predictor = samples[0];
+        block.writeInt16LE(samples[0], 0);
+        block.writeUInt8(this.state.index, 2);
+
+        for (let i = 1; i < samples.length; i += 2) {
+            const low = encodeSample(this.state, samples[i]);
+            const high = encodeSample(this.state, samples[i + 1]);
+            block[4 + (i - 1) / 2] = low | (high << 4);
+        }
+
+        return block;
+    }
+}
+
+/**
+ * Decode whole IMA ADPCM blocks back to linear16
+ */
+export function decodeImaAdpcm(data: Buffer): Buffer {
+    const blockCount = Math.floor(data.length / IMA_ADPCM_BLOCK_ALIGN);
+    const pcm = Buffer.alloc(blockCount * IMA_ADPCM_SAMPLES_PER_BLOCK * 2);
+    let offset = 0;
+
+    for (let b = 0; b < blockCount; b++) {
+        const block = data.subarray(b * IMA_ADPCM_BLOCK_ALIGN, (b + 1) * IMA_ADPCM_BLOCK_ALIGN);
+        const state: ChannelState = { predictor: block.readInt16LE(0), index: clamp(block.readUInt8(2), 0, 88) };
+
+        pcm.writeInt16LE(state.predictor, offset);
+        offset += 2;
+        for (let i = 4; i < IMA_ADPCM_BLOCK_ALIGN; i++) {
+            pcm.writeInt16LE(decodeNibble(state, block[i] & 0x0f), offset);
+            pcm.writeInt16LE(decodeNibble(state, block[i] >> 4), offset + 2);
+            offset += 4;
+        }
+    }
+
+    return pcm;
+}
+
+/**
+ * WAV header for mono IMA ADPCM; `sampleCount` goes into the fact chunk so players trim the
+ * padding of the last block
+ */
+export function createImaAdpcmWavHeader(sampleRate: number, dataBytes: number, sampleCount: number): Buffer {
+    const header = Buffer.alloc(IMA_ADPCM_WAV_HEADER_BYTES);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(IMA_ADPCM_WAV_HEADER_BYTES - 8 + dataBytes, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(20, 16);                 // fmt chunk size
+    header.writeUInt16LE(0x11, 20);               // Audio format: IMA ADPCM
+    header.writeUInt16LE(1, 22);                  // Mono
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(Math.round(sampleRate * IMA_ADPCM_BLOCK_ALIGN / IMA_ADPCM_SAMPLES_PER_BLOCK), 28);
+    header.writeUInt16LE(IMA_ADPCM_BLOCK_ALIGN, 32);
+    header.writeUInt16LE(4, 34);                  // Bits per sample
+    header.writeUInt16LE(2, 36);                  // Extra format bytes
+    header.writeUInt16LE(IMA_ADPCM_SAMPLES_PER_BLOCK, 38);
+    header.write('fact', 40, 'ascii');
+    header.writeUInt32LE(4, 44);
+    header.writeUInt32LE(sampleCount, 48);
+    header.write('data', 52, 'ascii');
+    header.writeUInt32LE(dataBytes, 56);
+
+    return header;
+}
@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import type { TranscriptionProvider, TranscriptionProviderOptions, TranscriptionResult } from './TranscriptionProvider';
+
+const logger = new DiagnosticLogger('MockTranscription');
+
+/**
+ * In-process transcription provider for development and tests
+ * Never touches the network: audio is counted and dropped, transcripts are injected
+ * with simulateTranscript() / simulateUtteranceEnd()
+ */
+export class MockTranscriptionProvider extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'mock';
+    private isConnected: { user: boolean; opponent: boolean } = { user: false, opponent: false };
+    private buffers: { user: string; opponent: string } = { user: '', opponent: '' };
+    private bytesReceived: { user: number; opponent: number } = { user: 0, opponent: 0 };
+    private language?: string;
+
+    constructor(options: TranscriptionProviderOptions = {}) {
+        super();
+        this.language = options.language;
+        logger.info('✅ Initialized mock transcription provider', { language: options.language });
+    }
+
+    public async connect(): Promise<void> {
+        this.isConnected = { user: true, opponent: true };
+        this.emit('connected', 'user');
+        this.emit('connected', 'opponent');
+    }
+
+    public disconnect(): void {
+        const wasConnected = { ...this.isConnected };
+        this.isConnected = { user: false, opponent: false };
+        this.buffers = { user: '', opponent: '' };
+
+        if (wasConnected.user) this.emit('disconnected', 'user');
+        if (wasConnected.opponent) this.emit('disconnected', 'opponent');
+    }
+
+    public sendAudio(audioData: Buffer, source: 'user' | 'opponent'): void {
+        if (!this.isConnected[source]) return;
+        this.bytesReceived[source] += audioData.length;
+    }
+
+    public isActive(): boolean {
+        return this.isConnected.user || this.isConnected.opponent;
+    }
+
+    public isSourceConnected(source: 'user' | 'opponent'): boolean {
+        return this.isConnected[source];
+    }
+
+    public setLanguage(language: string): void {
+        this.language = language;
+    }
+
+    public getLanguage(): string | undefined {
+        return this.language;
+    }
+
+    /**
+     * Emit a transcription as if it came back from a real backend
+     */
+    public simulateTranscript(text: string, source: 'user' | 'opponent', isFinal: boolean = true, speakerIndex?: number): void {
+        if (isFinal) {
+            this.buffers[source] += text + ' ';
+        }
+
+        const result: TranscriptionResult = {
+            text,
+            isFinal,
+            confidence: 1,
+            source,
+            timestamp: Date.now(),
+            ...(speakerIndex !== undefined ? { speakerIndex } : {}),
+        };
+        this.emit('transcription', result);
+    }
+
+    /**
+     * Emit 'utterance-complete' with everything finalized since the last utterance end
+     */
+    public simulateUtteranceEnd(source: 'user' | 'opponent'): void {
+        const text = this.buffers[source].trim();
+        this.buffers[source] = '';
+
+        if (text) {
+            this.emit('utterance-complete', { text, source, timestamp: Date.now() });
+        }
+    }
+
+    public getBytesReceived(source: 'user' | 'opponent'): number {
+        return this.bytesReceived[source];
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Helpers for the 16-bit little-endian PCM buffers that flow through the audio pipeline
+ */
+
+/**
+ * Root-mean-square level of a linear16 buffer, normalized to 0-1
+ */
+export function calculateRms(pcm: Buffer): number {
+    const sampleCount = Math.floor(pcm.length / 2);
+    if (sampleCount === 0) return 0;
+
+    let sumSquares = 0;
+    for (let i = 0; i < sampleCount; i++) {
+        const sample = pcm.readInt16LE(i * 2);
+        sumSquares += sample * sample;
+    }
+
+    return Math.sqrt(sumSquares / sampleCount) / 32768;
+}
+
+/**
+ * Duration in milliseconds of a linear16 buffer
+ */
+export function pcmDurationMs(byteLength: number, sampleRate: number, channels: number = 1): number {
+    return (byteLength / (2 * channels) / sampleRate) * 1000;
+}
+
+/**
+ * Wrap raw linear16 PCM in a canonical 44-byte WAV (RIFF) header
+ */
+export function createWavBuffer(pcm: Buffer, sampleRate: number, channels: number = 1): Buffer {
+    const header = Buffer.alloc(44);
+    const byteRate = sampleRate * channels * 2;
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);          // PCM chunk size
+    header.writeUInt16LE(1, 20);           // Audio format: PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(byteRate, 28);
+    header.writeUInt16LE(channels * 2, 32); // Block align
+    header.writeUInt16LE(16, 34);          // Bits per sample
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(pcm.length, 40);
+
+    return Buffer.concat([header, pcm]);
+}
+
+export interface DecodedPcm {
+    pcm: Buffer;          // linear16 little-endian, interleaved when channels > 1
+    sampleRate: number;
+    channels: number;
+}
+
+/**
+ * Read a RIFF/WAVE file holding 16-bit PCM
+ * Chunks other than 'fmt ' and 'data' (LIST, fact, ...) are skipped.
+ */
+export function parseWavBuffer(wav: Buffer): DecodedPcm {
+    if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Not a RIFF/WAVE file');
+    }
+
+    let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= wav.length) {
+        const chunkId = wav.toString('ascii', offset, offset + 4);
+        const chunkSize = wav.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === 'fmt ') {
+            format = {
+                audioFormat: wav.readUInt16LE(body),
+                channels: wav.readUInt16LE(body + 2),
+                sampleRate: wav.readUInt32LE(body + 4),
+                bitsPerSample: wav.readUInt16LE(body + 14),
+            };
+        } else if (chunkId === 'data') {
+            if (!format) throw new Error('WAV data chunk before fmt chunk');
+            // 0xFFFE is WAVE_FORMAT_EXTENSIBLE, which recorders use for plain PCM as well
+            if ((format.audioFormat !== 1 && format.audioFormat !== 0xfffe) || format.bitsPerSample !== 16) {
+                throw new Error(`Unsupported WAV encoding (format ${format.audioFormat}, ${format.bitsPerSample}-bit); expected 16-bit PCM`);
+            }
+            // Streaming recorders may leave the size unset; take everything up to the end
+            const end = Math.min(wav.length, body + chunkSize);
+            return { pcm: wav.subarray(body, end), sampleRate: format.sampleRate, channels: format.channels };
+        }
+
+        offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Downmix to mono and linearly resample a linear16 buffer
+ */
+export function toMonoPcm(pcm: Buffer, sampleRate: number, channels: number, targetSampleRate: number): Buffer {
+    const frameCount = Math.floor(pcm.length / (2 * channels));
+    const mono = new Float64Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+            sum += pcm.readInt16LE((frame * channels + channel) * 2);
+        }
+        mono[frame] = sum / channels;
+    }
+
+    const ratio = sampleRate / targetSampleRate;
+    const outputCount = ratio === 1 ? frameCount : Math.floor(frameCount / ratio);
+    const output = Buffer.alloc(outputCount * 2);
+    for (let i = 0; i < outputCount; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, frameCount - 1);
+        const sample = mono[index] + (mono[next] - mono[index]) * (position - index);
+        output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample))), i * 2);
+    }
+
+    return output;
+}
@@ -0,0 +1,118 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Helpers for capturing Linux system audio from PulseAudio / PipeWire monitor sources
+ *
+ * Every output device (sink) has a monitor source carrying what is played through it.
+ * Recording one gives the opponent's side of a call without any virtual cable. The same
+ * names work on PulseAudio and on PipeWire through pipewire-pulse.
+ */
+
+// Monitor of whatever sink is currently the default; follows the user switching outputs
+export const DEFAULT_MONITOR = '@DEFAULT_MONITOR@';
+
+const MONITOR_SUFFIX = '.monitor';
+const PACTL_TIMEOUT_MS = 3000;
+
+export interface PulseMonitorSource {
+    name: string;   // e.g. alsa_output.pci-0000_00_1f.3.analog-stereo.monitor
+    state: string;  // RUNNING, IDLE or SUSPENDED
+}
+
+export type MonitorRecorderTool = 'parec' | 'pw-record';
+
+export interface MonitorRecorderCommand {
+    tool: MonitorRecorderTool;
+    args: string[];
+}
+
+/**
+ * Monitor sources in the output of `pactl list short sources`
+ * Lines are tab separated: index, name, driver, sample spec, state.
+ */
+export function parsePactlSources(output: string): PulseMonitorSource[] {
+    return output
+        .split('\n')
+        .map(line => line.trim().split('\t'))
+        .filter(columns => columns.length >= 2 && columns[1].endsWith(MONITOR_SUFFIX))
+        .map(columns => ({ name: columns[1], state: columns[4] ?? 'UNKNOWN' }));
+}
+
+/**
+ * Monitor sources known to the sound server, empty when pactl is missing or fails
+ */
+export async function listPulseMonitorSources(): Promise<PulseMonitorSource[]> {
+    if (!findExecutable('pactl')) return [];
+
+    return new Promise(resolve => {
+        execFile('pactl', ['list', 'short', 'sources'], { timeout: PACTL_TIMEOUT_MS }, (error, stdout) => {
+            resolve(error ? [] : parsePactlSources(stdout));
+        });
+    });
+}
+
+/**
+ * Recorder able to read a monitor source: parec first, pw-record on PipeWire-only systems
+ */
+export function findMonitorRecorder(): MonitorRecorderTool | null {
+    if (findExecutable('parec')) return 'parec';
+    if (findExecutable('pw-record')) return 'pw-record';
+    return null;
+}
+
+/**
+ * Arguments that make `tool` write raw mono linear16 at `sampleRate` to stdout
+ */
+export function buildMonitorRecorderCommand(
+    tool: MonitorRecorderTool,
+    monitor: string,
+    sampleRate: number
+): MonitorRecorderCommand {
+    if (tool === 'parec') {
+        return {
+            tool,
+            args: [
+                `--device=${monitor}`,
+                '--format=s16le',
+                `--rate=${sampleRate}`,
+                '--channels=1',
+                '--latency-msec=100',
+                '--raw'
+            ]
+        };
+    }
+
+    // pw-record captures the sink itself in monitor mode; without a target it uses the default sink
+    const sink = monitor === DEFAULT_MONITOR ? null : monitor.replace(/\.monitor$/, '');
+    return {
+        tool,
+        args: [
+            ...(sink ? ['--target', sink] : []),
+            '-P', '{ stream.capture.sink=true }',
+            '--rate', String(sampleRate),
+            '--channels', '1',
+            '--format', 's16',
+            '--raw',
+            '-'
+        ]
+    };
+}
+
+/**
+ * Resolve a command on PATH without spawning it
+ */
+export function findExecutable(name: string, searchPath: string = process.env.PATH ?? ''): string | null {
+    for (const dir of searchPath.split(path.delimiter)) {
+        if (!dir) continue;
+        const candidate = path.join(dir, name);
+        try {
+            fs.accessSync(candidate, fs.constants.X_OK);
+            return candidate;
+        } catch {
+            // Not here, keep looking
+        }
+    }
+    return null;
+}
@@ -0,0 +1,203 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { DetectedQuestion } from '../../src/types/audio-stream';
+import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import { cosineSimilarity, generateGeminiEmbedding } from '../services/qna/GeminiEmbeddings';
+
+const logger = new DiagnosticLogger('QuestionDeduplicator');
+
+/**
+ * How two question texts are compared
+ * Scores are 0-1; a pair scoring at or above `threshold` is the same question asked again.
+ */
+export interface QuestionSimilarityStrategy {
+    readonly name: string;
+    readonly threshold: number;
+    similarity(a: string, b: string): Promise<number>;
+    /** Forget anything cached for the previous session */
+    clear?(): void;
+}
+
+export type QuestionSimilarityStrategyName = 'bigram' | 'embedding';
+
+// Question endings and openers shared by most questions; left in, they make short but
+// different questions ("趣味は何ですか" / "特技は何ですか") look alike
+const QUESTION_FRAME_PATTERNS = [
+    /(でしょうか|ですか|ますか|ませんか|ください|か)$/,
+    /^(what is|what's|what are|can you|could you|would you|do you|did you|tell me about|please)/,
+];
+
+/**
+ * Jaccard similarity over character bigrams, after stripping punctuation and question framing
+ * Works offline for both Japanese and English; paraphrases with different wording score low.
+ */
+export class BigramSimilarityStrategy implements QuestionSimilarityStrategy {
+    public readonly name = 'bigram';
+
+    constructor(public readonly threshold: number = 0.7) {}
+
+    public async similarity(a: string, b: string): Promise<number> {
+        const coreA = BigramSimilarityStrategy.core(a);
+        const coreB = BigramSimilarityStrategy.core(b);
+        if (coreA === coreB) return 1.0;
+        if (!coreA || !coreB) return 0.0;
+
+        const bigramsA = BigramSimilarityStrategy.bigrams(coreA);
+        const bigramsB = BigramSimilarityStrategy.bigrams(coreB);
+
+        let intersection = 0;
+        for (const bigram of bigramsA) {
+            if (bigramsB.has(bigram)) intersection++;
+        }
+
+        const union = bigramsA.size + bigramsB.size - intersection;
+        return union === 0 ? 0 : intersection / union;
+    }
+
+    private static core(text: string): string {
+        let core = text.toLowerCase().replace(/[\s、。，．,.!?！？「」"'…]/g, '');
+        for (const pattern of QUESTION_FRAME_PATTERNS) {
+            core = core.replace(pattern, '');
+        }
+        return core;
+    }
+
+    private static bigrams(text: string): Set<string> {
+        const bigrams = new Set<string>();
+        for (let i = 0; i < text.length - 1; i++) {
+            bigrams.add(text.substring(i, i + 2));
+        }
+        return bigrams;
+    }
+}
+
+/**
+ * Cosine similarity of text embeddings, so paraphrased repeats match
+ * Embeddings are cached per text for the session: each question is embedded once.
+ */
+export class EmbeddingSimilarityStrategy implements QuestionSimilarityStrategy {
+    public readonly name = 'embedding';
+    private cache = new Map<string, Promise<number[]>>();
+
+    constructor(
+        private readonly embed: (text: string) => Promise<number[]>,
+        public readonly threshold: number = 0.88
+    ) {}
+
+    public async similarity(a: string, b: string): Promise<number> {
+        const [embeddingA, embeddingB] = await Promise.all([this.getEmbedding(a), this.getEmbedding(b)]);
+        return cosineSimilarity(embeddingA, embeddingB);
+    }
+
+    public clear(): void {
+        this.cache.clear();
+    }
+
+    private getEmbedding(text: string): Promise<number[]> {
+        const key = text.trim();
+        let embedding = this.cache.get(key);
+        if (!embedding) {
+            embedding = this.embed(key);
+            // A failed call should be retried next time rather than cached
+            embedding.catch(() => this.cache.delete(key));
+            this.cache.set(key, embedding);
+        }
+        return embedding;
+    }
+}
+
+/**
+ * Build a strategy by config name; 'embedding' uses the same Gemini embeddings as Q&A search
+ */
+export function createSimilarityStrategy(
+    name: QuestionSimilarityStrategyName,
+    options: { threshold?: number; geminiApiKey?: string } = {}
+): QuestionSimilarityStrategy {
+    if (name === 'embedding' && options.geminiApiKey) {
+        const genAI = new GoogleGenerativeAI(options.geminiApiKey);
+        return new EmbeddingSimilarityStrategy(text => generateGeminiEmbedding(genAI, text), options.threshold);
+    }
+    return new BigramSimilarityStrategy(options.threshold);
+}
+
+export interface QuestionDeduplicatorConfig {
+    windowMs?: number;                         // Only compare with questions this recent; 0 = whole session
+    fallback?: QuestionSimilarityStrategy;     // Used when the strategy fails (e.g. embedding API errors)
+}
+
+const questionText = (question: DetectedQuestion): string => question.refinedText?.trim() || question.text;
+
+/**
+ * Finds earlier questions in the session that a new one repeats, and folds repeats into them
+ * Only questions from the same source are compared.
+ */
+export class QuestionDeduplicator {
+    private questions: DetectedQuestion[] = [];
+    private readonly windowMs: number;
+    private readonly fallback: QuestionSimilarityStrategy;
+
+    constructor(private readonly strategy: QuestionSimilarityStrategy, config: QuestionDeduplicatorConfig = {}) {
+        this.windowMs = config.windowMs ?? 0;
+        this.fallback = config.fallback ?? new BigramSimilarityStrategy();
+    }
+
+    public get strategyName(): string {
+        return this.strategy.name;
+    }
+
+    /**
+     * The earlier question `question` repeats (closest match), or null if it is new
+     */
+    public async findOriginal(question: DetectedQuestion): Promise<DetectedQuestion | null> {
+        const text = questionText(question);
+        let best: DetectedQuestion | null = null;
+        let bestMargin = 0;
+
+        for (const candidate of this.questions) {
+            if (candidate.source !== question.source) continue;
+            if (this.windowMs > 0 && question.timestamp - (candidate.lastAskedAt ?? candidate.timestamp) > this.windowMs) continue;
+
+            const { score, threshold } = await this.compare(text, questionText(candidate));
+            const margin = score - threshold;
+            if (margin >= 0 && (!best || margin > bestMargin)) {
+                best = candidate;
+                bestMargin = margin;
+            }
+        }
+
+        return best;
+    }
+
+    public add(question: DetectedQuestion): void {
+        this.questions.push(question);
+    }
+
+    /**
+     * Record `duplicate` as another asking of `original` (mutates and returns `original`)
+     */
+    public merge(original: DetectedQuestion, duplicate: DetectedQuestion): DetectedQuestion {
+        original.repeatCount = (original.repeatCount ?? 1) + 1;
+        original.lastAskedAt = duplicate.timestamp;
+
+        const text = questionText(duplicate);
+        const known = [questionText(original), ...(original.alternateTexts ?? [])];
+        if (!known.includes(text)) {
+            original.alternateTexts = [...(original.alternateTexts ?? []), text];
+        }
+
+        return original;
+    }
+
+    public clear(): void {
+        this.questions = [];
+        this.strategy.clear?.();
+    }
+
+    private async compare(a: string, b: string): Promise<{ score: number; threshold: number }> {
+        try {
+            return { score: await this.strategy.similarity(a, b), threshold: this.strategy.threshold };
+        } catch (error) {
+            logger.warn(`⚠️ ${this.strategy.name} similarity failed, using ${this.fallback.name}`, { error: (error as Error).message });
+            return { score: await this.fallback.similarity(a, b), threshold: this.fallback.threshold };
+        }
+    }
+}
@@ -0,0 +1,217 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DetectedQuestion } from '../../src/types/audio-stream';
+import { detectLanguage, ResolvedLanguage } from '../config/LanguageConfig';
+import { ContextUtterance, findQuestionLeadIn } from './ConversationContext';
+
+export type QuestionLanguage = ResolvedLanguage;
+
+export interface RuleAnalysis {
+    isQuestion: boolean;
+    confidence: number;          // 0-1, combined evidence of the best sentence
+    question: string | null;     // Best-scoring sentence with fillers removed
+    language: QuestionLanguage;
+    signals: string[];           // Names of the rules that fired, for logging/tuning
+}
+
+export interface RuleBasedDetectorConfig {
+    threshold?: number;          // Minimum confidence to report a question (default 0.6)
+    prefilterThreshold?: number; // Minimum confidence to pass the LLM pre-filter (default 0.3)
+}
+
+interface WeightedPattern {
+    name: string;
+    pattern: RegExp;
+    weight: number;
+}
+
+// Positive evidence. Weights are combined as independent evidence (noisy-OR), so two
+// moderate signals (interrogative + polite ending) end up above either alone.
+const JA_POSITIVE: WeightedPattern[] = [
+    { name: 'ja:question-mark-end', pattern: /[？?]$/, weight: 0.9 },
+    { name: 'ja:question-mark', pattern: /[？?]/, weight: 0.5 },
+    { name: 'ja:polite-ka', pattern: /(です|ます|でしょう|ません|でした|ました)か$/, weight: 0.85 },
+    { name: 'ja:n-desu-ka', pattern: /(ん|の)(です|でしょう)か$/, weight: 0.85 },
+    { name: 'ja:plain-ka', pattern: /か$/, weight: 0.55 },
+    { name: 'ja:kana', pattern: /(かな|かね|っけ)$/, weight: 0.45 },
+    { name: 'ja:no-rising', pattern: /(の|んだ|のか)$/, weight: 0.35 },
+    { name: 'ja:tag-yone', pattern: /(よね|ですよね|でしょ)$/, weight: 0.4 },
+    { name: 'ja:interrogative', pattern: /(何(?![かもとて])|なに(?![か])|なん(で|の|て)|どこ(?![かも])|どちら|どっち|どれ(?![か])|どの|どんな|どう(?![もぞ])|誰(?![かも])|だれ(?![か])|いつ(?![もか])|なぜ|何故|いくつ|いくら)/, weight: 0.5 },
+    { name: 'ja:request-kudasai', pattern: /(て|で)(ください|下さい|くださいますか|もらえますか|いただけますか|くれますか)/, weight: 0.7 },
+    { name: 'ja:request-oshiete', pattern: /(教えて|聞かせて|説明して|紹介して|話して)/, weight: 0.7 },
+    { name: 'ja:request-onegai', pattern: /お願い(します|できますか|いたします)/, weight: 0.45 },
+    { name: 'ja:opinion', pattern: /(どう思い|どうお考え|いかがですか|どうでしたか)/, weight: 0.8 },
+];
+
+// Evidence against: hedges and embedded questions that reuse question morphology
+const JA_NEGATIVE: WeightedPattern[] = [
+    { name: 'ja:kamoshirenai', pattern: /かもしれ(ない|ません)/, weight: 0.6 },
+    { name: 'ja:embedded-kadouka', pattern: /かどうか/, weight: 0.5 },
+    { name: 'ja:to-omoimasu', pattern: /と(思います|思う|考えています)[。]?$/, weight: 0.5 },
+    { name: 'ja:desu-ne', pattern: /(です|ます)ね$/, weight: 0.5 },
+    { name: 'ja:self-talk', pattern: /^(ちょっと|えっと|うーん)?(確認します|考えます|少々お待ち)/, weight: 0.7 },
+];
+
+const EN_POSITIVE: WeightedPattern[] = [
+    { name: 'en:question-mark-end', pattern: /\?$/, weight: 0.9 },
+    { name: 'en:question-mark', pattern: /\?/, weight: 0.5 },
+    { name: 'en:wh-start', pattern: /^(what|why|how|when|where|who|whom|whose|which)\b/i, weight: 0.65 },
+    { name: 'en:aux-inversion', pattern: /^(do|does|did|is|are|was|were|can|could|would|will|should|shall|have|has|had|may|might)\s+(you|we|i|they|he|she|it|there|this|that|your|the|a|an)\b/i, weight: 0.7 },
+    { name: 'en:request', pattern: /\b(tell me|walk me through|talk (me )?about|explain|describe|give (me )?an example|share (with us|an example))\b/i, weight: 0.7 },
+    { name: 'en:polite-request', pattern: /^(please|could you|can you|would you|would you mind)\b/i, weight: 0.7 },
+    { name: 'en:wondering', pattern: /\b(i was wondering|i'd like to know|i want to know|curious (about|whether|if))\b/i, weight: 0.6 },
+    { name: 'en:tag', pattern: /,\s*(right|correct|isn't it|don't you|aren't you)\??$/i, weight: 0.5 },
+    { name: 'en:opinion', pattern: /\bwhat do you think\b|\bhow do you feel\b|\byour (thoughts|opinion|take)\b/i, weight: 0.75 },
+];
+
+const EN_NEGATIVE: WeightedPattern[] = [
+    { name: 'en:i-think', pattern: /^(i think|i believe|i guess|let me|i'll|i will|so i)\b/i, weight: 0.5 },
+    { name: 'en:embedded-whether', pattern: /\b(not sure|don't know|no idea) (whether|if|what|why|how)\b/i, weight: 0.6 },
+];
+
+const JA_FILLERS = /^(えー+と?|えっと|ええと|あの+ー*|あー+|うーん|まあ|まぁ|その+ー*|なんか|では|じゃあ|それでは|はい)[、,\s]*/;
+const EN_FILLERS = /^(um+|uh+|er+|so|well|okay|ok|alright|right|and|now)[,\s]+/i;
+
+/**
+ * Zero-cost Japanese/English question detector built from sentence-final particles,
+ * interrogatives and request patterns
+ *
+ * Usable as a pre-filter in front of StreamingQuestionDetector (mightContainQuestion)
+ * or on its own when no LLM is available (detectQuestion).
+ */
+export class RuleBasedQuestionDetector {
+    private readonly threshold: number;
+    private readonly prefilterThreshold: number;
+
+    constructor(config: RuleBasedDetectorConfig = {}) {
+        this.threshold = config.threshold ?? 0.6;
+        this.prefilterThreshold = config.prefilterThreshold ?? 0.3;
+    }
+
+    /**
+     * Score text; for multi-sentence input the most question-like sentence wins
+     */
+    public analyze(text: string, language?: QuestionLanguage): RuleAnalysis {
+        const trimmed = (text || '').trim();
+        const detectedLanguage = language || detectLanguage(trimmed);
+
+        let best: RuleAnalysis = {
+            isQuestion: false,
+            confidence: 0,
+            question: null,
+            language: detectedLanguage,
+            signals: [],
+        };
+
+        for (const sentence of this.splitSentences(trimmed, detectedLanguage)) {
+            const cleaned = this.stripFillers(sentence, detectedLanguage);
+            if (cleaned.replace(/[？?。.!！、,\s]/g, '').length < 3) continue;
+
+            const { confidence, signals } = this.scoreSentence(cleaned, detectedLanguage);
+            if (confidence > best.confidence) {
+                best = {
+                    isQuestion: confidence >= this.threshold,
+                    confidence,
+                    question: cleaned,
+                    language: detectedLanguage,
+                    signals,
+                };
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Rule-only detection; returns null below the confidence threshold
+     * With `context`, an unfinished lead-in by the same speaker ("about your last project...")
+     * is prepended so the question is reported in full.
+     */
+    public detectQuestion(
+        text: string,
+        source: 'user' | 'opponent',
+        language?: QuestionLanguage,
+        context: ContextUtterance[] = [],
+        speakerIndex?: number
+    ): DetectedQuestion | null {
+        const analysis = this.analyze(text, language);
+        if (!analysis.isQuestion || !analysis.question) return null;
+
+        // Earlier sentences of the same text can be a lead-in just like earlier utterances
+        const now = Date.now();
+        const sentences = this.splitSentences((text || '').trim(), analysis.language)
+            .map(sentence => this.stripFillers(sentence, analysis.language));
+        const earlier = sentences
+            .slice(0, Math.max(0, sentences.indexOf(analysis.question)))
+            .map(sentence => ({ text: sentence, source, timestamp: now, speakerIndex }));
+        const leadIn = findQuestionLeadIn([...context, ...earlier], { source, speakerIndex }, analysis.language, now);
+        const question = leadIn.length > 0
+            ? [...leadIn.map(u => u.text), analysis.question].join(analysis.language === 'en' ? ' ' : '')
+            : analysis.question;
+
+        return {
+            id: uuidv4(),
+            text: question,
+            timestamp: now,
+            confidence: analysis.confidence,
+            source,
+            isRefined: true,
+            refinedText: question,
+            ...(speakerIndex !== undefined ? { speakerIndex } : {}),
+        };
+    }
+
+    /**
+     * Cheap gate before spending an LLM call; deliberately more permissive than detectQuestion
+     */
+    public mightContainQuestion(text: string, language?: QuestionLanguage): boolean {
+        return this.analyze(text, language).confidence >= this.prefilterThreshold;
+    }
+
+    private scoreSentence(sentence: string, language: QuestionLanguage): { confidence: number; signals: string[] } {
+        const positive = language === 'ja' ? JA_POSITIVE : EN_POSITIVE;
+        const negative = language === 'ja' ? JA_NEGATIVE : EN_NEGATIVE;
+        // Trailing 。/. never changes whether a sentence is a question
+        const body = sentence.replace(/[。．.]+$/, '');
+
+        const signals: string[] = [];
+        let notQuestion = 1;
+        for (const rule of positive) {
+            if (rule.pattern.test(body)) {
+                signals.push(rule.name);
+                notQuestion *= 1 - rule.weight;
+            }
+        }
+
+        let confidence = 1 - notQuestion;
+        for (const rule of negative) {
+            if (rule.pattern.test(body)) {
+                signals.push(rule.name);
+                confidence *= 1 - rule.weight;
+            }
+        }
+
+        // Very long run-ons are usually monologue containing a question, not the question itself
+        if (body.length > (language === 'ja' ? 120 : 300)) {
+            confidence *= 0.8;
+        }
+
+        return { confidence: Math.round(confidence * 100) / 100, signals };
+    }
+
+    private splitSentences(text: string, language: QuestionLanguage): string[] {
+        const pattern = language === 'ja' ? /[^。！？!?]+[。！？!?]*/g : /[^.!?]+[.!?]*/g;
+        const sentences = (text.match(pattern) || []).map(s => s.trim()).filter(Boolean);
+        return sentences.length > 0 ? sentences : [text];
+    }
+
+    private stripFillers(sentence: string, language: QuestionLanguage): string {
+        const fillers = language === 'ja' ? JA_FILLERS : EN_FILLERS;
+        let result = sentence.trim();
+        let previous = '';
+        while (result !== previous) {
+            previous = result;
+            result = result.replace(fillers, '').trim();
+        }
+        return result;
+    }
+}
@@ -0,0 +1,74 @@
+import type { ResolvedLanguage } from '../config/LanguageConfig';
+
+// Japanese sentence-ending patterns (comprehensive list)
+const JA_SENTENCE_END_PATTERNS: RegExp[] = [
+    // Punctuation endings
+    /[。？！?!]$/,                   // Period, question mark, exclamation
+
+    // Basic question patterns
+    /ですか[。？]?$/,                // Polite question (です + か)
+    /ますか[。？]?$/,                // Polite question (ます + か)
+    /でしょうか[。？]?$/,            // Very polite question
+    /ませんか[。？]?$/,              // Negative question (行きませんか)
+    /ないですか[。？]?$/,            // Negative question (ないですか)
+    /ないでしょうか[。？]?$/,        // Very polite negative
+
+    // Explanatory questions
+    /んですか[。？]?$/,              // Explanatory (なんですか, 行くんですか)
+    /のですか[。？]?$/,              // Formal explanatory
+
+    // Softer questions
+    /かね[。？]?$/,                  // Softer question (そうかね)
+    /ですかね[。？]?$/,              // Even softer
+    /でしょうね[。？]?$/,            // Rhetorical/soft
+
+    // Request patterns
+    /ください[。]?$/,               // Please do (ください)
+    /てください[。]?$/,             // Te-form request
+    /お願いします[。]?$/,           // Request (お願い)
+    /いただけますか[。？]?$/,        // Polite request (いただけますか)
+    /くださいませんか[。？]?$/,      // Very polite request
+    /もらえますか[。？]?$/,          // Can I get?
+
+    // Common question endings
+    /いかがでしょうか[。？]?$/,      // Polite inquiry (いかが)
+    /いかがですか[。？]?$/,          // Polite inquiry
+    /どうですか[。？]?$/,            // How is it?
+    /どうでしょうか[。？]?$/,        // How about?
+    /しますか[。？]?$/,              // Will you do?
+    /ありますか[。？]?$/,            // Is there?
+    /と思いますか[。？]?$/,          // What do you think?
+    /でしょう[。？]?$/,              // Probably (rhetorical)
+
+    // Statement endings
+    /ですね[。]?$/,                 // Agreement seeking
+    /ますね[。]?$/,                 // Agreement seeking (verb)
+    /です[。]$/,                    // Polite statement with period
+    /ます[。]$/,                    // Polite verb with period
+
+    // Question particle with period
+    /か[。]$/,                      // Question particle + period
+];
+
+// English: Deepgram punctuates English reliably, so punctuation carries most of the signal;
+// the word-level patterns catch unpunctuated local/offline transcripts.
+const EN_SENTENCE_END_PATTERNS: RegExp[] = [
+    // Punctuation endings
+    /[.?!]["')\]]?$/,                // Period, question mark, exclamation (optionally quoted)
+
+    // Requests that end without punctuation
+    /\b(please|for me|for us)$/i,
+
+    // Tag questions
+    /,\s*(right|correct|isn't it|don't you|aren't you|wouldn't you)$/i,
+];
+
+/**
+ * Check if buffered transcript text ends in a complete sentence for the given language
+ * Used to flush the sentence buffer to the question detector without waiting for the timeout
+ */
+export function hasCompleteSentence(text: string, language: ResolvedLanguage = 'ja'): boolean {
+    const trimmed = text.trim();
+    const patterns = language === 'en' ? EN_SENTENCE_END_PATTERNS : JA_SENTENCE_END_PATTERNS;
+    return patterns.some(pattern => pattern.test(trimmed));
+}
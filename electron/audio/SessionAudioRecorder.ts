@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AudioRecordingInfo } from '../../src/types/audio-stream';
+import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import { createWavBuffer } from './PcmUtils';
+import {
+    createImaAdpcmWavHeader,
+    decodeImaAdpcm,
+    ImaAdpcmEncoder,
+    IMA_ADPCM_BLOCK_ALIGN,
+    IMA_ADPCM_SAMPLES_PER_BLOCK,
+    IMA_ADPCM_WAV_HEADER_BYTES
+} from './ImaAdpcm';
+
+const logger = new DiagnosticLogger('SessionAudioRecorder');
+
+type RecordingSource = 'user' | 'opponent';
+
+export interface SessionAudioRecorderConfig {
+    directory: string;      // One sub-directory per recording is created here
+    sampleRate: number;
+    maxTotalBytes: number;  // Oldest recordings are deleted beyond this; 0 = no limit
+    maxAgeMs: number;       // Recordings older than this are deleted; 0 = keep forever
+}
+
+export interface RecordingPosition {
+    recordingId: string;
+    offsetMs: number;
+}
+
+interface SourceWriter {
+    fd: number;
+    encoder: ImaAdpcmEncoder;
+    dataBytes: number;
+    samples: number;
+}
+
+const META_FILE = 'recording.json';
+
+// A source falling this far behind the clock (late start, capture hiccup) is padded with silence
+const MAX_DRIFT_MS = 500;
+
+/**
+ * SessionAudioRecorder - Writes the user and opponent streams of one capture session to disk
+ *
+ * <directory>/<recordingId>/{user,opponent}.wav as IMA ADPCM (about 4:1 against linear16),
+ * plus recording.json. Both files are kept aligned to the wall clock from start(), so one
+ * offset addresses the same moment in either stream. Retention by age and total size is
+ * applied whenever a recording ends.
+ */
+export class SessionAudioRecorder {
+    private currentId: string | null = null;
+    private startedAt: number = 0;
+    private writers: Partial<Record<RecordingSource, SourceWriter>> = {};
+
+    constructor(private readonly config: SessionAudioRecorderConfig) {
+        fs.mkdirSync(config.directory, { recursive: true });
+    }
+
+    public isRecording(): boolean {
+        return this.currentId !== null;
+    }
+
+    public getCurrentId(): string | null {
+        return this.currentId;
+    }
+
+    /**
+     * Begin a new recording; an unfinished one is closed first
+     */
+    public start(now: number = Date.now()): string {
+        if (this.currentId) {
+            this.stop(now);
+        }
+
+        const id = new Date(now).toISOString().replace(/[:.]/g, '-');
+        fs.mkdirSync(this.recordingDir(id), { recursive: true });
+        this.currentId = id;
+        this.startedAt = now;
+        this.writers = {};
+        this.writeMeta(null);
+
+        logger.info(`⏺️ Recording started: ${id}`);
+        return id;
+    }
+
+    /**
+     * Append a linear16 chunk of one source
+     */
+    public write(pcm: Buffer, source: RecordingSource, now: number = Date.now()): void {
+        if (!this.currentId) return;
+
+        const writer = this.writers[source] ?? this.openWriter(source);
+        const chunkSamples = Math.floor(pcm.length / 2);
+        const expectedStart = Math.round(((now - this.startedAt) * this.config.sampleRate) / 1000) - chunkSamples;
+        const lag = expectedStart - writer.samples;
+
+        if (lag > (MAX_DRIFT_MS * this.config.sampleRate) / 1000) {
+            this.append(writer, Buffer.alloc(lag * 2));
+        }
+        this.append(writer, pcm);
+    }
+
+    /**
+     * Finish the running recording and apply retention
+     */
+    public stop(now: number = Date.now()): AudioRecordingInfo | null {
+        const id = this.currentId;
+        if (!id) return null;
+
+        for (const writer of Object.values(this.writers)) {
+            if (!writer) continue;
+            this.writeBlocks(writer, writer.encoder.flush());
+            fs.writeSync(writer.fd, createImaAdpcmWavHeader(this.config.sampleRate, writer.dataBytes, writer.samples), 0, IMA_ADPCM_WAV_HEADER_BYTES, 0);
+            fs.closeSync(writer.fd);
+        }
+
+        this.writeMeta(now);
+        this.currentId = null;
+        this.writers = {};
+        logger.info(`⏹️ Recording stopped: ${id}`);
+
+        this.applyRetention(now);
+        return this.getInfo(id);
+    }
+
+    /**
+     * Where a moment of the running recording lies, or null when nothing is being recorded
+     */
+    public positionOf(at: number): RecordingPosition | null {
+        if (!this.currentId) return null;
+        return { recordingId: this.currentId, offsetMs: Math.max(0, at - this.startedAt) };
+    }
+
+    /**
+     * Recordings on disk, newest first
+     */
+    public list(): AudioRecordingInfo[] {
+        if (!fs.existsSync(this.config.directory)) return [];
+
+        return fs.readdirSync(this.config.directory)
+            .map(id => this.getInfo(id))
+            .filter((info): info is AudioRecordingInfo => info !== null)
+            .sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    public getInfo(id: string): AudioRecordingInfo | null {
+        if (!SessionAudioRecorder.isValidId(id)) return null;
+
+        const dir = this.recordingDir(id);
+        const metaPath = path.join(dir, META_FILE);
+        if (!fs.existsSync(metaPath)) return null;
+
+        try {
+            const meta = JSON.parse(fs.readFileSync(metaPath, 'utf8')) as Omit<AudioRecordingInfo, 'bytes' | 'sources'>;
+            const files = fs.readdirSync(dir);
+            const sources = (['user', 'opponent'] as RecordingSource[]).filter(source => files.includes(`${source}.wav`));
+            const bytes = files.reduce((total, file) => total + fs.statSync(path.join(dir, file)).size, 0);
+            return { ...meta, sources, bytes };
+        } catch (error) {
+            logger.warn(`⚠️ Unreadable recording ${id}`, { error: (error as Error).message });
+            return null;
+        }
+    }
+
+    /**
+     * Decode part of one source as a playable linear16 WAV
+     * Also works on the running recording and on recordings that were never closed properly.
+     * The range is clamped to the audio written so far; non-finite offsets or durations throw.
+     */
+    public readSegment(id: string, source: RecordingSource, offsetMs: number, durationMs: number): Buffer | null {
+        if (!Number.isFinite(offsetMs) || !Number.isFinite(durationMs)) {
+            throw new Error(`Invalid clip range: offset ${offsetMs}ms, duration ${durationMs}ms`);
+        }
+
+        const info = this.getInfo(id);
+        if (!info || !info.sources.includes(source)) return null;
+
+        const filePath = path.join(this.recordingDir(id), `${source}.wav`);
+        const sampleRate = info.sampleRate;
+        const writtenBlocks = Math.floor(Math.max(0, fs.statSync(filePath).size - IMA_ADPCM_WAV_HEADER_BYTES) / IMA_ADPCM_BLOCK_ALIGN);
+        const totalSamples = writtenBlocks * IMA_ADPCM_SAMPLES_PER_BLOCK;
+        const startSample = Math.min(totalSamples, Math.max(0, Math.floor((offsetMs * sampleRate) / 1000)));
+        const endSample = Math.min(totalSamples, startSample + Math.max(0, Math.floor((durationMs * sampleRate) / 1000)));
+
+        const firstBlock = Math.floor(startSample / IMA_ADPCM_SAMPLES_PER_BLOCK);
+        const lastBlock = Math.ceil(endSample / IMA_ADPCM_SAMPLES_PER_BLOCK);
+        const data = Buffer.alloc((lastBlock - firstBlock) * IMA_ADPCM_BLOCK_ALIGN);
+
+        const fd = fs.openSync(filePath, 'r');
+        let bytesRead: number;
+        try {
+            bytesRead = fs.readSync(fd, data, 0, data.length, IMA_ADPCM_WAV_HEADER_BYTES + firstBlock * IMA_ADPCM_BLOCK_ALIGN);
+        } finally {
+            fs.closeSync(fd);
+        }
+
+        const pcm = decodeImaAdpcm(data.subarray(0, bytesRead));
+        const skip = (startSample - firstBlock * IMA_ADPCM_SAMPLES_PER_BLOCK) * 2;
+        return createWavBuffer(pcm.subarray(skip, skip + (endSample - startSample) * 2), sampleRate);
+    }
+
+    public delete(id: string): boolean {
+        if (!SessionAudioRecorder.isValidId(id) || id === this.currentId) return false;
+
+        const dir = this.recordingDir(id);
+        if (!fs.existsSync(dir)) return false;
+
+        fs.rmSync(dir, { recursive: true, force: true });
+        logger.info(`🗑️ Recording deleted: ${id}`);
+        return true;
+    }
+
+    /**
+     * Delete recordings past the age limit, then the oldest ones until the total fits
+     * The running recording is never deleted.
+     */
+    public applyRetention(now: number = Date.now()): string[] {
+        const { maxAgeMs, maxTotalBytes } = this.config;
+        const deleted: string[] = [];
+        const kept: AudioRecordingInfo[] = [];
+
+        for (const info of this.list()) {
+            if (info.id !== this.currentId && maxAgeMs > 0 && now - info.startedAt > maxAgeMs) {
+                if (this.delete(info.id)) deleted.push(info.id);
+            } else {
+                kept.push(info);
+            }
+        }
+
+        let total = kept.reduce((sum, info) => sum + info.bytes, 0);
+        for (const info of [...kept].reverse()) {
+            if (maxTotalBytes <= 0 || total <= maxTotalBytes) break;
+            if (this.delete(info.id)) {
+                deleted.push(info.id);
+                total -= info.bytes;
+            }
+        }
+
+        if (deleted.length > 0) {
+            logger.info(`🧹 Retention removed ${deleted.length} recording(s)`, { deleted });
+        }
+        return deleted;
+    }
+
+    private openWriter(source: RecordingSource): SourceWriter {
+        const fd = fs.openSync(path.join(this.recordingDir(this.currentId!), `${source}.wav`), 'w');
+        // Sizes are patched in by stop(); until then readers go by the file length
+        fs.writeSync(fd, createImaAdpcmWavHeader(this.config.sampleRate, 0, 0));
+
+        const writer: SourceWriter = { fd, encoder: new ImaAdpcmEncoder(), dataBytes: 0, samples: 0 };
+        this.writers[source] = writer;
+        return writer;
+    }
+
+    private append(writer: SourceWriter, pcm: Buffer): void {
+        writer.samples += Math.floor(pcm.length / 2);
+        this.writeBlocks(writer, writer.encoder.encode(pcm));
+    }
+
+    private writeBlocks(writer: SourceWriter, blocks: Buffer): void {
+        if (blocks.length === 0) return;
+        fs.writeSync(writer.fd, blocks);
+        writer.dataBytes += blocks.length;
+    }
+
+    private writeMeta(endedAt: number | null): void {
+        const meta = {
+            id: this.currentId,
+            startedAt: this.startedAt,
+            endedAt,
+            sampleRate: this.config.sampleRate
+        };
+        fs.writeFileSync(path.join(this.recordingDir(this.currentId!), META_FILE), JSON.stringify(meta, null, 2));
+    }
+
+    private recordingDir(id: string): string {
+        return path.join(this.config.directory, id);
+    }
+
+    // Ids come back from the renderer; keep them from escaping the recordings directory
+    private static isValidId(id: string): boolean {
+        return /^[\w-]+$/.test(id);
+    }
+}
@@ -0,0 +1,67 @@
+import { SpeakerInfo } from '../../src/types/audio-stream';
+import type { ConversationLanguage } from '../config/LanguageConfig';
+
+/**
+ * Display labels for diarized remote speakers of the current session
+ * Speakers get a default label in the conversation language ("相手 A" / "Speaker A", ...) when
+ * first heard and can be renamed ("面接官 A"). Diarization indices restart with every connection,
+ * so names are per session.
+ */
+export class SpeakerRegistry {
+    private speakers = new Set<number>();
+    private customLabels = new Map<number, string>();
+
+    constructor(private language: ConversationLanguage = 'ja') {}
+
+    /**
+     * Default labels follow the language from now on; custom names are kept
+     */
+    public setLanguage(language: ConversationLanguage): void {
+        this.language = language;
+    }
+
+    /**
+     * Record a speaker index; returns true the first time it is seen
+     */
+    public observe(index: number): boolean {
+        if (this.speakers.has(index)) return false;
+
+        this.speakers.add(index);
+        return true;
+    }
+
+    public getLabel(index: number): string {
+        return this.customLabels.get(index) || SpeakerRegistry.defaultLabel(index, this.language);
+    }
+
+    /**
+     * Rename a speaker; an empty name restores the default label
+     */
+    public rename(index: number, name: string): string {
+        this.observe(index);
+
+        const trimmed = name.trim();
+        if (trimmed) {
+            this.customLabels.set(index, trimmed);
+        } else {
+            this.customLabels.delete(index);
+        }
+        return this.getLabel(index);
+    }
+
+    public list(): SpeakerInfo[] {
+        return [...this.speakers]
+            .sort((a, b) => a - b)
+            .map(index => ({ index, label: this.getLabel(index), isCustom: this.customLabels.has(index) }));
+    }
+
+    public clear(): void {
+        this.speakers.clear();
+        this.customLabels.clear();
+    }
+
+    public static defaultLabel(index: number, language: ConversationLanguage = 'ja'): string {
+        const letter = index < 26 ? String.fromCharCode(65 + index) : String(index + 1);
+        return language === 'en' ? `Speaker ${letter}` : `相手 ${letter}`;
+    }
+}
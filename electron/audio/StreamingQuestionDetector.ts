@@ -2,6 +2,8 @@ import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import { v4 as uuidv4 } from 'uuid';
 import { DetectedQuestion } from '../../src/types/audio-stream';
 import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import { detectLanguage, ResolvedLanguage } from '../config/LanguageConfig';
+import { ContextUtterance } from './ConversationContext';
 
 const logger = new DiagnosticLogger('StreamingQuestionDetector');
 
@@ -12,7 +14,7 @@ export interface StreamingDetectorConfig {
 
 /**
  * Question detector using Gemini Flash streaming API
- * Extracts Japanese questions from transcribed text with high reliability
+ * Extracts Japanese or English questions from transcribed text with high reliability
  */
 export class StreamingQuestionDetector {
     private genAI: GoogleGenerativeAI;
@@ -50,18 +52,75 @@ export class StreamingQuestionDetector {
         });
     }
 
+    /**
+     * Preceding utterances as speaker-labelled lines, or an empty string without context
+     */
+    private formatContext(context: ContextUtterance[], source: 'user' | 'opponent', speakerIndex?: number): string {
+        if (context.length === 0) return '';
+
+        const label = (speaker: 'user' | 'opponent', index?: number) => speaker === 'user'
+            ? 'ME'
+            : index !== undefined ? `OTHER ${index + 1}` : 'OTHER';
+        const lines = context.map(u => `[${label(u.source, u.speakerIndex)}] ${u.text}`);
+        return `RECENT CONVERSATION (oldest first, for context only):
+${lines.join('\n')}
+
+INPUT SPEAKER: ${label(source, speakerIndex)}
+`;
+    }
+
     /**
      * System prompt for strict JSON-only question extraction
+     * INPUT is the latest sentence; recent conversation lets questions split across
+     * utterances be reconstructed in full.
      */
-    private buildPrompt(transcribedText: string): string {
+    private buildPrompt(
+        transcribedText: string,
+        source: 'user' | 'opponent',
+        language: ResolvedLanguage,
+        context: ContextUtterance[] = [],
+        speakerIndex?: number
+    ): string {
+        const recent = this.formatContext(context, source, speakerIndex);
+
+        if (language === 'en') {
+            return `You are a JSON-only question extractor for English speech.
+
+${recent}INPUT: "${transcribedText}"
+
+OUTPUT RULES:
+- Output ONLY a valid JSON object
+- If a question is detected: {"question": "the question text"}
+- If NO question is detected: {"question": null}
+- Keep the question in the language it was asked in
+- Only report a question that is asked or completed in INPUT, never one already asked earlier
+- If INPUT finishes a question the same speaker started in RECENT CONVERSATION, output the full question merged into one sentence
+- NEVER output markdown, analysis, or any text outside the JSON
+
+QUESTION INDICATORS:
+- Ends with a question mark or rising-question wording
+- Starts with what, why, how, when, where, who, which, or an inverted auxiliary (do you, can you, have you)
+- Request patterns: tell me about, walk me through, could you explain, please describe
+
+EXAMPLES:
+Input: "It's a nice day today" → {"question": null}
+Input: "So what's your name" → {"question": "What's your name?"}
+Input: "um okay so uh tell me about your last project" → {"question": "Tell me about your last project."}
+[OTHER] "About your last project..." then Input: "what was the hardest part?" → {"question": "About your last project, what was the hardest part?"}
+
+Output the JSON now:`;
+        }
+
         return `You are a JSON-only question extractor for Japanese speech.
 
-INPUT: "${transcribedText}"
+${recent}INPUT: "${transcribedText}"
 
 OUTPUT RULES:
 - Output ONLY a valid JSON object
 - If a question is detected: {"question": "the question text"}
 - If NO question is detected: {"question": null}
+- Only report a question that is asked or completed in INPUT, never one already asked earlier
+- If INPUT finishes a question the same speaker started in RECENT CONVERSATION, output the full question merged into one sentence
 - NEVER output markdown, analysis, or any text outside the JSON
 
 QUESTION INDICATORS:
@@ -73,16 +132,27 @@ EXAMPLES:
 Input: "今日はいい天気ですね" → {"question": null}
 Input: "お名前は何ですか" → {"question": "お名前は何ですか"}
 Input: "えーとあのー今どこにいますか" → {"question": "今どこにいますか"}
+[OTHER] "前回のプロジェクトについてですが、" then Input: "一番大変だったことは何ですか" → {"question": "前回のプロジェクトについて、一番大変だったことは何ですか"}
 
 Output the JSON now:`;
     }
 
     /**
      * Detect question from transcribed text using streaming API
+     * `options.context` holds the utterances preceding this one (both speakers);
+     * `options.speakerIndex` is the diarized speaker of the text, copied onto the question.
+     * If the model call fails, `options.fallback` (e.g. a rule-based result) is reported instead
+     * and onError only fires when there is no fallback.
      */
     public async detectQuestion(
         transcribedText: string,
-        source: 'user' | 'opponent'
+        source: 'user' | 'opponent',
+        options: {
+            fallback?: DetectedQuestion | null;
+            language?: ResolvedLanguage;
+            context?: ContextUtterance[];
+            speakerIndex?: number;
+        } = {}
     ): Promise<DetectedQuestion | null> {
         if (!transcribedText || transcribedText.trim().length < 3) {
             return null;
@@ -91,7 +161,7 @@ Output the JSON now:`;
         const startTime = Date.now();
 
         try {
-            const prompt = this.buildPrompt(transcribedText);
+            const prompt = this.buildPrompt(transcribedText, source, options.language || detectLanguage(transcribedText), options.context, options.speakerIndex);
 
             // Use streaming for faster first-token response
             const result = await this.model.generateContentStream(prompt);
@@ -105,6 +175,7 @@ Output the JSON now:`;
             logger.info(`🤖 Gemini response (${parseTime - startTime}ms)`, {
                 source,
                 inputLength: transcribedText.length,
+                contextUtterances: options.context?.length || 0,
                 outputLength: fullResponse.length,
                 output: fullResponse.substring(0, 100),
             });
@@ -121,6 +192,7 @@ Output the JSON now:`;
                     source,
                     isRefined: true,
                     refinedText: question,
+                    ...(options.speakerIndex !== undefined ? { speakerIndex: options.speakerIndex } : {}),
                 };
 
                 logger.info(`❓ Question detected (${source}): "${question}"`);
@@ -132,6 +204,14 @@ Output the JSON now:`;
             return null;
         } catch (error) {
             logger.error(`Error detecting question (${source})`, error as Error);
+
+            // A fallback question covers for the failed call, so the error is not surfaced
+            if (options.fallback) {
+                logger.info(`🛟 Using fallback question (${source}): "${options.fallback.text}"`);
+                this.onQuestionDetected?.(options.fallback);
+                return options.fallback;
+            }
+
             this.onError?.({ source, error });
             return null;
         }
@@ -171,9 +251,15 @@ Output the JSON now:`;
      * Quick check if text might contain a question (pre-filter)
      * Used to avoid unnecessary API calls
      */
-    public mightContainQuestion(text: string): boolean {
+    public mightContainQuestion(text: string, language?: ResolvedLanguage): boolean {
         if (!text || text.length < 5) return false;
 
+        if ((language || detectLanguage(text)) === 'en') {
+            return /\?/.test(text)
+                || /^\s*(what|why|how|when|where|who|which|do|does|did|is|are|can|could|would|have|has)\b/i.test(text)
+                || /\b(tell me|walk me through|explain|describe|please)\b/i.test(text);
+        }
+
         // Japanese question patterns
         const questionPatterns = [
             /[？?]/, // Question marks
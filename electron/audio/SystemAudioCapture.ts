@@ -4,9 +4,18 @@ import * as path from "path";
 import * as fs from "fs";
 import { app } from "electron";
 import { DiagnosticLogger } from "../utils/DiagnosticLogger";
+import {
+  buildMonitorRecorderCommand,
+  DEFAULT_MONITOR,
+  findMonitorRecorder,
+  listPulseMonitorSources,
+} from "./PulseMonitorSources";
 
 const logger = new DiagnosticLogger("SystemAudioCapture");
 
+// Linux sources are "system-audio" (default output) or "system-audio:<monitor source name>"
+const SYSTEM_AUDIO_SOURCE_PREFIX = "system-audio:";
+
 export interface AudioSource {
   id: string;
   name: string;
@@ -41,6 +50,8 @@ export class SystemAudioCapture extends EventEmitter {
   // audioteejs integration (custom implementation)
   private audioTeeProcess: ChildProcess | null = null;
   private ffmpegTeeProcess: ChildProcess | null = null;
+  // parec / pw-record reading a PulseAudio or PipeWire monitor source (Linux)
+  private monitorRecorderProcess: ChildProcess | null = null;
 
   constructor(config?: Partial<SystemAudioCaptureConfig>) {
     super();
@@ -151,6 +162,36 @@ export class SystemAudioCapture extends EventEmitter {
           available: true,
         });
         logger.info("System audio available (Native Electron Loopback)");
+      } else if (process.platform === "linux") {
+        // Linux: PulseAudio / PipeWire monitor sources
+        const recorder = findMonitorRecorder();
+        sources.push({
+          id: "system-audio",
+          name: recorder
+            ? "System Audio (Default Output Monitor)"
+            : "System Audio (Requires parec or pw-record)",
+          type: "system",
+          available: recorder !== null,
+        });
+
+        if (recorder) {
+          const monitors = await listPulseMonitorSources();
+          for (const monitor of monitors) {
+            sources.push({
+              id: `${SYSTEM_AUDIO_SOURCE_PREFIX}${monitor.name}`,
+              name: `System Audio (${monitor.name})`,
+              type: "system",
+              available: true,
+            });
+          }
+          logger.info(`System audio available (monitor sources via ${recorder})`, {
+            monitors: monitors.map((monitor) => monitor.name),
+          });
+        } else {
+          logger.warn(
+            "System audio unavailable - neither parec nor pw-record found on PATH"
+          );
+        }
       }
 
       logger.methodExit("getAvailableSources", sources);
@@ -208,6 +249,10 @@ export class SystemAudioCapture extends EventEmitter {
         // Don't call startMicrophoneCapture() - it will throw an error
       } else if (sourceId === "system-audio") {
         await this.startSystemAudioCapture();
+      } else if (sourceId.startsWith(SYSTEM_AUDIO_SOURCE_PREFIX)) {
+        await this.startSystemAudioCapture(
+          sourceId.slice(SYSTEM_AUDIO_SOURCE_PREFIX.length)
+        );
       } else {
         throw new Error(`Unsupported audio source: ${sourceId}`);
       }
@@ -268,6 +313,29 @@ export class SystemAudioCapture extends EventEmitter {
         this.audioTeeProcess = null;
       }
 
+      // Stop parec / pw-record if running
+      if (this.monitorRecorderProcess) {
+        console.log("[SystemAudioCapture] Stopping monitor recorder...");
+        const recorder = this.monitorRecorderProcess;
+        this.monitorRecorderProcess = null;
+
+        await new Promise<void>((resolve) => {
+          if (recorder.exitCode !== null || recorder.signalCode !== null) {
+            resolve();
+            return;
+          }
+          const timeout = setTimeout(() => {
+            recorder.kill("SIGKILL");
+            resolve();
+          }, 2000);
+          recorder.once("exit", () => {
+            clearTimeout(timeout);
+            resolve();
+          });
+          recorder.kill("SIGTERM");
+        });
+      }
+
       // Clean up audio processing
       if (this.processor) {
         this.processor.disconnect();
@@ -390,14 +458,18 @@ export class SystemAudioCapture extends EventEmitter {
 
   /**
    * Start system audio capture - routes to platform-specific implementation
+   * @param monitor Linux only: monitor source to read instead of the default output's
    */
-  private async startSystemAudioCapture(): Promise<void> {
+  private async startSystemAudioCapture(monitor?: string): Promise<void> {
     if (process.platform === "darwin") {
       // macOS: Use audioteejs
       await this.startMacOSSystemAudioCapture();
     } else if (process.platform === "win32") {
       // Windows: Use native loopback
       await this.startWindowsSystemAudioCapture();
+    } else if (process.platform === "linux") {
+      // Linux: Record a PulseAudio / PipeWire monitor source
+      await this.startLinuxSystemAudioCapture(monitor ?? DEFAULT_MONITOR);
     } else {
       throw new Error(
         `System audio capture not supported on ${process.platform}`
@@ -685,6 +757,90 @@ export class SystemAudioCapture extends EventEmitter {
     }
   }
 
+  /**
+   * Start Linux system audio capture from a PulseAudio / PipeWire monitor source
+   *
+   * parec (or pw-record) resamples to 16kHz mono itself, so stdout is already the
+   * linear16 the rest of the pipeline expects.
+   */
+  private async startLinuxSystemAudioCapture(monitor: string): Promise<void> {
+    logger.methodEntry("startLinuxSystemAudioCapture", { monitor });
+
+    const tool = findMonitorRecorder();
+    if (!tool) {
+      throw new Error(
+        "System audio capture on Linux needs parec (pulseaudio-utils) or pw-record (pipewire)"
+      );
+    }
+
+    const { args } = buildMonitorRecorderCommand(
+      tool,
+      monitor,
+      this.config.sampleRate
+    );
+    logger.info(`Spawning ${tool} for monitor source`, { monitor, args });
+
+    const recorder = spawn(tool, args, {
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: false,
+      env: process.env,
+    });
+    this.monitorRecorderProcess = recorder;
+
+    let audioDataCount = 0;
+    // Pipe reads can split a sample; hold the odd byte for the next chunk
+    let carry: Buffer | null = null;
+
+    recorder.stdout?.on("data", (data: Buffer) => {
+      const joined: Buffer = carry ? Buffer.concat([carry, data]) : data;
+      const usable = joined.length - (joined.length % 2);
+      carry = usable < joined.length ? Buffer.from(joined.subarray(usable)) : null;
+      if (usable === 0) return;
+
+      audioDataCount++;
+      if (audioDataCount === 1) {
+        logger.info(`🎵 FIRST audio chunk from ${tool}`, {
+          bytes: usable,
+          listenerCount: this.listenerCount("audio-data"),
+        });
+      }
+
+      // Copy: the stream may reuse its buffer once this handler returns
+      this.emit("audio-data", Buffer.from(joined.subarray(0, usable)));
+    });
+
+    recorder.stderr?.on("data", (data: Buffer) => {
+      const lines = data
+        .toString("utf8")
+        .split("\n")
+        .filter((line) => line.trim());
+      for (const line of lines) {
+        logger.info(`${tool}: ${line}`);
+      }
+    });
+
+    recorder.on("error", (error) => {
+      logger.error(`${tool} process error`, error, { monitor });
+      this.emit("error", error);
+    });
+
+    recorder.on("exit", (code, signal) => {
+      logger.info(`${tool} process exited`, { code, signal, audioDataCount });
+      if (this.monitorRecorderProcess === recorder) {
+        this.monitorRecorderProcess = null;
+      }
+      if (code !== 0 && code !== null) {
+        this.emit("error", new Error(`${tool} exited with code ${code}`));
+      }
+    });
+
+    logger.info("✅ Linux system audio capture started successfully", {
+      tool,
+      monitor,
+      pid: recorder.pid,
+    });
+  }
+
   /**
    * Setup audio processing pipeline for the current media stream
    */
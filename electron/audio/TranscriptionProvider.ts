@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import { DeepgramTranscriptionService } from './DeepgramTranscriptionService';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+import { WhisperLocalTranscriptionService } from './WhisperLocalTranscriptionService';
+import type { ConnectionDegradedEvent, ConnectionRestoredEvent } from '../../src/types/audio-stream';
+
+export type { ConnectionDegradedEvent, ConnectionRestoredEvent };
+
+export interface TranscriptionResult {
+    text: string;
+    isFinal: boolean;
+    confidence: number;
+    source: 'user' | 'opponent';
+    timestamp: number;
+    speakerIndex?: number;  // Diarized speaker within the source (0-based); only set by diarizing providers
+}
+
+export interface UtteranceCompleteEvent {
+    text: string;
+    source: 'user' | 'opponent';
+    timestamp: number;
+    speakerIndex?: number;
+}
+
+/**
+ * Options handed to a provider factory
+ * Well-known keys are typed, anything else is passed through from config untouched
+ */
+export interface TranscriptionProviderOptions {
+    apiKey?: string;
+    language?: string;
+    model?: string;
+    sampleRate?: number;
+    [key: string]: any;
+}
+
+/**
+ * Common contract for real-time speech-to-text backends
+ * Input is 16kHz linear16 mono PCM per source ('user' = microphone, 'opponent' = system audio)
+ * Emits: 'transcription' (TranscriptionResult), 'utterance-complete' (UtteranceCompleteEvent),
+ *        'connected', 'disconnected', 'error'
+ * Providers that can tell remote participants apart set speakerIndex on their results.
+ * Providers that recover from dropped connections also emit 'connection-degraded'
+ * (ConnectionDegradedEvent) and 'connection-restored' (ConnectionRestoredEvent).
+ */
+export interface TranscriptionProvider extends EventEmitter {
+    readonly name: string;
+    connect(): Promise<void>;
+    disconnect(): void;
+    sendAudio(audioData: Buffer, source: 'user' | 'opponent'): void;
+    isActive(): boolean;
+    isSourceConnected(source: 'user' | 'opponent'): boolean;
+    /** Language code ('ja', 'en', ...) or 'auto' for multilingual; applies from the next connect() */
+    setLanguage(language: string): void;
+    /** Speech paused and audio stops for a while (silence gate closed): finalize what was sent */
+    flush?(source: 'user' | 'opponent'): void;
+}
+
+export type TranscriptionProviderFactory = (options: TranscriptionProviderOptions) => TranscriptionProvider;
+
+const providerFactories = new Map<string, TranscriptionProviderFactory>();
+
+/**
+ * Register a provider under a config name (e.g. 'deepgram', 'mock')
+ */
+export function registerTranscriptionProvider(name: string, factory: TranscriptionProviderFactory): void {
+    providerFactories.set(name, factory);
+}
+
+/**
+ * Create a provider by config name
+ * Throws if the name is unknown or the factory rejects the options
+ */
+export function createTranscriptionProvider(name: string, options: TranscriptionProviderOptions): TranscriptionProvider {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+        throw new Error(`Unknown transcription provider: ${name} (registered: ${getRegisteredTranscriptionProviders().join(', ')})`);
+    }
+    return factory(options);
+}
+
+export function getRegisteredTranscriptionProviders(): string[] {
+    return Array.from(providerFactories.keys());
+}
+
+// Built-in providers
+registerTranscriptionProvider('deepgram', (options) => new DeepgramTranscriptionService({
+    apiKey: options.apiKey,
+    language: options.language,
+    model: options.model,
+    sampleRate: options.sampleRate,
+    encoding: options.encoding,
+    channels: options.channels,
+    diarize: options.diarize,
+    reconnectBaseDelayMs: options.reconnectBaseDelayMs,
+    reconnectMaxDelayMs: options.reconnectMaxDelayMs,
+    outageBufferMs: options.outageBufferMs,
+    endpoint: options.endpoint,
+}));
+registerTranscriptionProvider('whisper-local', (options) => new WhisperLocalTranscriptionService({
+    endpoint: options.endpoint,
+    language: options.language,
+    model: options.model,
+    sampleRate: options.sampleRate,
+    silenceThreshold: options.silenceThreshold,
+    silenceMs: options.silenceMs,
+    maxSegmentMs: options.maxSegmentMs,
+    requestTimeoutMs: options.requestTimeoutMs,
+}));
+registerTranscriptionProvider('mock', (options) => new MockTranscriptionProvider(options));
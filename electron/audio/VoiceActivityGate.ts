@@ -0,0 +1,135 @@
+import type { AudioStreamConfig, VoiceActivityGateStats } from '../../src/types/audio-stream';
+import { calculateRms, pcmDurationMs } from './PcmUtils';
+
+export interface VoiceActivityGateConfig extends Partial<Pick<AudioStreamConfig, 'sampleRate' | 'silenceEnergyThreshold'>> {
+    enabled?: boolean;
+    hangoverMs?: number;   // Keep forwarding this long after speech drops below the threshold
+    preRollMs?: number;    // Silence buffered while closed and sent ahead of the next speech
+}
+
+export interface VoiceActivityGateResult {
+    forward: Buffer[];     // Chunks to send on, oldest first (pre-roll, then the current chunk)
+    speechEnded: boolean;  // The gate closed with this chunk
+}
+
+/**
+ * Energy gate in front of a transcription upload
+ * Chunks are forwarded while their RMS is above `silenceEnergyThreshold`, plus a hangover so
+ * trailing syllables and pauses inside a sentence survive. While closed, the last `preRollMs`
+ * of audio is held back and sent ahead of the next speech so word onsets are not clipped.
+ */
+export class VoiceActivityGate {
+    private readonly config: Required<VoiceActivityGateConfig>;
+    private isOpen = false;
+    private hangoverRemainingMs = 0;
+    private preRoll: Array<{ chunk: Buffer; durationMs: number }> = [];
+    private preRollMs = 0;
+    private stats: Omit<VoiceActivityGateStats, 'enabled' | 'isOpen'> = VoiceActivityGate.emptyStats();
+
+    constructor(config: VoiceActivityGateConfig = {}) {
+        this.config = {
+            enabled: config.enabled ?? true,
+            sampleRate: config.sampleRate ?? 16000,
+            silenceEnergyThreshold: config.silenceEnergyThreshold ?? 0.01,
+            hangoverMs: config.hangoverMs ?? 800,
+            preRollMs: config.preRollMs ?? 300,
+        };
+    }
+
+    public process(chunk: Buffer): VoiceActivityGateResult {
+        const durationMs = pcmDurationMs(chunk.length, this.config.sampleRate);
+        const rms = calculateRms(chunk);
+
+        this.stats.chunksIn++;
+        this.stats.audioMsIn += durationMs;
+        this.stats.lastRms = rms;
+
+        if (!this.config.enabled) {
+            return this.pass([chunk], durationMs, false);
+        }
+
+        if (rms >= this.config.silenceEnergyThreshold) {
+            this.hangoverRemainingMs = this.config.hangoverMs;
+
+            if (this.isOpen) {
+                return this.pass([chunk], durationMs, false);
+            }
+
+            this.isOpen = true;
+            this.stats.speechSegments++;
+            const held = this.preRoll.map(entry => entry.chunk);
+            const heldMs = this.preRollMs;
+            this.preRoll = [];
+            this.preRollMs = 0;
+            return this.pass([...held, chunk], heldMs + durationMs, false);
+        }
+
+        if (this.isOpen) {
+            this.hangoverRemainingMs -= durationMs;
+            if (this.hangoverRemainingMs > 0) {
+                return this.pass([chunk], durationMs, false);
+            }
+
+            this.isOpen = false;
+            return this.pass([chunk], durationMs, true);
+        }
+
+        this.hold(chunk, durationMs);
+        return { forward: [], speechEnded: false };
+    }
+
+    public getStats(): VoiceActivityGateStats {
+        return {
+            enabled: this.config.enabled,
+            isOpen: this.isOpen,
+            ...this.stats,
+            audioMsIn: Math.round(this.stats.audioMsIn),
+            audioMsForwarded: Math.round(this.stats.audioMsForwarded),
+            audioMsDropped: Math.round(this.stats.audioMsDropped),
+            lastRms: Math.round(this.stats.lastRms * 10000) / 10000,
+        };
+    }
+
+    /**
+     * Close the gate and forget held audio and statistics (new capture session)
+     */
+    public reset(): void {
+        this.isOpen = false;
+        this.hangoverRemainingMs = 0;
+        this.preRoll = [];
+        this.preRollMs = 0;
+        this.stats = VoiceActivityGate.emptyStats();
+    }
+
+    private pass(chunks: Buffer[], durationMs: number, speechEnded: boolean): VoiceActivityGateResult {
+        this.stats.chunksForwarded += chunks.length;
+        this.stats.audioMsForwarded += durationMs;
+        return { forward: chunks, speechEnded };
+    }
+
+    private hold(chunk: Buffer, durationMs: number): void {
+        this.preRoll.push({ chunk, durationMs });
+        this.preRollMs += durationMs;
+
+        // Evict the oldest held chunks once they no longer fit in the pre-roll window
+        while (this.preRoll.length > 0 && this.preRollMs - this.preRoll[0].durationMs >= this.config.preRollMs) {
+            const evicted = this.preRoll.shift()!;
+            this.preRollMs -= evicted.durationMs;
+            this.stats.chunksDropped++;
+            this.stats.audioMsDropped += evicted.durationMs;
+        }
+    }
+
+    private static emptyStats(): Omit<VoiceActivityGateStats, 'enabled' | 'isOpen'> {
+        return {
+            chunksIn: 0,
+            chunksForwarded: 0,
+            chunksDropped: 0,
+            audioMsIn: 0,
+            audioMsForwarded: 0,
+            audioMsDropped: 0,
+            speechSegments: 0,
+            lastRms: 0,
+        };
+    }
+}
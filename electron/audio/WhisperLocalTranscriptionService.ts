@@ -0,0 +1,367 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { DiagnosticLogger } from '../utils/DiagnosticLogger';
+import { calculateRms, createWavBuffer, pcmDurationMs } from './PcmUtils';
+import type { TranscriptionProvider, TranscriptionResult } from './TranscriptionProvider';
+
+const logger = new DiagnosticLogger('WhisperLocalTranscription');
+
+export interface WhisperLocalConfig {
+    endpoint: string;              // http(s)://host:port/inference, .../v1/audio/transcriptions or ws(s)://...
+    language?: string;
+    model?: string;                // Only sent when the server expects it (OpenAI-compatible servers)
+    sampleRate?: number;
+    silenceThreshold?: number;     // Normalized RMS below which a chunk counts as silence (0-1)
+    silenceMs?: number;            // Silence after speech that ends an utterance
+    maxSegmentMs?: number;         // Force a request for long monologues
+    requestTimeoutMs?: number;
+}
+
+interface SegmentState {
+    chunks: Buffer[];
+    bytes: number;
+    hasSpeech: boolean;
+    silenceMs: number;
+    utteranceText: string;
+    pending: Promise<void>;
+}
+
+/**
+ * Transcription against a self-hosted Whisper-compatible server (e.g. whisper.cpp `server`)
+ * Nothing leaves the machine/network the endpoint lives on.
+ *
+ * HTTP endpoints: PCM is segmented on silence, wrapped as WAV and POSTed as multipart `file`
+ *   (whisper.cpp /inference and OpenAI-style /v1/audio/transcriptions both accept this).
+ * WebSocket endpoints: raw linear16 PCM is streamed as binary frames; the server replies with
+ *   JSON `{ "text": string, "is_final"?: boolean }` and optionally `{ "type": "utterance_end" }`.
+ *
+ * Emits: 'transcription', 'utterance-complete', 'connected', 'disconnected', 'error'
+ */
+export class WhisperLocalTranscriptionService extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'whisper-local';
+    private config: Required<Omit<WhisperLocalConfig, 'model'>> & { model?: string };
+    private readonly mode: 'http' | 'websocket';
+    private isConnected: { user: boolean; opponent: boolean } = { user: false, opponent: false };
+
+    // HTTP mode: per-source segment accumulation
+    private segments: { user: SegmentState; opponent: SegmentState };
+
+    // WebSocket mode: one socket per source, same as Deepgram
+    private sockets: { user: WebSocket | null; opponent: WebSocket | null } = { user: null, opponent: null };
+    private socketBuffers: { user: string; opponent: string } = { user: '', opponent: '' };
+
+    constructor(config: WhisperLocalConfig) {
+        super();
+
+        if (!config.endpoint) {
+            throw new Error('Local transcription endpoint is required (set LOCAL_WHISPER_URL)');
+        }
+
+        this.config = {
+            endpoint: config.endpoint,
+            language: config.language || 'ja',
+            model: config.model,
+            sampleRate: config.sampleRate || 16000,
+            silenceThreshold: config.silenceThreshold ?? 0.01,
+            silenceMs: config.silenceMs ?? 700,
+            maxSegmentMs: config.maxSegmentMs ?? 8000,
+            requestTimeoutMs: config.requestTimeoutMs ?? 15000,
+        };
+
+        this.mode = /^wss?:\/\//i.test(this.config.endpoint) ? 'websocket' : 'http';
+        this.segments = { user: this.createSegment(), opponent: this.createSegment() };
+
+        logger.info('✅ Initialized local Whisper transcription', {
+            endpoint: this.config.endpoint,
+            mode: this.mode,
+            language: this.config.language,
+        });
+    }
+
+    private createSegment(): SegmentState {
+        return { chunks: [], bytes: 0, hasSpeech: false, silenceMs: 0, utteranceText: '', pending: Promise.resolve() };
+    }
+
+    /**
+     * Connect (WebSocket) or verify the server is reachable (HTTP)
+     */
+    public async connect(): Promise<void> {
+        logger.info(`🔌 Connecting to local transcription server (${this.mode})...`);
+
+        if (this.mode === 'websocket') {
+            try {
+                await Promise.all([this.connectSocket('user'), this.connectSocket('opponent')]);
+            } catch (error) {
+                // Don't leave the other source's socket open behind a failed connect
+                this.disconnect();
+                throw error;
+            }
+        } else {
+            await this.checkReachable();
+            this.isConnected = { user: true, opponent: true };
+            this.emit('connected', 'user');
+            this.emit('connected', 'opponent');
+        }
+
+        logger.info('✅ Local transcription server ready');
+    }
+
+    private async checkReachable(): Promise<void> {
+        const origin = new URL(this.config.endpoint).origin;
+        try {
+            // Any HTTP response means the server is up; only network errors count as unreachable
+            await fetch(origin, { method: 'GET', signal: AbortSignal.timeout(3000) });
+        } catch (error) {
+            logger.error(`❌ Local transcription server not reachable at ${origin}`, error as Error);
+            throw new Error(`Local transcription server not reachable at ${origin}`);
+        }
+    }
+
+    private async connectSocket(source: 'user' | 'opponent'): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const url = new URL(this.config.endpoint);
+            url.searchParams.set('language', this.config.language);
+            url.searchParams.set('sample_rate', this.config.sampleRate.toString());
+
+            // Tracked before it opens so disconnect() can abandon a socket that is still connecting
+            const socket = new WebSocket(url.toString());
+            this.sockets[source] = socket;
+            let opened = false;
+
+            const timeout = setTimeout(() => {
+                if (opened) return;
+                logger.error(`❌ ${source} local transcription socket connection timed out`);
+                this.sockets[source] = null;
+                socket.terminate();
+                reject(new Error(`Connection timeout for ${source}`));
+            }, 10000);
+
+            socket.on('open', () => {
+                clearTimeout(timeout);
+                opened = true;
+                logger.info(`✅ ${source} local transcription socket connected`);
+                this.isConnected[source] = true;
+                this.emit('connected', source);
+                resolve();
+            });
+
+            socket.on('message', (data: WebSocket.Data) => {
+                this.handleSocketMessage(data, source);
+            });
+
+            socket.on('error', (error) => {
+                clearTimeout(timeout);
+                // Errors from a socket we closed ourselves (timeout, failed sibling) are expected
+                if (this.sockets[source] !== socket) return;
+                logger.error(`❌ ${source} local transcription socket error`, error as Error);
+                this.emit('error', { source, error });
+                reject(error);
+            });
+
+            socket.on('close', (code, reason) => {
+                clearTimeout(timeout);
+                if (!opened) return;
+                logger.info(`🔌 ${source} local transcription socket closed`, { code, reason: reason.toString() });
+                this.isConnected[source] = false;
+                this.emit('disconnected', source);
+            });
+        });
+    }
+
+    private handleSocketMessage(data: WebSocket.Data, source: 'user' | 'opponent'): void {
+        try {
+            const message = JSON.parse(data.toString());
+
+            if (message.type === 'utterance_end') {
+                this.emitUtteranceComplete(source, this.socketBuffers[source]);
+                this.socketBuffers[source] = '';
+                return;
+            }
+
+            const text = typeof message.text === 'string' ? message.text.trim() : '';
+            if (!text) return;
+
+            const isFinal = message.is_final === true || message.final === true;
+            if (isFinal) {
+                this.socketBuffers[source] += text + ' ';
+            }
+
+            // Diarizing streaming servers may tag the remote speaker
+            const speakerIndex = source === 'opponent' && typeof message.speaker === 'number' ? message.speaker : undefined;
+            this.emitTranscription(text, isFinal, source, speakerIndex);
+        } catch (error) {
+            logger.error(`Error parsing local transcription message (${source})`, error as Error);
+        }
+    }
+
+    /**
+     * Send linear16 PCM for transcription
+     */
+    public sendAudio(audioData: Buffer, source: 'user' | 'opponent'): void {
+        if (!this.isConnected[source]) return;
+
+        if (this.mode === 'websocket') {
+            const socket = this.sockets[source];
+            if (socket && socket.readyState === WebSocket.OPEN) {
+                socket.send(audioData);
+            }
+            return;
+        }
+
+        this.appendToSegment(audioData, source);
+    }
+
+    /**
+     * Upload buffered speech now instead of waiting for silence that will not arrive
+     */
+    public flush(source: 'user' | 'opponent'): void {
+        if (this.mode !== 'http' || !this.isConnected[source]) return;
+
+        if (this.segments[source].hasSpeech) {
+            this.flushSegment(source, true);
+        }
+    }
+
+    private appendToSegment(audioData: Buffer, source: 'user' | 'opponent'): void {
+        const segment = this.segments[source];
+        const chunkMs = pcmDurationMs(audioData.length, this.config.sampleRate);
+        const isSilent = calculateRms(audioData) < this.config.silenceThreshold;
+
+        if (isSilent) {
+            segment.silenceMs += chunkMs;
+            // Leading silence is not worth uploading
+            if (!segment.hasSpeech) return;
+        } else {
+            segment.hasSpeech = true;
+            segment.silenceMs = 0;
+        }
+
+        segment.chunks.push(audioData);
+        segment.bytes += audioData.length;
+
+        const segmentMs = pcmDurationMs(segment.bytes, this.config.sampleRate);
+        if (segment.hasSpeech && segment.silenceMs >= this.config.silenceMs) {
+            this.flushSegment(source, true);
+        } else if (segmentMs >= this.config.maxSegmentMs) {
+            this.flushSegment(source, false);
+        }
+    }
+
+    /**
+     * Hand the buffered segment to the server; requests per source run in order
+     */
+    private flushSegment(source: 'user' | 'opponent', endOfUtterance: boolean): void {
+        const segment = this.segments[source];
+        const pcm = Buffer.concat(segment.chunks);
+
+        segment.chunks = [];
+        segment.bytes = 0;
+        segment.hasSpeech = false;
+        segment.silenceMs = 0;
+
+        segment.pending = segment.pending.then(async () => {
+            const text = await this.transcribeSegment(pcm, source);
+            if (!this.isConnected[source]) return;
+
+            if (text) {
+                segment.utteranceText += text + ' ';
+                this.emitTranscription(text, true, source);
+            }
+
+            if (endOfUtterance) {
+                this.emitUtteranceComplete(source, segment.utteranceText);
+                segment.utteranceText = '';
+            }
+        });
+    }
+
+    private async transcribeSegment(pcm: Buffer, source: 'user' | 'opponent'): Promise<string> {
+        const startTime = Date.now();
+
+        try {
+            const form = new FormData();
+            const wav = createWavBuffer(pcm, this.config.sampleRate);
+            form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'audio.wav');
+            form.append('response_format', 'json');
+            form.append('temperature', '0');
+            // whisper.cpp auto-detects with 'auto'; OpenAI-style servers auto-detect when language is omitted
+            if (this.config.language !== 'auto' || !/\/v1\/audio\//.test(this.config.endpoint)) {
+                form.append('language', this.config.language);
+            }
+            if (this.config.model) {
+                form.append('model', this.config.model);
+            }
+
+            const response = await fetch(this.config.endpoint, {
+                method: 'POST',
+                body: form,
+                signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Local transcription server returned ${response.status}`);
+            }
+
+            const data = await response.json();
+            const text = (typeof data.text === 'string' ? data.text : '').trim();
+
+            logger.info(`📝 Local transcription (${source}) in ${Date.now() - startTime}ms`, {
+                audioMs: Math.round(pcmDurationMs(pcm.length, this.config.sampleRate)),
+                text: text.substring(0, 100),
+            });
+
+            return text;
+        } catch (error) {
+            logger.error(`Error transcribing segment locally (${source})`, error as Error);
+            this.emit('error', { source, error });
+            return '';
+        }
+    }
+
+    private emitTranscription(text: string, isFinal: boolean, source: 'user' | 'opponent', speakerIndex?: number): void {
+        const result: TranscriptionResult = {
+            text,
+            isFinal,
+            confidence: 1, // Whisper servers don't report a usable per-segment confidence
+            source,
+            timestamp: Date.now(),
+            ...(speakerIndex !== undefined ? { speakerIndex } : {}),
+        };
+        this.emit('transcription', result);
+    }
+
+    private emitUtteranceComplete(source: 'user' | 'opponent', text: string): void {
+        const completeText = text.trim();
+        if (!completeText) return;
+
+        logger.info(`🏁 Utterance complete (${source})`, { text: completeText.substring(0, 100) });
+        this.emit('utterance-complete', { text: completeText, source, timestamp: Date.now() });
+    }
+
+    public disconnect(): void {
+        logger.info('🔌 Disconnecting from local transcription server...');
+
+        for (const source of ['user', 'opponent'] as const) {
+            this.sockets[source]?.close();
+            this.sockets[source] = null;
+        }
+
+        this.isConnected = { user: false, opponent: false };
+        this.segments = { user: this.createSegment(), opponent: this.createSegment() };
+        this.socketBuffers = { user: '', opponent: '' };
+
+        logger.info('✅ Local transcription disconnected');
+    }
+
+    public setLanguage(language: string): void {
+        this.config.language = language;
+    }
+
+    public isActive(): boolean {
+        return this.isConnected.user || this.isConnected.opponent;
+    }
+
+    public isSourceConnected(source: 'user' | 'opponent'): boolean {
+        return this.isConnected[source];
+    }
+}
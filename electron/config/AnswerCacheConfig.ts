@@ -0,0 +1,36 @@
+export interface AnswerCacheConfig {
+    enabled: boolean;
+    ttlMs: number;
+    maxEntries: number;
+    refresh: boolean;
+}
+
+/**
+ * Resolve the persistent answer cache from environment (.env)
+ *
+ *   ANSWER_CACHE_ENABLED      reuse answers to questions asked before: true | false (default: true)
+ *   ANSWER_CACHE_TTL_HOURS    how long a cached answer is served (default: 168, one week)
+ *   ANSWER_CACHE_MAX_ENTRIES  oldest answers are dropped beyond this (default: 500)
+ *   ANSWER_CACHE_REFRESH      show the cached answer instantly but still stream a fresh one that
+ *                             replaces it and updates the cache: true | false (default: false)
+ */
+export function loadAnswerCacheConfig(): AnswerCacheConfig {
+    return {
+        enabled: process.env.ANSWER_CACHE_ENABLED !== 'false',
+        ttlMs: readNumber('ANSWER_CACHE_TTL_HOURS', 168) * 60 * 60 * 1000,
+        maxEntries: Math.max(1, Math.round(readNumber('ANSWER_CACHE_MAX_ENTRIES', 500))),
+        refresh: process.env.ANSWER_CACHE_REFRESH === 'true',
+    };
+}
+
+function readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[AnswerCacheConfig] ${name} is not a non-negative number, using ${fallback}`);
+        return fallback;
+    }
+    return value;
+}
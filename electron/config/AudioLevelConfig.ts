@@ -0,0 +1,32 @@
+import type { AudioLevelMeterConfig } from '../audio/AudioLevelMeter';
+
+export interface AudioLevelTelemetryConfig extends AudioLevelMeterConfig {
+    intervalMs: number;
+}
+
+/**
+ * Resolve the level telemetry sent to the renderer from environment (.env)
+ *
+ *   AUDIO_LEVEL_INTERVAL_MS        how often levels of both channels are pushed (default: 250)
+ *   AUDIO_SILENCE_THRESHOLD        normalized RMS (0-1) below which a channel counts as silent (default: 0.005)
+ *   AUDIO_SILENCE_WARNING_SECONDS  silence on one side this long raises a warning; 0 = never (default: 30)
+ */
+export function loadAudioLevelConfig(): AudioLevelTelemetryConfig {
+    return {
+        intervalMs: Math.max(50, readNumber('AUDIO_LEVEL_INTERVAL_MS', 250)),
+        silenceThreshold: readNumber('AUDIO_SILENCE_THRESHOLD', 0.005),
+        silenceWarningMs: readNumber('AUDIO_SILENCE_WARNING_SECONDS', 30) * 1000,
+    };
+}
+
+function readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[AudioLevelConfig] ${name} is not a non-negative number, using ${fallback}`);
+        return fallback;
+    }
+    return value;
+}
@@ -0,0 +1,131 @@
+import type { LLMProviderOptions, LLMTask } from '../services/ai/LLMProvider';
+import type { FallbackSettings } from '../services/ai/FallbackLLMProvider';
+
+export interface LLMProviderConfig {
+    provider: string;
+    options: LLMProviderOptions;
+    fallback?: LLMFallbackConfig;
+}
+
+// Models tried after the primary one, in order (see FallbackLLMProvider)
+export interface LLMFallbackConfig extends FallbackSettings {
+    chain: Array<{ provider: string; options: LLMProviderOptions }>;
+}
+
+// Lighter model in the same quota family; answers when gemini-2.0-flash is rate limited or overloaded
+const DEFAULT_GEMINI_FALLBACK = 'gemini:gemini-2.0-flash-lite';
+
+export type LLMConfig = Record<LLMTask, LLMProviderConfig>;
+
+/**
+ * Resolve which LLM answers each task from environment (.env)
+ *
+ *   LLM_PROVIDER                 provider for every task: gemini | openai-compatible | ollama (default: gemini)
+ *   LLM_MODEL                    model for tasks on LLM_PROVIDER (default: GEMINI_MODEL for gemini, provider default otherwise)
+ *   LLM_CHAT_PROVIDER            answers and chat, overrides LLM_PROVIDER
+ *   LLM_CHAT_MODEL
+ *   LLM_VISION_PROVIDER          screenshots and images
+ *   LLM_VISION_MODEL
+ *   LLM_AUDIO_PROVIDER           transcription of recorded audio clips
+ *   LLM_AUDIO_MODEL
+ *   LLM_REQUEST_TIMEOUT_MS       per-request timeout (default: provider default)
+ *   OPENAI_COMPATIBLE_BASE_URL   API root of an OpenAI-compatible server, e.g. http://127.0.0.1:8080/v1
+ *   OPENAI_COMPATIBLE_API_KEY    bearer token for that server (optional for most local servers)
+ *   OLLAMA_BASE_URL              Ollama server (default: http://127.0.0.1:11434)
+ *   LLM_FALLBACK                 models tried in order when the primary fails (429/5xx/timeout/unreachable):
+ *                                comma-separated provider[:model], e.g. gemini:gemini-2.0-flash-lite,ollama:qwen2.5:7b;
+ *                                'none' disables (default: gemini:gemini-2.0-flash-lite when chat runs on gemini)
+ *   LLM_CHAT_FALLBACK            per-task chain, overrides LLM_FALLBACK
+ *   LLM_VISION_FALLBACK
+ *   LLM_AUDIO_FALLBACK
+ *   LLM_ATTEMPT_TIMEOUT_MS       time one model gets before the next is tried; first token for streams (default: 20000)
+ *   LLM_CIRCUIT_FAILURES         consecutive failures before a model is skipped (default: 3)
+ *   LLM_CIRCUIT_COOLDOWN_MS      how long a failing model is skipped (default: 60000)
+ *
+ * GEMINI_API_KEY (or the explicit override) is used as apiKey for the gemini provider.
+ * Setting LLM_PROVIDER=ollama runs every task locally except audio, which Ollama cannot take.
+ */
+export function loadLLMConfig(overrides: { geminiApiKey?: string; geminiModel?: string } = {}): LLMConfig {
+    const defaultProvider = (process.env.LLM_PROVIDER || 'gemini').trim();
+    const requestTimeoutMs = readNumber('LLM_REQUEST_TIMEOUT_MS');
+    const fallbackSettings: FallbackSettings = {
+        attemptTimeoutMs: readNumber('LLM_ATTEMPT_TIMEOUT_MS') ?? 20000,
+        failureThreshold: Math.max(1, readNumber('LLM_CIRCUIT_FAILURES') ?? 3),
+        cooldownMs: readNumber('LLM_CIRCUIT_COOLDOWN_MS') ?? 60000,
+    };
+
+    const providerOptions = (provider: string, model: string | undefined): LLMProviderOptions => {
+        const options: LLMProviderOptions = {
+            ...(model ? { model } : {}),
+            ...(requestTimeoutMs !== undefined ? { requestTimeoutMs } : {}),
+        };
+
+        if (provider === 'gemini') {
+            options.apiKey = overrides.geminiApiKey || process.env.GEMINI_API_KEY;
+            options.model = options.model || overrides.geminiModel || process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+        } else if (provider === 'openai-compatible') {
+            options.baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+            options.apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+        } else if (provider === 'ollama') {
+            options.baseUrl = process.env.OLLAMA_BASE_URL;
+        }
+
+        return options;
+    };
+
+    const resolve = (task: LLMTask): LLMProviderConfig => {
+        const prefix = `LLM_${task.toUpperCase()}`;
+        const provider = (process.env[`${prefix}_PROVIDER`] || defaultProvider).trim();
+        // LLM_MODEL names a model of LLM_PROVIDER, so it does not follow a task to another provider
+        const model = process.env[`${prefix}_MODEL`] || (provider === defaultProvider ? process.env.LLM_MODEL : undefined);
+        const config: LLMProviderConfig = { provider, options: providerOptions(provider, model) };
+
+        const chainSpec = process.env[`${prefix}_FALLBACK`] ?? process.env.LLM_FALLBACK
+            ?? (task === 'chat' && provider === 'gemini' ? DEFAULT_GEMINI_FALLBACK : '');
+        const chain = parseFallbackChain(chainSpec)
+            .map((entry) => ({ provider: entry.provider, options: providerOptions(entry.provider, entry.model) }))
+            // The primary model again would only repeat the failure
+            .filter((entry) => entry.provider !== provider || entry.options.model !== config.options.model);
+
+        if (chain.length > 0) {
+            config.fallback = { chain, ...fallbackSettings };
+        }
+        return config;
+    };
+
+    return {
+        chat: resolve('chat'),
+        vision: resolve('vision'),
+        audio: resolve('audio'),
+    };
+}
+
+/**
+ * 'gemini:gemini-2.0-flash-lite, ollama:qwen2.5:7b' → entries; only the first ':' separates
+ * provider and model since Ollama tags contain one. 'none' or empty means no chain.
+ */
+function parseFallbackChain(spec: string): Array<{ provider: string; model?: string }> {
+    if (!spec.trim() || spec.trim() === 'none') return [];
+
+    return spec.split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const separator = entry.indexOf(':');
+            return separator === -1
+                ? { provider: entry }
+                : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) || undefined };
+        });
+}
+
+function readNumber(name: string): number | undefined {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return undefined;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[LLMConfig] ${name} is not a non-negative number, ignoring`);
+        return undefined;
+    }
+    return value;
+}
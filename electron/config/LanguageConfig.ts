@@ -0,0 +1,37 @@
+export type ConversationLanguage = 'ja' | 'en' | 'auto';
+export type ResolvedLanguage = 'ja' | 'en';
+
+export const CONVERSATION_LANGUAGES: ConversationLanguage[] = ['ja', 'en', 'auto'];
+
+/**
+ * Resolve the conversation language from environment (.env)
+ *
+ *   CONVERSATION_LANGUAGE  ja | en | auto (default: ja)
+ *
+ * Drives transcription language, sentence heuristics, the question detector prompt and the
+ * answer system prompt together. 'auto' transcribes multilingually and picks Japanese or
+ * English per utterance.
+ */
+export function loadConversationLanguage(): ConversationLanguage {
+    const value = (process.env.CONVERSATION_LANGUAGE || '').trim().toLowerCase();
+    return isConversationLanguage(value) ? value : 'ja';
+}
+
+export function isConversationLanguage(value: unknown): value is ConversationLanguage {
+    return typeof value === 'string' && (CONVERSATION_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Japanese if the text contains any kana/kanji, English otherwise
+ * Mixed utterances ("Reactのhooksについて") are treated as Japanese.
+ */
+export function detectLanguage(text: string): ResolvedLanguage {
+    return /[぀-ヿ㐀-鿿]/.test(text) ? 'ja' : 'en';
+}
+
+/**
+ * Concrete language for a piece of text under the current setting
+ */
+export function resolveLanguage(setting: ConversationLanguage, text: string): ResolvedLanguage {
+    return setting === 'auto' ? detectLanguage(text) : setting;
+}
@@ -0,0 +1,30 @@
+import type { QuestionSimilarityStrategyName } from '../audio/QuestionDeduplicator';
+
+export interface QuestionDedupConfig {
+    strategy: QuestionSimilarityStrategyName;
+    threshold?: number;
+    windowMs: number;
+}
+
+/**
+ * Resolve duplicate-question detection from environment (.env)
+ *
+ *   QUESTION_DEDUP_STRATEGY   bigram | embedding (default: bigram; embedding adds a Gemini round trip
+ *                             before every question is emitted)
+ *   QUESTION_DEDUP_THRESHOLD  similarity at or above which a question repeats an earlier one
+ *                             (default: 0.7 for bigram, 0.88 for embedding)
+ *   QUESTION_DEDUP_WINDOW_MS  only compare with questions asked this recently; 0 = whole session (default: 0)
+ */
+export function loadQuestionDedupConfig(): QuestionDedupConfig {
+    const requested = process.env.QUESTION_DEDUP_STRATEGY?.trim().toLowerCase();
+    const strategy: QuestionSimilarityStrategyName = requested === 'embedding' ? 'embedding' : 'bigram';
+
+    const threshold = Number(process.env.QUESTION_DEDUP_THRESHOLD);
+    const windowMs = Number(process.env.QUESTION_DEDUP_WINDOW_MS);
+
+    return {
+        strategy,
+        ...(threshold > 0 && threshold <= 1 ? { threshold } : {}),
+        windowMs: Number.isFinite(windowMs) && windowMs > 0 ? windowMs : 0,
+    };
+}
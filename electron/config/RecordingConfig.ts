@@ -0,0 +1,30 @@
+import type { SessionAudioRecorderConfig } from '../audio/SessionAudioRecorder';
+
+/**
+ * Resolve retention of local session recordings from environment (.env)
+ *
+ *   AUDIO_RECORDING_MAX_MB        total size kept on disk, oldest recordings go first; 0 = no limit (default: 2048)
+ *   AUDIO_RECORDING_MAX_AGE_DAYS  recordings older than this are deleted; 0 = keep forever (default: 30)
+ *
+ * Nothing is recorded unless the user consents for the session, whatever these say.
+ */
+export function loadRecordingConfig(overrides: { directory: string; sampleRate?: number }): SessionAudioRecorderConfig {
+    return {
+        directory: overrides.directory,
+        sampleRate: overrides.sampleRate || 16000,
+        maxTotalBytes: readNumber('AUDIO_RECORDING_MAX_MB', 2048) * 1024 * 1024,
+        maxAgeMs: readNumber('AUDIO_RECORDING_MAX_AGE_DAYS', 30) * 24 * 60 * 60 * 1000,
+    };
+}
+
+function readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[RecordingConfig] ${name} is not a non-negative number, using ${fallback}`);
+        return fallback;
+    }
+    return value;
+}
@@ -0,0 +1,37 @@
+import type { QuestionSimilarityStrategyName } from '../audio/QuestionDeduplicator';
+
+export interface SessionPrepConfig {
+    questionCount: number;
+    matchStrategy: QuestionSimilarityStrategyName;
+    matchThreshold: number;
+}
+
+// An anticipated question is worded more loosely than a repeat, so these sit below the dedup defaults
+const DEFAULT_MATCH_THRESHOLDS: Record<QuestionSimilarityStrategyName, number> = {
+    bigram: 0.5,
+    embedding: 0.82,
+};
+
+/**
+ * Resolve "prepare session" settings from environment (.env)
+ *
+ *   SESSION_PREP_QUESTION_COUNT   questions anticipated from the job description (default: 10, at most 30)
+ *   PREPARED_MATCH_STRATEGY       bigram | embedding (default: embedding; bigram without a Gemini key)
+ *   PREPARED_MATCH_THRESHOLD      similarity at or above which a live question gets a prepared draft
+ *                                 (default: 0.5 for bigram, 0.82 for embedding)
+ */
+export function loadSessionPrepConfig(options: { offline?: boolean } = {}): SessionPrepConfig {
+    const requested = process.env.PREPARED_MATCH_STRATEGY?.trim().toLowerCase();
+    const matchStrategy: QuestionSimilarityStrategyName = options.offline
+        ? 'bigram'
+        : requested === 'bigram' || requested === 'embedding' ? requested : 'embedding';
+
+    const count = Number(process.env.SESSION_PREP_QUESTION_COUNT);
+    const threshold = Number(process.env.PREPARED_MATCH_THRESHOLD);
+
+    return {
+        questionCount: Number.isInteger(count) && count > 0 ? Math.min(count, 30) : 10,
+        matchStrategy,
+        matchThreshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_MATCH_THRESHOLDS[matchStrategy],
+    };
+}
@@ -0,0 +1,81 @@
+import type { TranscriptionProviderOptions } from '../audio/TranscriptionProvider';
+import { loadConversationLanguage } from './LanguageConfig';
+
+export interface TranscriptionConfig {
+    provider: string;
+    options: TranscriptionProviderOptions;
+}
+
+/**
+ * Resolve the speech-to-text provider from environment (.env)
+ *
+ *   TRANSCRIPTION_PROVIDER          provider name registered in TranscriptionProvider.ts (default: deepgram)
+ *   TRANSCRIPTION_LANGUAGE          language code passed to the provider (default: CONVERSATION_LANGUAGE)
+ *   TRANSCRIPTION_MODEL             provider model name (optional)
+ *   TRANSCRIPTION_PROVIDER_OPTIONS  JSON object merged into the provider options (optional)
+ *   TRANSCRIPTION_DIARIZE           tag remote speakers on the system-audio stream: true | false (default: true)
+ *
+ * DEEPGRAM_API_KEY (or the explicit override) is used as apiKey for the deepgram provider.
+ */
+export function loadTranscriptionConfig(overrides: { deepgramApiKey?: string; sampleRate?: number } = {}): TranscriptionConfig {
+    const provider = (process.env.TRANSCRIPTION_PROVIDER || 'deepgram').trim();
+
+    let extraOptions: Record<string, any> = {};
+    if (process.env.TRANSCRIPTION_PROVIDER_OPTIONS) {
+        try {
+            extraOptions = JSON.parse(process.env.TRANSCRIPTION_PROVIDER_OPTIONS);
+        } catch (error) {
+            console.warn('[TranscriptionConfig] TRANSCRIPTION_PROVIDER_OPTIONS is not valid JSON, ignoring', error);
+        }
+    }
+
+    const options: TranscriptionProviderOptions = {
+        language: process.env.TRANSCRIPTION_LANGUAGE || loadConversationLanguage(),
+        sampleRate: overrides.sampleRate || 16000,
+        diarize: process.env.TRANSCRIPTION_DIARIZE !== 'false',
+        ...(process.env.TRANSCRIPTION_MODEL ? { model: process.env.TRANSCRIPTION_MODEL } : {}),
+        ...extraOptions,
+    };
+
+    if (provider === 'deepgram' && !options.apiKey) {
+        options.apiKey = overrides.deepgramApiKey || process.env.DEEPGRAM_API_KEY;
+        options.model = options.model || 'nova-2';
+    }
+
+    return { provider, options };
+}
+
+/**
+ * Resolve the offline ('local-streaming') provider from environment (.env)
+ *
+ *   LOCAL_WHISPER_URL      http(s) inference URL or ws(s) streaming URL of a Whisper-compatible server,
+ *                          e.g. http://127.0.0.1:8080/inference for whisper.cpp `server`
+ *   LOCAL_WHISPER_MODEL    model name for OpenAI-compatible servers (optional)
+ *   LOCAL_WHISPER_OPTIONS  JSON object merged into the provider options (optional)
+ *
+ * Returns null when no local endpoint is configured.
+ */
+export function loadLocalTranscriptionConfig(overrides: { sampleRate?: number } = {}): TranscriptionConfig | null {
+    const endpoint = process.env.LOCAL_WHISPER_URL?.trim();
+    if (!endpoint) return null;
+
+    let extraOptions: Record<string, any> = {};
+    if (process.env.LOCAL_WHISPER_OPTIONS) {
+        try {
+            extraOptions = JSON.parse(process.env.LOCAL_WHISPER_OPTIONS);
+        } catch (error) {
+            console.warn('[TranscriptionConfig] LOCAL_WHISPER_OPTIONS is not valid JSON, ignoring', error);
+        }
+    }
+
+    return {
+        provider: 'whisper-local',
+        options: {
+            endpoint,
+            language: process.env.TRANSCRIPTION_LANGUAGE || loadConversationLanguage(),
+            sampleRate: overrides.sampleRate || 16000,
+            ...(process.env.LOCAL_WHISPER_MODEL ? { model: process.env.LOCAL_WHISPER_MODEL } : {}),
+            ...extraOptions,
+        },
+    };
+}
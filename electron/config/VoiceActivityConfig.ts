@@ -0,0 +1,34 @@
+import type { VoiceActivityGateConfig } from '../audio/VoiceActivityGate';
+
+/**
+ * Resolve the silence gate in front of streaming transcription from environment (.env)
+ *
+ *   AUDIO_VAD_ENABLED      true | false (default: true)
+ *   AUDIO_VAD_THRESHOLD    normalized RMS (0-1) below which a chunk is silence (default: 0.01)
+ *   AUDIO_VAD_HANGOVER_MS  audio still sent after speech stops (default: 800)
+ *   AUDIO_VAD_PREROLL_MS   audio held back and sent before speech starts (default: 300)
+ *
+ * Keep the hangover at least as long as the local Whisper silenceMs so its segmenter still
+ * sees the pause that ends an utterance.
+ */
+export function loadVoiceActivityGateConfig(overrides: { sampleRate?: number } = {}): VoiceActivityGateConfig {
+    return {
+        enabled: process.env.AUDIO_VAD_ENABLED !== 'false',
+        sampleRate: overrides.sampleRate || 16000,
+        silenceEnergyThreshold: readNumber('AUDIO_VAD_THRESHOLD', 0.01),
+        hangoverMs: readNumber('AUDIO_VAD_HANGOVER_MS', 800),
+        preRollMs: readNumber('AUDIO_VAD_PREROLL_MS', 300),
+    };
+}
+
+function readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[VoiceActivityConfig] ${name} is not a non-negative number, using ${fallback}`);
+        return fallback;
+    }
+    return value;
+}
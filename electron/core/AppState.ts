@@ -1,3 +1,4 @@
+import * as path from "path";
 import { app, BrowserWindow, Tray, Menu, nativeImage, globalShortcut } from "electron";
 import { WindowHelper } from "../services/window/WindowHelper";
 import { ScreenshotHelper } from "../services/screenshot/ScreenshotHelper";
@@ -9,6 +10,14 @@ import { UsageTracker } from "../services/usage/UsageTracker";
 import { LocalUsageManager } from "../services/usage/LocalUsageManager";
 import { DualAudioCaptureManager } from "../audio/DualAudioCaptureManager";
 import { PermissionStorage } from "../services/permissions/PermissionStorage";
+import { TranscriptStore } from "../services/transcript/TranscriptStore";
+import { AudioDeviceSettings } from "../services/settings/AudioDeviceSettings";
+import { SessionAudioRecorder } from "../audio/SessionAudioRecorder";
+import { createSimilarityStrategy } from "../audio/QuestionDeduplicator";
+import { SessionPreparation } from "../services/ai/SessionPreparation";
+import { loadSessionPrepConfig, SessionPrepConfig } from "../config/SessionPrepConfig";
+import { loadRecordingConfig } from "../config/RecordingConfig";
+import { ConversationLanguage, loadConversationLanguage } from "../config/LanguageConfig";
 import { UniversalPermissionManager } from "./UniversalPermissionManager";
 import { AuthCallbackServer } from "./AuthCallbackServer";
 import { AutoUpdateManager } from "./AutoUpdateManager";
@@ -30,6 +39,11 @@ export class AppState {
   public localUsageManager: LocalUsageManager;
   public dualAudioManager: DualAudioCaptureManager | null = null;
   public permissionStorage: PermissionStorage;
+  public transcriptStore: TranscriptStore;
+  public audioDeviceSettings: AudioDeviceSettings;
+  public sessionAudioRecorder: SessionAudioRecorder | null = null;
+  public sessionPreparation: SessionPreparation;
+  public readonly sessionPrepConfig: SessionPrepConfig;
   public universalPermissionManager: UniversalPermissionManager;
   private authCallbackServer: AuthCallbackServer;
   private autoUpdateManager: AutoUpdateManager;
@@ -38,6 +52,9 @@ export class AppState {
   // View management
   private view: "queue" | "solutions" = "queue";
 
+  // Conversation language shared by audio pipeline and answer generation
+  private conversationLanguage: ConversationLanguage = loadConversationLanguage();
+
   private problemInfo: {
     problem_statement: string;
     input_format: Record<string, any>;
@@ -131,6 +148,24 @@ export class AppState {
     this.processingHelper.getLLMHelper().setQnAService(this.qnaService);
     this.processingHelper.getLLMHelper().setDocumentService(this.documentService);
 
+    // Initialize TranscriptStore (must exist before the audio manager is wired)
+    this.transcriptStore = new TranscriptStore(undefined, this.conversationLanguage);
+
+    // Initialize AudioDeviceSettings (microphone picked in AudioSettings)
+    this.audioDeviceSettings = new AudioDeviceSettings();
+
+    // Initialize SessionAudioRecorder (records only sessions the user consents to)
+    this.sessionAudioRecorder = this.initializeSessionAudioRecorder();
+
+    // Initialize SessionPreparation (drafts for questions anticipated before a session)
+    const geminiApiKey = process.env.GEMINI_API_KEY;
+    this.sessionPrepConfig = loadSessionPrepConfig({ offline: !geminiApiKey });
+    this.sessionPreparation = new SessionPreparation(
+      this.processingHelper.getLLMHelper(),
+      createSimilarityStrategy(this.sessionPrepConfig.matchStrategy, { threshold: this.sessionPrepConfig.matchThreshold, geminiApiKey }),
+      path.join(app.getPath('userData'), 'prepared-session.json')
+    );
+
     // Initialize DualAudioCaptureManager (Gemini Live for real-time question detection)
     this.dualAudioManager = this.initializeDualAudioManager();
 
@@ -184,6 +219,22 @@ export class AppState {
 
 
 
+  /**
+   * Initialize local session recording and drop recordings past retention
+   */
+  private initializeSessionAudioRecorder(): SessionAudioRecorder | null {
+    try {
+      const recorder = new SessionAudioRecorder(
+        loadRecordingConfig({ directory: path.join(app.getPath('userData'), 'recordings') })
+      );
+      recorder.applyRetention();
+      return recorder;
+    } catch (error) {
+      console.error('[AppState] ❌ Failed to initialize SessionAudioRecorder:', error);
+      return null;
+    }
+  }
+
   /**
    * Initialize DualAudioCaptureManager with Gemini Live (no Whisper needed)
    */
@@ -203,10 +254,12 @@ export class AppState {
       // Only Gemini API key needed - direct audio streaming to Gemini Live
       const manager = new DualAudioCaptureManager(geminiApiKey);
       console.log('[AppState] ✅ DualAudioCaptureManager instance created');
+      manager.setAudioRecorder(this.sessionAudioRecorder);
 
       // Setup event listeners for dual audio events
       console.log('[AppState] 🔗 Setting up dual audio event listeners...');
       this.setupDualAudioEvents(manager);
+      this.setupTranscriptRecording(manager);
       console.log('[AppState] ✅ Event listeners setup complete');
 
       console.log('[AppState] ✅ DualAudioCaptureManager initialized successfully (Gemini Live)');
@@ -236,12 +289,45 @@ export class AppState {
       manager.on('question-detected', (question) => {
         console.log(`[AppState] Forwarding question to renderer: ${question.text} (${question.source})`);
         mainWindow.webContents.send('audio-question-detected', question);
+
+        // A prepared draft for this question is shown while its answer is still being generated
+        this.sessionPreparation.match(question)
+          .then((match) => {
+            if (!match) return;
+            console.log(`[AppState] Prepared answer matches ${question.id} (similarity ${match.similarity.toFixed(2)})`);
+            mainWindow.webContents.send('audio-prepared-answer-matched', match);
+          })
+          .catch((error) => console.error('[AppState] Prepared answer matching failed:', error));
+      });
+
+      manager.on('question-updated', (question) => {
+        mainWindow.webContents.send('audio-question-updated', question);
       });
 
       manager.on('state-changed', (state) => {
         mainWindow.webContents.send('audio-stream-state-changed', state);
       });
 
+      manager.on('connection-degraded', (event) => {
+        mainWindow.webContents.send('audio-connection-degraded', event);
+      });
+
+      manager.on('connection-restored', (event) => {
+        mainWindow.webContents.send('audio-connection-restored', event);
+      });
+
+      manager.on('recording-changed', (state) => {
+        mainWindow.webContents.send('audio-recording-changed', state);
+      });
+
+      manager.on('speakers-changed', (speakers) => {
+        mainWindow.webContents.send('audio-speakers-changed', speakers);
+      });
+
+      manager.on('audio-levels', (levels) => {
+        mainWindow.webContents.send('audio-levels', levels);
+      });
+
       manager.on('error', (error) => {
         console.error('[AppState] Dual audio error:', error);
         mainWindow.webContents.send('audio-stream-error', error);
@@ -253,7 +339,54 @@ export class AppState {
     setupListeners();
   }
 
+  /**
+   * Persist final utterances and detected questions of each capture session
+   */
+  private setupTranscriptRecording(manager: DualAudioCaptureManager): void {
+    manager.on('capture-started', ({ pipelineMode }) => {
+      this.transcriptStore.startSession({ pipelineMode });
+    });
+
+    manager.on('transcript', (result) => {
+      this.transcriptStore.appendEntry({
+        ...result,
+        speaker: result.speakerIndex !== undefined ? manager.getSpeakerLabel(result.speakerIndex) : undefined
+      });
+    });
+
+    manager.on('speaker-renamed', ({ index, label }) => {
+      this.transcriptStore.renameSpeaker(index, label);
+    });
+
+    manager.on('question-detected', (question) => {
+      this.transcriptStore.appendQuestion(question);
+    });
 
+    manager.on('question-updated', (question) => {
+      this.transcriptStore.updateQuestion(question);
+    });
+
+    manager.on('capture-stopped', () => {
+      this.transcriptStore.endSession();
+    });
+  }
+
+
+
+  /**
+   * Switch transcription, question detection and answer language together
+   */
+  public async setConversationLanguage(language: ConversationLanguage): Promise<void> {
+    console.log(`[AppState] Conversation language: ${this.conversationLanguage} → ${language}`);
+    this.conversationLanguage = language;
+    this.processingHelper.getLLMHelper().setConversationLanguage(language);
+    this.transcriptStore.setLanguage(language);
+    await this.dualAudioManager?.setConversationLanguage(language);
+  }
+
+  public getConversationLanguage(): ConversationLanguage {
+    return this.conversationLanguage;
+  }
 
   // Getters and Setters
   public getMainWindow(): BrowserWindow | null {
@@ -467,6 +600,7 @@ export class AppState {
    */
   public cleanup(): void {
     this.authCallbackServer.stop();
+    this.transcriptStore.endSession();
     this.cleanupWindow();
   }
 }
@@ -2,9 +2,15 @@ import { ipcMain } from "electron";
 import type { AppState } from "../core/AppState";
 import { Logger } from "../utils/Logger";
 import { DiagnosticLogger } from "../utils/DiagnosticLogger";
+import type { AudioFileReplayRequest, PipelineMode } from "../audio/DualAudioCaptureManager";
+import { ConversationLanguage, isConversationLanguage } from "../config/LanguageConfig";
+import type { AnswerQuestionOptions, AudioInputDeviceSelection } from "../../src/types/audio-stream";
 
 const diagLogger = new DiagnosticLogger('AudioHandlers');
 
+// Streaming answers still generating, by the request id the renderer gave them
+const activeAnswerStreams = new Map<string, AbortController>();
+
 // Fast usage checking utility
 function checkUsageFast(appState: AppState, requiredCount: number = 1): { allowed: boolean; remaining?: number; error?: string } {
   const user = appState.authService.getCurrentUser();
@@ -98,7 +104,7 @@ export function registerAudioHandlers(appState: AppState): void {
   // Frontend migrated to Gemini Live (see DUAL_AUDIO_TRANSCRIPTION_IMPROVEMENT.md)
 
   // Generate answers to detected questions using RAG system
-  ipcMain.handle("audio-stream-answer-question", async (event, questionText: string, collectionId?: string) => {
+  ipcMain.handle("audio-stream-answer-question", async (event, questionText: string, collectionId?: string, options: AnswerQuestionOptions = {}) => {
     try {
       console.log('[AudioHandlers] audio-stream-answer-question - starting fast usage check...');
       const startTime = Date.now();
@@ -109,16 +115,19 @@ export function registerAudioHandlers(appState: AppState): void {
       // Use existing LLM helper with RAG if collection ID provided
       let result;
       if (collectionId && appState.processingHelper.getLLMHelper()) {
-        result = await appState.processingHelper.getLLMHelper().chatWithRAG(questionText, collectionId);
+        result = await appState.processingHelper.getLLMHelper().chatWithRAG(questionText, collectionId, options);
       } else {
-        result = await appState.processingHelper.getLLMHelper().chatWithGemini(questionText);
+        result = await appState.processingHelper.getLLMHelper().chatWithGemini(questionText, options);
       }
 
       // Handle different return types
       const response = typeof result === 'string' ? result : result.response;
+      appState.transcriptStore.appendAnswer(questionText, response);
 
-      // POST-PROCESSING: Track usage after successful response
-      trackUsagePostProcessing(appState, 1, 'question');
+      // POST-PROCESSING: Track usage after successful response; cached answers generated nothing
+      if (typeof result === 'string' || !result.cachedAt) {
+        trackUsagePostProcessing(appState, 1, 'question');
+      }
 
       console.log(`[AudioHandlers] audio-stream-answer-question completed in ${Date.now() - startTime}ms`);
       return { response, timestamp: Date.now() };
@@ -129,9 +138,15 @@ export function registerAudioHandlers(appState: AppState): void {
   });
 
   // Generate answers with streaming for better UX
-  ipcMain.handle("audio-stream-answer-question-streaming", async (event, questionText: string, collectionId?: string) => {
+  // `requestId` tags the chunks of this answer and lets audio-stream-cancel-answer stop it
+  ipcMain.handle("audio-stream-answer-question-streaming", async (event, questionText: string, collectionId?: string, options: AnswerQuestionOptions = {}, requestId?: string) => {
     const startTime = Date.now();
     let usageTrackingTime = 0;
+    const abortController = new AbortController();
+    if (requestId) {
+      activeAnswerStreams.get(requestId)?.abort();
+      activeAnswerStreams.set(requestId, abortController);
+    }
 
     try {
       const user = appState.authService.getCurrentUser();
@@ -163,6 +178,9 @@ export function registerAudioHandlers(appState: AppState): void {
       const llmHelper = appState.processingHelper.getLLMHelper();
 
       console.log(`[AudioHandlers] Starting LLM streaming... Total prep time: ${Date.now() - startTime}ms`);
+      if (options.variant || options.instruction) {
+        console.log('[AudioHandlers] Regenerating answer:', { variant: options.variant || 'default', instruction: options.instruction || null });
+      }
 
       // Use streaming API with callback to send chunks to renderer
       const result = await llmHelper.chatWithRAGStreaming(
@@ -170,22 +188,36 @@ export function registerAudioHandlers(appState: AppState): void {
         collectionId,
         (chunk: string) => {
           // Send each chunk to the renderer process
-          event.sender.send('audio-stream-answer-chunk', chunk);
+          event.sender.send('audio-stream-answer-chunk', chunk, requestId);
+        },
+        options,
+        abortController.signal,
+        (cached) => {
+          // Shown right away while the fresh answer streams in (ANSWER_CACHE_REFRESH)
+          event.sender.send('audio-stream-answer-cached', { requestId: requestId || null, answer: cached.answer, cachedAt: cached.createdAt, answeredBy: cached.answeredBy });
         }
       );
 
       const llmEndTime = Date.now();
       const llmProcessingTime = llmEndTime - llmStartTime;
 
-      // POST-PROCESSING: Track usage now that we have a successful response
-      if (user && accessToken) {
-        console.log('[AudioHandlers] Tracking usage post-processing (non-blocking)');
-        appState.localUsageManager.trackUsage(1, 'question');
+      if (result.cancelled) {
+        // Nothing was generated before the first token, so nothing is charged
+        const charged = result.performance?.firstChunkLatency != null;
+        if (charged) {
+          trackUsagePostProcessing(appState, 1, 'question');
+        }
+
+        console.log(`[AudioHandlers] Streaming answer cancelled after ${llmProcessingTime}ms (usage charged: ${charged})`);
+        event.sender.send('audio-stream-answer-cancelled', { requestId: requestId || null, partialResponse: result.response, charged });
+        return { response: result.response, ragContext: result.ragContext, answeredBy: result.answeredBy, timestamp: Date.now(), cancelled: true };
+      }
+
+      appState.transcriptStore.appendAnswer(questionText, result.response);
 
-        // Trigger background sync if needed
-        setTimeout(() => {
-          appState.localUsageManager.forceSync(accessToken);
-        }, 1000); // Small delay to not interfere with streaming
+      // POST-PROCESSING: Track usage now that we have a successful response; cached answers generated nothing
+      if (!result.fromCache) {
+        trackUsagePostProcessing(appState, 1, 'question');
       }
 
       const totalTime = Date.now() - startTime;
@@ -194,12 +226,18 @@ export function registerAudioHandlers(appState: AppState): void {
       console.log(`  - Usage tracking time: ${usageTrackingTime}ms`);
       console.log(`  - LLM processing time: ${llmProcessingTime}ms`);
       console.log(`  - Total time: ${totalTime}ms`);
+      if (result.answeredBy.fallback) {
+        console.log(`  - Answered by fallback ${result.answeredBy.provider}/${result.answeredBy.model} (attempt ${result.answeredBy.attempts})`);
+      }
       console.log(`  - Performance improvement: ${usageTrackingTime < 100 ? '✅ Excellent' : usageTrackingTime < 500 ? '✅ Good' : '⚠️ Needs improvement'}`);
 
       // Return final response with performance data
       return {
         response: result.response,
         ragContext: result.ragContext,
+        answeredBy: result.answeredBy,
+        fromCache: result.fromCache || false,
+        cachedAt: result.cachedAt,
         timestamp: Date.now(),
         performance: {
           usageTrackingTime,
@@ -211,6 +249,27 @@ export function registerAudioHandlers(appState: AppState): void {
     } catch (error: any) {
       console.error("Error answering question with streaming:", error);
       throw error;
+    } finally {
+      if (requestId && activeAnswerStreams.get(requestId) === abortController) {
+        activeAnswerStreams.delete(requestId);
+      }
+    }
+  });
+
+  // Stop a streaming answer; the streaming call resolves with `cancelled: true`
+  ipcMain.handle("audio-stream-cancel-answer", async (_, requestId: string) => {
+    try {
+      const controller = activeAnswerStreams.get(requestId);
+      if (!controller) {
+        return { success: true, cancelled: false };
+      }
+
+      controller.abort();
+      activeAnswerStreams.delete(requestId);
+      return { success: true, cancelled: true };
+    } catch (error: any) {
+      console.error("Error cancelling streaming answer:", error);
+      return { success: false, cancelled: false, error: error.message };
     }
   });
 
@@ -298,6 +357,107 @@ export function registerAudioHandlers(appState: AppState): void {
     }
   });
 
+  ipcMain.handle("dual-audio-set-pipeline-mode", async (event, mode: PipelineMode) => {
+    try {
+      if (!appState.dualAudioManager) {
+        return { success: false, error: 'Dual audio manager not initialized' };
+      }
+      if (!appState.dualAudioManager.setPipelineMode(mode)) {
+        return { success: false, error: `Pipeline mode ${mode} is not available` };
+      }
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error setting dual audio pipeline mode:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Replay WAV/PCM recordings through the active pipeline (tuning and regression runs without a microphone)
+  // Resolves when the replay ends; dual-audio-stop cuts it short.
+  ipcMain.handle("dual-audio-replay-files", async (event, request: AudioFileReplayRequest) => {
+    try {
+      if (!appState.dualAudioManager) {
+        return { success: false, error: 'Dual audio manager not initialized' };
+      }
+      const summary = await appState.dualAudioManager.replayAudioFiles(request || {});
+      return { success: true, summary };
+    } catch (error: any) {
+      console.error("Error replaying audio files:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Microphone device picked in AudioSettings; null follows the system default
+  ipcMain.handle("audio-get-input-device", async () => {
+    return { device: appState.audioDeviceSettings.getMicrophone() };
+  });
+
+  // Saved and pushed to the renderer, which swaps the device of a running capture
+  ipcMain.handle("audio-set-input-device", async (event, device: AudioInputDeviceSelection | null) => {
+    try {
+      const selection = device?.deviceId ? { deviceId: device.deviceId, label: device.label || '' } : null;
+      appState.audioDeviceSettings.setMicrophone(selection);
+      appState.getMainWindow()?.webContents.send("audio-input-device-changed", selection);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error setting input device:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Per-session consent to record audio locally; reset when capture stops
+  ipcMain.handle("dual-audio-set-recording-consent", async (event, consent: boolean) => {
+    try {
+      if (!appState.dualAudioManager) {
+        return { success: false, error: 'Dual audio manager not initialized' };
+      }
+      const state = appState.dualAudioManager.setRecordingConsent(!!consent);
+      return { success: true, state };
+    } catch (error: any) {
+      console.error("Error setting recording consent:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Diarized remote speakers of the current session and their display labels
+  ipcMain.handle("dual-audio-get-speakers", async () => {
+    return { speakers: appState.dualAudioManager?.getSpeakers() || [] };
+  });
+
+  ipcMain.handle("dual-audio-rename-speaker", async (event, index: number, name: string) => {
+    try {
+      if (!appState.dualAudioManager) {
+        return { success: false, error: 'Dual audio manager not initialized' };
+      }
+      if (!Number.isInteger(index) || index < 0) {
+        return { success: false, error: `Invalid speaker index: ${index}` };
+      }
+      const label = appState.dualAudioManager.renameSpeaker(index, typeof name === 'string' ? name : '');
+      return { success: true, label };
+    } catch (error: any) {
+      console.error("Error renaming speaker:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Conversation language (ja | en | auto) for transcription, detection and answers
+  ipcMain.handle("get-conversation-language", async () => {
+    return { language: appState.getConversationLanguage() };
+  });
+
+  ipcMain.handle("set-conversation-language", async (event, language: ConversationLanguage) => {
+    try {
+      if (!isConversationLanguage(language)) {
+        return { success: false, error: `Unsupported language: ${language}` };
+      }
+      await appState.setConversationLanguage(language);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error setting conversation language:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
   ipcMain.handle("dual-audio-get-questions", async () => {
     try {
       if (!appState.dualAudioManager) {
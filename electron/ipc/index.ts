@@ -9,6 +9,8 @@ import { registerPermissionHandlers } from "./permissionHandlers";
 import { registerUtilityHandlers } from "./utilityHandlers";
 import { registerDiagnosticsHandlers } from "./diagnosticsHandlers";
 import { registerUpdateHandlers } from "./updateHandlers";
+import { registerTranscriptHandlers } from "./transcriptHandlers";
+import { registerRecordingHandlers } from "./recordingHandlers";
 
 /**
  * Initialize all IPC handlers
@@ -28,6 +30,8 @@ export function initializeIpcHandlers(appState: AppState): void {
   registerPermissionHandlers(appState);   // Permission management
   registerDiagnosticsHandlers();          // System diagnostics (no appState needed)
   registerUpdateHandlers(appState);       // Auto-update handlers
+  registerTranscriptHandlers(appState);   // Session transcripts
+  registerRecordingHandlers(appState);    // Local session recordings
   
   console.log('[IPC] ✅ All IPC handlers initialized successfully');
 }
@@ -101,8 +101,10 @@ export function registerLLMHandlers(appState: AppState): void {
 
       const result = await appState.processingHelper.getLLMHelper().chatWithMode(message, modeKey, collectionId);
 
-      // POST-PROCESSING: Track usage after successful chat
-      trackUsagePostProcessing(appState, 1, 'question');
+      // POST-PROCESSING: Track usage after successful chat; cached answers generated nothing
+      if (!result.cachedAt) {
+        trackUsagePostProcessing(appState, 1, 'question');
+      }
 
       return result;
     } catch (error: any) {
@@ -134,8 +136,10 @@ export function registerLLMHandlers(appState: AppState): void {
 
       const result = await appState.processingHelper.getLLMHelper().chatWithRAG(message, collectionId);
 
-      // POST-PROCESSING: Track usage after successful chat
-      trackUsagePostProcessing(appState, 1, 'question');
+      // POST-PROCESSING: Track usage after successful chat; cached answers generated nothing
+      if (!result.cachedAt) {
+        trackUsagePostProcessing(appState, 1, 'question');
+      }
 
       return result;
     } catch (error: any) {
@@ -143,4 +147,71 @@ export function registerLLMHandlers(appState: AppState): void {
       throw error;
     }
   });
+
+  // Persistent answer cache: size for the settings view, and a manual purge
+  ipcMain.handle("answer-cache-get-stats", async () => {
+    try {
+      return { success: true, ...appState.processingHelper.getLLMHelper().getAnswerCache().getStats() };
+    } catch (error: any) {
+      console.error("Error in answer-cache-get-stats handler:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("answer-cache-purge", async (_, collectionId?: string) => {
+    try {
+      const removed = appState.processingHelper.getLLMHelper().getAnswerCache().purge(collectionId);
+      return { success: true, removed };
+    } catch (error: any) {
+      console.error("Error in answer-cache-purge handler:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Prepare session: anticipate questions from a job description and draft answers with the mode
+  ipcMain.handle("session-prep-start", async (event, jobDescription: string, modeKey: string, collectionId?: string) => {
+    try {
+      const { questionCount } = appState.sessionPrepConfig;
+      // One request for the question list plus one draft per question
+      checkUsageFast(appState, questionCount + 1);
+
+      const session = await appState.sessionPreparation.prepare(
+        { jobDescription, modeKey, collectionId, questionCount },
+        (progress) => {
+          if (!event.sender.isDestroyed()) event.sender.send("session-prep-progress", progress);
+        }
+      );
+
+      // Drafts served from the answer cache generated nothing
+      const generatedDrafts = session.questions.filter((question) => !question.cachedAt).length;
+      trackUsagePostProcessing(appState, generatedDrafts + 1, 'question');
+      return { success: true, session };
+    } catch (error: any) {
+      console.error("Error in session-prep-start handler:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("session-prep-get", async () => {
+    try {
+      return {
+        success: true,
+        session: appState.sessionPreparation.getSession(),
+        preparing: appState.sessionPreparation.isPreparing()
+      };
+    } catch (error: any) {
+      console.error("Error in session-prep-get handler:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("session-prep-clear", async () => {
+    try {
+      appState.sessionPreparation.clear();
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error in session-prep-clear handler:", error);
+      return { success: false, error: error.message };
+    }
+  });
 }
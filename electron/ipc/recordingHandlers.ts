@@ -0,0 +1,47 @@
+import { ipcMain } from "electron";
+import type { AppState } from "../core/AppState";
+
+/**
+ * Session recording IPC handlers
+ * Lists and deletes recordings kept by SessionAudioRecorder and serves question clips for playback
+ */
+export function registerRecordingHandlers(appState: AppState): void {
+  ipcMain.handle("recording-list", async () => {
+    try {
+      return { success: true, recordings: appState.sessionAudioRecorder?.list() || [] };
+    } catch (error: any) {
+      console.error("Error listing recordings:", error);
+      return { success: false, recordings: [], error: error.message };
+    }
+  });
+
+  ipcMain.handle("recording-delete", async (event, recordingId: string) => {
+    try {
+      const deleted = appState.sessionAudioRecorder?.delete(recordingId) || false;
+      if (!deleted) {
+        return { success: false, error: `Recording not found or still running: ${recordingId}` };
+      }
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting recording:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Part of one source as a base64 WAV the renderer can play directly
+  ipcMain.handle(
+    "recording-get-clip",
+    async (event, recordingId: string, source: 'user' | 'opponent', offsetMs: number, durationMs: number) => {
+      try {
+        const wav = appState.sessionAudioRecorder?.readSegment(recordingId, source, offsetMs, durationMs);
+        if (!wav) {
+          return { success: false, error: `Recording not found: ${recordingId}` };
+        }
+        return { success: true, data: wav.toString('base64'), mimeType: 'audio/wav' };
+      } catch (error: any) {
+        console.error("Error reading recording clip:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+}
@@ -0,0 +1,79 @@
+import { ipcMain, dialog } from "electron";
+import * as fs from "fs";
+import type { AppState } from "../core/AppState";
+import { exportTranscript, EXPORT_FILE_EXTENSIONS } from "../services/transcript/TranscriptExporter";
+import type { TranscriptExportFormat } from "../../src/types/audio-stream";
+
+/**
+ * Session transcript IPC handlers
+ * Lists, loads, deletes and exports transcripts persisted by TranscriptStore
+ */
+export function registerTranscriptHandlers(appState: AppState): void {
+  ipcMain.handle("transcript-list-sessions", async () => {
+    try {
+      return { success: true, sessions: appState.transcriptStore.listSessions() };
+    } catch (error: any) {
+      console.error("Error listing transcript sessions:", error);
+      return { success: false, sessions: [], error: error.message };
+    }
+  });
+
+  ipcMain.handle("transcript-load-session", async (event, sessionId: string) => {
+    try {
+      const session = appState.transcriptStore.loadSession(sessionId);
+      if (!session) {
+        return { success: false, error: `Session not found: ${sessionId}` };
+      }
+      return { success: true, session };
+    } catch (error: any) {
+      console.error("Error loading transcript session:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("transcript-delete-session", async (event, sessionId: string) => {
+    try {
+      const deleted = appState.transcriptStore.deleteSession(sessionId);
+      if (!deleted) {
+        return { success: false, error: `Session not found: ${sessionId}` };
+      }
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error deleting transcript session:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Export a session (default: running or most recent) to a file chosen by the user
+  ipcMain.handle("transcript-export-session", async (event, format: TranscriptExportFormat, sessionId?: string) => {
+    try {
+      if (!EXPORT_FILE_EXTENSIONS[format]) {
+        return { success: false, error: `Unsupported export format: ${format}` };
+      }
+
+      const targetId = sessionId || appState.transcriptStore.getLatestSessionId();
+      const session = targetId ? appState.transcriptStore.loadSession(targetId) : null;
+      if (!session) {
+        return { success: false, error: 'No transcript session to export' };
+      }
+
+      const extension = EXPORT_FILE_EXTENSIONS[format];
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: 'Export transcript',
+        defaultPath: `transcript-${session.id}.${extension}`,
+        filters: [{ name: format.toUpperCase(), extensions: [extension] }]
+      });
+
+      if (canceled || !filePath) {
+        return { success: false, canceled: true };
+      }
+
+      fs.writeFileSync(filePath, exportTranscript(session, format), "utf8");
+      console.log(`[TranscriptHandlers] Exported session ${session.id} as ${format} to ${filePath}`);
+      return { success: true, filePath };
+    } catch (error: any) {
+      console.error("Error exporting transcript session:", error);
+      return { success: false, error: error.message };
+    }
+  });
+}
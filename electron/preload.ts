@@ -51,8 +51,19 @@ interface ElectronAPI {
   audioStreamGetState: () => Promise<{ isListening: boolean; error?: string }>
   audioStreamGetQuestions: () => Promise<Array<{ text: string; timestamp: number }>>
   audioStreamClearQuestions: () => Promise<{ success: boolean; error?: string }>
-  audioStreamAnswerQuestion: (questionText: string, collectionId?: string) => Promise<{ response: string; timestamp: number }>
-  audioStreamAnswerQuestionStreaming: (questionText: string, collectionId: string | undefined, onChunk: (chunk: string) => void) => Promise<{ response: string; ragContext: any; timestamp: number }>
+  audioStreamAnswerQuestion: (questionText: string, collectionId?: string, options?: { history?: Array<{ question: string; answer: string }>; variant?: string; instruction?: string; previousAnswer?: string }) => Promise<{ response: string; timestamp: number }>
+  audioStreamAnswerQuestionStreaming: (questionText: string, collectionId: string | undefined, onChunk: (chunk: string) => void, options?: { history?: Array<{ question: string; answer: string }>; variant?: string; instruction?: string; previousAnswer?: string }, requestId?: string, onCached?: (cached: { requestId: string | null; answer: string; cachedAt: number; answeredBy?: any }) => void) => Promise<{ response: string; ragContext: any; answeredBy?: { provider: string; model: string; attempts: number; fallback: boolean }; fromCache?: boolean; cachedAt?: number; timestamp: number; cancelled?: boolean }>
+  audioStreamCancelAnswer: (requestId: string) => Promise<{ success: boolean; cancelled: boolean; error?: string }>
+  onAudioAnswerCancelled: (callback: (event: { requestId: string | null; partialResponse: string; charged: boolean }) => void) => () => void
+  answerCacheGetStats: () => Promise<{ success: boolean; entries?: number; oldestAt?: number | null; enabled?: boolean; error?: string }>
+  answerCachePurge: (collectionId?: string) => Promise<{ success: boolean; removed?: number; error?: string }>
+
+  // Session preparation methods (drafts for questions anticipated from a job description)
+  sessionPrepStart: (jobDescription: string, modeKey: string, collectionId?: string) => Promise<{ success: boolean; session?: any; error?: string }>
+  sessionPrepGet: () => Promise<{ success: boolean; session?: any | null; preparing?: boolean; error?: string }>
+  sessionPrepClear: () => Promise<{ success: boolean; error?: string }>
+  onSessionPrepProgress: (callback: (progress: { stage: 'questions' | 'answers'; completed: number; total: number }) => void) => () => void
+  onAudioPreparedAnswerMatched: (callback: (match: { questionId: string; prepared: any; similarity: number }) => void) => () => void
 
   // Microphone capture from renderer (new - MicrophoneCapture service)
   audioProcessMicrophoneChunk: (audioData: Float32Array) => Promise<{ success: boolean; error?: string }>
@@ -62,6 +73,13 @@ interface ElectronAPI {
   dualAudioStop: () => Promise<{ success: boolean; error?: string }>
   dualAudioProcessMicrophoneChunk: (audioData: Float32Array) => Promise<{ success: boolean; error?: string }>
   dualAudioGetState: () => Promise<{ isCapturing: boolean; geminiState: any }>
+  dualAudioSetPipelineMode: (mode: 'gemini-live' | 'deepgram-streaming' | 'local-streaming') => Promise<{ success: boolean; error?: string }>
+  dualAudioReplayFiles: (request: { user?: string; opponent?: string; speed?: number; chunkMs?: number; settleMs?: number }) => Promise<{ success: boolean; summary?: any; error?: string }>
+  dualAudioSetRecordingConsent: (consent: boolean) => Promise<{ success: boolean; state?: { consent: boolean; recording: boolean; recordingId: string | null }; error?: string }>
+  dualAudioGetSpeakers: () => Promise<{ speakers: Array<{ index: number; label: string; isCustom: boolean }> }>
+  dualAudioRenameSpeaker: (index: number, name: string) => Promise<{ success: boolean; label?: string; error?: string }>
+  getConversationLanguage: () => Promise<{ language: 'ja' | 'en' | 'auto' }>
+  setConversationLanguage: (language: 'ja' | 'en' | 'auto') => Promise<{ success: boolean; error?: string }>
   dualAudioGetQuestions: () => Promise<Array<{ text: string; timestamp: number }>>
   dualAudioClearQuestions: () => Promise<{ success: boolean; error?: string }>
 
@@ -70,12 +88,32 @@ interface ElectronAPI {
   audioSwitchSource: (sourceId: string) => Promise<{ success: boolean; error?: string }>
   audioRequestPermissions: () => Promise<{ granted: boolean; error?: string }>
   audioCheckSystemSupport: () => Promise<{ supported: boolean }>
+  audioGetInputDevice: () => Promise<{ device: { deviceId: string; label: string } | null }>
+  audioSetInputDevice: (device: { deviceId: string; label: string } | null) => Promise<{ success: boolean; error?: string }>
+  onAudioInputDeviceChanged: (callback: (device: { deviceId: string; label: string } | null) => void) => () => void
 
   // Audio Stream event listeners
   onAudioQuestionDetected: (callback: (question: { text: string; timestamp: number }) => void) => () => void
+  onAudioQuestionUpdated: (callback: (question: { id: string; text: string; timestamp: number; repeatCount?: number }) => void) => () => void
   onAudioBatchProcessed: (callback: (questions: Array<{ text: string; timestamp: number }>) => void) => () => void
   onAudioStreamStateChanged: (callback: (state: { isListening: boolean; error?: string }) => void) => () => void
   onAudioStreamError: (callback: (error: string) => void) => () => void
+  onAudioSpeakersChanged: (callback: (speakers: Array<{ index: number; label: string; isCustom: boolean }>) => void) => () => void
+  onAudioConnectionDegraded: (callback: (event: { source: 'user' | 'opponent'; reason: string; attempt: number; retryInMs: number }) => void) => () => void
+  onAudioConnectionRestored: (callback: (event: { source: 'user' | 'opponent'; downtimeMs: number; replayedMs: number; droppedMs: number }) => void) => () => void
+  onAudioRecordingChanged: (callback: (state: { consent: boolean; recording: boolean; recordingId: string | null }) => void) => () => void
+  onAudioLevels: (callback: (levels: any) => void) => () => void
+
+  // Session transcript methods
+  transcriptListSessions: () => Promise<{ success: boolean; sessions: any[]; error?: string }>
+  transcriptLoadSession: (sessionId: string) => Promise<{ success: boolean; session?: any; error?: string }>
+  transcriptDeleteSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>
+  transcriptExportSession: (format: 'srt' | 'vtt' | 'markdown' | 'json', sessionId?: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+
+  // Session recording methods
+  recordingList: () => Promise<{ success: boolean; recordings: any[]; error?: string }>
+  recordingDelete: (recordingId: string) => Promise<{ success: boolean; error?: string }>
+  recordingGetClip: (recordingId: string, source: 'user' | 'opponent', offsetMs: number, durationMs: number) => Promise<{ success: boolean; data?: string; mimeType?: string; error?: string }>
 
   // Permission methods
   permissionGetStatus: () => Promise<{ microphone: 'granted' | 'denied' | 'not-determined' | 'unknown'; screenCapture: 'granted' | 'denied' | 'not-determined' | 'unknown' }>
@@ -243,22 +281,61 @@ contextBridge.exposeInMainWorld("electronAPI", {
   audioStreamGetState: () => ipcRenderer.invoke("audio-stream-get-state") as Promise<{ isListening: boolean; error?: string }>,
   audioStreamGetQuestions: () => ipcRenderer.invoke("audio-stream-get-questions") as Promise<Array<{ text: string; timestamp: number }>>,
   audioStreamClearQuestions: () => ipcRenderer.invoke("audio-stream-clear-questions"),
-  audioStreamAnswerQuestion: (questionText: string, collectionId?: string) => ipcRenderer.invoke("audio-stream-answer-question", questionText, collectionId),
-  audioStreamAnswerQuestionStreaming: (questionText: string, collectionId: string | undefined, onChunk: (chunk: string) => void) => {
-    // Set up listener for chunks
-    const chunkHandler = (_: any, chunk: string) => onChunk(chunk);
+  audioStreamAnswerQuestion: (questionText: string, collectionId?: string, options?: { history?: Array<{ question: string; answer: string }>; variant?: string; instruction?: string; previousAnswer?: string }) => ipcRenderer.invoke("audio-stream-answer-question", questionText, collectionId, options),
+  audioStreamAnswerQuestionStreaming: (questionText: string, collectionId: string | undefined, onChunk: (chunk: string) => void, options?: { history?: Array<{ question: string; answer: string }>; variant?: string; instruction?: string; previousAnswer?: string }, requestId?: string, onCached?: (cached: { requestId: string | null; answer: string; cachedAt: number; answeredBy?: any }) => void) => {
+    // Chunks are tagged with their request so overlapping answers don't interleave
+    const streamId = requestId || `answer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const chunkHandler = (_: any, chunk: string, chunkRequestId?: string) => {
+      if (chunkRequestId === streamId) onChunk(chunk);
+    };
+    const cachedHandler = (_: any, cached: { requestId: string | null; answer: string; cachedAt: number; answeredBy?: any }) => {
+      if (cached.requestId === streamId) onCached?.(cached);
+    };
     ipcRenderer.on("audio-stream-answer-chunk", chunkHandler);
+    ipcRenderer.on("audio-stream-answer-cached", cachedHandler);
 
     // Start the streaming request
-    const promise = ipcRenderer.invoke("audio-stream-answer-question-streaming", questionText, collectionId);
+    const promise = ipcRenderer.invoke("audio-stream-answer-question-streaming", questionText, collectionId, options, streamId);
 
     // Clean up listener when done
     promise.finally(() => {
       ipcRenderer.removeListener("audio-stream-answer-chunk", chunkHandler);
+      ipcRenderer.removeListener("audio-stream-answer-cached", cachedHandler);
     });
 
     return promise;
   },
+  audioStreamCancelAnswer: (requestId: string) => ipcRenderer.invoke("audio-stream-cancel-answer", requestId),
+  onAudioAnswerCancelled: (callback: (event: { requestId: string | null; partialResponse: string; charged: boolean }) => void) => {
+    const subscription = (_: any, event: { requestId: string | null; partialResponse: string; charged: boolean }) => callback(event)
+    ipcRenderer.on("audio-stream-answer-cancelled", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-stream-answer-cancelled", subscription)
+    }
+  },
+
+  answerCacheGetStats: () => ipcRenderer.invoke("answer-cache-get-stats"),
+  answerCachePurge: (collectionId?: string) => ipcRenderer.invoke("answer-cache-purge", collectionId),
+
+  // Session preparation methods
+  sessionPrepStart: (jobDescription: string, modeKey: string, collectionId?: string) =>
+    ipcRenderer.invoke("session-prep-start", jobDescription, modeKey, collectionId),
+  sessionPrepGet: () => ipcRenderer.invoke("session-prep-get"),
+  sessionPrepClear: () => ipcRenderer.invoke("session-prep-clear"),
+  onSessionPrepProgress: (callback: (progress: { stage: 'questions' | 'answers'; completed: number; total: number }) => void) => {
+    const subscription = (_: any, progress: { stage: 'questions' | 'answers'; completed: number; total: number }) => callback(progress)
+    ipcRenderer.on("session-prep-progress", subscription)
+    return () => {
+      ipcRenderer.removeListener("session-prep-progress", subscription)
+    }
+  },
+  onAudioPreparedAnswerMatched: (callback: (match: { questionId: string; prepared: any; similarity: number }) => void) => {
+    const subscription = (_: any, match: { questionId: string; prepared: any; similarity: number }) => callback(match)
+    ipcRenderer.on("audio-prepared-answer-matched", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-prepared-answer-matched", subscription)
+    }
+  },
 
   // Microphone capture from renderer (new - MicrophoneCapture service)
   audioProcessMicrophoneChunk: (audioData: Float32Array) => ipcRenderer.invoke("audio-process-microphone-chunk", audioData),
@@ -268,6 +345,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
   dualAudioStop: () => ipcRenderer.invoke("dual-audio-stop"),
   dualAudioProcessMicrophoneChunk: (audioData: Float32Array) => ipcRenderer.invoke("dual-audio-process-microphone-chunk", audioData),
   dualAudioGetState: () => ipcRenderer.invoke("dual-audio-get-state"),
+  dualAudioSetPipelineMode: (mode: 'gemini-live' | 'deepgram-streaming' | 'local-streaming') => ipcRenderer.invoke("dual-audio-set-pipeline-mode", mode),
+  dualAudioReplayFiles: (request: { user?: string; opponent?: string; speed?: number; chunkMs?: number; settleMs?: number }) => ipcRenderer.invoke("dual-audio-replay-files", request),
+  dualAudioSetRecordingConsent: (consent: boolean) => ipcRenderer.invoke("dual-audio-set-recording-consent", consent),
+  dualAudioGetSpeakers: () => ipcRenderer.invoke("dual-audio-get-speakers"),
+  dualAudioRenameSpeaker: (index: number, name: string) => ipcRenderer.invoke("dual-audio-rename-speaker", index, name),
+  getConversationLanguage: () => ipcRenderer.invoke("get-conversation-language"),
+  setConversationLanguage: (language: 'ja' | 'en' | 'auto') => ipcRenderer.invoke("set-conversation-language", language),
   dualAudioGetQuestions: () => ipcRenderer.invoke("dual-audio-get-questions"),
   dualAudioClearQuestions: () => ipcRenderer.invoke("dual-audio-clear-questions"),
 
@@ -276,6 +360,15 @@ contextBridge.exposeInMainWorld("electronAPI", {
   audioSwitchSource: (sourceId: string) => ipcRenderer.invoke("audio-switch-source", sourceId) as Promise<{ success: boolean; error?: string }>,
   audioRequestPermissions: () => ipcRenderer.invoke("audio-request-permissions") as Promise<{ granted: boolean; error?: string }>,
   audioCheckSystemSupport: () => ipcRenderer.invoke("audio-check-system-support") as Promise<{ supported: boolean }>,
+  audioGetInputDevice: () => ipcRenderer.invoke("audio-get-input-device"),
+  audioSetInputDevice: (device: { deviceId: string; label: string } | null) => ipcRenderer.invoke("audio-set-input-device", device),
+  onAudioInputDeviceChanged: (callback: (device: any) => void) => {
+    const subscription = (_: any, device: any) => callback(device)
+    ipcRenderer.on("audio-input-device-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-input-device-changed", subscription)
+    }
+  },
 
   // Audio Stream event listeners
   onAudioQuestionDetected: (callback: (question: any) => void) => {
@@ -285,6 +378,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener("audio-question-detected", subscription)
     }
   },
+  onAudioQuestionUpdated: (callback: (question: any) => void) => {
+    const subscription = (_: any, question: any) => callback(question)
+    ipcRenderer.on("audio-question-updated", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-question-updated", subscription)
+    }
+  },
   onAudioBatchProcessed: (callback: (questions: any[]) => void) => {
     const subscription = (_: any, questions: any[]) => callback(questions)
     ipcRenderer.on("audio-batch-processed", subscription)
@@ -306,6 +406,53 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener("audio-stream-error", subscription)
     }
   },
+  onAudioSpeakersChanged: (callback: (speakers: Array<{ index: number; label: string; isCustom: boolean }>) => void) => {
+    const subscription = (_: any, speakers: Array<{ index: number; label: string; isCustom: boolean }>) => callback(speakers)
+    ipcRenderer.on("audio-speakers-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-speakers-changed", subscription)
+    }
+  },
+  onAudioConnectionDegraded: (callback: (event: any) => void) => {
+    const subscription = (_: any, event: any) => callback(event)
+    ipcRenderer.on("audio-connection-degraded", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-connection-degraded", subscription)
+    }
+  },
+  onAudioConnectionRestored: (callback: (event: any) => void) => {
+    const subscription = (_: any, event: any) => callback(event)
+    ipcRenderer.on("audio-connection-restored", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-connection-restored", subscription)
+    }
+  },
+  onAudioRecordingChanged: (callback: (state: any) => void) => {
+    const subscription = (_: any, state: any) => callback(state)
+    ipcRenderer.on("audio-recording-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-recording-changed", subscription)
+    }
+  },
+  onAudioLevels: (callback: (levels: any) => void) => {
+    const subscription = (_: any, levels: any) => callback(levels)
+    ipcRenderer.on("audio-levels", subscription)
+    return () => {
+      ipcRenderer.removeListener("audio-levels", subscription)
+    }
+  },
+
+  // Session transcript methods
+  transcriptListSessions: () => ipcRenderer.invoke("transcript-list-sessions"),
+  transcriptLoadSession: (sessionId: string) => ipcRenderer.invoke("transcript-load-session", sessionId),
+  transcriptDeleteSession: (sessionId: string) => ipcRenderer.invoke("transcript-delete-session", sessionId),
+  transcriptExportSession: (format: 'srt' | 'vtt' | 'markdown' | 'json', sessionId?: string) => ipcRenderer.invoke("transcript-export-session", format, sessionId),
+
+  // Session recording methods
+  recordingList: () => ipcRenderer.invoke("recording-list"),
+  recordingDelete: (recordingId: string) => ipcRenderer.invoke("recording-delete", recordingId),
+  recordingGetClip: (recordingId: string, source: 'user' | 'opponent', offsetMs: number, durationMs: number) =>
+    ipcRenderer.invoke("recording-get-clip", recordingId, source, offsetMs, durationMs),
 
   // Auth methods
   authSignIn: (email: string, password: string) => ipcRenderer.invoke("auth-sign-in", email, password),
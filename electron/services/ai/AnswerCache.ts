@@ -0,0 +1,170 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { normalizeJapaneseText } from '../qna/GeminiEmbeddings'
+import type { AnswerCacheConfig } from '../../config/AnswerCacheConfig'
+import type { AnswerModelInfo } from '../../../src/types/audio-stream'
+
+// What an answer depends on; any difference is a different cache entry
+export interface AnswerCacheKeyParts {
+  question: string
+  modeKey: string
+  collectionId?: string
+  language: string
+  context: string // Retrieved RAG context the answer was grounded on ('' without a collection)
+}
+
+export interface CachedAnswer {
+  key: string
+  question: string
+  modeKey: string
+  collectionId: string | null
+  answer: string
+  modeResponse?: any
+  answeredBy?: AnswerModelInfo
+  createdAt: number
+}
+
+/**
+ * AnswerCache - Answers to questions asked before, persisted across sessions
+ *
+ * Entries live in <userData>/answer-cache.json, keyed by a hash of the normalized question,
+ * mode, collection, language and retrieved context. Expired entries are dropped when read
+ * and on load; beyond maxEntries the oldest go first.
+ */
+export class AnswerCache {
+  private entries: Map<string, CachedAnswer> | null = null
+  private readonly filePath: string | null
+
+  constructor(private readonly config: AnswerCacheConfig, filePath?: string) {
+    this.filePath = filePath || AnswerCache.defaultPath()
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled
+  }
+
+  public shouldRefresh(): boolean {
+    return this.config.refresh
+  }
+
+  public get(parts: AnswerCacheKeyParts, now: number = Date.now()): CachedAnswer | null {
+    if (!this.config.enabled) return null
+
+    const entries = this.load()
+    const key = AnswerCache.key(parts)
+    const entry = entries.get(key)
+    if (!entry) return null
+
+    if (now - entry.createdAt > this.config.ttlMs) {
+      entries.delete(key)
+      this.save()
+      return null
+    }
+    return entry
+  }
+
+  public set(
+    parts: AnswerCacheKeyParts,
+    value: { answer: string; modeResponse?: any; answeredBy?: AnswerModelInfo },
+    now: number = Date.now()
+  ): void {
+    if (!this.config.enabled || !value.answer.trim()) return
+
+    const entries = this.load()
+    const key = AnswerCache.key(parts)
+    // Re-inserting keeps the map in age order for eviction
+    entries.delete(key)
+    entries.set(key, {
+      key,
+      question: parts.question,
+      modeKey: parts.modeKey,
+      collectionId: parts.collectionId || null,
+      ...value,
+      createdAt: now
+    })
+
+    while (entries.size > this.config.maxEntries) {
+      entries.delete(entries.keys().next().value)
+    }
+    this.save()
+  }
+
+  /**
+   * Drop every cached answer (or only those of one collection); returns how many were removed
+   */
+  public purge(collectionId?: string): number {
+    const entries = this.load()
+    let removed = 0
+    for (const [key, entry] of entries) {
+      if (collectionId === undefined || entry.collectionId === collectionId) {
+        entries.delete(key)
+        removed++
+      }
+    }
+    this.save()
+    console.log(`[AnswerCache] Purged ${removed} cached answers${collectionId ? ` of collection ${collectionId}` : ''}`)
+    return removed
+  }
+
+  public getStats(now: number = Date.now()): { entries: number; oldestAt: number | null; enabled: boolean } {
+    const live = Array.from(this.load().values()).filter((entry) => now - entry.createdAt <= this.config.ttlMs)
+    return {
+      entries: live.length,
+      oldestAt: live.length > 0 ? Math.min(...live.map((entry) => entry.createdAt)) : null,
+      enabled: this.config.enabled
+    }
+  }
+
+  /**
+   * Stable key for the parts; the question is normalized so stock questions match across
+   * full-width/half-width, spacing, case and trailing punctuation differences
+   */
+  public static key(parts: AnswerCacheKeyParts): string {
+    const question = normalizeJapaneseText(parts.question).toLowerCase().replace(/[\s?？。.!！]+$/, '')
+    const contextHash = createHash('sha256').update(parts.context).digest('hex')
+    return createHash('sha256')
+      .update(JSON.stringify([question, parts.modeKey, parts.collectionId || '', parts.language, contextHash]))
+      .digest('hex')
+  }
+
+  private static defaultPath(): string | null {
+    try {
+      const { app } = require('electron')
+      return path.join(app.getPath('userData'), 'answer-cache.json')
+    } catch {
+      // Outside Electron (tests, scripts) the cache stays in memory
+      return null
+    }
+  }
+
+  private load(): Map<string, CachedAnswer> {
+    if (this.entries) return this.entries
+
+    this.entries = new Map()
+    if (!this.filePath || !fs.existsSync(this.filePath)) return this.entries
+
+    try {
+      const stored: CachedAnswer[] = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+      const now = Date.now()
+      stored
+        .filter((entry) => entry?.key && now - entry.createdAt <= this.config.ttlMs)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .forEach((entry) => this.entries!.set(entry.key, entry))
+    } catch (error) {
+      console.error('[AnswerCache] ❌ Error reading cache, starting empty:', error)
+    }
+    return this.entries
+  }
+
+  private save(): void {
+    if (!this.filePath || !this.entries) return
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.writeFileSync(this.filePath, JSON.stringify(Array.from(this.entries.values())))
+    } catch (error) {
+      console.error('[AnswerCache] ❌ Error writing cache:', error)
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import type { LLMMediaPart, LLMProvider, LLMRequestOptions } from './LLMProvider'
+import { llmError } from './LLMHttp'
+
+export interface FallbackSettings {
+  attemptTimeoutMs: number   // Per attempt except the last; for streams, the time allowed until the first token
+  failureThreshold: number   // Consecutive failures that open a provider's circuit
+  cooldownMs: number         // How long an open circuit skips the provider before probing it again
+}
+
+interface CircuitState {
+  consecutiveFailures: number
+  openUntil: number
+}
+
+/**
+ * Ordered chain of providers (e.g. gemini-2.0-flash → a lighter Gemini model → a local model)
+ * A request goes to the first provider whose circuit is closed and moves down the chain on
+ * rate limits (429), server errors (5xx), timeouts, network failures and unsupported media.
+ * Other client errors and caller aborts are thrown straight away.
+ * A provider that failed `failureThreshold` times in a row is skipped for `cooldownMs`; when
+ * every circuit is open the chain is tried in order anyway rather than failing without a request.
+ * Streams fall back only until the first token; a failure after that is thrown to the caller.
+ * The last candidate runs without the attempt timeout, bounded only by its own request timeout,
+ * since cutting it off would leave nothing to answer.
+ * The provider that answered is reported through `options.onServedBy`.
+ */
+export class FallbackLLMProvider implements LLMProvider {
+  public readonly name = 'fallback'
+  public readonly model: string
+  private readonly circuits = new Map<LLMProvider, CircuitState>()
+
+  constructor(private readonly providers: LLMProvider[], private readonly settings: FallbackSettings) {
+    if (providers.length === 0) {
+      throw new Error('Fallback chain needs at least one provider')
+    }
+    this.model = providers.map((provider) => `${provider.name}/${provider.model}`).join(' → ')
+    for (const provider of providers) {
+      this.circuits.set(provider, { consecutiveFailures: 0, openUntil: 0 })
+    }
+  }
+
+  public generateText(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    return this.run(options, (provider, attemptOptions) => provider.generateText(prompt, attemptOptions))
+  }
+
+  public generateFromImages(prompt: string, images: LLMMediaPart[], options: LLMRequestOptions = {}): Promise<string> {
+    return this.run(options, (provider, attemptOptions) => provider.generateFromImages(prompt, images, attemptOptions))
+  }
+
+  public generateFromAudio(prompt: string, audio: LLMMediaPart, options: LLMRequestOptions = {}): Promise<string> {
+    return this.run(options, (provider, attemptOptions) => provider.generateFromAudio(prompt, audio, attemptOptions))
+  }
+
+  public async *streamText(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const candidates = this.candidates()
+    let lastError: any = null
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i]
+      const attempt = this.startAttempt(options.signal, i === candidates.length - 1)
+      let receivedToken = false
+
+      try {
+        for await (const token of provider.streamText(prompt, { signal: attempt.signal })) {
+          if (!receivedToken) {
+            receivedToken = true
+            attempt.clearTimeout()
+            this.reportServedBy(options, provider, i)
+          }
+          yield token
+        }
+        if (!receivedToken) this.reportServedBy(options, provider, i)
+        this.recordSuccess(provider)
+        return
+      } catch (rawError) {
+        const error = attempt.classify(rawError)
+        if (error.code !== 'ABORTED') this.recordFailure(provider)
+        if (receivedToken || !this.shouldFallBack(error)) throw error
+
+        lastError = error
+        this.logFallback(provider, error, candidates[i + 1])
+      } finally {
+        attempt.dispose()
+      }
+    }
+
+    throw lastError
+  }
+
+  private async run(
+    options: LLMRequestOptions,
+    call: (provider: LLMProvider, attemptOptions: LLMRequestOptions) => Promise<string>
+  ): Promise<string> {
+    const candidates = this.candidates()
+    let lastError: any = null
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i]
+      const attempt = this.startAttempt(options.signal, i === candidates.length - 1)
+
+      try {
+        const text = await call(provider, { signal: attempt.signal })
+        this.recordSuccess(provider)
+        this.reportServedBy(options, provider, i)
+        return text
+      } catch (rawError) {
+        const error = attempt.classify(rawError)
+        if (error.code !== 'ABORTED') this.recordFailure(provider)
+        if (!this.shouldFallBack(error)) throw error
+
+        lastError = error
+        this.logFallback(provider, error, candidates[i + 1])
+      } finally {
+        attempt.dispose()
+      }
+    }
+
+    throw lastError
+  }
+
+  // Providers with a closed (or cooled-down) circuit, in chain order; the whole chain when all are open
+  private candidates(): LLMProvider[] {
+    const now = Date.now()
+    const available = this.providers.filter((provider) => this.circuits.get(provider)!.openUntil <= now)
+    return available.length > 0 ? available : this.providers
+  }
+
+  /**
+   * Signal for one attempt: aborts on the caller's signal or after attemptTimeoutMs,
+   * and tells the two apart when the provider rejects
+   */
+  private startAttempt(callerSignal: AbortSignal | undefined, isLast: boolean) {
+    const controller = new AbortController()
+    let timedOut = false
+
+    const onCallerAbort = () => controller.abort()
+    if (callerSignal?.aborted) controller.abort()
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true })
+
+    let timer: NodeJS.Timeout | null = !isLast && this.settings.attemptTimeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, this.settings.attemptTimeoutMs)
+      : null
+
+    const clearTimer = () => {
+      if (timer) clearTimeout(timer)
+      timer = null
+    }
+
+    return {
+      signal: controller.signal,
+      clearTimeout: clearTimer,
+      classify: (error: any): any => {
+        if (callerSignal?.aborted) return llmError('LLM request aborted', { code: 'ABORTED' })
+        if (timedOut) return llmError(`No response within ${this.settings.attemptTimeoutMs}ms`, { code: 'TIMEOUT' })
+        return error
+      },
+      dispose: () => {
+        clearTimer()
+        callerSignal?.removeEventListener('abort', onCallerAbort)
+      }
+    }
+  }
+
+  private shouldFallBack(error: any): boolean {
+    if (error?.code === 'ABORTED') return false
+    if (error?.code === 'TIMEOUT' || error?.code === 'UNSUPPORTED') return true
+
+    const status = error?.status
+    if (typeof status === 'number') {
+      return status === 408 || status === 429 || status >= 500
+    }
+    // No status: the request never got an answer (connection refused, DNS, reset)
+    return true
+  }
+
+  private recordSuccess(provider: LLMProvider) {
+    const circuit = this.circuits.get(provider)!
+    circuit.consecutiveFailures = 0
+    circuit.openUntil = 0
+  }
+
+  private recordFailure(provider: LLMProvider) {
+    const circuit = this.circuits.get(provider)!
+    circuit.consecutiveFailures++
+    if (circuit.consecutiveFailures >= this.settings.failureThreshold) {
+      circuit.openUntil = Date.now() + this.settings.cooldownMs
+      console.warn(`[FallbackLLMProvider] Circuit open for ${provider.name}/${provider.model} for ${this.settings.cooldownMs}ms after ${circuit.consecutiveFailures} failures`)
+    }
+  }
+
+  private reportServedBy(options: LLMRequestOptions, provider: LLMProvider, index: number) {
+    options.onServedBy?.({
+      provider: provider.name,
+      model: provider.model,
+      attempts: index + 1,
+      fallback: provider !== this.providers[0]
+    })
+  }
+
+  private logFallback(provider: LLMProvider, error: any, next: LLMProvider | undefined) {
+    const reason = error?.status ? `status ${error.status}` : error?.code || error?.message
+    console.warn(`[FallbackLLMProvider] ${provider.name}/${provider.model} failed (${reason})${next ? `, trying ${next.name}/${next.model}` : ', no more fallbacks'}`)
+  }
+}
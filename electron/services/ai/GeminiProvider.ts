@@ -0,0 +1,86 @@
+import { GoogleGenerativeAI, GoogleGenerativeAIAbortError, GenerativeModel, Part, SingleRequestOptions } from '@google/generative-ai'
+import type { LLMMediaPart, LLMProvider, LLMProviderOptions, LLMRequestOptions } from './LLMProvider'
+import { llmError } from './LLMHttp'
+
+/**
+ * Google Gemini through @google/generative-ai
+ * Handles text, images and audio natively (inline base64 parts).
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini'
+  public readonly model: string
+  private readonly generativeModel: GenerativeModel
+  private readonly requestTimeoutMs?: number
+
+  constructor(options: LLMProviderOptions) {
+    if (!options.apiKey) {
+      throw new Error('Gemini API key is required (set GEMINI_API_KEY)')
+    }
+
+    this.model = options.model || 'gemini-2.0-flash'
+    this.requestTimeoutMs = options.requestTimeoutMs
+    this.generativeModel = new GoogleGenerativeAI(options.apiKey).getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        topK: options.topK ?? 40,
+        topP: options.topP ?? 0.95,
+        maxOutputTokens: options.maxOutputTokens ?? 1200, // Balanced length for detailed but concise responses
+      }
+    })
+  }
+
+  public async generateText(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    return this.generate([prompt], options)
+  }
+
+  public async *streamText(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    try {
+      const result = await this.generativeModel.generateContentStream(prompt, this.requestOptions(options))
+      for await (const chunk of result.stream) {
+        const text = chunk.text()
+        if (text) yield text
+      }
+    } catch (error) {
+      throw this.toProviderError(error, options)
+    }
+  }
+
+  public async generateFromImages(prompt: string, images: LLMMediaPart[], options: LLMRequestOptions = {}): Promise<string> {
+    return this.generate([prompt, ...images.map(toInlinePart)], options)
+  }
+
+  public async generateFromAudio(prompt: string, audio: LLMMediaPart, options: LLMRequestOptions = {}): Promise<string> {
+    return this.generate([prompt, toInlinePart(audio)], options)
+  }
+
+  private async generate(parts: Array<string | Part>, options: LLMRequestOptions): Promise<string> {
+    try {
+      const result = await this.generativeModel.generateContent(parts, this.requestOptions(options))
+      return result.response.text()
+    } catch (error) {
+      throw this.toProviderError(error, options)
+    }
+  }
+
+  private requestOptions(options: LLMRequestOptions): SingleRequestOptions {
+    return {
+      ...(options.signal ? { signal: options.signal } : {}),
+      ...(this.requestTimeoutMs ? { timeout: this.requestTimeoutMs } : {})
+    }
+  }
+
+  // The SDK reports timeouts and cancellation alike; HTTP errors already carry `status`
+  private toProviderError(error: any, options: LLMRequestOptions): Error {
+    if (error instanceof GoogleGenerativeAIAbortError) {
+      return options.signal?.aborted
+        ? llmError('Gemini request aborted', { code: 'ABORTED' })
+        : llmError('Gemini request timed out', { code: 'TIMEOUT' })
+    }
+    return error
+  }
+}
+
+function toInlinePart(media: LLMMediaPart): Part {
+  return { inlineData: { data: media.data, mimeType: media.mimeType } }
+}
@@ -1,9 +1,15 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai"
 import fs from "fs"
 import { QnAService, SearchResult } from "../qna/QnAService"
 import { DocumentService, DocumentSearchResult } from "../qna/DocumentService"
 import { ModeManager } from "./ModeManager"
 import { ModeResponse, CompatibleResponse } from "../../../src/types/modes"
+import type { AnswerModelInfo, AnswerQuestionOptions, AnswerVariant, QuestionThreadTurn } from "../../../src/types/audio-stream"
+import { ConversationLanguage, ResolvedLanguage, loadConversationLanguage, resolveLanguage } from "../../config/LanguageConfig"
+import { LLMProviderConfig, loadLLMConfig } from "../../config/LLMConfig"
+import { LLMMediaPart, LLMProvider, LLMTask, LLM_TASKS, createLLMProvider } from "./LLMProvider"
+import { FallbackLLMProvider } from "./FallbackLLMProvider"
+import { AnswerCache, AnswerCacheKeyParts, CachedAnswer } from "./AnswerCache"
+import { loadAnswerCacheConfig } from "../../config/AnswerCacheConfig"
 
 export interface RAGContext {
   hasContext: boolean
@@ -14,11 +20,14 @@ export interface RAGContext {
   type: 'qna' | 'document' | 'mixed'
 }
 
+// Longest steering instruction passed on to the model
+const MAX_INSTRUCTION_LENGTH = 300
+
 export class LLMHelper {
-  private model: GenerativeModel
+  // chat: text answers and streaming, vision: screenshots/images, audio: recorded clips
+  private providers: Record<LLMTask, LLMProvider>
   private qnaService: QnAService | null = null
   private documentService: DocumentService | null = null
-  private readonly modelName: string
   private readonly systemPrompt = `あなたはユーザーの代わりに話す存在です。生成する回答はユーザーがそのまま読み上げることを想定しています。
 
 ペルソナ:
@@ -38,28 +47,91 @@ export class LLMHelper {
 • 箇条書きは「・」を使用
 • ユーザーが自然に話せる日本語のみ`
 
+  private readonly englishSystemPrompt = `You speak on the user's behalf. The user will read your answer aloud as-is.
+
+Persona:
+• You are not an AI, artificial intelligence, assistant or bot
+• When you say "I", speak as the user
+• Only produce what the user could naturally say in the conversation
+
+Never:
+• Refer to yourself as an AI, model or assistant
+• Open with filler such as "Sure," "Great question," or "Here is my answer"
+• Mention sources ("according to the documents", "based on the information provided")
+• Use markdown (**bold**, *italics*, ## headings)
+
+Format:
+• Lead with the core point
+• Include a concrete example
+• Use "・" for bullet points
+• Natural spoken English only`
+
+  private conversationLanguage: ConversationLanguage = loadConversationLanguage()
+  private answerCache: AnswerCache = new AnswerCache(loadAnswerCacheConfig())
+
+  /**
+   * apiKey/modelName configure Gemini; LLM_* settings (see LLMConfig) can route any task
+   * to an OpenAI-compatible server or a local Ollama instead
+   */
   constructor(apiKey: string, modelName: string = "gemini-2.0-flash") {
-    const genAI = new GoogleGenerativeAI(apiKey)
-    this.modelName = modelName
-    this.model = genAI.getGenerativeModel({
-      model: modelName,
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1200, // Balanced length for detailed but concise responses
+    const config = loadLLMConfig({ geminiApiKey: apiKey, geminiModel: modelName })
+    this.providers = {
+      chat: this.createTaskProvider(config.chat),
+      vision: this.createTaskProvider(config.vision),
+      audio: this.createTaskProvider(config.audio)
+    }
+    console.log('[LLMHelper] Initialized with providers:', this.describeProviders());
+  }
+
+  /**
+   * Primary provider of a task, wrapped in a fallback chain when one is configured
+   * Chain entries that cannot be created (e.g. no OPENAI_COMPATIBLE_BASE_URL) are left out.
+   */
+  private createTaskProvider(config: LLMProviderConfig): LLMProvider {
+    const primary = createLLMProvider(config.provider, config.options)
+    if (!config.fallback) return primary
+
+    const fallbacks: LLMProvider[] = []
+    for (const entry of config.fallback.chain) {
+      try {
+        fallbacks.push(createLLMProvider(entry.provider, entry.options))
+      } catch (error) {
+        console.warn(`[LLMHelper] Skipping fallback ${entry.provider}:`, (error as Error).message);
       }
-    })
-    console.log(`[LLMHelper] Initialized with model: ${modelName}`);
+    }
+    return fallbacks.length > 0 ? new FallbackLLMProvider([primary, ...fallbacks], config.fallback) : primary
+  }
+
+  // Metadata for an answer from `provider`; fallback chains replace it through onServedBy
+  private answerModelInfo(provider: LLMProvider): AnswerModelInfo {
+    return { provider: provider.name, model: provider.model, attempts: 1, fallback: false }
+  }
+
+  /**
+   * Swap the backend of one task at runtime (e.g. a fully local setup for a sensitive session)
+   */
+  public setProvider(task: LLMTask, provider: LLMProvider) {
+    this.providers[task] = provider
+    console.log(`[LLMHelper] ${task} now served by ${provider.name}/${provider.model}`);
+  }
+
+  public getProvider(task: LLMTask): LLMProvider {
+    return this.providers[task]
+  }
+
+  private describeProviders(): Record<LLMTask, string> {
+    const described = {} as Record<LLMTask, string>
+    for (const task of LLM_TASKS) {
+      described[task] = `${this.providers[task].name}/${this.providers[task].model}`
+    }
+    return described
   }
 
-  private async fileToGenerativePart(imagePath: string) {
+  private async fileToGenerativePart(imagePath: string): Promise<LLMMediaPart> {
     const imageData = await fs.promises.readFile(imagePath)
     return {
-      inlineData: {
-        data: imageData.toString("base64"),
-        mimeType: "image/png"
-      }
+      data: imageData.toString("base64"),
+      mimeType: "image/png"
     }
   }
 
@@ -86,9 +158,7 @@ export class LLMHelper {
 
 重要：JSONオブジェクトのみを返し、マークダウン形式やコードブロックは使用しないでください。すべての内容は日本語で、面接で直接使える形式にしてください。`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const text = this.cleanJsonResponse(await this.providers.vision.generateFromImages(prompt, imageParts))
       return JSON.parse(text)
     } catch (error) {
       console.error("Error extracting problem from images:", error)
@@ -115,12 +185,11 @@ ${JSON.stringify(problemInfo, null, 2)}
 
 重要：JSONオブジェクトのみを返し、マークダウン形式やコードブロックは使用しないでください。すべての内容は日本語で、面接で直接使える簡潔で明確な形式にしてください。`
 
-    console.log("[LLMHelper] Calling Gemini LLM for solution...");
+    console.log(`[LLMHelper] Calling ${this.providers.chat.name} for solution...`);
     try {
-      const result = await this.model.generateContent(prompt)
-      console.log("[LLMHelper] Gemini LLM returned result.");
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const raw = await this.providers.chat.generateText(prompt)
+      console.log("[LLMHelper] LLM returned result.");
+      const text = this.cleanJsonResponse(raw)
       const parsed = JSON.parse(text)
       console.log("[LLMHelper] Parsed LLM response:", parsed)
       return parsed
@@ -153,9 +222,7 @@ ${JSON.stringify(problemInfo, null, 2)}
 
 重要：JSONオブジェクトのみを返し、マークダウン形式やコードブロックは使用しないでください。すべての内容は日本語で、面接で直接使える簡潔で明確な形式にしてください。`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const text = this.cleanJsonResponse(await this.providers.vision.generateFromImages(prompt, imageParts))
       const parsed = JSON.parse(text)
       console.log("[LLMHelper] Parsed debug LLM response:", parsed)
       return parsed
@@ -168,28 +235,22 @@ ${JSON.stringify(problemInfo, null, 2)}
   public async analyzeAudioFile(audioPath: string, collectionId?: string) {
     try {
       const audioData = await fs.promises.readFile(audioPath);
-      const audioPart = {
-        inlineData: {
-          data: audioData.toString("base64"),
-          mimeType: "audio/mp3"
-        }
+      const audioPart: LLMMediaPart = {
+        data: audioData.toString("base64"),
+        mimeType: "audio/mp3"
       };
 
       // First, extract the text content from audio
       const transcriptionPrompt = `この音声ファイルの内容を正確に文字起こししてください。技術的な質問や面接に関連する内容があれば、それを明確に抽出してください。`;
 
-      const transcriptionResult = await this.model.generateContent([transcriptionPrompt, audioPart]);
-      const transcriptionResponse = await transcriptionResult.response;
-      const transcribedText = transcriptionResponse.text();
+      const transcribedText = await this.providers.audio.generateFromAudio(transcriptionPrompt, audioPart);
 
       // If we have a collection ID, use RAG to enhance the response
       if (collectionId && this.qnaService) {
         const ragContext = await this.searchRAGContext(transcribedText, collectionId);
         const enhancedPrompt = this.formatRAGPrompt(transcribedText, ragContext);
 
-        const result = await this.model.generateContent(enhancedPrompt);
-        const response = await result.response;
-        let text = response.text();
+        let text = await this.providers.chat.generateText(enhancedPrompt);
         text = this.cleanResponseText(text);
         return { text, timestamp: Date.now(), ragContext };
       } else {
@@ -200,9 +261,7 @@ ${JSON.stringify(problemInfo, null, 2)}
 
 上記の音声内容を分析し、面接で使える形で日本語で回答してください。音声の内容を簡潔に説明し、必要に応じて関連する技術的な補足や面接での回答例を提供してください。`;
 
-        const result = await this.model.generateContent(prompt);
-        const response = await result.response;
-        let text = response.text();
+        let text = await this.providers.chat.generateText(prompt);
         text = this.cleanResponseText(text);
         return { text, timestamp: Date.now() };
       }
@@ -222,19 +281,12 @@ ${JSON.stringify(problemInfo, null, 2)}
         mimeType: mimeType
       });
 
-      const audioPart = {
-        inlineData: {
-          data,
-          mimeType
-        }
-      };
+      const audioPart: LLMMediaPart = { data, mimeType };
 
       // First, extract the text content from audio
       const transcriptionPrompt = `この音声ファイルの内容を正確に文字起こししてください。技術的な質問や面接に関連する内容があれば、それを明確に抽出してください。`;
 
-      const transcriptionResult = await this.model.generateContent([transcriptionPrompt, audioPart]);
-      const transcriptionResponse = await transcriptionResult.response;
-      const transcribedText = transcriptionResponse.text();
+      const transcribedText = await this.providers.audio.generateFromAudio(transcriptionPrompt, audioPart);
 
       console.log('[LLMHelper] Transcription result:', {
         transcribedTextLength: transcribedText.length,
@@ -254,9 +306,7 @@ ${JSON.stringify(problemInfo, null, 2)}
 
         const enhancedPrompt = this.formatRAGPrompt(transcribedText, ragContext);
 
-        const result = await this.model.generateContent(enhancedPrompt);
-        const response = await result.response;
-        let text = response.text();
+        let text = await this.providers.chat.generateText(enhancedPrompt);
         text = this.cleanResponseText(text);
 
         console.log('[LLMHelper] RAG-enhanced response generated, length:', text.length);
@@ -275,9 +325,7 @@ ${JSON.stringify(problemInfo, null, 2)}
 
 上記の音声内容を分析し、面接で使える形で日本語で回答してください。音声の内容を簡潔に説明し、必要に応じて関連する技術的な補足や面接での回答例を提供してください。`;
 
-        const result = await this.model.generateContent(prompt);
-        const response = await result.response;
-        let text = response.text();
+        let text = await this.providers.chat.generateText(prompt);
         text = this.cleanResponseText(text);
         return { text, timestamp: Date.now() };
       }
@@ -290,19 +338,15 @@ ${JSON.stringify(problemInfo, null, 2)}
   public async analyzeImageFile(imagePath: string) {
     try {
       const imageData = await fs.promises.readFile(imagePath);
-      const imagePart = {
-        inlineData: {
-          data: imageData.toString("base64"),
-          mimeType: "image/png"
-        }
+      const imagePart: LLMMediaPart = {
+        data: imageData.toString("base64"),
+        mimeType: "image/png"
       };
       const prompt = `${this.systemPrompt}
 
 この画像の内容を分析し、面接で使える形で日本語で回答してください。画像に含まれる技術的な内容や質問があれば、それに対する適切な回答を提供してください。簡潔で実用的な内容にしてください。`;
 
-      const result = await this.model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      let text = response.text();
+      let text = await this.providers.vision.generateFromImages(prompt, [imagePart]);
       text = this.cleanResponseText(text);
       return { text, timestamp: Date.now() };
     } catch (error) {
@@ -311,17 +355,24 @@ ${JSON.stringify(problemInfo, null, 2)}
     }
   }
 
-  public async chatWithGemini(message: string): Promise<string> {
+  public async chatWithGemini(message: string, options: AnswerQuestionOptions = {}): Promise<string> {
     try {
-      const enhancedPrompt = `${this.systemPrompt}
-
+      const language = resolveLanguage(this.conversationLanguage, message);
+      const history = this.formatQuestionHistory(options.history, language);
+      const guidance = this.formatAnswerGuidance(options, language);
+      const enhancedPrompt = language === 'en'
+        ? `${this.englishSystemPrompt}
+${history}
+User's question: ${message}
+
+Answer the question above in English so it can be used directly in the interview. Keep it complete and practical, something the user can say naturally to the interviewer.${guidance}`
+        : `${this.systemPrompt}
+${history}
 ユーザーの質問: ${message}
 
-上記の質問に対して、面接で直接使える形で日本語で回答してください。回答は完結で実用的にし、面接官に対して自然に話せる内容にしてください。`;
+上記の質問に対して、面接で直接使える形で日本語で回答してください。回答は完結で実用的にし、面接官に対して自然に話せる内容にしてください。${guidance}`;
 
-      const result = await this.model.generateContent(enhancedPrompt);
-      const response = await result.response;
-      let text = response.text();
+      let text = await this.providers.chat.generateText(enhancedPrompt);
 
       // Clean up any unwanted phrases
       text = this.cleanResponseText(text);
@@ -333,6 +384,74 @@ ${JSON.stringify(problemInfo, null, 2)}
     }
   }
 
+  /**
+   * Answer language for question answering; 'auto' answers in the language of each question
+   */
+  public setConversationLanguage(language: ConversationLanguage) {
+    this.conversationLanguage = language
+  }
+
+  private getSystemPrompt(language: ResolvedLanguage): string {
+    return language === 'en' ? this.englishSystemPrompt : this.systemPrompt
+  }
+
+  /**
+   * Earlier Q&A of a question thread, so a follow-up is answered consistently with it
+   * Returns a blank line when there is no history, keeping prompt layout unchanged.
+   */
+  private formatQuestionHistory(history: QuestionThreadTurn[] | undefined, language: ResolvedLanguage): string {
+    if (!history || history.length === 0) return ''
+
+    const turns = history
+      .map(turn => language === 'en'
+        ? `Q: ${turn.question}\nA: ${turn.answer || '(not answered)'}`
+        : `Q: ${turn.question}\nA: ${turn.answer || '（未回答）'}`)
+      .join('\n\n')
+
+    return language === 'en'
+      ? `\nEarlier in this conversation (the question below follows up on this):\n${turns}\n`
+      : `\nこれまでのやり取り（以下の質問はこの続きです）:\n${turns}\n`
+  }
+
+  /**
+   * How a regenerated answer should differ from the previous one, plus the user's own steering
+   * Appended after the closing instruction so it takes precedence; empty for a plain answer.
+   */
+  private formatAnswerGuidance(options: AnswerQuestionOptions, language: ResolvedLanguage): string {
+    const variantGuidance: Record<AnswerVariant, { en: string; ja: string } | null> = {
+      default: null,
+      shorter: {
+        en: 'Make the answer much shorter: two or three sentences with only the core point.',
+        ja: '回答は核心だけに絞り、2〜3文に短くまとめてください。'
+      },
+      detailed: {
+        en: 'Answer in more depth: add background, concrete examples and the reasoning behind them.',
+        ja: '背景・具体例・その理由を加えて、より詳しく回答してください。'
+      },
+      'different-angle': {
+        en: 'Answer from a different angle than the previous answer, with a different example or episode.',
+        ja: '前回の回答とは異なる切り口で、別の具体例やエピソードを使って回答してください。'
+      }
+    }
+
+    const lines: string[] = []
+    const variant = options.variant ? variantGuidance[options.variant] : null
+    if (variant) lines.push(variant[language])
+
+    const instruction = options.instruction?.trim().slice(0, MAX_INSTRUCTION_LENGTH)
+    if (instruction) {
+      lines.push(language === 'en' ? `The user also asks: ${instruction}` : `ユーザーからの追加指示: ${instruction}`)
+    }
+    if (lines.length === 0) return ''
+
+    const previous = options.previousAnswer?.trim()
+    const previousBlock = previous
+      ? (language === 'en' ? `\n\nPrevious answer:\n${previous}` : `\n\n前回の回答:\n${previous}`)
+      : ''
+
+    return `${previousBlock}\n\n${lines.join('\n')}`
+  }
+
   public setQnAService(qnaService: QnAService) {
     this.qnaService = qnaService
   }
@@ -429,13 +548,24 @@ ${JSON.stringify(problemInfo, null, 2)}
     }
   }
 
-  private formatRAGPrompt(message: string, ragContext: RAGContext): string {
-    if (!ragContext.hasContext) {
-      return `${this.systemPrompt}
+  private formatRAGPrompt(message: string, ragContext: RAGContext, options: AnswerQuestionOptions = {}): string {
+    const language = resolveLanguage(this.conversationLanguage, message)
+    const systemPrompt = this.getSystemPrompt(language)
+    const historyInfo = this.formatQuestionHistory(options.history, language)
+    const guidance = this.formatAnswerGuidance(options, language)
 
+    if (!ragContext.hasContext) {
+      return language === 'en'
+        ? `${systemPrompt}
+${historyInfo}
+Question: ${message}
+
+Answer in the format above, in English.${guidance}`
+        : `${systemPrompt}
+${historyInfo}
 質問: ${message}
 
-上記の形式で回答してください。`
+上記の形式で回答してください。${guidance}`
     }
 
     let contextInfo = ''
@@ -459,37 +589,56 @@ ${JSON.stringify(problemInfo, null, 2)}
       contextInfo += docContext
     }
 
-    return `${this.systemPrompt}
+    if (language === 'en') {
+      return `${systemPrompt}
 
-関連情報:
+Related information:
 ${contextInfo}
+${historyInfo}
+Question: ${message}
 
+Use the information above and answer in the specified format, in English.${guidance}`
+    }
+
+    return `${systemPrompt}
+
+関連情報:
+${contextInfo}
+${historyInfo}
 質問: ${message}
 
-上記の情報を活用し、指定の形式で回答してください。`
+上記の情報を活用し、指定の形式で回答してください。${guidance}`
   }
 
   public async chatWithRAG(
     message: string,
-    collectionId?: string
-  ): Promise<{ response: string; ragContext: RAGContext }> {
+    collectionId?: string,
+    options: AnswerQuestionOptions = {}
+  ): Promise<{ response: string; ragContext: RAGContext; answeredBy: AnswerModelInfo; cachedAt?: number }> {
     try {
       // Search for relevant context if collection is specified
       const ragContext = await this.searchRAGContext(message, collectionId)
 
+      const cacheKey = this.answerCacheKey(message, 'default', collectionId, ragContext, options)
+      const cached = cacheKey && this.answerCache.get(cacheKey)
+      if (cached) {
+        return { response: cached.answer, ragContext, answeredBy: cached.answeredBy || this.answerModelInfo(this.providers.chat), cachedAt: cached.createdAt }
+      }
+
       // Format the prompt with RAG context if available
-      const enhancedPrompt = this.formatRAGPrompt(message, ragContext)
+      const enhancedPrompt = this.formatRAGPrompt(message, ragContext, options)
 
-      const result = await this.model.generateContent(enhancedPrompt)
-      const response = await result.response
-      let text = response.text()
+      let answeredBy = this.answerModelInfo(this.providers.chat)
+      let text = await this.providers.chat.generateText(enhancedPrompt, { onServedBy: (info) => { answeredBy = info } })
 
       // Clean up any unwanted phrases
       text = this.cleanResponseText(text)
+      if (cacheKey) this.answerCache.set(cacheKey, { answer: text, answeredBy })
 
       return {
         response: text,
-        ragContext
+        ragContext,
+        answeredBy
       }
     } catch (error) {
       console.error("[LLMHelper] Error in chatWithRAG:", error)
@@ -500,40 +649,89 @@ ${contextInfo}
   /**
    * Chat with RAG support using streaming for better UX
    * Calls onChunk callback for each token received
+   * `options.history` carries the earlier Q&A of the thread when answering a follow-up;
+   * `options.variant` / `options.instruction` rework `options.previousAnswer` on regeneration
+   * Aborting `signal` stops the model stream; the partial response comes back with `cancelled: true`
+   * and `firstChunkLatency: null` tells whether any token had arrived.
+   * `answeredBy` names the model that answered, which differs from the primary after a fallback.
+   * An answer cached for the same question and context is streamed as one chunk with `fromCache: true`;
+   * with ANSWER_CACHE_REFRESH it goes to `onCachedAnswer` instead while a fresh answer streams in.
    */
   public async chatWithRAGStreaming(
     message: string,
     collectionId: string | undefined,
-    onChunk: (chunk: string) => void
-  ): Promise<{ response: string; ragContext: RAGContext; performance?: { firstChunkLatency: number | null } }> {
+    onChunk: (chunk: string) => void,
+    options: AnswerQuestionOptions = {},
+    signal?: AbortSignal,
+    onCachedAnswer?: (cached: CachedAnswer) => void
+  ): Promise<{ response: string; ragContext: RAGContext; answeredBy: AnswerModelInfo; cancelled?: boolean; fromCache?: boolean; cachedAt?: number; performance?: { firstChunkLatency: number | null } }> {
+    let fullResponse = '';
+    let ragContext: RAGContext = { hasContext: false, results: [], type: 'qna' };
+    let apiCallTime: number | null = null;
+    let firstChunkTime: number | null = null;
+    let cached: CachedAnswer | null = null;
+    const provider = this.providers.chat;
+    let answeredBy = this.answerModelInfo(provider);
+
+    const cancelledResult = () => {
+      console.log(`[LLMHelper] Streaming cancelled ${firstChunkTime ? `after ${fullResponse.length} chars` : 'before the first chunk'}`);
+      return {
+        // Stopped before the fresh answer started: the cached one already shown stays
+        response: !firstChunkTime && cached ? cached.answer : this.cleanResponseText(fullResponse),
+        ragContext,
+        answeredBy,
+        cancelled: true,
+        performance: {
+          firstChunkLatency: firstChunkTime && apiCallTime ? firstChunkTime - apiCallTime : null
+        }
+      };
+    };
+
     try {
       const startTime = Date.now();
-      console.log(`[LLMHelper] Starting streaming response with model ${this.modelName}...`);
+      console.log(`[LLMHelper] Starting streaming response with ${provider.name}/${provider.model}...`);
 
       // Search for relevant context if collection is specified
-      const ragContext = await this.searchRAGContext(message, collectionId);
+      ragContext = await this.searchRAGContext(message, collectionId);
       const ragTime = Date.now();
       console.log(`[LLMHelper] RAG search completed in ${ragTime - startTime}ms`);
 
+      if (signal?.aborted) return cancelledResult();
+
+      const cacheKey = this.answerCacheKey(message, 'default', collectionId, ragContext, options);
+      cached = cacheKey && this.answerCache.get(cacheKey);
+      if (cached) {
+        console.log(`[LLMHelper] Cached answer from ${new Date(cached.createdAt).toISOString()}${this.answerCache.shouldRefresh() ? ', refreshing' : ''}`);
+        if (!this.answerCache.shouldRefresh() || !onCachedAnswer) {
+          onChunk(cached.answer);
+          return {
+            response: cached.answer,
+            ragContext,
+            answeredBy: cached.answeredBy || answeredBy,
+            fromCache: true,
+            cachedAt: cached.createdAt,
+            performance: { firstChunkLatency: 0 }
+          };
+        }
+        onCachedAnswer(cached);
+      }
+
       // Format the prompt with RAG context if available
-      const enhancedPrompt = this.formatRAGPrompt(message, ragContext);
+      const enhancedPrompt = this.formatRAGPrompt(message, ragContext, options);
 
       // Use streaming API
-      const result = await this.model.generateContentStream(enhancedPrompt);
-      const apiCallTime = Date.now();
+      apiCallTime = Date.now();
       console.log(`[LLMHelper] API call initiated in ${apiCallTime - ragTime}ms`);
 
-      let fullResponse = '';
       let chunkCount = 0;
-      let firstChunkTime: number | null = null;
 
       // Stream chunks as they arrive
-      for await (const chunk of result.stream) {
-        const chunkText = chunk.text();
+      for await (const chunkText of provider.streamText(enhancedPrompt, { signal, onServedBy: (info) => { answeredBy = info } })) {
+        if (signal?.aborted) return cancelledResult();
 
         if (!firstChunkTime) {
           firstChunkTime = Date.now();
-          const firstChunkLatency = firstChunkTime - apiCallTime;
+          const firstChunkLatency = firstChunkTime - apiCallTime!;
           console.log(`[LLMHelper] First chunk received in ${firstChunkLatency}ms`);
         }
 
@@ -555,15 +753,22 @@ ${contextInfo}
       console.log(`  - Total chunks: ${chunkCount}`);
       console.log(`  - Response length: ${cleanedResponse.length} chars`);
       console.log(`  - Chars per second: ${Math.round((cleanedResponse.length / totalTime) * 1000)}`);
+      console.log(`  - Answered by: ${answeredBy.provider}/${answeredBy.model}${answeredBy.fallback ? ` (fallback, attempt ${answeredBy.attempts})` : ''}`);
+
+      if (cacheKey) this.answerCache.set(cacheKey, { answer: cleanedResponse, answeredBy });
 
       return {
         response: cleanedResponse,
         ragContext,
+        answeredBy,
         performance: {
           firstChunkLatency: firstChunkTime ? firstChunkTime - apiCallTime : null
         }
       };
     } catch (error) {
+      // Providers reject with an ABORTED error once the signal fires
+      if (signal?.aborted) return cancelledResult();
+
       console.error('[LLMHelper] Error in chatWithRAGStreaming:', error);
 
       // Add streaming error code for fallback handling
@@ -575,6 +780,39 @@ ${contextInfo}
     }
   }
 
+  /**
+   * Cache entry of a plain answer, or null when it must not be cached: follow-ups depend on
+   * their thread, and variants and instructions ask for something other than the stored answer
+   */
+  private answerCacheKey(
+    message: string,
+    modeKey: string,
+    collectionId: string | undefined,
+    ragContext: RAGContext,
+    options: AnswerQuestionOptions = {}
+  ): AnswerCacheKeyParts | null {
+    if (!this.answerCache.isEnabled()) return null
+    if (options.history?.length || (options.variant && options.variant !== 'default') || options.instruction || options.previousAnswer) {
+      return null
+    }
+
+    return {
+      question: message,
+      modeKey,
+      collectionId,
+      language: resolveLanguage(this.conversationLanguage, message),
+      // Answers grounded on different Q&A items or document passages must not collide
+      context: JSON.stringify([
+        ragContext.results.map(result => [result.id, result.answer]),
+        ragContext.documentResult?.context || ''
+      ])
+    }
+  }
+
+  public getAnswerCache(): AnswerCache {
+    return this.answerCache
+  }
+
   private cleanResponseText(text: string): string {
     // === AI Self-Reference Removal (Critical for cheating use case) ===
     const aiPatterns = [
@@ -658,26 +896,85 @@ ${contextInfo}
       // Format the prompt with RAG context if available
       const enhancedPrompt = this.formatModePrompt(message, ragContext, systemPrompt)
 
-      const result = await this.model.generateContent(enhancedPrompt)
-      const response = await result.response
-      let text = response.text()
+      const cacheKey = this.answerCacheKey(message, modeKey, collectionId, ragContext)
+      const cached = cacheKey && this.answerCache.get(cacheKey)
+      if (cached) {
+        return {
+          ...this.modeManager.createCompatibleResponse(cached.answer, cached.modeResponse || null, ragContext),
+          answeredBy: cached.answeredBy,
+          cachedAt: cached.createdAt
+        }
+      }
+
+      let answeredBy = this.answerModelInfo(this.providers.chat)
+      let text = await this.providers.chat.generateText(enhancedPrompt, { onServedBy: (info) => { answeredBy = info } })
 
       // Try to parse as ModeResponse first
       const modeResponse = this.modeManager.parseResponse(text)
+      // Fallback to plain text processing
+      if (!modeResponse) text = this.cleanResponseText(text)
 
-      if (modeResponse) {
-        return this.modeManager.createCompatibleResponse(text, modeResponse, ragContext)
-      } else {
-        // Fallback to plain text processing
-        text = this.cleanResponseText(text)
-        return this.modeManager.createCompatibleResponse(text, null, ragContext)
-      }
+      const response = { ...this.modeManager.createCompatibleResponse(text, modeResponse, ragContext), answeredBy }
+      if (cacheKey) this.answerCache.set(cacheKey, { answer: response.text, modeResponse: modeResponse || undefined, answeredBy })
+      return response
     } catch (error) {
       console.error("[LLMHelper] Error in chatWithMode:", error)
       throw error
     }
   }
 
+  /**
+   * Questions an interviewer is likely to ask for the job description, most likely first
+   * The collection's own questions are passed along as topics the user has already prepared.
+   */
+  public async generateAnticipatedQuestions(
+    jobDescription: string,
+    collectionId?: string,
+    count: number = 10
+  ): Promise<string[]> {
+    const language = resolveLanguage(this.conversationLanguage, jobDescription)
+
+    let knownQuestions: string[] = []
+    if (collectionId && this.qnaService) {
+      try {
+        knownQuestions = (await this.qnaService.getCollectionItems(collectionId)).slice(0, 30).map(item => item.question)
+      } catch (error) {
+        console.warn('[LLMHelper] Could not load collection questions for preparation:', error)
+      }
+    }
+
+    const known = knownQuestions.length > 0
+      ? (language === 'en'
+        ? `\nQuestions the candidate has already prepared for (cover them where relevant):\n${knownQuestions.map(q => `- ${q}`).join('\n')}\n`
+        : `\n候補者が準備済みの質問（関係するものは含めてください）:\n${knownQuestions.map(q => `- ${q}`).join('\n')}\n`)
+      : ''
+
+    const prompt = language === 'en'
+      ? `You are preparing a candidate for a job interview. From the job description below, list the ${count} questions the interviewer is most likely to ask, most likely first.
+Return only a JSON array of question strings, without markdown or code blocks. Write each question as the interviewer would say it, in English.
+
+Job description:
+${jobDescription}
+${known}`
+      : `あなたは面接の準備を支援しています。以下の求人票から、面接官が聞く可能性の高い質問を${count}個、可能性の高い順に挙げてください。
+質問文の文字列だけを並べたJSON配列のみを返し、マークダウンやコードブロックは使用しないでください。各質問は面接官が実際に話す形の日本語にしてください。
+
+求人票:
+${jobDescription}
+${known}`
+
+    const text = this.cleanJsonResponse(await this.providers.chat.generateText(prompt))
+    const parsed = JSON.parse(text)
+    if (!Array.isArray(parsed)) {
+      throw new Error('Anticipated questions response is not a JSON array')
+    }
+
+    return parsed
+      .map((question: unknown) => (typeof question === 'string' ? question.trim() : ''))
+      .filter((question: string, index: number, all: string[]) => question && all.indexOf(question) === index)
+      .slice(0, count)
+  }
+
   private formatModePrompt(message: string, ragContext: RAGContext, systemPrompt: string): string {
     let contextInfo = ''
 
@@ -0,0 +1,124 @@
+// Shared plumbing for the providers that talk plain HTTP (OpenAI-compatible servers, Ollama)
+
+export interface LLMError extends Error {
+  status?: number
+  code?: string
+}
+
+export function llmError(message: string, fields: { status?: number; code?: string } = {}): LLMError {
+  const error: LLMError = new Error(message)
+  if (fields.status !== undefined) error.status = fields.status
+  if (fields.code) error.code = fields.code
+  return error
+}
+
+/**
+ * POST a JSON body, aborting on the caller's signal or after timeoutMs, whichever comes first
+ * The timeout covers waiting for the response headers, or for streams (`stream: true`) the first
+ * body chunk; a long answer that keeps streaming is only cut off by the caller's signal.
+ * Throws an LLMError with `status` for non-2xx responses and `code` 'TIMEOUT' / 'ABORTED' when cut off.
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  init: { headers?: Record<string, string>; timeoutMs: number; signal?: AbortSignal; label: string; stream?: boolean }
+): Promise<Response> {
+  const timeout = new AbortController()
+  const timer = setTimeout(() => timeout.abort(new DOMException(`${init.label} request timed out`, 'TimeoutError')), init.timeoutMs)
+  const signal = init.signal ? AbortSignal.any([init.signal, timeout.signal]) : timeout.signal
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch (error) {
+    clearTimeout(timer)
+    throw toAbortError(error, init.label, init.signal)
+  }
+
+  if (!response.ok) {
+    clearTimeout(timer)
+    const detail = (await response.text().catch(() => '')).slice(0, 200)
+    throw llmError(`${init.label} returned ${response.status}${detail ? `: ${detail}` : ''}`, { status: response.status })
+  }
+
+  if (!init.stream || !response.body) {
+    clearTimeout(timer)
+    return response
+  }
+  return new Response(clearOnFirstChunk(response.body, timer), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
+
+/**
+ * Pass a body through unchanged, clearing the request timer once the first chunk (or the end) arrives
+ */
+function clearOnFirstChunk(body: ReadableStream<Uint8Array>, timer: ReturnType<typeof setTimeout>): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        clearTimeout(timer)
+        if (done) controller.close()
+        else controller.enqueue(value)
+      } catch (error) {
+        clearTimeout(timer)
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      clearTimeout(timer)
+      return reader.cancel(reason)
+    }
+  })
+}
+
+/**
+ * Turn fetch/body-read failures caused by the signals into coded errors; other errors pass through
+ */
+export function toAbortError(error: any, label: string, callerSignal?: AbortSignal): Error {
+  if (callerSignal?.aborted) {
+    return llmError(`${label} request aborted`, { code: 'ABORTED' })
+  }
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+    return llmError(`${label} request timed out`, { code: 'TIMEOUT' })
+  }
+  return error
+}
+
+/**
+ * Lines of a streamed response body (SSE or NDJSON); a trailing line without newline is yielded too
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffered += decoder.decode(value, { stream: true })
+
+      let newline: number
+      while ((newline = buffered.indexOf('\n')) !== -1) {
+        const line = buffered.slice(0, newline).replace(/\r$/, '')
+        buffered = buffered.slice(newline + 1)
+        yield line
+      }
+    }
+    buffered += decoder.decode()
+    if (buffered.trim()) yield buffered
+  } finally {
+    // Consumers stop early on abort; let go of the connection instead of draining it
+    await reader.cancel().catch(() => {})
+  }
+}
@@ -0,0 +1,83 @@
+import { GeminiProvider } from './GeminiProvider'
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider'
+import { OllamaProvider } from './OllamaProvider'
+import type { AnswerModelInfo } from '../../../src/types/audio-stream'
+
+// What LLMHelper asks a model to do; each task can be served by a different provider
+export type LLMTask = 'chat' | 'vision' | 'audio'
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'vision', 'audio']
+
+// Inline image or audio, base64 encoded
+export interface LLMMediaPart {
+  data: string
+  mimeType: string
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal
+  /** Called by providers that pick among several models (FallbackLLMProvider) with the one that answered */
+  onServedBy?: (servedBy: AnswerModelInfo) => void
+}
+
+/**
+ * Options handed to a provider factory
+ * Well-known keys are typed, anything else is passed through from config untouched
+ */
+export interface LLMProviderOptions {
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+  temperature?: number
+  maxOutputTokens?: number
+  requestTimeoutMs?: number
+  [key: string]: any
+}
+
+/**
+ * Common contract for the text-generation backends behind LLMHelper
+ * Prompts are complete (system prompt included); providers only add their own message framing.
+ * Failures are thrown as Error with `status` (HTTP status, when there was a response) and
+ * `code` ('UNSUPPORTED' for media the backend cannot take, 'TIMEOUT', 'ABORTED') where known.
+ */
+export interface LLMProvider {
+  readonly name: string
+  readonly model: string
+  generateText(prompt: string, options?: LLMRequestOptions): Promise<string>
+  /** Yields text as it is generated; stops early when the signal aborts */
+  streamText(prompt: string, options?: LLMRequestOptions): AsyncIterable<string>
+  generateFromImages(prompt: string, images: LLMMediaPart[], options?: LLMRequestOptions): Promise<string>
+  generateFromAudio(prompt: string, audio: LLMMediaPart, options?: LLMRequestOptions): Promise<string>
+}
+
+export type LLMProviderFactory = (options: LLMProviderOptions) => LLMProvider
+
+const providerFactories = new Map<string, LLMProviderFactory>()
+
+/**
+ * Register a provider under a config name (e.g. 'gemini', 'ollama')
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providerFactories.set(name, factory)
+}
+
+/**
+ * Create a provider by config name
+ * Throws if the name is unknown or the factory rejects the options
+ */
+export function createLLMProvider(name: string, options: LLMProviderOptions): LLMProvider {
+  const factory = providerFactories.get(name)
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${name} (registered: ${getRegisteredLLMProviders().join(', ')})`)
+  }
+  return factory(options)
+}
+
+export function getRegisteredLLMProviders(): string[] {
+  return Array.from(providerFactories.keys())
+}
+
+// Built-in providers
+registerLLMProvider('gemini', (options) => new GeminiProvider(options))
+registerLLMProvider('openai-compatible', (options) => new OpenAICompatibleProvider(options))
+registerLLMProvider('ollama', (options) => new OllamaProvider(options))
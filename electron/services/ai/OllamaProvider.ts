@@ -0,0 +1,79 @@
+import type { LLMMediaPart, LLMProvider, LLMProviderOptions, LLMRequestOptions } from './LLMProvider'
+import { llmError, postJson, readLines, toAbortError } from './LLMHttp'
+
+/**
+ * A local Ollama server (`ollama serve`) through its native /api/chat endpoint
+ * Nothing leaves the machine. Images are passed to multimodal models (llava, llama3.2-vision, ...);
+ * Ollama has no audio input, so audio tasks need another provider.
+ */
+export class OllamaProvider implements LLMProvider {
+  public readonly name = 'ollama'
+  public readonly model: string
+  private readonly endpoint: string
+  private readonly temperature: number
+  private readonly maxOutputTokens: number
+  private readonly requestTimeoutMs: number
+
+  constructor(options: LLMProviderOptions) {
+    const baseUrl = (options.baseUrl || 'http://127.0.0.1:11434').replace(/\/+$/, '')
+    this.endpoint = `${baseUrl}/api/chat`
+    this.model = options.model || 'llama3.1'
+    this.temperature = options.temperature ?? 0.7
+    this.maxOutputTokens = options.maxOutputTokens ?? 1200
+    // Local models can take a while to load on first use
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 120000
+  }
+
+  public async generateText(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    return this.chat({ role: 'user', content: prompt }, options)
+  }
+
+  public async *streamText(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.post({ messages: [{ role: 'user', content: prompt }], stream: true }, options)
+    if (!response.body) return
+
+    try {
+      // Newline-delimited JSON: `{ message: { content }, done }` per chunk
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue
+        const chunk = JSON.parse(line)
+        if (chunk.error) throw llmError(`Ollama error: ${chunk.error}`)
+        if (chunk.message?.content) yield chunk.message.content
+        if (chunk.done) return
+      }
+    } catch (error) {
+      throw toAbortError(error, 'Ollama', options.signal)
+    }
+  }
+
+  public async generateFromImages(prompt: string, images: LLMMediaPart[], options: LLMRequestOptions = {}): Promise<string> {
+    return this.chat({ role: 'user', content: prompt, images: images.map((image) => image.data) }, options)
+  }
+
+  public async generateFromAudio(_prompt: string, _audio: LLMMediaPart, _options?: LLMRequestOptions): Promise<string> {
+    throw llmError('Ollama does not accept audio input; set LLM_AUDIO_PROVIDER to another provider', { code: 'UNSUPPORTED' })
+  }
+
+  private async chat(message: Record<string, any>, options: LLMRequestOptions): Promise<string> {
+    const response = await this.post({ messages: [message], stream: false }, options)
+    try {
+      const json: any = await response.json()
+      return json?.message?.content ?? ''
+    } catch (error) {
+      throw toAbortError(error, 'Ollama', options.signal)
+    }
+  }
+
+  private post(body: Record<string, any>, options: LLMRequestOptions): Promise<Response> {
+    return postJson(this.endpoint, {
+      model: this.model,
+      options: { temperature: this.temperature, num_predict: this.maxOutputTokens },
+      ...body
+    }, {
+      timeoutMs: this.requestTimeoutMs,
+      signal: options.signal,
+      label: 'Ollama',
+      stream: body.stream === true
+    })
+  }
+}
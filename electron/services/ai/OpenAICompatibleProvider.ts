@@ -0,0 +1,129 @@
+import type { LLMMediaPart, LLMProvider, LLMProviderOptions, LLMRequestOptions } from './LLMProvider'
+import { llmError, postJson, readLines, toAbortError } from './LLMHttp'
+
+// Audio formats the chat completions `input_audio` content part accepts
+const INPUT_AUDIO_FORMATS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3'
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, vLLM, llama.cpp `server`,
+ * LM Studio, LocalAI, ...
+ * baseUrl is the API root (e.g. http://127.0.0.1:8080/v1); requests go to `${baseUrl}/chat/completions`.
+ * Images are sent as data-URL `image_url` parts, audio as `input_audio` (wav/mp3 only);
+ * whether the model accepts them is up to the server.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name = 'openai-compatible'
+  public readonly model: string
+  private readonly endpoint: string
+  private readonly apiKey?: string
+  private readonly temperature: number
+  private readonly maxOutputTokens: number
+  private readonly requestTimeoutMs: number
+
+  constructor(options: LLMProviderOptions) {
+    if (!options.baseUrl) {
+      throw new Error('OpenAI-compatible base URL is required (set OPENAI_COMPATIBLE_BASE_URL)')
+    }
+
+    const baseUrl = options.baseUrl.replace(/\/+$/, '')
+    this.endpoint = baseUrl.endsWith('/chat/completions') ? baseUrl : `${baseUrl}/chat/completions`
+    this.model = options.model || 'default'
+    this.apiKey = options.apiKey
+    this.temperature = options.temperature ?? 0.7
+    this.maxOutputTokens = options.maxOutputTokens ?? 1200
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 60000
+  }
+
+  public async generateText(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    return this.complete(prompt, options)
+  }
+
+  public async *streamText(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.post({ messages: [{ role: 'user', content: prompt }], stream: true }, options)
+    if (!response.body) return
+
+    try {
+      // Some servers ignore `stream` and answer in one piece
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        const json: any = await response.json()
+        const content = json?.choices?.[0]?.message?.content
+        if (content) yield content
+        return
+      }
+
+      // Server-sent events: `data: {json}` per delta, `data: [DONE]` at the end
+      for await (const line of readLines(response.body)) {
+        if (!line.startsWith('data:')) continue
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') return
+
+        const event = parseJson(data)
+        // Errors after the headers went out arrive as an event instead of a status code
+        if (event?.error) {
+          throw llmError(`OpenAI-compatible server error: ${event.error.message || JSON.stringify(event.error)}`)
+        }
+        const delta = event?.choices?.[0]?.delta?.content
+        if (delta) yield delta
+      }
+    } catch (error) {
+      throw toAbortError(error, 'OpenAI-compatible server', options.signal)
+    }
+  }
+
+  public async generateFromImages(prompt: string, images: LLMMediaPart[], options: LLMRequestOptions = {}): Promise<string> {
+    return this.complete([
+      { type: 'text', text: prompt },
+      ...images.map((image) => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+    ], options)
+  }
+
+  public async generateFromAudio(prompt: string, audio: LLMMediaPart, options: LLMRequestOptions = {}): Promise<string> {
+    const format = INPUT_AUDIO_FORMATS[audio.mimeType]
+    if (!format) {
+      throw llmError(`OpenAI-compatible servers take wav or mp3 audio, got ${audio.mimeType}`, { code: 'UNSUPPORTED' })
+    }
+    return this.complete([
+      { type: 'text', text: prompt },
+      { type: 'input_audio', input_audio: { data: audio.data, format } }
+    ], options)
+  }
+
+  private async complete(content: string | any[], options: LLMRequestOptions): Promise<string> {
+    const response = await this.post({ messages: [{ role: 'user', content }], stream: false }, options)
+    try {
+      const json: any = await response.json()
+      return json?.choices?.[0]?.message?.content ?? ''
+    } catch (error) {
+      throw toAbortError(error, 'OpenAI-compatible server', options.signal)
+    }
+  }
+
+  private post(body: Record<string, any>, options: LLMRequestOptions): Promise<Response> {
+    return postJson(this.endpoint, {
+      model: this.model,
+      temperature: this.temperature,
+      max_tokens: this.maxOutputTokens,
+      ...body
+    }, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      timeoutMs: this.requestTimeoutMs,
+      signal: options.signal,
+      label: 'OpenAI-compatible server',
+      stream: body.stream === true
+    })
+  }
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
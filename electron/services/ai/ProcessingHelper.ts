@@ -21,7 +21,7 @@ export class ProcessingHelper {
     const modelOverride = process.env.GEMINI_MODEL || "gemini-2.0-flash"
 
     if (!apiKey) {
-      console.warn("GEMINI_API_KEY not found in environment variables - running in limited mode")
+      console.warn("GEMINI_API_KEY not found in environment variables - running in limited mode (only non-Gemini LLM_PROVIDER backends answer)")
       this.llmHelper = new LLMHelper('dummy-key', modelOverride) // Initialize with dummy key for limited functionality
     } else {
       this.llmHelper = new LLMHelper(apiKey, modelOverride)
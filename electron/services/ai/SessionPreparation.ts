@@ -0,0 +1,195 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { BigramSimilarityStrategy, QuestionSimilarityStrategy } from '../../audio/QuestionDeduplicator'
+import type {
+  DetectedQuestion,
+  PreparedAnswerMatch,
+  PreparedQuestion,
+  PreparedSession,
+  SessionPrepProgress
+} from '../../../src/types/audio-stream'
+import type { LLMHelper } from './LLMHelper'
+
+export interface SessionPrepRequest {
+  jobDescription: string
+  collectionId?: string
+  modeKey: string
+  questionCount: number
+}
+
+// What preparation needs from LLMHelper, so tests can script it
+export type SessionPrepAnswerer = Pick<LLMHelper, 'generateAnticipatedQuestions' | 'chatWithMode'>
+
+const questionText = (question: DetectedQuestion): string => question.refinedText?.trim() || question.text
+
+/**
+ * SessionPreparation - Questions anticipated before a session, answered ahead of time
+ *
+ * prepare() asks the chat model for the questions a job description is likely to bring up and
+ * drafts an answer to each with the selected mode and Q&A collection, one at a time so a long list
+ * does not run into rate limits. The prepared set is kept in <userData>/prepared-session.json
+ * until the next preparation or clear().
+ * During capture, match() finds the prepared question a live question asks, so its draft can be
+ * shown while the real answer is still streaming. Only questions from the other side are matched.
+ */
+export class SessionPreparation {
+  private session: PreparedSession | null = null
+  private preparing = false
+
+  constructor(
+    private readonly answerer: SessionPrepAnswerer,
+    private readonly strategy: QuestionSimilarityStrategy,
+    private readonly filePath: string | null = null,
+    private readonly fallback: QuestionSimilarityStrategy = new BigramSimilarityStrategy(0.5)
+  ) {
+    this.session = this.load()
+    this.warmUp()
+  }
+
+  public getSession(): PreparedSession | null {
+    return this.session
+  }
+
+  public isPreparing(): boolean {
+    return this.preparing
+  }
+
+  public async prepare(
+    request: SessionPrepRequest,
+    onProgress?: (progress: SessionPrepProgress) => void
+  ): Promise<PreparedSession> {
+    const jobDescription = request.jobDescription.trim()
+    if (!jobDescription) {
+      throw new Error('Job description is empty')
+    }
+    if (this.preparing) {
+      throw new Error('A session is already being prepared')
+    }
+
+    this.preparing = true
+    try {
+      onProgress?.({ stage: 'questions', completed: 0, total: request.questionCount })
+      const anticipated = await this.answerer.generateAnticipatedQuestions(
+        jobDescription,
+        request.collectionId,
+        request.questionCount
+      )
+      if (anticipated.length === 0) {
+        throw new Error('No questions could be anticipated from the job description')
+      }
+
+      const questions: PreparedQuestion[] = []
+      for (let i = 0; i < anticipated.length; i++) {
+        onProgress?.({ stage: 'answers', completed: i, total: anticipated.length })
+        try {
+          const response = await this.answerer.chatWithMode(anticipated[i], request.modeKey, request.collectionId)
+          questions.push({
+            id: uuidv4(),
+            question: anticipated[i],
+            answer: response.text,
+            answeredBy: response.answeredBy,
+            ...(response.cachedAt ? { cachedAt: response.cachedAt } : {})
+          })
+        } catch (error) {
+          // One draft failing should not cost the others
+          console.warn(`[SessionPreparation] Draft failed for "${anticipated[i].substring(0, 40)}":`, error)
+        }
+      }
+      onProgress?.({ stage: 'answers', completed: anticipated.length, total: anticipated.length })
+
+      if (questions.length === 0) {
+        throw new Error('No draft answers could be generated')
+      }
+
+      this.session = {
+        jobDescription,
+        collectionId: request.collectionId || null,
+        modeKey: request.modeKey,
+        preparedAt: Date.now(),
+        questions
+      }
+      this.strategy.clear?.()
+      this.save()
+      this.warmUp()
+
+      console.log(`[SessionPreparation] Prepared ${questions.length}/${anticipated.length} questions (mode ${request.modeKey})`)
+      return this.session
+    } finally {
+      this.preparing = false
+    }
+  }
+
+  public clear(): void {
+    this.session = null
+    this.strategy.clear?.()
+    this.save()
+  }
+
+  /**
+   * The prepared question `question` asks (closest match at or above the threshold), or null
+   */
+  public async match(question: DetectedQuestion): Promise<PreparedAnswerMatch | null> {
+    if (!this.session || question.source !== 'opponent') return null
+
+    const text = questionText(question)
+    const scored = await Promise.all(this.session.questions.map(async (prepared) => ({
+      prepared,
+      ...(await this.compare(text, prepared.question))
+    })))
+
+    let best: { prepared: PreparedQuestion; score: number; margin: number } | null = null
+    for (const { prepared, score, threshold } of scored) {
+      const margin = score - threshold
+      if (margin >= 0 && (!best || margin > best.margin)) {
+        best = { prepared, score, margin }
+      }
+    }
+
+    return best ? { questionId: question.id, prepared: best.prepared, similarity: best.score } : null
+  }
+
+  private async compare(a: string, b: string): Promise<{ score: number; threshold: number }> {
+    try {
+      return { score: await this.strategy.similarity(a, b), threshold: this.strategy.threshold }
+    } catch (error) {
+      console.warn(`[SessionPreparation] ${this.strategy.name} similarity failed, using ${this.fallback.name}:`, (error as Error).message)
+      return { score: await this.fallback.similarity(a, b), threshold: this.fallback.threshold }
+    }
+  }
+
+  // Embedding strategies cache per text: comparing each prepared question now leaves
+  // a single embedding call for every live question
+  private warmUp(): void {
+    for (const prepared of this.session?.questions || []) {
+      this.strategy.similarity(prepared.question, prepared.question).catch(() => undefined)
+    }
+  }
+
+  private load(): PreparedSession | null {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return null
+
+    try {
+      const session: PreparedSession = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+      return Array.isArray(session?.questions) ? session : null
+    } catch (error) {
+      console.error('[SessionPreparation] ❌ Error reading prepared session:', error)
+      return null
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return
+
+    try {
+      if (!this.session) {
+        if (fs.existsSync(this.filePath)) fs.unlinkSync(this.filePath)
+        return
+      }
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.writeFileSync(this.filePath, JSON.stringify(this.session, null, 2))
+    } catch (error) {
+      console.error('[SessionPreparation] ❌ Error writing prepared session:', error)
+    }
+  }
+}
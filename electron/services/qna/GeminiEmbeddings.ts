@@ -0,0 +1,46 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+
+// Gemini text embedding model used for Q&A items (768 dimensions)
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004'
+
+export function normalizeJapaneseText(text: string): string {
+  return text
+    // Normalize full-width to half-width numbers
+    .replace(/[０-９]/g, (match) => String.fromCharCode(match.charCodeAt(0) - 0xFEE0))
+    // Normalize full-width to half-width ASCII
+    .replace(/[Ａ-Ｚａ-ｚ]/g, (match) => String.fromCharCode(match.charCodeAt(0) - 0xFEE0))
+    // Clean up excessive whitespace
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Embed text the way Q&A items are embedded, so vectors from different callers are comparable
+ */
+export async function generateGeminiEmbedding(genAI: GoogleGenerativeAI, text: string): Promise<number[]> {
+  // Normalize Japanese text for better embedding quality
+  const normalizedText = normalizeJapaneseText(text)
+
+  const model = genAI.getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL })
+  const result = await model.embedContent(normalizedText.replace(/\n/g, ' '))
+
+  return result.embedding.values
+}
+
+/**
+ * Cosine similarity of two embeddings (0 when either is empty or the lengths differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
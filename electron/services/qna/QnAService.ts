@@ -1,5 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { generateGeminiEmbedding } from './GeminiEmbeddings'
 
 export interface QnACollection {
   id: string
@@ -49,32 +50,13 @@ export class QnAService {
     console.log('[QnAService] Initialized with Gemini embeddings (768 dimensions)')
   }
 
-  private normalizeJapaneseText(text: string): string {
-    return text
-      // Normalize full-width to half-width numbers
-      .replace(/[０-９]/g, (match) => String.fromCharCode(match.charCodeAt(0) - 0xFEE0))
-      // Normalize full-width to half-width ASCII
-      .replace(/[Ａ-Ｚａ-ｚ]/g, (match) => String.fromCharCode(match.charCodeAt(0) - 0xFEE0))
-      // Clean up excessive whitespace
-      .replace(/\s+/g, ' ')
-      .trim()
-  }
-
   private async generateEmbedding(text: string): Promise<number[]> {
     try {
       if (!this.geminiApiKey) {
         throw new Error('Gemini API key not configured in QnAService')
       }
 
-      // Normalize Japanese text for better embedding quality
-      const normalizedText = this.normalizeJapaneseText(text)
-
-      // Use Gemini's text embedding model (768 dimensions)
-      const model = this.genAI.getGenerativeModel({ model: 'text-embedding-004' })
-
-      const result = await model.embedContent(normalizedText.replace(/\n/g, ' '))
-
-      return result.embedding.values
+      return await generateGeminiEmbedding(this.genAI, text)
     } catch (error) {
       console.error('[QnAService] Error generating Gemini embedding:', error)
       throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`)
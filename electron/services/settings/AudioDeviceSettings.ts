@@ -0,0 +1,58 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import type { AudioInputDeviceSelection } from '../../../src/types/audio-stream'
+
+interface StoredAudioDevices {
+  microphone: AudioInputDeviceSelection | null
+}
+
+/**
+ * AudioDeviceSettings - Remembers which input device the user picked for the microphone side
+ *
+ * Stored in <userData>/audio-devices.json. The label is kept next to the device id because
+ * Chromium may hand out a different id for the same device after an OS update or reinstall.
+ */
+export class AudioDeviceSettings {
+  private readonly filePath: string
+  private settings: StoredAudioDevices
+
+  constructor(baseDir?: string) {
+    this.filePath = path.join(baseDir || app.getPath('userData'), 'audio-devices.json')
+    this.settings = this.load()
+  }
+
+  /**
+   * The chosen microphone, or null to follow the system default
+   */
+  public getMicrophone(): AudioInputDeviceSelection | null {
+    return this.settings.microphone
+  }
+
+  public setMicrophone(selection: AudioInputDeviceSelection | null): void {
+    this.settings = { ...this.settings, microphone: selection }
+    this.save()
+    console.log(`[AudioDeviceSettings] Microphone: ${selection ? selection.label || selection.deviceId : 'system default'}`)
+  }
+
+  private load(): StoredAudioDevices {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+        return { microphone: stored.microphone?.deviceId ? stored.microphone : null }
+      }
+    } catch (error) {
+      console.error('[AudioDeviceSettings] ❌ Failed to read audio device settings:', error)
+    }
+    return { microphone: null }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.writeFileSync(this.filePath, JSON.stringify(this.settings, null, 2))
+    } catch (error) {
+      console.error('[AudioDeviceSettings] ❌ Failed to save audio device settings:', error)
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import type {
+  DetectedQuestion,
+  TranscriptEntry,
+  TranscriptExportFormat,
+  TranscriptSession
+} from '../../../src/types/audio-stream'
+
+// Entries carry the time they were finalized, not their start, so cue starts are estimated
+// from text length (roughly Japanese speaking rate), clamped to a readable range.
+const CHARS_PER_SECOND = 8
+const MIN_CUE_MS = 1000
+const MAX_CUE_MS = 10000
+
+export const EXPORT_FILE_EXTENSIONS: Record<TranscriptExportFormat, string> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  markdown: 'md',
+  json: 'json'
+}
+
+interface Cue {
+  startMs: number
+  endMs: number
+  speaker: string
+  text: string
+}
+
+interface QuestionWithAnswers {
+  question: DetectedQuestion
+  answers: string[]
+}
+
+/**
+ * Render a session in the requested format
+ */
+export function exportTranscript(session: TranscriptSession, format: TranscriptExportFormat): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(session)
+    case 'vtt':
+      return toVtt(session)
+    case 'markdown':
+      return toMarkdown(session)
+    case 'json':
+      return toJson(session)
+    default:
+      throw new Error(`Unsupported export format: ${format}`)
+  }
+}
+
+export function toSrt(session: TranscriptSession): string {
+  return buildCues(session.entries)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+      `${cue.speaker}: ${cue.text}`
+    ].join('\n'))
+    .join('\n\n') + '\n'
+}
+
+export function toVtt(session: TranscriptSession): string {
+  const cues = buildCues(session.entries).map(cue => [
+    `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+    `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}`
+  ].join('\n'))
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n'
+}
+
+/**
+ * Readable minutes: overview, questions with their answers, then the full transcript
+ */
+export function toMarkdown(session: TranscriptSession): string {
+  const lines: string[] = []
+  const started = new Date(session.startedAt)
+
+  lines.push(`# セッション記録 ${formatDateTime(started)}`)
+  lines.push('')
+  lines.push(`- 開始: ${formatDateTime(started)}`)
+  if (session.endedAt) {
+    lines.push(`- 終了: ${formatDateTime(new Date(session.endedAt))}`)
+    lines.push(`- 所要時間: ${formatClock(session.endedAt - session.startedAt)}`)
+  }
+  lines.push(`- 発話数: ${session.entries.length}`)
+  lines.push(`- 検出された質問: ${session.questions.length}`)
+  lines.push('')
+
+  const questions = collectQuestionsWithAnswers(session)
+  if (questions.length > 0) {
+    lines.push('## 質問と回答')
+    lines.push('')
+    questions.forEach(({ question, answers }, index) => {
+      const offset = formatClock(Math.max(0, question.timestamp - session.startedAt))
+      lines.push(`### Q${index + 1}. ${questionText(question)}`)
+      lines.push('')
+      lines.push(`_[${offset}] ${question.source === 'user' ? 'あなた' : question.speakerLabel || '相手'}_`)
+      lines.push('')
+      if (answers.length > 0) {
+        answers.forEach(answer => {
+          lines.push(answer.split('\n').map(line => `> ${line}`).join('\n'))
+          lines.push('')
+        })
+      } else {
+        lines.push('_回答なし_')
+        lines.push('')
+      }
+    })
+  }
+
+  if (session.entries.length > 0) {
+    lines.push('## 文字起こし')
+    lines.push('')
+    session.entries.forEach(entry => {
+      lines.push(`**[${formatClock(entry.offsetMs)}] ${entry.speaker}:** ${entry.text}`)
+      lines.push('')
+    })
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Structured export; answers are folded into their questions
+ */
+export function toJson(session: TranscriptSession): string {
+  return JSON.stringify({
+    version: 1,
+    session: {
+      id: session.id,
+      startedAt: new Date(session.startedAt).toISOString(),
+      endedAt: session.endedAt ? new Date(session.endedAt).toISOString() : null,
+      pipelineMode: session.pipelineMode || null
+    },
+    utterances: session.entries.map(entry => ({
+      speaker: entry.speaker,
+      source: entry.source,
+      text: entry.text,
+      offsetMs: entry.offsetMs,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      ...(entry.confidence !== undefined ? { confidence: entry.confidence } : {})
+    })),
+    questions: collectQuestionsWithAnswers(session).map(({ question, answers }) => ({
+      id: question.id,
+      text: questionText(question),
+      originalText: question.text,
+      source: question.source,
+      ...(question.parentId ? { parentId: question.parentId } : {}),
+      ...(question.speakerLabel ? { speaker: question.speakerLabel } : {}),
+      confidence: question.confidence,
+      offsetMs: Math.max(0, question.timestamp - session.startedAt),
+      answers
+    }))
+  }, null, 2)
+}
+
+function buildCues(entries: TranscriptEntry[]): Cue[] {
+  return [...entries]
+    .sort((a, b) => a.offsetMs - b.offsetMs)
+    .map(entry => {
+      const durationMs = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, (entry.text.length / CHARS_PER_SECOND) * 1000))
+      const endMs = Math.max(entry.offsetMs, MIN_CUE_MS)
+      return {
+        startMs: Math.max(0, endMs - durationMs),
+        endMs,
+        speaker: entry.speaker,
+        text: entry.text
+      }
+    })
+}
+
+function collectQuestionsWithAnswers(session: TranscriptSession): QuestionWithAnswers[] {
+  const questions = [...session.questions].sort((a, b) => a.timestamp - b.timestamp)
+
+  return questions.map(question => ({
+    question,
+    answers: session.answers
+      .filter(answer => answer.questionId
+        ? answer.questionId === question.id
+        : answer.questionText === question.text.trim() || answer.questionText === question.refinedText?.trim())
+      .map(answer => answer.answer)
+  }))
+}
+
+function questionText(question: DetectedQuestion): string {
+  return question.refinedText?.trim() || question.text
+}
+
+function formatTimestamp(ms: number, fractionSeparator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const seconds = Math.floor((total % 60000) / 1000)
+  const millis = total % 1000
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(millis, 3)}`
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
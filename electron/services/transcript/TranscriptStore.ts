@@ -0,0 +1,282 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { app } from 'electron'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  DetectedQuestion,
+  TranscriptAnswer,
+  TranscriptEntry,
+  TranscriptSession,
+  TranscriptSessionSummary
+} from '../../../src/types/audio-stream'
+import { ConversationLanguage, ResolvedLanguage, resolveLanguage } from '../../config/LanguageConfig'
+
+const DEFAULT_SPEAKER_LABELS: Record<ResolvedLanguage, Record<'user' | 'opponent', string>> = {
+  ja: { user: 'あなた', opponent: '相手' },
+  en: { user: 'You', opponent: 'Other' }
+}
+
+/**
+ * TranscriptStore - Persists every final utterance of a capture session
+ *
+ * One JSON file per session under <userData>/transcripts/<sessionId>.json.
+ * Writes are debounced while a session is running and flushed on endSession().
+ */
+export class TranscriptStore {
+  private readonly transcriptsDir: string
+  private currentSession: TranscriptSession | null = null
+  private lastSessionId: string | null = null
+  private flushTimer: NodeJS.Timeout | null = null
+
+  private readonly FLUSH_DELAY_MS = 2000
+
+  constructor(baseDir?: string, private language: ConversationLanguage = 'ja') {
+    this.transcriptsDir = baseDir || path.join(app.getPath('userData'), 'transcripts')
+    console.log(`[TranscriptStore] Transcripts directory: ${this.transcriptsDir}`)
+  }
+
+  /**
+   * Language of the default speaker labels for entries recorded from now on
+   */
+  public setLanguage(language: ConversationLanguage): void {
+    this.language = language
+  }
+
+  /**
+   * Begin a new session; an unfinished previous session is closed first
+   */
+  public startSession(meta: { pipelineMode?: string } = {}): TranscriptSession {
+    if (this.currentSession) {
+      this.endSession()
+    }
+
+    this.currentSession = {
+      id: `${new Date().toISOString().replace(/[:.]/g, '-')}_${uuidv4().slice(0, 8)}`,
+      startedAt: Date.now(),
+      endedAt: null,
+      pipelineMode: meta.pipelineMode,
+      entries: [],
+      questions: [],
+      answers: []
+    }
+
+    console.log(`[TranscriptStore] Session started: ${this.currentSession.id}`)
+    this.writeSession(this.currentSession)
+    return this.currentSession
+  }
+
+  public endSession(): void {
+    if (!this.currentSession) return
+
+    this.currentSession.endedAt = Date.now()
+    this.clearFlushTimer()
+    this.writeSession(this.currentSession)
+
+    console.log(`[TranscriptStore] Session ended: ${this.currentSession.id} (${this.currentSession.entries.length} entries)`)
+    this.lastSessionId = this.currentSession.id
+    this.currentSession = null
+  }
+
+  public getCurrentSessionId(): string | null {
+    return this.currentSession?.id || null
+  }
+
+  /**
+   * Running session, or the one that ended most recently
+   */
+  public getLatestSessionId(): string | null {
+    return this.currentSession?.id || this.lastSessionId || this.listSessions()[0]?.id || null
+  }
+
+  /**
+   * Record a final utterance for the running session
+   */
+  public appendEntry(entry: {
+    text: string
+    source: 'user' | 'opponent'
+    timestamp?: number
+    confidence?: number
+    speaker?: string
+    speakerIndex?: number
+  }): TranscriptEntry | null {
+    if (!this.currentSession) return null
+
+    const text = entry.text.trim()
+    if (!text) return null
+
+    const timestamp = entry.timestamp || Date.now()
+    const transcriptEntry: TranscriptEntry = {
+      id: uuidv4(),
+      text,
+      source: entry.source,
+      speaker: entry.speaker || DEFAULT_SPEAKER_LABELS[resolveLanguage(this.language, text)][entry.source],
+      ...(entry.speakerIndex !== undefined ? { speakerIndex: entry.speakerIndex } : {}),
+      timestamp,
+      offsetMs: Math.max(0, timestamp - this.currentSession.startedAt),
+      ...(entry.confidence !== undefined ? { confidence: entry.confidence } : {})
+    }
+
+    this.currentSession.entries.push(transcriptEntry)
+    this.scheduleFlush()
+    return transcriptEntry
+  }
+
+  /**
+   * Apply a new label for a diarized speaker to what the current session already recorded
+   */
+  public renameSpeaker(speakerIndex: number, label: string): void {
+    if (!this.currentSession) return
+
+    this.currentSession.entries
+      .filter(entry => entry.source === 'opponent' && entry.speakerIndex === speakerIndex)
+      .forEach(entry => { entry.speaker = label })
+    this.currentSession.questions
+      .filter(question => question.speakerIndex === speakerIndex)
+      .forEach(question => { question.speakerLabel = label })
+    this.scheduleFlush()
+  }
+
+  /**
+   * Keep detected questions alongside the transcript they came from
+   */
+  public appendQuestion(question: DetectedQuestion): void {
+    if (!this.currentSession) return
+
+    this.currentSession.questions.push(question)
+    this.scheduleFlush()
+  }
+
+  /**
+   * Replace a recorded question with its latest state (e.g. after a repeat was merged into it)
+   */
+  public updateQuestion(question: DetectedQuestion): void {
+    if (!this.currentSession) return
+
+    const index = this.currentSession.questions.findIndex(q => q.id === question.id)
+    if (index === -1) return
+
+    this.currentSession.questions[index] = question
+    this.scheduleFlush()
+  }
+
+  /**
+   * Record an answer generated for a detected question
+   * Answers requested after capture stopped are attached to the session that just ended.
+   */
+  public appendAnswer(questionText: string, answer: string): TranscriptAnswer | null {
+    const session = this.currentSession || (this.lastSessionId ? this.loadSession(this.lastSessionId) : null)
+    if (!session || !answer.trim()) return null
+
+    const normalized = questionText.trim()
+    const question = session.questions.find(q => q.text.trim() === normalized || q.refinedText?.trim() === normalized)
+    const record: TranscriptAnswer = {
+      questionId: question?.id || null,
+      questionText: normalized,
+      answer,
+      timestamp: Date.now()
+    }
+
+    session.answers.push(record)
+    if (session === this.currentSession) {
+      this.scheduleFlush()
+    } else {
+      this.writeSession(session)
+    }
+    return record
+  }
+
+  public listSessions(): TranscriptSessionSummary[] {
+    if (!fs.existsSync(this.transcriptsDir)) return []
+
+    const summaries: TranscriptSessionSummary[] = []
+    for (const file of fs.readdirSync(this.transcriptsDir)) {
+      if (!file.endsWith('.json')) continue
+
+      const session = this.readSessionFile(path.join(this.transcriptsDir, file))
+      if (!session) continue
+
+      summaries.push({
+        id: session.id,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+        entryCount: session.entries.length,
+        questionCount: session.questions.length,
+        preview: session.entries.slice(0, 3).map(e => e.text).join(' ').substring(0, 120)
+      })
+    }
+
+    return summaries.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  public loadSession(sessionId: string): TranscriptSession | null {
+    if (this.currentSession?.id === sessionId) {
+      return this.currentSession
+    }
+
+    const filePath = this.getSessionPath(sessionId)
+    if (!filePath || !fs.existsSync(filePath)) return null
+    return this.readSessionFile(filePath)
+  }
+
+  public deleteSession(sessionId: string): boolean {
+    if (this.currentSession?.id === sessionId) {
+      throw new Error('Cannot delete the session that is currently recording')
+    }
+
+    const filePath = this.getSessionPath(sessionId)
+    if (!filePath || !fs.existsSync(filePath)) return false
+
+    fs.unlinkSync(filePath)
+    console.log(`[TranscriptStore] Session deleted: ${sessionId}`)
+    return true
+  }
+
+  /**
+   * Resolve a session file, rejecting ids that would escape the transcripts directory
+   */
+  private getSessionPath(sessionId: string): string | null {
+    if (!/^[\w-]+$/.test(sessionId)) return null
+    return path.join(this.transcriptsDir, `${sessionId}.json`)
+  }
+
+  private readSessionFile(filePath: string): TranscriptSession | null {
+    try {
+      const session = JSON.parse(fs.readFileSync(filePath, 'utf8')) as TranscriptSession
+      // Sessions recorded before answers were tracked
+      session.answers = session.answers || []
+      return session
+    } catch (error) {
+      console.error(`[TranscriptStore] ❌ Failed to read session file ${filePath}:`, error)
+      return null
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      if (this.currentSession) {
+        this.writeSession(this.currentSession)
+      }
+    }, this.FLUSH_DELAY_MS)
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+
+  private writeSession(session: TranscriptSession): void {
+    try {
+      if (!fs.existsSync(this.transcriptsDir)) {
+        fs.mkdirSync(this.transcriptsDir, { recursive: true })
+      }
+      fs.writeFileSync(this.getSessionPath(session.id)!, JSON.stringify(session, null, 2))
+    } catch (error) {
+      console.error('[TranscriptStore] ❌ Error writing session:', error)
+    }
+  }
+}
@@ -19,6 +19,7 @@ import { DetectedQuestion, AudioStreamState } from "../types/audio-stream";
 import { useVerticalResize } from "../hooks/useVerticalResize";
 import { ProfileDropdown } from "../components/Queue/ProfileDropdown";
 import { InlinePermissionPanel } from "../components/ui/inline-permission-panel";
+import { SessionPrepPanel } from "../components/SessionPrepPanel";
 // Removed AudioSettings import - dual audio capture is automatic
 
 interface ResponseMode {
@@ -77,6 +78,7 @@ const Queue: React.FC<QueueProps> = ({ setView, onSignOut }) => {
 
   // Permission panel state (inline, not dialog)
   const [isPermissionPanelOpen, setIsPermissionPanelOpen] = useState(false);
+  const [isSessionPrepOpen, setIsSessionPrepOpen] = useState(false);
 
   // Ref to access QueueCommands methods
   const queueCommandsRef = useRef<QueueCommandsRef>(null);
@@ -388,6 +390,12 @@ const Queue: React.FC<QueueProps> = ({ setView, onSignOut }) => {
     setDetectedQuestions((prev) => [...prev, question]);
   };
 
+  const handleQuestionUpdated = (question: DetectedQuestion) => {
+    setDetectedQuestions((prev) =>
+      prev.map((existing) => (existing.id === question.id ? question : existing))
+    );
+  };
+
   const handleAudioStreamStateChange = (state: AudioStreamState) => {
     console.log("[Queue] Audio stream state changed:", state);
     setAudioStreamState(state);
@@ -599,6 +607,7 @@ const Queue: React.FC<QueueProps> = ({ setView, onSignOut }) => {
                 onResponseModeChange={handleResponseModeChange}
                 isAuthenticated={true} // User is always authenticated when Queue is rendered
                 onQuestionDetected={handleQuestionDetected}
+                onQuestionUpdated={handleQuestionUpdated}
                 onAudioStreamStateChange={handleAudioStreamStateChange}
               />
             </div>
@@ -610,6 +619,7 @@ const Queue: React.FC<QueueProps> = ({ setView, onSignOut }) => {
               onLogout={handleLogout}
               onSettings={handleSettings}
               onPermissionRequest={handlePermissionRequest}
+              onPrepareSession={() => setIsSessionPrepOpen(!isSessionPrepOpen)}
               dropdownWidth="w-36"
             />
           </div>
@@ -691,6 +701,15 @@ const Queue: React.FC<QueueProps> = ({ setView, onSignOut }) => {
             onClose={() => setIsPermissionPanelOpen(false)}
           />
 
+          {/* Session preparation - drafts for anticipated questions, with the current mode and collection */}
+          <SessionPrepPanel
+            isOpen={isSessionPrepOpen}
+            onClose={() => setIsSessionPrepOpen(false)}
+            modeKey={currentMode}
+            collectionId={responseMode.type === "qna" ? responseMode.collectionId : undefined}
+            collectionName={responseMode.type === "qna" ? responseMode.collectionName : undefined}
+          />
+
           {/* Question Panel with Unified Chat/Answer - Show when listening OR has questions OR chat is open */}
           {(audioStreamState?.isListening || detectedQuestions.length > 0 || isChatOpen) && (
             <div
@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, RefreshCw } from "lucide-react";
+import { AnswerVariant } from "../../types/audio-stream";
+
+// One generated answer for a question; a question collects several as the user regenerates
+export interface AnswerTake {
+  text: string;
+  variant: AnswerVariant;
+  instruction?: string;
+}
+
+const VARIANT_OPTIONS: Array<{ variant: AnswerVariant; label: string; title: string }> = [
+  { variant: "shorter", label: "短く", title: "要点だけの短い回答を生成" },
+  { variant: "detailed", label: "詳しく", title: "具体例を加えた詳しい回答を生成" },
+  { variant: "different-angle", label: "別の視点", title: "別の切り口の回答を生成" },
+];
+
+const VARIANT_LABELS: Record<AnswerVariant, string> = {
+  default: "標準",
+  shorter: "短く",
+  detailed: "詳しく",
+  "different-angle": "別の視点",
+};
+
+interface AnswerVariantBarProps {
+  takes: AnswerTake[];
+  selectedIndex: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+  onRegenerate: (variant: AnswerVariant, instruction?: string) => void;
+}
+
+/**
+ * Flip between the answers generated for a question and ask for another take,
+ * optionally steered by a short instruction
+ */
+export const AnswerVariantBar: React.FC<AnswerVariantBarProps> = ({
+  takes,
+  selectedIndex,
+  disabled = false,
+  onSelect,
+  onRegenerate,
+}) => {
+  const [instruction, setInstruction] = useState("");
+  const current = takes[selectedIndex];
+
+  const handleSteer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text) return;
+    onRegenerate("default", text);
+    setInstruction("");
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5 px-2 mb-2 flex-shrink-0">
+      <div className="flex items-center gap-1.5">
+        {takes.length > 1 && (
+          <div className="flex items-center gap-0.5 text-[10px] text-white/60">
+            <button
+              onClick={() => onSelect(selectedIndex - 1)}
+              className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 transition-colors"
+              type="button"
+              disabled={disabled || selectedIndex === 0}
+              title="前の回答"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span title={current?.instruction}>
+              {selectedIndex + 1}/{takes.length}
+              {current && ` ${current.instruction ? "指示あり" : VARIANT_LABELS[current.variant]}`}
+            </span>
+            <button
+              onClick={() => onSelect(selectedIndex + 1)}
+              className="p-0.5 rounded hover:bg-white/10 disabled:opacity-30 transition-colors"
+              type="button"
+              disabled={disabled || selectedIndex === takes.length - 1}
+              title="次の回答"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {VARIANT_OPTIONS.map((option) => (
+            <button
+              key={option.variant}
+              onClick={() => onRegenerate(option.variant)}
+              className="text-[10px] px-1.5 py-0.5 rounded bg-black/20 text-white/60 hover:bg-black/30 hover:text-white/90 disabled:opacity-40 transition-colors"
+              type="button"
+              disabled={disabled}
+              title={option.title}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <form className="flex items-center gap-1" onSubmit={handleSteer}>
+        <input
+          className="flex-1 morphism-input px-2 py-1 text-white placeholder-white/40 text-[10px] focus:outline-none"
+          placeholder="指示を添えて再生成（例: AWSの経験に触れて）"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          maxLength={300}
+          disabled={disabled}
+        />
+        <button
+          type="submit"
+          className="p-1 text-white/60 hover:text-white disabled:opacity-40 transition-colors"
+          disabled={disabled || !instruction.trim()}
+          title="指示を反映して再生成"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from "react";
+import { Mic, Monitor, AlertTriangle } from "lucide-react";
+import { AudioChannelLevel, AudioLevels } from "../../types/audio-stream";
+
+interface AudioChannelLevelsProps {
+  levels: AudioLevels | null;
+  className?: string;
+}
+
+const SILENCE_WARNINGS: Record<"user" | "opponent", string> = {
+  user: "マイクの音声が検出されません。マイクがミュートになっていませんか？",
+  opponent: "システム音声が検出されません。会議がミュートになっていませんか？",
+};
+
+const ChannelMeter: React.FC<{ icon: React.ReactNode; label: string; level: AudioChannelLevel }> = ({
+  icon,
+  label,
+  level,
+}) => {
+  const clipping = level.clippedSamples > 0;
+  // RMS of speech sits far below full scale; stretch it so normal speech fills most of the bar
+  const width = Math.min(100, Math.sqrt(level.rms) * 200);
+
+  return (
+    <div
+      className={`flex items-center gap-1 ${clipping ? "text-red-400" : level.silenceWarning ? "text-amber-300" : "text-[#D8F9B8]"}`}
+      title={`${label}: RMS ${level.rms.toFixed(3)} / ピーク ${level.peak.toFixed(3)}${clipping ? " / クリッピング" : ""}`}
+    >
+      {icon}
+      <div className="w-12 h-1.5 rounded-full bg-white/10 overflow-hidden">
+        <div className="h-full bg-current transition-all duration-150" style={{ width: `${width}%` }} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Input levels of the microphone and system audio as measured in the main process
+ */
+export const AudioChannelLevels: React.FC<AudioChannelLevelsProps> = ({ levels, className = "" }) => {
+  if (!levels) return null;
+
+  const warnings = (["opponent", "user"] as const).filter((source) => levels[source].silenceWarning);
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`}>
+      <div className="flex items-center gap-3">
+        <ChannelMeter icon={<Mic className="w-3 h-3" />} label="マイク" level={levels.user} />
+        <ChannelMeter icon={<Monitor className="w-3 h-3" />} label="システム音声" level={levels.opponent} />
+      </div>
+      {warnings.map((source) => (
+        <div key={source} className="flex items-center gap-1 text-[10px] text-amber-300">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          <span>{SILENCE_WARNINGS[source]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,15 @@
 import React, { useState, useEffect, useRef, useMemo } from "react";
-import { MessageSquare } from "lucide-react";
-import { DetectedQuestion, AudioStreamState } from "../../types/audio-stream";
+import { MessageSquare, Download, Play, Square, Circle } from "lucide-react";
+import { DetectedQuestion, AudioStreamState, TranscriptExportFormat, QuestionThreadTurn, SpeakerInfo, ConnectionDegradedEvent, AudioRecordingState, AudioLevels, AnswerQuestionOptions, AnswerVariant, PreparedAnswerMatch } from "../../types/audio-stream";
+import { AudioChannelLevels } from "./AudioChannelLevels";
+import { AnswerTake, AnswerVariantBar } from "./AnswerVariantBar";
+
+const EXPORT_OPTIONS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: "markdown", label: "議事録 (Markdown)" },
+  { format: "srt", label: "字幕 (SRT)" },
+  { format: "vtt", label: "字幕 (WebVTT)" },
+  { format: "json", label: "データ (JSON)" },
+];
 
 interface QuestionSidePanelProps {
   questions: DetectedQuestion[];
@@ -29,25 +38,127 @@ interface QuestionSidePanelProps {
 interface QuestionItemProps {
   question: DetectedQuestion;
   isSelected: boolean;
+  isFollowUp?: boolean;
+  speakerLabel?: string;
+  onRenameSpeaker?: (index: number, name: string) => void;
+  isPlaying?: boolean;
+  onPlayAudio?: (question: DetectedQuestion) => void;
+  preparedMatch?: PreparedAnswerMatch;
   onClick: () => void;
 }
 
+// Answer shown while the fresh one is generated: a cached answer or a draft prepared before the session
+interface AnswerPreview {
+  text: string;
+  label: string;
+  title: string;
+}
+
+// A root question followed by its follow-ups in the order they were asked
+interface QuestionThread {
+  root: DetectedQuestion;
+  followUps: DetectedQuestion[];
+  lastActivity: number;
+}
+
+const getDisplayText = (question: DetectedQuestion): string => {
+  const refined = question.refinedText;
+  return refined && refined.trim().length > 0 ? refined : question.text;
+};
+
 const QuestionItem: React.FC<QuestionItemProps> = ({
   question,
   isSelected,
+  isFollowUp = false,
+  speakerLabel,
+  onRenameSpeaker,
+  isPlaying = false,
+  onPlayAudio,
+  preparedMatch,
   onClick,
 }) => {
-  const refined = (question as any).refinedText as string | undefined;
-  const displayText =
-    refined && refined.trim().length > 0 ? refined : question.text;
+  const displayText = getDisplayText(question);
+  const hasAudio = !!question.recordingId && question.audioOffsetMs !== undefined;
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [speakerName, setSpeakerName] = useState("");
+  const hasSpeaker = question.speakerIndex !== undefined && !!speakerLabel;
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    if (question.speakerIndex !== undefined && speakerName.trim() !== speakerLabel) {
+      onRenameSpeaker?.(question.speakerIndex, speakerName);
+    }
+  };
 
   return (
     <div
-      className={`p-3 cursor-pointer transition-all rounded-lg ${isSelected ? "bg-white/10" : "bg-transparent hover:bg-white/5"
+      className={`cursor-pointer transition-all rounded-lg ${isFollowUp ? "ml-3 py-2 px-3 border-l border-[#D8F9B8]/30 rounded-l-none" : "p-3"
+        } ${isSelected ? "bg-white/10" : "bg-transparent hover:bg-white/5"
         }`}
       onClick={onClick}
     >
-      <p className="text-xs text-white/90 leading-relaxed">{displayText}</p>
+      {hasSpeaker && (
+        <div className="mb-1" onClick={(e) => e.stopPropagation()}>
+          {isRenaming ? (
+            <input
+              autoFocus
+              className="morphism-input px-2 py-0.5 text-[10px] text-white w-28 focus:outline-none"
+              value={speakerName}
+              placeholder={speakerLabel}
+              onChange={(e) => setSpeakerName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setIsRenaming(false);
+              }}
+            />
+          ) : (
+            <button
+              type="button"
+              className="text-[10px] px-1.5 py-0.5 rounded bg-[#D8F9B8]/10 text-[#D8F9B8]/80 hover:bg-[#D8F9B8]/20 transition-colors"
+              title="話者名を変更"
+              onClick={() => {
+                setSpeakerName(speakerLabel || "");
+                setIsRenaming(true);
+              }}
+            >
+              {speakerLabel}
+            </button>
+          )}
+        </div>
+      )}
+      <p className={`text-xs leading-relaxed ${isFollowUp ? "text-white/75" : "text-white/90"}`}>
+        {displayText}
+        {(question.repeatCount ?? 1) > 1 && (
+          <span
+            className="ml-1.5 text-[10px] px-1 py-0.5 rounded bg-white/10 text-white/60 align-middle"
+            title={["繰り返し質問されました", ...(question.alternateTexts ?? [])].join("\n")}
+          >
+            ×{question.repeatCount}
+          </span>
+        )}
+        {preparedMatch && (
+          <span
+            className="ml-1.5 text-[10px] px-1 py-0.5 rounded bg-[#D8F9B8]/10 text-[#D8F9B8]/80 align-middle"
+            title={`準備した質問: ${preparedMatch.prepared.question}`}
+          >
+            準備済み
+          </span>
+        )}
+        {hasAudio && onPlayAudio && (
+          <button
+            type="button"
+            className="ml-1.5 inline-flex items-center justify-center w-4 h-4 rounded-full bg-white/10 hover:bg-white/20 align-middle transition-colors"
+            title={isPlaying ? "再生を停止" : "録音を再生"}
+            onClick={(e) => {
+              e.stopPropagation();
+              onPlayAudio(question);
+            }}
+          >
+            {isPlaying ? <Square className="w-2 h-2 text-white/70" /> : <Play className="w-2 h-2 text-white/70" />}
+          </button>
+        )}
+      </p>
     </div>
   );
 };
@@ -72,8 +183,131 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
   );
   const [generatingAnswer, setGeneratingAnswer] = useState(false);
   const [currentAnswer, setCurrentAnswer] = useState<string | null>(null);
-  const [answers, setAnswers] = useState<Map<string, string>>(new Map());
+  // Cached answer (ANSWER_CACHE_REFRESH) or prepared draft shown while a fresh answer streams in
+  const [answerPreview, setAnswerPreview] = useState<AnswerPreview | null>(null);
+  // Drafts prepared before the session that live questions matched, keyed by question id
+  const [preparedMatches, setPreparedMatches] = useState<Map<string, PreparedAnswerMatch>>(new Map());
+  // Every answer generated per question and the one being shown; regenerations add takes
+  const [answers, setAnswers] = useState<Map<string, AnswerTake[]>>(new Map());
+  const [selectedTakes, setSelectedTakes] = useState<Map<string, number>>(new Map());
+  // Request id of the answer being streamed, so it can be cancelled
+  const activeAnswerRef = useRef<string | null>(null);
   const [showAnswerPanel, setShowAnswerPanel] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [speakers, setSpeakers] = useState<SpeakerInfo[]>([]);
+
+  // Diarized speaker labels; renames apply to questions already in the list
+  useEffect(() => {
+    window.electronAPI.dualAudioGetSpeakers()
+      .then((result) => setSpeakers(result.speakers))
+      .catch((error) => console.error("[QuestionSidePanel] Failed to load speakers:", error));
+
+    return window.electronAPI.onAudioSpeakersChanged(setSpeakers);
+  }, []);
+
+  // Transcription sockets that dropped and are reconnecting, keyed by source
+  const [degradedConnections, setDegradedConnections] = useState<Record<string, ConnectionDegradedEvent>>({});
+
+  useEffect(() => {
+    const unsubscribeDegraded = window.electronAPI.onAudioConnectionDegraded((event) => {
+      setDegradedConnections((prev) => ({ ...prev, [event.source]: event }));
+    });
+    const unsubscribeRestored = window.electronAPI.onAudioConnectionRestored((event) => {
+      setDegradedConnections((prev) => {
+        const next = { ...prev };
+        delete next[event.source];
+        return next;
+      });
+    });
+
+    return () => {
+      unsubscribeDegraded();
+      unsubscribeRestored();
+    };
+  }, []);
+
+  // Levels of both channels, pushed by the main process while capturing
+  const [audioLevels, setAudioLevels] = useState<AudioLevels | null>(null);
+
+  useEffect(() => window.electronAPI.onAudioLevels(setAudioLevels), []);
+
+  useEffect(() => {
+    if (!audioStreamState?.isListening) {
+      setDegradedConnections({});
+      setAudioLevels(null);
+    }
+  }, [audioStreamState?.isListening]);
+
+  // Local recording needs consent for every session; the main process resets it when capture stops
+  const [recordingState, setRecordingState] = useState<AudioRecordingState>({ consent: false, recording: false, recordingId: null });
+  const [playingQuestionId, setPlayingQuestionId] = useState<string | null>(null);
+  const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => window.electronAPI.onAudioRecordingChanged(setRecordingState), []);
+
+  useEffect(() => () => audioPlayerRef.current?.pause(), []);
+
+  const handleToggleRecording = async () => {
+    try {
+      const result = await window.electronAPI.dualAudioSetRecordingConsent(!recordingState.consent);
+      if (result.success && result.state) {
+        setRecordingState(result.state);
+      } else {
+        console.error("[QuestionSidePanel] Recording consent failed:", result.error);
+      }
+    } catch (error) {
+      console.error("[QuestionSidePanel] Recording consent failed:", error);
+    }
+  };
+
+  const handlePlayAudio = async (question: DetectedQuestion) => {
+    audioPlayerRef.current?.pause();
+    audioPlayerRef.current = null;
+    if (playingQuestionId === question.id) {
+      setPlayingQuestionId(null);
+      return;
+    }
+    if (!question.recordingId || question.audioOffsetMs === undefined) return;
+
+    try {
+      const result = await window.electronAPI.recordingGetClip(
+        question.recordingId,
+        question.source,
+        question.audioOffsetMs,
+        question.audioDurationMs ?? 10000
+      );
+      if (!result.success || !result.data) {
+        console.error("[QuestionSidePanel] Recording clip unavailable:", result.error);
+        return;
+      }
+
+      const player = new Audio(`data:${result.mimeType || "audio/wav"};base64,${result.data}`);
+      player.onended = () => setPlayingQuestionId((current) => (current === question.id ? null : current));
+      audioPlayerRef.current = player;
+      setPlayingQuestionId(question.id);
+      await player.play();
+    } catch (error) {
+      console.error("[QuestionSidePanel] Recording playback failed:", error);
+      setPlayingQuestionId(null);
+    }
+  };
+
+  const getSpeakerLabel = (question: DetectedQuestion): string | undefined => {
+    if (question.speakerIndex === undefined) return undefined;
+    return speakers.find((speaker) => speaker.index === question.speakerIndex)?.label || question.speakerLabel;
+  };
+
+  const handleRenameSpeaker = async (index: number, name: string) => {
+    try {
+      const result = await window.electronAPI.dualAudioRenameSpeaker(index, name);
+      if (!result.success) {
+        console.error("[QuestionSidePanel] Speaker rename failed:", result.error);
+      }
+    } catch (error) {
+      console.error("[QuestionSidePanel] Speaker rename failed:", error);
+    }
+  };
 
   // Filter to only show refined questions
   const refinedQuestions = useMemo(() => {
@@ -96,23 +330,127 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
     return result.sort((a, b) => b.timestamp - a.timestamp);
   }, [questions]);
 
-  const handleQuestionClick = async (question: DetectedQuestion) => {
-    setSelectedQuestionId(question.id);
-    setShowAnswerPanel(true); // Show answer panel
+  // Group follow-ups under the question that started their thread; newest activity first
+  const questionThreads = useMemo(() => {
+    const byId = new Map(refinedQuestions.map((q) => [q.id, q]));
+    const findRoot = (question: DetectedQuestion): DetectedQuestion => {
+      let current = question;
+      const visited = new Set<string>([current.id]);
+      while (current.parentId && byId.has(current.parentId) && !visited.has(current.parentId)) {
+        current = byId.get(current.parentId)!;
+        visited.add(current.id);
+      }
+      return current;
+    };
+
+    const threads = new Map<string, QuestionThread>();
+    for (const question of [...refinedQuestions].sort((a, b) => a.timestamp - b.timestamp)) {
+      const root = findRoot(question);
+      const thread = threads.get(root.id) || { root, followUps: [], lastActivity: root.timestamp };
+      if (question.id !== root.id) {
+        thread.followUps.push(question);
+      }
+      thread.lastActivity = Math.max(thread.lastActivity, question.lastAskedAt ?? question.timestamp);
+      threads.set(root.id, thread);
+    }
 
-    // Check if we already have an answer cached
-    const cachedAnswer = answers.get(question.id);
-    if (cachedAnswer) {
-      setCurrentAnswer(cachedAnswer);
-      return;
+    return [...threads.values()].sort((a, b) => b.lastActivity - a.lastActivity);
+  }, [refinedQuestions]);
+
+  const getSelectedAnswer = (questionId: string): string | undefined => {
+    const takes = answers.get(questionId);
+    if (!takes || takes.length === 0) return undefined;
+    return takes[Math.min(selectedTakes.get(questionId) ?? takes.length - 1, takes.length - 1)].text;
+  };
+
+  // Earlier Q&A of a follow-up's thread (oldest first), passed to the answer as context
+  const buildThreadHistory = (question: DetectedQuestion): QuestionThreadTurn[] => {
+    const history: QuestionThreadTurn[] = [];
+    const visited = new Set<string>([question.id]);
+    let parentId = question.parentId;
+
+    while (parentId && !visited.has(parentId)) {
+      const parent = questions.find((q) => q.id === parentId);
+      if (!parent) break;
+      visited.add(parent.id);
+      history.unshift({ question: getDisplayText(parent), answer: getSelectedAnswer(parent.id) || "" });
+      parentId = parent.parentId;
+    }
+
+    return history;
+  };
+
+  // A new take is shown right away: without a selection the latest take is the one displayed
+  const storeAnswerTake = (questionId: string, take: AnswerTake) => {
+    setAnswers((prev) => {
+      const next = new Map(prev);
+      next.set(questionId, [...(prev.get(questionId) || []), take]);
+      return next;
+    });
+    setSelectedTakes((prev) => {
+      const next = new Map(prev);
+      next.delete(questionId);
+      return next;
+    });
+  };
+
+  const preparedPreview = (match: PreparedAnswerMatch): AnswerPreview => ({
+    text: match.prepared.answer,
+    label: "準備した回答を表示中・回答を生成中",
+    title: `準備した質問: ${match.prepared.question}`,
+  });
+
+  // Drafts matched while listening; one arriving for the question being answered is shown right away
+  useEffect(() => window.electronAPI.onAudioPreparedAnswerMatched((match) => {
+    setPreparedMatches((prev) => new Map(prev).set(match.questionId, match));
+    if (activeAnswerRef.current?.startsWith(`answer-${match.questionId}-`)) {
+      setAnswerPreview((current) => current || preparedPreview(match));
     }
+  }), []);
+
+  // Stop the answer still streaming, e.g. when the user moves on to another question
+  const cancelActiveAnswer = () => {
+    const requestId = activeAnswerRef.current;
+    if (!requestId) return;
+
+    activeAnswerRef.current = null;
+    setGeneratingAnswer(false);
+    setAnswerPreview(null);
+    window.electronAPI.audioStreamCancelAnswer(requestId)
+      .catch((error) => console.error("[QuestionSidePanel] Failed to cancel answer:", error));
+  };
+
+  useEffect(() => () => cancelActiveAnswer(), []);
+
+  // Stream one answer for the question; variants and instructions rework the answer shown before
+  const generateAnswer = async (
+    question: DetectedQuestion,
+    request: { variant: AnswerVariant; instruction?: string; previousAnswer?: string }
+  ) => {
+    cancelActiveAnswer();
+    const requestId = `answer-${question.id}-${Date.now()}`;
+    activeAnswerRef.current = requestId;
+    // Once cancelled or superseded, late chunks and results of this request are ignored
+    const isActive = () => activeAnswerRef.current === requestId;
 
-    // Generate new answer with streaming
     setGeneratingAnswer(true);
+    const prepared = request.variant === "default" && !request.instruction ? preparedMatches.get(question.id) : undefined;
+    setAnswerPreview(prepared ? preparedPreview(prepared) : null);
     setCurrentAnswer(""); // Start with empty string for streaming
 
     const collectionId =
       responseMode.type === "qna" ? responseMode.collectionId : undefined;
+    const history = buildThreadHistory(question);
+    const answerOptions: AnswerQuestionOptions | undefined =
+      history.length > 0 || request.variant !== "default" || request.instruction
+        ? {
+            ...(history.length > 0 ? { history } : {}),
+            ...(request.variant !== "default" ? { variant: request.variant } : {}),
+            ...(request.instruction ? { instruction: request.instruction } : {}),
+            ...(request.previousAnswer ? { previousAnswer: request.previousAnswer } : {}),
+          }
+        : undefined;
+    const take = (text: string): AnswerTake => ({ text, variant: request.variant, instruction: request.instruction });
 
     try {
       // Use streaming API directly for real-time updates
@@ -124,6 +462,7 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
         question.text,
         collectionId,
         (chunk: string) => {
+          if (!isActive()) return;
           chunkCount++;
           const now = Date.now();
           const latency = now - startTime;
@@ -143,19 +482,28 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
             // Fallback if flushSync fails
             setCurrentAnswer(streamingResponse);
           });
+        },
+        answerOptions,
+        requestId,
+        (cached) => {
+          if (!isActive()) return;
+          setAnswerPreview({
+            text: cached.answer,
+            label: "保存済みの回答を表示中・最新の回答を生成中",
+            title: `保存日時: ${new Date(cached.cachedAt).toLocaleString()}`,
+          });
+          setCurrentAnswer(cached.answer);
         }
       );
+      if (result.cancelled || !isActive()) return;
 
       // Cache the final answer
-      setAnswers((prev) => {
-        const next = new Map(prev);
-        next.set(question.id, result.response);
-        return next;
-      });
+      storeAnswerTake(question.id, take(result.response));
 
       // Ensure final answer is set (should already be set by streaming)
       setCurrentAnswer(result.response);
     } catch (error: any) {
+      if (!isActive()) return;
       console.error("Failed to answer question with streaming:", error);
 
       // Check if it's a streaming-specific error and fallback to non-streaming
@@ -164,16 +512,13 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
         try {
           const result = await window.electronAPI.audioStreamAnswerQuestion(
             question.text,
-            collectionId
+            collectionId,
+            answerOptions
           );
           setCurrentAnswer(result.response);
 
           // Cache the answer
-          setAnswers((prev) => {
-            const next = new Map(prev);
-            next.set(question.id, result.response);
-            return next;
-          });
+          storeAnswerTake(question.id, take(result.response));
         } catch (fallbackError) {
           console.error("Fallback also failed:", fallbackError);
           setCurrentAnswer("回答の生成中にエラーが発生しました。もう一度お試しください。");
@@ -182,11 +527,77 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
         setCurrentAnswer("回答の生成中にエラーが発生しました。もう一度お試しください。");
       }
     } finally {
-      setGeneratingAnswer(false);
+      if (isActive()) {
+        activeAnswerRef.current = null;
+        setGeneratingAnswer(false);
+        setAnswerPreview(null);
+      }
+    }
+  };
+
+  const handleQuestionClick = async (question: DetectedQuestion) => {
+    if (question.id !== selectedQuestionId) {
+      cancelActiveAnswer();
+    }
+    setSelectedQuestionId(question.id);
+    setShowAnswerPanel(true); // Show answer panel
+
+    // Check if we already have an answer cached
+    const cachedAnswer = getSelectedAnswer(question.id);
+    if (cachedAnswer) {
+      setCurrentAnswer(cachedAnswer);
+      return;
+    }
+
+    await generateAnswer(question, { variant: "default" });
+  };
+
+  // Another take on the selected question, reworking the answer currently shown
+  const handleRegenerate = async (variant: AnswerVariant, instruction?: string) => {
+    const question = questions.find((q) => q.id === selectedQuestionId);
+    if (!question || generatingAnswer) return;
+
+    await generateAnswer(question, { variant, instruction, previousAnswer: getSelectedAnswer(question.id) });
+  };
+
+  const handleSelectTake = (index: number) => {
+    if (!selectedQuestionId) return;
+    const takes = answers.get(selectedQuestionId) || [];
+    if (index < 0 || index >= takes.length) return;
+
+    setSelectedTakes((prev) => new Map(prev).set(selectedQuestionId, index));
+    setCurrentAnswer(takes[index].text);
+  };
+  const handleExport = async (format: TranscriptExportFormat) => {
+    setShowExportMenu(false);
+    setExporting(true);
+    try {
+      const result = await window.electronAPI.transcriptExportSession(format);
+      if (!result.success && !result.canceled) {
+        console.error("[QuestionSidePanel] Transcript export failed:", result.error);
+      }
+    } catch (error) {
+      console.error("[QuestionSidePanel] Transcript export failed:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePurgeAnswerCache = async () => {
+    setShowExportMenu(false);
+    try {
+      const result = await window.electronAPI.answerCachePurge();
+      if (!result.success) {
+        console.error("[QuestionSidePanel] Answer cache purge failed:", result.error);
+      }
+    } catch (error) {
+      console.error("[QuestionSidePanel] Answer cache purge failed:", error);
     }
   };
 
   const isListening = audioStreamState?.isListening || false;
+  const degradedList = Object.values(degradedConnections);
+  const reconnectAttempt = Math.max(0, ...degradedList.map((event) => event.attempt));
 
   // Determine what to show
   const hasQuestions = refinedQuestions.length > 0 || isListening;
@@ -248,8 +659,65 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
                   <span className="text-[10px] text-[#D8F9B8]">リスニング中</span>
                 </div>
               )}
+              {degradedList.length > 0 && (
+                <span
+                  className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-amber-400/15 text-amber-300"
+                  title={degradedList.map((event) => `${event.source === "user" ? "マイク" : "システム音声"}: ${event.reason}`).join("\n")}
+                >
+                  再接続中… ({reconnectAttempt})
+                </span>
+              )}
+              {/* Per-session recording consent */}
+              <button
+                onClick={handleToggleRecording}
+                className={`${isListening ? "ml-2" : "ml-auto"} flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded transition-colors ${recordingState.consent ? "bg-red-500/20 text-red-300" : "bg-black/20 text-white/50 hover:bg-black/30"
+                  }`}
+                type="button"
+                title={recordingState.consent
+                  ? "このセッションの録音を停止"
+                  : "このセッションの音声をこのPCに録音することに同意する"}
+              >
+                <Circle className={`w-2 h-2 ${recordingState.recording ? "fill-red-400 text-red-400 animate-pulse" : ""}`} />
+                録音
+              </button>
+              {/* Transcript export */}
+              <div className={`relative ml-2 ${onCloseQuestions ? "mr-6" : ""}`}>
+                <button
+                  onClick={() => setShowExportMenu((prev) => !prev)}
+                  className="w-5 h-5 rounded-full bg-black/20 hover:bg-black/30 flex items-center justify-center transition-colors disabled:opacity-50"
+                  type="button"
+                  title="文字起こしをエクスポート"
+                  disabled={exporting}
+                >
+                  <Download className="w-3 h-3 text-white/60" />
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 top-6 z-20 liquid-glass rounded-lg py-1 min-w-[140px]">
+                    {EXPORT_OPTIONS.map((option) => (
+                      <button
+                        key={option.format}
+                        onClick={() => handleExport(option.format)}
+                        className="block w-full text-left px-3 py-1.5 text-[11px] text-white/80 hover:bg-white/10 transition-colors"
+                        type="button"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={handlePurgeAnswerCache}
+                      className="block w-full text-left px-3 py-1.5 text-[11px] text-white/60 hover:bg-white/10 transition-colors border-t border-white/10"
+                      type="button"
+                      title="保存済みの回答をすべて削除し、次回から新しく生成する"
+                    >
+                      回答キャッシュを削除
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
 
+            {isListening && <AudioChannelLevels levels={audioLevels} className="mb-3 flex-shrink-0" />}
+
             <div className="flex-1 flex flex-col min-h-0">
               {refinedQuestions.length === 0 ? (
                 <div className="flex-1 flex items-center justify-center">
@@ -260,13 +728,33 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
                 </div>
               ) : (
                 <div className="space-y-1 overflow-y-auto flex-1 min-h-0 morphism-scrollbar">
-                  {refinedQuestions.map((question) => (
-                    <QuestionItem
-                      key={question.id}
-                      question={question}
-                      isSelected={selectedQuestionId === question.id}
-                      onClick={() => handleQuestionClick(question)}
-                    />
+                  {questionThreads.map((thread) => (
+                    <div key={thread.root.id} className="space-y-1">
+                      <QuestionItem
+                        question={thread.root}
+                        isSelected={selectedQuestionId === thread.root.id}
+                        speakerLabel={getSpeakerLabel(thread.root)}
+                        onRenameSpeaker={handleRenameSpeaker}
+                        isPlaying={playingQuestionId === thread.root.id}
+                        onPlayAudio={handlePlayAudio}
+                        preparedMatch={preparedMatches.get(thread.root.id)}
+                        onClick={() => handleQuestionClick(thread.root)}
+                      />
+                      {thread.followUps.map((followUp) => (
+                        <QuestionItem
+                          key={followUp.id}
+                          question={followUp}
+                          isSelected={selectedQuestionId === followUp.id}
+                          isFollowUp
+                          speakerLabel={getSpeakerLabel(followUp)}
+                          onRenameSpeaker={handleRenameSpeaker}
+                          isPlaying={playingQuestionId === followUp.id}
+                          onPlayAudio={handlePlayAudio}
+                          preparedMatch={preparedMatches.get(followUp.id)}
+                          onClick={() => handleQuestionClick(followUp)}
+                        />
+                      ))}
+                    </div>
                   ))}
                 </div>
               )}
@@ -322,11 +810,25 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
               <span className="text-sm font-medium text-white/90">AI回答</span>
             </div>
 
+            {/* Answer takes of the selected question and regeneration */}
+            {selectedQuestionId && showAnswerPanel && (answers.get(selectedQuestionId)?.length ?? 0) > 0 && (
+              <AnswerVariantBar
+                takes={answers.get(selectedQuestionId)!}
+                selectedIndex={Math.min(selectedTakes.get(selectedQuestionId) ?? Infinity, answers.get(selectedQuestionId)!.length - 1)}
+                disabled={generatingAnswer}
+                onSelect={handleSelectTake}
+                onRegenerate={handleRegenerate}
+              />
+            )}
+
             {/* Content Area - Shows answer OR chat messages OR placeholder */}
             <div className="flex-1 flex flex-col min-h-0">
               {(generatingAnswer || chatLoading) ? (
+                <>
                 <div className="flex items-center px-2">
-                  <span className="text-xs text-white/70 mr-2">回答を生成中</span>
+                  <span className="text-xs text-white/70 mr-2">
+                    {answerPreview && generatingAnswer ? answerPreview.label : "回答を生成中"}
+                  </span>
                   <div className="flex gap-0.5">
                     <div
                       className="w-1 h-1 bg-white/70 rounded-full animate-bounce"
@@ -341,7 +843,27 @@ const QuestionSidePanel: React.FC<QuestionSidePanelProps> = ({
                       style={{ animationDelay: "300ms" }}
                     ></div>
                   </div>
+                  {generatingAnswer && (
+                    <button
+                      onClick={cancelActiveAnswer}
+                      className="ml-auto flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-black/20 text-white/60 hover:bg-black/30 hover:text-white/90 transition-colors"
+                      type="button"
+                      title="回答の生成を停止"
+                    >
+                      <Square className="w-2 h-2" />
+                      停止
+                    </button>
+                  )}
                 </div>
+                {answerPreview && generatingAnswer && (
+                  <div
+                    className="mt-1 text-xs text-white/50 leading-relaxed whitespace-pre-wrap overflow-y-auto flex-1 min-h-0 px-2 morphism-scrollbar"
+                    title={answerPreview.title}
+                  >
+                    {answerPreview.text}
+                  </div>
+                )}
+                </>
               ) : (currentAnswer || chatMessages.length > 0) ? (
                 <div className="text-xs text-white/80 leading-relaxed whitespace-pre-wrap overflow-y-auto flex-1 min-h-0 px-2 morphism-scrollbar">
                   {/* Show current answer OR latest chat message */}
@@ -8,6 +8,7 @@ import {
   HelpCircle,
   Settings,
 } from "lucide-react";
+import { useAudioInputDevices } from "../hooks/useAudioInputDevices";
 
 // Audio source type to match backend
 interface AudioSource {
@@ -26,6 +27,62 @@ interface AudioSettingsProps {
   className?: string;
 }
 
+interface MicrophoneDeviceSelectorProps {
+  label?: string;
+  defaultLabel?: string;
+  unavailableLabel?: string;
+  className?: string;
+}
+
+/**
+ * Picks the input device for the microphone side; the choice is saved and a running
+ * capture switches to it without stopping
+ */
+export const MicrophoneDeviceSelector: React.FC<MicrophoneDeviceSelectorProps> = ({
+  label = "Microphone",
+  defaultLabel = "System default",
+  unavailableLabel = "not connected",
+  className = "",
+}) => {
+  const { devices, selection, activeDeviceId, selectDevice } = useAudioInputDevices();
+  // A saved device that is unplugged stays listed so the user can see why the default is used
+  const selectionMissing = !!selection && !activeDeviceId;
+
+  const handleChange = (deviceId: string) => {
+    const device = devices.find((d) => d.deviceId === deviceId) || null;
+    if (!device && deviceId) return;
+    selectDevice(device).catch((err) =>
+      console.error("[AudioSettings] Error selecting input device:", err)
+    );
+  };
+
+  return (
+    <div className={`flex items-center justify-between gap-2 ${className}`}>
+      <span className="text-xs text-white/60 flex items-center gap-1">
+        <Mic className="w-3 h-3" />
+        {label}
+      </span>
+      <select
+        value={selectionMissing ? selection!.deviceId : activeDeviceId || ""}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-white/10 text-white/90 text-[11px] rounded px-1.5 py-1 max-w-[160px] truncate focus:outline-none"
+      >
+        <option value="">{defaultLabel}</option>
+        {selectionMissing && (
+          <option value={selection!.deviceId} disabled>
+            {selection!.label || selection!.deviceId} ({unavailableLabel})
+          </option>
+        )}
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
 export const AudioSettings: React.FC<AudioSettingsProps> = ({
   currentSource,
   onSourceChange,
@@ -144,6 +201,9 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
         <span className={`text-xs ${getStatusColor()}`}>{getStatusText()}</span>
       </div>
 
+      {/* Input device for the microphone side */}
+      <MicrophoneDeviceSelector />
+
       {/* Current Source Display */}
       <div className="space-y-2">
         <div className="flex items-center justify-between">
@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from "react";
-import { User, LogOut, Settings, Shield } from "lucide-react";
+import { User, LogOut, Settings, Shield, ClipboardList } from "lucide-react";
 import { ProfileModeSelector } from "./ProfileModeSelector";
+import { MicrophoneDeviceSelector } from "../AudioSettings";
+
+type ConversationLanguage = "ja" | "en" | "auto";
+
+const LANGUAGE_OPTIONS: Array<{ value: ConversationLanguage; label: string }> = [
+  { value: "ja", label: "日本語" },
+  { value: "en", label: "English" },
+  { value: "auto", label: "自動" },
+];
 
 interface ProfileDropdownProps {
   currentMode: string;
@@ -10,6 +19,7 @@ interface ProfileDropdownProps {
   onLogout: () => Promise<void>;
   onSettings: () => void;
   onPermissionRequest: () => Promise<void>;
+  onPrepareSession?: () => void;
   dropdownWidth?: string; // Configurable width, e.g., "w-36", "w-48", "w-64"
 }
 
@@ -22,9 +32,28 @@ export const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
   onLogout,
   onSettings,
   onPermissionRequest,
+  onPrepareSession,
   dropdownWidth = "w-48",
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [language, setLanguage] = useState<ConversationLanguage>("ja");
+
+  useEffect(() => {
+    window.electronAPI
+      .getConversationLanguage()
+      .then((result) => setLanguage(result.language))
+      .catch((error) => console.error("Failed to load conversation language:", error));
+  }, []);
+
+  const handleLanguageChange = async (next: ConversationLanguage) => {
+    const previous = language;
+    setLanguage(next);
+    const result = await window.electronAPI.setConversationLanguage(next);
+    if (!result.success) {
+      console.error("Failed to set conversation language:", result.error);
+      setLanguage(previous);
+    }
+  };
 
   // Click outside handler
   useEffect(() => {
@@ -58,6 +87,11 @@ export const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
     setIsOpen(false);
   };
 
+  const handlePrepareSession = () => {
+    onPrepareSession?.();
+    setIsOpen(false);
+  };
+
   return (
     <div className="absolute top-0 right-0 transform translate-x-full mt-1 pl-2">
       <div className="relative profile-dropdown-container">
@@ -85,9 +119,44 @@ export const ProfileDropdown: React.FC<ProfileDropdownProps> = ({
                 />
               </div>
 
-              {/* Audio Settings Section - REMOVED: Dual audio capture is automatic */}
-              {/* Both microphone and system audio are captured simultaneously */}
+              {/* Conversation Language Section */}
+              <div className="px-3 py-2 border-b border-white/10">
+                <div className="text-xs text-white/60 mb-2">会話の言語</div>
+                <div className="flex gap-1">
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleLanguageChange(option.value)}
+                      className={`flex-1 px-2 py-1 text-[11px] rounded-md transition-colors ${language === option.value
+                        ? "bg-white/20 text-white"
+                        : "text-white/70 hover:text-white hover:bg-white/10"
+                        }`}
+                      type="button"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Microphone device (system audio is captured automatically) */}
+              <div className="px-3 py-2 border-b border-white/10">
+                <MicrophoneDeviceSelector
+                  label="マイク"
+                  defaultLabel="システムのデフォルト"
+                  unavailableLabel="未接続"
+                />
+              </div>
 
+              {onPrepareSession && (
+                <button
+                  onClick={handlePrepareSession}
+                  className="w-full px-3 py-2 text-left text-xs text-white/80 hover:text-white hover:bg-white/10 flex items-center gap-2 transition-colors rounded-md"
+                >
+                  <ClipboardList className="w-3 h-3" />
+                  セッションを準備
+                </button>
+              )}
               <button
                 onClick={handlePermissionRequest}
                 className="w-full px-3 py-2 text-left text-xs text-white/80 hover:text-white hover:bg-white/10 flex items-center gap-2 transition-colors rounded-md"
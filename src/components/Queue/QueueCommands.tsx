@@ -22,8 +22,26 @@ import {
   DetectedQuestion,
   AudioStreamState,
   AudioSource,
+  AudioInputDeviceSelection,
 } from "../../types/audio-stream";
 import { createAudioWorkletBlobURL } from "../../utils/audioWorkletProcessor";
+import {
+  getStreamDeviceId,
+  listAudioInputDevices,
+  microphoneConstraints,
+  onAudioInputDevicesChanged,
+  replaceMicrophoneSource,
+  resolveInputDeviceId,
+  MicrophoneSource,
+} from "../../services/AudioInputDevices";
+
+const MIC_CAPTURE_CONFIG = { sampleRate: 16000, channelCount: 1 };
+
+// The live microphone graph; the source is swapped in place when the input device changes
+interface MicrophoneGraph extends MicrophoneSource {
+  ctx: AudioContext;
+  node: AudioNode;
+}
 
 interface QnACollection {
   id: string;
@@ -48,6 +66,7 @@ interface QueueCommandsProps {
   onResponseModeChange?: (mode: ResponseMode) => void;
   isAuthenticated?: boolean;
   onQuestionDetected?: (question: DetectedQuestion) => void;
+  onQuestionUpdated?: (question: DetectedQuestion) => void;
   onAudioStreamStateChange?: (state: AudioStreamState) => void;
 }
 
@@ -65,6 +84,7 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
       onResponseModeChange,
       isAuthenticated = false,
       onQuestionDetected,
+      onQuestionUpdated,
       onAudioStreamStateChange,
     },
     ref
@@ -102,6 +122,8 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
     const [pollingInterval, setPollingInterval] = useState<number | null>(null);
     const frontendListeningRef = useRef(false); // Local listening state to avoid React delays - using ref to prevent stale closure
     const audioChunks = useRef<Blob[]>([]);
+    const micGraphRef = useRef<MicrophoneGraph | null>(null);
+    const micSwapRef = useRef<Promise<void>>(Promise.resolve());
 
     // Audio source management
     const [currentAudioSource, setCurrentAudioSource] =
@@ -309,6 +331,13 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
           }
         ),
 
+        // A repeat of an earlier question was merged into it
+        window.electronAPI.onAudioQuestionUpdated(
+          (question: DetectedQuestion) => {
+            onQuestionUpdated?.(question);
+          }
+        ),
+
         window.electronAPI.onAudioStreamStateChanged(
           (state: AudioStreamState) => {
             console.log("[QueueCommands] Audio stream state changed:", state);
@@ -344,7 +373,7 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
       return () => {
         cleanupFunctions.forEach((cleanup) => cleanup());
       };
-    }, [isAuthenticated, onQuestionDetected, onAudioStreamStateChange]);
+    }, [isAuthenticated, onQuestionDetected, onQuestionUpdated, onAudioStreamStateChange]);
 
     const loadContent = async () => {
       if (!isAuthenticated) return;
@@ -432,15 +461,14 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
           throw new Error("Microphone permission required for audio streaming");
         }
 
-        // Get user media with audio
+        // Get user media with audio from the device picked in AudioSettings (default if unplugged)
+        const [{ device: savedDevice }, inputDevices] = await Promise.all([
+          window.electronAPI.audioGetInputDevice(),
+          listAudioInputDevices(),
+        ]);
+        const deviceId = resolveInputDeviceId(inputDevices, savedDevice);
         const stream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            sampleRate: { ideal: 16000 },
-            channelCount: { ideal: 1 },
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-          },
+          audio: microphoneConstraints(deviceId, MIC_CAPTURE_CONFIG),
         });
 
         console.log(
@@ -622,6 +650,7 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
 
           setAudioContext(ctx);
           setProcessor(workletNode as any);
+          micGraphRef.current = { ctx, node: workletNode, stream, source };
 
           console.log("[QueueCommands] AudioWorklet setup completed");
           window.electronAPI.invoke(
@@ -739,6 +768,7 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
 
           setAudioContext(ctx);
           setProcessor(scriptProcessor);
+          micGraphRef.current = { ctx, node: scriptProcessor, stream, source };
 
           console.log(
             "[QueueCommands] ScriptProcessor fallback setup completed"
@@ -781,6 +811,63 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
       }
     };
 
+    /**
+     * Move the running microphone capture to the saved device (hot-swap)
+     * Runs when devices are plugged in or removed and when the choice changes in AudioSettings.
+     * The capture keeps running: only the MediaStream source in front of the processor changes.
+     */
+    const swapMicrophone = (selection?: AudioInputDeviceSelection | null): Promise<void> => {
+      const swap = async () => {
+        const graph = micGraphRef.current;
+        if (!graph) return;
+
+        const saved = selection !== undefined
+          ? selection
+          : (await window.electronAPI.audioGetInputDevice()).device;
+        const target = resolveInputDeviceId(await listAudioInputDevices(), saved);
+        const trackEnded = graph.stream.getAudioTracks().every((track) => track.readyState === "ended");
+
+        // Following the default (target undefined) is always reopened: the OS default may have moved
+        if (target && target === getStreamDeviceId(graph.stream) && !trackEnded) return;
+
+        const replaced = await replaceMicrophoneSource(graph.ctx, graph.node, graph, target, MIC_CAPTURE_CONFIG);
+        if (micGraphRef.current !== graph) {
+          // Capture stopped while the new device was opening
+          replaced.source.disconnect();
+          replaced.stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        micGraphRef.current = { ...graph, ...replaced };
+        console.log(
+          "[QueueCommands] 🎙️ Switched microphone to",
+          replaced.stream.getAudioTracks()[0]?.label || "default"
+        );
+      };
+
+      micSwapRef.current = micSwapRef.current.then(swap).catch((error) => {
+        console.error("[QueueCommands] Failed to switch microphone:", error);
+      });
+      return micSwapRef.current;
+    };
+
+    // Hot-swap the microphone while listening
+    useEffect(() => {
+      if (!isListening) return;
+
+      const unsubscribeDevices = onAudioInputDevicesChanged(() => {
+        swapMicrophone();
+      });
+      const unsubscribeSelection = window.electronAPI.onAudioInputDeviceChanged((selection) => {
+        swapMicrophone(selection);
+      });
+
+      return () => {
+        unsubscribeDevices();
+        unsubscribeSelection();
+      };
+    }, [isListening]);
+
     /**
      * Stop audio capture
      */
@@ -809,6 +896,12 @@ const QueueCommands = forwardRef<QueueCommandsRef, QueueCommandsProps>(
           setProcessor(null);
         }
 
+        if (micGraphRef.current) {
+          micGraphRef.current.source.disconnect();
+          micGraphRef.current.stream.getTracks().forEach((track) => track.stop());
+          micGraphRef.current = null;
+        }
+
         if (audioContext) {
           audioContext.close();
           setAudioContext(null);
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from "react";
+import { ClipboardList, Loader2, Trash2 } from "lucide-react";
+import { PreparedSession, SessionPrepProgress } from "../types/audio-stream";
+
+interface SessionPrepPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  modeKey: string;
+  collectionId?: string;
+  collectionName?: string;
+}
+
+const describeProgress = (progress: SessionPrepProgress | null): string => {
+  if (!progress || progress.stage === "questions") return "想定質問を作成中…";
+  return `回答を作成中… (${progress.completed}/${progress.total})`;
+};
+
+/**
+ * Prepare session: anticipate questions from a job description and draft answers before listening
+ * Drafts use the current answer mode and the selected Q&A collection; during the session a
+ * matching question shows its draft while the live answer is generated.
+ */
+export const SessionPrepPanel: React.FC<SessionPrepPanelProps> = ({
+  isOpen,
+  onClose,
+  modeKey,
+  collectionId,
+  collectionName,
+}) => {
+  const [jobDescription, setJobDescription] = useState("");
+  const [session, setSession] = useState<PreparedSession | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [progress, setProgress] = useState<SessionPrepProgress | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    window.electronAPI.sessionPrepGet()
+      .then((result) => {
+        if (!result.success) return;
+        setSession(result.session || null);
+        setPreparing(!!result.preparing);
+        if (result.session) setJobDescription((current) => current || result.session!.jobDescription);
+      })
+      .catch((err) => console.error("[SessionPrepPanel] Failed to load prepared session:", err));
+
+    return window.electronAPI.onSessionPrepProgress(setProgress);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handlePrepare = async () => {
+    if (!jobDescription.trim() || preparing) return;
+
+    setPreparing(true);
+    setProgress(null);
+    setError("");
+    try {
+      const result = await window.electronAPI.sessionPrepStart(jobDescription, modeKey, collectionId);
+      if (result.success && result.session) {
+        setSession(result.session);
+      } else {
+        setError(result.error || "準備に失敗しました");
+      }
+    } catch (err) {
+      console.error("[SessionPrepPanel] Preparation failed:", err);
+      setError("準備に失敗しました");
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleClear = async () => {
+    const result = await window.electronAPI.sessionPrepClear();
+    if (result.success) {
+      setSession(null);
+    } else {
+      console.error("[SessionPrepPanel] Failed to clear prepared session:", result.error);
+    }
+  };
+
+  return (
+    <div className="mt-2 w-full max-w-md liquid-glass chat-container p-4 text-white/90 text-xs relative">
+      {/* Close Button */}
+      <button
+        onClick={onClose}
+        className="absolute top-3 right-3 w-5 h-5 rounded-full bg-black/20 hover:bg-black/30 flex items-center justify-center transition-colors"
+        type="button"
+        title="閉じる"
+      >
+        <svg
+          className="w-3 h-3 text-white/60 hover:text-white/90 transition-colors"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M6 18L18 6M6 6l12 12"
+          />
+        </svg>
+      </button>
+
+      {/* Title */}
+      <div className="mb-3 text-sm font-medium text-white/90 flex items-center gap-2">
+        <ClipboardList className="w-4 h-4 text-[#D8F9B8]" />
+        <span>セッションを準備</span>
+      </div>
+
+      <div className="mb-2 text-[10px] text-white/60 pr-8">
+        回答モード: {modeKey} / コレクション: {collectionName || (collectionId ? collectionId : "未選択（一般的な回答）")}
+      </div>
+
+      <textarea
+        value={jobDescription}
+        onChange={(e) => setJobDescription(e.target.value)}
+        placeholder="求人票・募集要項を貼り付けてください"
+        className="morphism-input w-full h-24 px-2 py-1.5 text-xs text-white resize-none focus:outline-none morphism-scrollbar"
+        disabled={preparing}
+      />
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-2 p-2 rounded-lg bg-red-500/10 border border-red-500/20">
+          <p className="text-xs text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          onClick={handlePrepare}
+          disabled={preparing || !jobDescription.trim()}
+          className="px-3 py-1.5 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white/90 flex items-center gap-2 transition-colors disabled:opacity-50"
+          type="button"
+        >
+          {preparing && <Loader2 className="w-3 h-3 animate-spin" />}
+          {preparing ? describeProgress(progress) : session ? "作り直す" : "想定質問と回答を作成"}
+        </button>
+        {session && !preparing && (
+          <button
+            onClick={handleClear}
+            className="ml-auto px-2 py-1.5 text-[11px] rounded-lg text-white/60 hover:text-white/90 hover:bg-white/10 flex items-center gap-1 transition-colors"
+            type="button"
+            title="準備した質問と回答を削除"
+          >
+            <Trash2 className="w-3 h-3" />
+            クリア
+          </button>
+        )}
+      </div>
+
+      {/* Prepared questions; click one to read its draft */}
+      {session && (
+        <div className="mt-3 max-h-56 overflow-y-auto space-y-1 morphism-scrollbar">
+          <div className="text-[10px] text-white/50 mb-1">
+            準備済み {session.questions.length} 問（{new Date(session.preparedAt).toLocaleString()}）
+          </div>
+          {session.questions.map((prepared) => (
+            <div
+              key={prepared.id}
+              className="p-2 rounded-lg bg-white/5 hover:bg-white/10 cursor-pointer transition-colors"
+              onClick={() => setExpandedId((current) => (current === prepared.id ? null : prepared.id))}
+            >
+              <p className="text-xs text-white/90">{prepared.question}</p>
+              {expandedId === prepared.id && (
+                <p className="mt-1 text-[11px] text-white/70 leading-relaxed whitespace-pre-wrap">{prepared.answer}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
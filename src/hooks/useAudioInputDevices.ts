@@ -0,0 +1,69 @@
+/**
+ * React hook for the list of microphones and the one chosen for capture
+ *
+ * The list follows devices being plugged in or removed; the selection is persisted by the
+ * main process and shared with a running capture, which switches device when it changes.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AudioInputDeviceSelection } from '../types/audio-stream';
+import {
+  listAudioInputDevices,
+  onAudioInputDevicesChanged,
+  resolveInputDeviceId,
+  type AudioInputDevice
+} from '../services/AudioInputDevices';
+
+export interface UseAudioInputDevicesReturn {
+  devices: AudioInputDevice[];
+  selection: AudioInputDeviceSelection | null;
+  // Device in use for the selection: undefined for the system default or an unplugged choice
+  activeDeviceId: string | undefined;
+  selectDevice: (device: AudioInputDevice | null) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useAudioInputDevices(): UseAudioInputDevicesReturn {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([]);
+  const [selection, setSelection] = useState<AudioInputDeviceSelection | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listAudioInputDevices());
+    } catch (error) {
+      console.error('[useAudioInputDevices] Failed to list input devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.electronAPI.audioGetInputDevice()
+      .then(result => setSelection(result.device))
+      .catch(error => console.error('[useAudioInputDevices] Failed to load input device:', error));
+
+    const unsubscribeDevices = onAudioInputDevicesChanged(refresh);
+    const unsubscribeSelection = window.electronAPI.onAudioInputDeviceChanged(setSelection);
+    return () => {
+      unsubscribeDevices();
+      unsubscribeSelection();
+    };
+  }, [refresh]);
+
+  const selectDevice = useCallback(async (device: AudioInputDevice | null) => {
+    const next = device ? { deviceId: device.deviceId, label: device.label } : null;
+    const result = await window.electronAPI.audioSetInputDevice(next);
+    if (!result.success) {
+      console.error('[useAudioInputDevices] Failed to save input device:', result.error);
+      return;
+    }
+    setSelection(next);
+  }, []);
+
+  return {
+    devices,
+    selection,
+    activeDeviceId: resolveInputDeviceId(devices, selection),
+    selectDevice,
+    refresh
+  };
+}
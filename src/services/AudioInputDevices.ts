@@ -0,0 +1,108 @@
+/**
+ * AudioInputDevices - Renderer-side helpers for choosing and swapping the microphone
+ *
+ * Only the renderer can see input devices (navigator.mediaDevices); the choice itself is
+ * persisted by the main process (audioGetInputDevice / audioSetInputDevice).
+ */
+
+import type { AudioInputDeviceSelection } from '../types/audio-stream';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+  groupId: string;
+}
+
+// Chromium lists pseudo-devices that follow the OS default; they are not choices of their own
+const PSEUDO_DEVICE_IDS = ['default', 'communications'];
+
+/**
+ * Microphones currently plugged in
+ * Labels are empty until microphone permission has been granted.
+ */
+export async function listAudioInputDevices(): Promise<AudioInputDevice[]> {
+  if (!navigator?.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && !PSEUDO_DEVICE_IDS.includes(device.deviceId))
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+      groupId: device.groupId,
+    }));
+}
+
+/**
+ * Device id to open for a saved selection: matched by id, then by label (ids can change
+ * between runs). undefined means the selection is not plugged in and the default is used.
+ */
+export function resolveInputDeviceId(
+  devices: AudioInputDevice[],
+  selection: AudioInputDeviceSelection | null
+): string | undefined {
+  if (!selection) return undefined;
+  return devices.find(device => device.deviceId === selection.deviceId)?.deviceId
+    ?? devices.find(device => selection.label && device.label === selection.label)?.deviceId;
+}
+
+/**
+ * getUserMedia constraints for the pipeline's microphone input
+ */
+export function microphoneConstraints(
+  deviceId: string | undefined,
+  config: { sampleRate: number; channelCount: number }
+): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    sampleRate: { ideal: config.sampleRate },
+    channelCount: { ideal: config.channelCount },
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  };
+}
+
+/**
+ * Device id the stream is actually reading from
+ */
+export function getStreamDeviceId(stream: MediaStream): string | undefined {
+  return stream.getAudioTracks()[0]?.getSettings().deviceId;
+}
+
+export interface MicrophoneSource {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+}
+
+/**
+ * Open another device and feed it into `target` in place of the current source
+ * The processing node and AudioContext stay as they are, so whatever consumes the node keeps
+ * receiving audio. The new source is connected before the old one is torn down.
+ */
+export async function replaceMicrophoneSource(
+  ctx: AudioContext,
+  target: AudioNode,
+  current: MicrophoneSource,
+  deviceId: string | undefined,
+  config: { sampleRate: number; channelCount: number }
+): Promise<MicrophoneSource> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(deviceId, config) });
+  const source = ctx.createMediaStreamSource(stream);
+  source.connect(target);
+
+  current.source.disconnect();
+  current.stream.getTracks().forEach(track => track.stop());
+
+  return { stream, source };
+}
+
+/**
+ * Call `callback` whenever devices are plugged in or removed; returns an unsubscribe function
+ */
+export function onAudioInputDevicesChanged(callback: () => void): () => void {
+  if (!navigator?.mediaDevices?.addEventListener) return () => undefined;
+
+  navigator.mediaDevices.addEventListener('devicechange', callback);
+  return () => navigator.mediaDevices.removeEventListener('devicechange', callback);
+}
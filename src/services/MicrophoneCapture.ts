@@ -8,6 +8,8 @@
  * IMPORTANT: This must run in renderer, not main process!
  */
 
+import { getStreamDeviceId, microphoneConstraints, replaceMicrophoneSource } from './AudioInputDevices';
+
 // Renderer-side logging (console logs are visible in DevTools)
 const LOG_PREFIX = '[MicrophoneCapture]';
 
@@ -53,6 +55,7 @@ export interface AudioConfig {
   sampleRate: number;
   channelCount: number;
   bufferSize: number;
+  deviceId?: string; // Input device to open; the system default when omitted
 }
 
 export interface MicrophoneCaptureState {
@@ -66,6 +69,7 @@ export class MicrophoneCapture {
   private audioContext: AudioContext | null = null;
   private processor: ScriptProcessorNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
+  private config: AudioConfig | null = null;
   private state: MicrophoneCaptureState = {
     isCapturing: false,
     hasPermission: false
@@ -178,13 +182,7 @@ export class MicrophoneCapture {
       logInfo('Requesting microphone access with constraints...');
       
       const constraints = {
-        audio: {
-          sampleRate: { ideal: config.sampleRate },
-          channelCount: { ideal: config.channelCount },
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        }
+        audio: microphoneConstraints(config.deviceId, config)
       };
       
       logDebug('getUserMedia constraints', constraints);
@@ -272,6 +270,7 @@ export class MicrophoneCapture {
       this.source.connect(this.processor);
       this.processor.connect(this.audioContext.destination);
 
+      this.config = config;
       this.state.isCapturing = true;
       this.state.hasPermission = true;
       this.state.error = undefined;
@@ -291,6 +290,33 @@ export class MicrophoneCapture {
     }
   }
 
+  /**
+   * Move a running capture to another input device without tearing down the audio graph
+   * `undefined` switches to the system default. Audio keeps flowing to the main process.
+   */
+  async switchDevice(deviceId: string | undefined): Promise<void> {
+    logInfo('→ switchDevice() called', { deviceId: deviceId || 'default' });
+
+    if (!this.state.isCapturing || !this.audioContext || !this.processor || !this.source || !this.mediaStream || !this.config) {
+      logInfo('Not capturing, device will be used on next start');
+      if (this.config) this.config = { ...this.config, deviceId };
+      return;
+    }
+
+    const replaced = await replaceMicrophoneSource(
+      this.audioContext,
+      this.processor,
+      { stream: this.mediaStream, source: this.source },
+      deviceId,
+      this.config
+    );
+    this.mediaStream = replaced.stream;
+    this.source = replaced.source;
+    this.config = { ...this.config, deviceId };
+
+    logInfo('✅ Switched input device', { deviceId: getStreamDeviceId(replaced.stream) });
+  }
+
   /**
    * Stop capturing microphone audio
    */
@@ -38,6 +38,53 @@ export interface AudioStreamConfig {
   silenceEnergyThreshold?: number; // RMS threshold for detecting silence (0-1)
 }
 
+// Silence gate counters per source, reported by dual-audio-get-state (audio ms rounded)
+export interface VoiceActivityGateStats {
+  enabled: boolean;
+  isOpen: boolean;
+  chunksIn: number;
+  chunksForwarded: number;
+  chunksDropped: number;
+  audioMsIn: number;
+  audioMsForwarded: number;
+  audioMsDropped: number; // Silence that was never uploaded
+  speechSegments: number;
+  lastRms: number;
+}
+
+// Level of one capture channel since the previous telemetry update (levels normalized to 0-1)
+export interface AudioChannelLevel {
+  rms: number;
+  peak: number;
+  clippedSamples: number; // Samples at or near full scale
+  silentForMs: number;    // Time since the channel last carried sound; no audio at all counts as silence
+  silenceWarning: boolean; // Silent long enough to suspect a muted meeting or a dead device
+}
+
+// Throttled level telemetry of both channels, emitted while capturing
+export interface AudioLevels {
+  user: AudioChannelLevel;
+  opponent: AudioChannelLevel;
+  timestamp: number;
+}
+
+// Transcription connection health, emitted while a dropped socket is being re-established
+export interface ConnectionDegradedEvent {
+  source: 'user' | 'opponent';
+  reason: string;
+  attempt: number; // Reconnect attempt about to be made (1-based)
+  retryInMs: number;
+  provider?: string;
+}
+
+export interface ConnectionRestoredEvent {
+  source: 'user' | 'opponent';
+  downtimeMs: number;
+  replayedMs: number; // Audio captured during the outage and sent after reconnecting
+  droppedMs: number; // Audio lost because the outage outlasted the replay buffer
+  provider?: string;
+}
+
 export interface DetectedQuestion {
   id: string;
   text: string;
@@ -47,6 +94,118 @@ export interface DetectedQuestion {
   // Optional fields populated during refinement and used by renderer UI
   isRefined?: boolean;
   refinedText?: string;
+  // Set when this question follows up on an earlier one ("could you elaborate on that?")
+  parentId?: string;
+  // Diarized remote speaker, when the transcription provider tells participants apart
+  speakerIndex?: number;
+  speakerLabel?: string;
+  // Set when the question was asked again later in the session and merged into this one
+  repeatCount?: number;
+  lastAskedAt?: number;
+  alternateTexts?: string[]; // Other wordings it was asked with
+  // Where the question can be heard in the session recording, when one was consented to
+  recordingId?: string;
+  audioOffsetMs?: number;
+  audioDurationMs?: number;
+}
+
+// Input device chosen for the microphone side; the label identifies it when the id changes
+export interface AudioInputDeviceSelection {
+  deviceId: string;
+  label: string;
+}
+
+// Local session audio recording (see electron/audio/SessionAudioRecorder)
+export interface AudioRecordingInfo {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  sampleRate: number;
+  sources: Array<'user' | 'opponent'>;
+  bytes: number;
+}
+
+export interface AudioRecordingState {
+  consent: boolean; // Given for the current (or next) capture session only
+  recording: boolean;
+  recordingId: string | null;
+}
+
+// A remote participant told apart by diarization; labels can be renamed by the user
+export interface SpeakerInfo {
+  index: number;
+  label: string;
+  isCustom: boolean;
+}
+
+// One earlier exchange in a question thread, oldest first when passed as answer context
+export interface QuestionThreadTurn {
+  question: string;
+  answer: string;
+}
+
+// How a regenerated answer should differ from the one before it
+export type AnswerVariant = 'default' | 'shorter' | 'detailed' | 'different-angle';
+
+export interface AnswerQuestionOptions {
+  history?: QuestionThreadTurn[];
+  variant?: AnswerVariant;
+  instruction?: string;     // User steering for this generation ("mention my AWS experience")
+  previousAnswer?: string;  // Answer being reworked by a variant or instruction
+}
+
+// A streaming answer stopped before it finished; usage is only charged once a token arrived
+export interface AnswerCancelledEvent {
+  requestId: string | null;
+  partialResponse: string;
+  charged: boolean;
+}
+
+// Answer stored for the same question and context, shown while a fresh one streams in
+export interface CachedAnswerEvent {
+  requestId: string | null;
+  answer: string;
+  cachedAt: number;
+  answeredBy?: AnswerModelInfo;
+}
+
+// Backend that produced an answer; `fallback` is set when earlier models in the chain failed
+export interface AnswerModelInfo {
+  provider: string;
+  model: string;
+  attempts: number;
+  fallback: boolean;
+}
+
+// A question anticipated from the job description, with a draft answered before the session
+export interface PreparedQuestion {
+  id: string;
+  question: string;
+  answer: string;
+  answeredBy?: AnswerModelInfo;
+  cachedAt?: number; // Set when the draft came from the answer cache
+}
+
+// Questions prepared for the upcoming session (see electron/services/ai/SessionPreparation)
+export interface PreparedSession {
+  jobDescription: string;
+  collectionId: string | null;
+  modeKey: string;
+  preparedAt: number;
+  questions: PreparedQuestion[];
+}
+
+export interface SessionPrepProgress {
+  stage: 'questions' | 'answers';
+  completed: number;
+  total: number;
+}
+
+// A live question that asks (roughly) what a prepared question anticipated
+export interface PreparedAnswerMatch {
+  questionId: string;
+  prepared: PreparedQuestion;
+  similarity: number;
 }
 
 export interface QuestionBatch {
@@ -89,3 +248,43 @@ export interface GeminiLiveConfig {
   language: string; // 'ja-JP' or 'en-US'
   systemPrompt: string;
 }
+
+// Persisted session transcripts (see electron/services/transcript/TranscriptStore)
+export interface TranscriptEntry {
+  id: string;
+  text: string;
+  source: 'user' | 'opponent';
+  speaker: string; // Display label for the source (or diarized speaker)
+  speakerIndex?: number; // Diarized speaker within the source
+  timestamp: number; // Epoch ms when the utterance was finalized
+  offsetMs: number; // Offset from session start
+  confidence?: number;
+}
+
+export interface TranscriptAnswer {
+  questionId: string | null; // null when the answered text matched no detected question
+  questionText: string;
+  answer: string;
+  timestamp: number;
+}
+
+export interface TranscriptSession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  pipelineMode?: string;
+  entries: TranscriptEntry[];
+  questions: DetectedQuestion[];
+  answers: TranscriptAnswer[];
+}
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'markdown' | 'json';
+
+export interface TranscriptSessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  entryCount: number;
+  questionCount: number;
+  preview: string;
+}
@@ -1,4 +1,4 @@
-export import { AudioStreamState, DetectedQuestion } from './audio-stream'
+export import { AnswerCancelledEvent, AnswerModelInfo, AnswerQuestionOptions, AudioInputDeviceSelection, AudioLevels, AudioRecordingInfo, AudioRecordingState, AudioStreamState, CachedAnswerEvent, ConnectionDegradedEvent, ConnectionRestoredEvent, DetectedQuestion, PreparedAnswerMatch, PreparedSession, SessionPrepProgress, SpeakerInfo, TranscriptExportFormat, TranscriptSession, TranscriptSessionSummary, VoiceActivityGateStats } from './audio-stream'
 
 // Audio source type
 interface AudioSource {
@@ -38,7 +38,7 @@ interface ElectronAPI {
   invoke: (channel: string, ...args: any[]) => Promise<any>
   
   // Mode-enabled chat methods
-  "gemini-chat-mode": (message: string, modeKey?: string, collectionId?: string) => Promise<{ text?: string; modeResponse?: any; response?: string }>
+  "gemini-chat-mode": (message: string, modeKey?: string, collectionId?: string) => Promise<{ text?: string; modeResponse?: any; response?: string; answeredBy?: AnswerModelInfo }>
   "get-available-modes": () => Promise<Array<{ key: string; displayName: string; description: string }>>
   
   // Auth methods
@@ -61,7 +61,21 @@ interface ElectronAPI {
   audioStreamGetState: () => Promise<AudioStreamState>
   audioStreamGetQuestions: () => Promise<DetectedQuestion[]>
   audioStreamClearQuestions: () => Promise<{ success: boolean; error?: string }>
-  audioStreamAnswerQuestion: (questionText: string, collectionId?: string) => Promise<{ response: string; timestamp: number }>
+  audioStreamAnswerQuestion: (questionText: string, collectionId?: string, options?: AnswerQuestionOptions) => Promise<{ response: string; timestamp: number }>
+  // Pass a requestId to be able to stop the answer with audioStreamCancelAnswer
+  // onCached receives a previously cached answer to show while the fresh one streams (ANSWER_CACHE_REFRESH)
+  audioStreamAnswerQuestionStreaming: (questionText: string, collectionId: string | undefined, onChunk: (chunk: string) => void, options?: AnswerQuestionOptions, requestId?: string, onCached?: (cached: CachedAnswerEvent) => void) => Promise<{ response: string; ragContext: any; answeredBy?: AnswerModelInfo; fromCache?: boolean; cachedAt?: number; timestamp: number; cancelled?: boolean }>
+  audioStreamCancelAnswer: (requestId: string) => Promise<{ success: boolean; cancelled: boolean; error?: string }>
+  onAudioAnswerCancelled: (callback: (event: AnswerCancelledEvent) => void) => () => void
+  answerCacheGetStats: () => Promise<{ success: boolean; entries?: number; oldestAt?: number | null; enabled?: boolean; error?: string }>
+  answerCachePurge: (collectionId?: string) => Promise<{ success: boolean; removed?: number; error?: string }>
+
+  // Session preparation methods (drafts for questions anticipated from a job description)
+  sessionPrepStart: (jobDescription: string, modeKey: string, collectionId?: string) => Promise<{ success: boolean; session?: PreparedSession; error?: string }>
+  sessionPrepGet: () => Promise<{ success: boolean; session?: PreparedSession | null; preparing?: boolean; error?: string }>
+  sessionPrepClear: () => Promise<{ success: boolean; error?: string }>
+  onSessionPrepProgress: (callback: (progress: SessionPrepProgress) => void) => () => void
+  onAudioPreparedAnswerMatched: (callback: (match: PreparedAnswerMatch) => void) => () => void
   
   // Microphone capture from renderer (new - MicrophoneCapture service)
   audioProcessMicrophoneChunk: (audioData: Float32Array) => Promise<{ success: boolean; error?: string }>
@@ -70,7 +84,18 @@ interface ElectronAPI {
   dualAudioStart: (systemAudioSourceId?: string) => Promise<{ success: boolean; error?: string }>
   dualAudioStop: () => Promise<{ success: boolean; error?: string }>
   dualAudioProcessMicrophoneChunk: (audioData: Float32Array) => Promise<{ success: boolean; error?: string }>
-  dualAudioGetState: () => Promise<{ isCapturing: boolean; geminiState: any }>
+  dualAudioGetState: () => Promise<{ isCapturing: boolean; geminiState: any; audioGate?: { user: VoiceActivityGateStats; opponent: VoiceActivityGateStats } }>
+  dualAudioSetPipelineMode: (mode: 'gemini-live' | 'deepgram-streaming' | 'local-streaming') => Promise<{ success: boolean; error?: string }>
+  dualAudioReplayFiles: (request: { user?: string; opponent?: string; speed?: number; chunkMs?: number; settleMs?: number }) => Promise<{
+    success: boolean
+    summary?: { audioMs: number; elapsedMs: number; chunksSent: number; stopped: boolean; pipelineMode: string; questions: DetectedQuestion[] }
+    error?: string
+  }>
+  dualAudioSetRecordingConsent: (consent: boolean) => Promise<{ success: boolean; state?: AudioRecordingState; error?: string }>
+  dualAudioGetSpeakers: () => Promise<{ speakers: SpeakerInfo[] }>
+  dualAudioRenameSpeaker: (index: number, name: string) => Promise<{ success: boolean; label?: string; error?: string }>
+  getConversationLanguage: () => Promise<{ language: 'ja' | 'en' | 'auto' }>
+  setConversationLanguage: (language: 'ja' | 'en' | 'auto') => Promise<{ success: boolean; error?: string }>
   dualAudioGetQuestions: () => Promise<DetectedQuestion[]>
   dualAudioClearQuestions: () => Promise<{ success: boolean; error?: string }>
   
@@ -79,14 +104,34 @@ interface ElectronAPI {
   audioSwitchSource: (sourceId: string) => Promise<{ success: boolean; error?: string }>
   audioRequestPermissions: () => Promise<{ granted: boolean; error?: string }>
   audioCheckSystemSupport: () => Promise<{ supported: boolean }>
+  audioGetInputDevice: () => Promise<{ device: AudioInputDeviceSelection | null }>
+  audioSetInputDevice: (device: AudioInputDeviceSelection | null) => Promise<{ success: boolean; error?: string }>
+  onAudioInputDeviceChanged: (callback: (device: AudioInputDeviceSelection | null) => void) => () => void
   
   // Audio Stream event listeners
   onAudioQuestionDetected: (callback: (question: DetectedQuestion) => void) => () => void
+  onAudioQuestionUpdated: (callback: (question: DetectedQuestion) => void) => () => void
   onAudioBatchProcessed: (callback: (questions: DetectedQuestion[]) => void) => () => void
   onAudioStreamStateChanged: (callback: (state: AudioStreamState) => void) => () => void
   onAudioStreamError: (callback: (error: string) => void) => () => void
+  onAudioSpeakersChanged: (callback: (speakers: SpeakerInfo[]) => void) => () => void
+  onAudioConnectionDegraded: (callback: (event: ConnectionDegradedEvent) => void) => () => void
+  onAudioConnectionRestored: (callback: (event: ConnectionRestoredEvent) => void) => () => void
+  onAudioRecordingChanged: (callback: (state: AudioRecordingState) => void) => () => void
+  onAudioLevels: (callback: (levels: AudioLevels) => void) => () => void
   onChatToggle: (callback: () => void) => () => void
   onListenToggle: (callback: () => void) => () => void
+
+  // Session transcript methods
+  transcriptListSessions: () => Promise<{ success: boolean; sessions: TranscriptSessionSummary[]; error?: string }>
+  transcriptLoadSession: (sessionId: string) => Promise<{ success: boolean; session?: TranscriptSession; error?: string }>
+  transcriptDeleteSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>
+  transcriptExportSession: (format: TranscriptExportFormat, sessionId?: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>
+
+  // Session recording methods
+  recordingList: () => Promise<{ success: boolean; recordings: AudioRecordingInfo[]; error?: string }>
+  recordingDelete: (recordingId: string) => Promise<{ success: boolean; error?: string }>
+  recordingGetClip: (recordingId: string, source: 'user' | 'opponent', offsetMs: number, durationMs: number) => Promise<{ success: boolean; data?: string; mimeType?: string; error?: string }>
   
   // Permission methods
   permissionGetStatus: () => Promise<{ microphone: 'granted' | 'denied' | 'not-determined' | 'unknown'; screenCapture: 'granted' | 'denied' | 'not-determined' | 'unknown'; systemAudio: 'granted' | 'denied' | 'not-determined' | 'unknown' }>
@@ -1,4 +1,6 @@
 // モード機能の型定義
+import type { AnswerModelInfo } from './audio-stream'
+
 export interface ModeConfig {
   key: string
   displayName: string
@@ -86,6 +88,8 @@ export interface CompatibleResponse {
   modeResponse?: ModeResponse // 新しいモードレスポンス
   timestamp: number
   ragContext?: any
+  answeredBy?: AnswerModelInfo // 実際に回答したモデル（フォールバック時は代替モデル）
+  cachedAt?: number // 保存済みの回答を返した場合、その回答の生成時刻
 }
 
 // モード選択のUI用